@@ -0,0 +1,32 @@
+-- AlterTable
+ALTER TABLE "public"."sub_loans" ADD COLUMN     "penaltyAmount" DECIMAL(40,2) NOT NULL DEFAULT 0,
+ADD COLUMN     "penaltyPaid" DECIMAL(40,2) NOT NULL DEFAULT 0;
+
+-- AlterTable
+ALTER TABLE "public"."payments" ADD COLUMN     "penaltyAmount" DECIMAL(40,2) NOT NULL DEFAULT 0;
+
+-- CreateTable
+CREATE TABLE "public"."sub_loan_penalty_accruals" (
+    "id" TEXT NOT NULL,
+    "subLoanId" TEXT NOT NULL,
+    "accrualDate" TIMESTAMP(3) NOT NULL,
+    "daysOverdue" INTEGER NOT NULL,
+    "baseAmount" DECIMAL(40,2) NOT NULL,
+    "rate" DECIMAL(5,2) NOT NULL,
+    "amount" DECIMAL(40,2) NOT NULL,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "sub_loan_penalty_accruals_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "sub_loan_penalty_accruals_subLoanId_idx" ON "public"."sub_loan_penalty_accruals"("subLoanId");
+
+-- CreateIndex
+CREATE INDEX "sub_loan_penalty_accruals_accrualDate_idx" ON "public"."sub_loan_penalty_accruals"("accrualDate");
+
+-- CreateIndex
+CREATE UNIQUE INDEX "sub_loan_penalty_accruals_subLoanId_accrualDate_key" ON "public"."sub_loan_penalty_accruals"("subLoanId", "accrualDate");
+
+-- AddForeignKey
+ALTER TABLE "public"."sub_loan_penalty_accruals" ADD CONSTRAINT "sub_loan_penalty_accruals_subLoanId_fkey" FOREIGN KEY ("subLoanId") REFERENCES "public"."sub_loans"("id") ON DELETE CASCADE ON UPDATE CASCADE;
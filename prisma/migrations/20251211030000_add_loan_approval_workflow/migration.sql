@@ -0,0 +1,7 @@
+-- AlterTable
+ALTER TABLE "public"."users" ADD COLUMN     "requiresLoanApproval" BOOLEAN NOT NULL DEFAULT false;
+
+-- AlterTable
+ALTER TABLE "public"."loans" ADD COLUMN     "rejectedDate" TIMESTAMP(3),
+ADD COLUMN     "rejectionReason" TEXT,
+ADD COLUMN     "reviewedById" TEXT;
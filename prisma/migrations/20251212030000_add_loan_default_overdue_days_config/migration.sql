@@ -0,0 +1,2 @@
+-- AlterEnum
+ALTER TYPE "public"."ConfigKey" ADD VALUE 'LOAN_DEFAULT_OVERDUE_DAYS';
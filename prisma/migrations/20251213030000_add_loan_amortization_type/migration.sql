@@ -0,0 +1,11 @@
+-- CreateEnum
+CREATE TYPE "public"."AmortizationType" AS ENUM ('FLAT', 'FRENCH', 'GERMAN');
+
+-- AlterTable
+ALTER TABLE "public"."loans" ADD COLUMN     "amortizationType" "public"."AmortizationType" NOT NULL DEFAULT 'FLAT';
+
+-- AlterTable
+ALTER TABLE "public"."sub_loans" ADD COLUMN     "interestAmount" DECIMAL(40,2) NOT NULL DEFAULT 0;
+
+-- Backfill: las cuotas existentes usan interés plano (totalAmount = capital + interés)
+UPDATE "public"."sub_loans" SET "interestAmount" = "totalAmount" - "amount";
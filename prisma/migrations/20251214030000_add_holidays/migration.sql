@@ -0,0 +1,17 @@
+-- CreateEnum
+CREATE TYPE "public"."HolidayType" AS ENUM ('NATIONAL', 'BRIDGE', 'CUSTOM');
+
+-- CreateTable
+CREATE TABLE "public"."holidays" (
+    "id" TEXT NOT NULL,
+    "date" DATE NOT NULL,
+    "name" TEXT NOT NULL,
+    "type" "public"."HolidayType" NOT NULL DEFAULT 'NATIONAL',
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "holidays_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE UNIQUE INDEX "holidays_date_key" ON "public"."holidays"("date");
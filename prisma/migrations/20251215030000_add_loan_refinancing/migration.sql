@@ -0,0 +1,14 @@
+-- AlterEnum
+ALTER TYPE "public"."LoanStatus" ADD VALUE 'REFINANCED';
+
+-- AlterEnum
+ALTER TYPE "public"."SubLoanStatus" ADD VALUE 'REFINANCED';
+
+-- AlterTable
+ALTER TABLE "public"."loans" ADD COLUMN     "refinancedFromId" TEXT;
+
+-- CreateIndex
+CREATE UNIQUE INDEX "loans_refinancedFromId_key" ON "public"."loans"("refinancedFromId");
+
+-- AddForeignKey
+ALTER TABLE "public"."loans" ADD CONSTRAINT "loans_refinancedFromId_fkey" FOREIGN KEY ("refinancedFromId") REFERENCES "public"."loans"("id") ON DELETE SET NULL ON UPDATE CASCADE;
@@ -0,0 +1,6 @@
+-- AlterEnum
+ALTER TYPE "public"."ConfigKey" ADD VALUE 'EARLY_PAYOFF_UNEARNED_INTEREST_PERCENT';
+
+-- AlterTable
+ALTER TABLE "public"."payments" ADD COLUMN     "interestRebate" DECIMAL(40,2) NOT NULL DEFAULT 0,
+ADD COLUMN     "isEarlyPayoff" BOOLEAN NOT NULL DEFAULT false;
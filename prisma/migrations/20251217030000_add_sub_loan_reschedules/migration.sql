@@ -0,0 +1,22 @@
+-- CreateTable
+CREATE TABLE "public"."sub_loan_reschedules" (
+    "id" TEXT NOT NULL,
+    "subLoanId" TEXT NOT NULL,
+    "previousDueDate" TIMESTAMP(3) NOT NULL,
+    "newDueDate" TIMESTAMP(3) NOT NULL,
+    "reason" TEXT NOT NULL,
+    "batchId" TEXT,
+    "rescheduledById" TEXT,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "sub_loan_reschedules_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "sub_loan_reschedules_subLoanId_idx" ON "public"."sub_loan_reschedules"("subLoanId");
+
+-- CreateIndex
+CREATE INDEX "sub_loan_reschedules_batchId_idx" ON "public"."sub_loan_reschedules"("batchId");
+
+-- AddForeignKey
+ALTER TABLE "public"."sub_loan_reschedules" ADD CONSTRAINT "sub_loan_reschedules_subLoanId_fkey" FOREIGN KEY ("subLoanId") REFERENCES "public"."sub_loans"("id") ON DELETE CASCADE ON UPDATE CASCADE;
@@ -0,0 +1,19 @@
+-- CreateTable
+CREATE TABLE "public"."idempotency_keys" (
+    "id" TEXT NOT NULL,
+    "key" TEXT NOT NULL,
+    "userId" TEXT NOT NULL,
+    "endpoint" TEXT NOT NULL,
+    "requestHash" TEXT NOT NULL,
+    "response" JSONB,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "idempotency_keys_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "idempotency_keys_createdAt_idx" ON "public"."idempotency_keys"("createdAt");
+
+-- CreateIndex
+CREATE UNIQUE INDEX "idempotency_keys_userId_endpoint_key_key" ON "public"."idempotency_keys"("userId", "endpoint", "key");
@@ -0,0 +1,66 @@
+-- CreateEnum
+CREATE TYPE "public"."PaymentMethod" AS ENUM ('CASH', 'BANK_TRANSFER', 'MERCADO_PAGO', 'OTHER');
+
+-- CreateEnum
+CREATE TYPE "public"."BankAccountTransactionType" AS ENUM ('COLLECTION', 'PAYMENT_RESET');
+
+-- AlterTable
+ALTER TABLE "public"."payments" ADD COLUMN     "paymentMethod" "public"."PaymentMethod" NOT NULL DEFAULT 'CASH',
+ADD COLUMN     "externalReference" TEXT,
+ADD COLUMN     "payerName" TEXT;
+
+-- CreateTable
+CREATE TABLE "public"."bank_accounts" (
+    "id" TEXT NOT NULL,
+    "userId" TEXT NOT NULL,
+    "balance" DECIMAL(40,2) NOT NULL DEFAULT 0,
+    "currency" "public"."Currency" NOT NULL DEFAULT 'ARS',
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "bank_accounts_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateTable
+CREATE TABLE "public"."bank_account_transactions" (
+    "id" TEXT NOT NULL,
+    "accountId" TEXT NOT NULL,
+    "userId" TEXT NOT NULL,
+    "type" "public"."BankAccountTransactionType" NOT NULL,
+    "paymentMethod" "public"."PaymentMethod" NOT NULL,
+    "amount" DECIMAL(40,2) NOT NULL,
+    "currency" "public"."Currency" NOT NULL DEFAULT 'ARS',
+    "description" TEXT NOT NULL,
+    "externalReference" TEXT,
+    "balanceBefore" DECIMAL(40,2) NOT NULL,
+    "balanceAfter" DECIMAL(40,2) NOT NULL,
+    "subLoanId" TEXT,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "bank_account_transactions_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE UNIQUE INDEX "bank_accounts_userId_key" ON "public"."bank_accounts"("userId");
+
+-- CreateIndex
+CREATE INDEX "bank_account_transactions_accountId_idx" ON "public"."bank_account_transactions"("accountId");
+
+-- CreateIndex
+CREATE INDEX "bank_account_transactions_userId_idx" ON "public"."bank_account_transactions"("userId");
+
+-- CreateIndex
+CREATE INDEX "bank_account_transactions_createdAt_idx" ON "public"."bank_account_transactions"("createdAt");
+
+-- CreateIndex
+CREATE INDEX "bank_account_transactions_subLoanId_idx" ON "public"."bank_account_transactions"("subLoanId");
+
+-- AddForeignKey
+ALTER TABLE "public"."bank_accounts" ADD CONSTRAINT "bank_accounts_userId_fkey" FOREIGN KEY ("userId") REFERENCES "public"."users"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "public"."bank_account_transactions" ADD CONSTRAINT "bank_account_transactions_accountId_fkey" FOREIGN KEY ("accountId") REFERENCES "public"."bank_accounts"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "public"."bank_account_transactions" ADD CONSTRAINT "bank_account_transactions_userId_fkey" FOREIGN KEY ("userId") REFERENCES "public"."users"("id") ON DELETE CASCADE ON UPDATE CASCADE;
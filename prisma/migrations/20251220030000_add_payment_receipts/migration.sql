@@ -0,0 +1,18 @@
+-- AlterTable
+ALTER TABLE "public"."payments" ADD COLUMN     "receiptScopeId" TEXT,
+ADD COLUMN     "receiptNumber" INTEGER,
+ADD COLUMN     "verificationCode" TEXT;
+
+-- CreateTable
+CREATE TABLE "public"."receipt_sequences" (
+    "scopeId" TEXT NOT NULL,
+    "next" INTEGER NOT NULL DEFAULT 1,
+
+    CONSTRAINT "receipt_sequences_pkey" PRIMARY KEY ("scopeId")
+);
+
+-- CreateIndex
+CREATE UNIQUE INDEX "payments_verificationCode_key" ON "public"."payments"("verificationCode");
+
+-- CreateIndex
+CREATE UNIQUE INDEX "payments_receiptScopeId_receiptNumber_key" ON "public"."payments"("receiptScopeId", "receiptNumber");
@@ -0,0 +1,8 @@
+-- CreateEnum
+CREATE TYPE "public"."PaymentStatus" AS ENUM ('COMPLETED', 'VOIDED');
+
+-- AlterTable
+ALTER TABLE "public"."payments" ADD COLUMN     "status" "public"."PaymentStatus" NOT NULL DEFAULT 'COMPLETED',
+ADD COLUMN     "voidedAt" TIMESTAMP(3),
+ADD COLUMN     "voidedById" TEXT,
+ADD COLUMN     "voidReason" TEXT;
@@ -0,0 +1,34 @@
+-- CreateEnum
+CREATE TYPE "public"."PaymentAllocationStrategy" AS ENUM ('TARGET_FIRST', 'OLDEST_FIRST', 'PENALTIES_INTEREST_PRINCIPAL');
+
+-- AlterTable
+ALTER TABLE "public"."users" ADD COLUMN     "allocationStrategy" "public"."PaymentAllocationStrategy" NOT NULL DEFAULT 'TARGET_FIRST';
+
+-- AlterTable
+ALTER TABLE "public"."loans" ADD COLUMN     "allocationStrategy" "public"."PaymentAllocationStrategy";
+
+-- CreateTable
+CREATE TABLE "public"."payment_allocations" (
+    "id" TEXT NOT NULL,
+    "paymentId" TEXT NOT NULL,
+    "subLoanId" TEXT NOT NULL,
+    "strategy" "public"."PaymentAllocationStrategy",
+    "penaltyAmount" DECIMAL(40,2) NOT NULL DEFAULT 0,
+    "interestAmount" DECIMAL(40,2) NOT NULL DEFAULT 0,
+    "principalAmount" DECIMAL(40,2) NOT NULL DEFAULT 0,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "payment_allocations_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "payment_allocations_paymentId_idx" ON "public"."payment_allocations"("paymentId");
+
+-- CreateIndex
+CREATE INDEX "payment_allocations_subLoanId_idx" ON "public"."payment_allocations"("subLoanId");
+
+-- AddForeignKey
+ALTER TABLE "public"."payment_allocations" ADD CONSTRAINT "payment_allocations_paymentId_fkey" FOREIGN KEY ("paymentId") REFERENCES "public"."payments"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "public"."payment_allocations" ADD CONSTRAINT "payment_allocations_subLoanId_fkey" FOREIGN KEY ("subLoanId") REFERENCES "public"."sub_loans"("id") ON DELETE CASCADE ON UPDATE CASCADE;
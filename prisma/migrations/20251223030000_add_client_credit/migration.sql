@@ -0,0 +1,61 @@
+-- CreateEnum
+CREATE TYPE "public"."ClientCreditMovementType" AS ENUM ('OVERPAYMENT', 'DEPOSIT', 'APPLICATION', 'PAYMENT_REVERSAL', 'OVERPAYMENT_REVERSAL');
+
+-- AlterEnum
+ALTER TYPE "public"."PaymentMethod" ADD VALUE 'CLIENT_CREDIT';
+
+-- AlterEnum
+ALTER TYPE "public"."CollectorWalletTransactionType" ADD VALUE 'CLIENT_CREDIT';
+
+-- AlterEnum
+ALTER TYPE "public"."BankAccountTransactionType" ADD VALUE 'CLIENT_CREDIT';
+
+-- CreateTable
+CREATE TABLE "public"."client_credits" (
+    "id" TEXT NOT NULL,
+    "clientId" TEXT NOT NULL,
+    "currency" "public"."Currency" NOT NULL DEFAULT 'ARS',
+    "balance" DECIMAL(40,2) NOT NULL DEFAULT 0,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "client_credits_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateTable
+CREATE TABLE "public"."client_credit_movements" (
+    "id" TEXT NOT NULL,
+    "creditId" TEXT NOT NULL,
+    "type" "public"."ClientCreditMovementType" NOT NULL,
+    "amount" DECIMAL(40,2) NOT NULL,
+    "balanceBefore" DECIMAL(40,2) NOT NULL,
+    "balanceAfter" DECIMAL(40,2) NOT NULL,
+    "description" TEXT NOT NULL,
+    "paymentMethod" "public"."PaymentMethod",
+    "managerId" TEXT,
+    "paymentId" TEXT,
+    "subLoanId" TEXT,
+    "loanId" TEXT,
+    "createdById" TEXT,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "client_credit_movements_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE UNIQUE INDEX "client_credits_clientId_currency_key" ON "public"."client_credits"("clientId", "currency");
+
+-- CreateIndex
+CREATE INDEX "client_credit_movements_creditId_idx" ON "public"."client_credit_movements"("creditId");
+
+-- CreateIndex
+CREATE INDEX "client_credit_movements_paymentId_idx" ON "public"."client_credit_movements"("paymentId");
+
+-- CreateIndex
+CREATE INDEX "client_credit_movements_createdAt_idx" ON "public"."client_credit_movements"("createdAt");
+
+-- AddForeignKey
+ALTER TABLE "public"."client_credits" ADD CONSTRAINT "client_credits_clientId_fkey" FOREIGN KEY ("clientId") REFERENCES "public"."clients"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "public"."client_credit_movements" ADD CONSTRAINT "client_credit_movements_creditId_fkey" FOREIGN KEY ("creditId") REFERENCES "public"."client_credits"("id") ON DELETE CASCADE ON UPDATE CASCADE;
@@ -0,0 +1,27 @@
+-- CreateEnum
+CREATE TYPE "public"."SyncOperationType" AS ENUM ('PAYMENT', 'ROUTE_EXPENSE', 'ROUTE_ITEM_NOTE');
+
+-- CreateEnum
+CREATE TYPE "public"."SyncOperationStatus" AS ENUM ('PENDING', 'APPLIED', 'CONFLICT', 'FAILED');
+
+-- CreateTable
+CREATE TABLE "public"."sync_operations" (
+    "id" TEXT NOT NULL,
+    "userId" TEXT NOT NULL,
+    "clientOperationId" TEXT NOT NULL,
+    "type" "public"."SyncOperationType" NOT NULL,
+    "status" "public"."SyncOperationStatus" NOT NULL DEFAULT 'PENDING',
+    "deviceTimestamp" TIMESTAMP(3) NOT NULL,
+    "result" JSONB,
+    "error" TEXT,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "sync_operations_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "sync_operations_createdAt_idx" ON "public"."sync_operations"("createdAt");
+
+-- CreateIndex
+CREATE UNIQUE INDEX "sync_operations_userId_clientOperationId_key" ON "public"."sync_operations"("userId", "clientOperationId");
@@ -0,0 +1,39 @@
+-- CreateEnum
+CREATE TYPE "public"."PaymentPromiseStatus" AS ENUM ('PENDING', 'KEPT', 'BROKEN');
+
+-- CreateTable
+CREATE TABLE "public"."payment_promises" (
+    "id" TEXT NOT NULL,
+    "subLoanId" TEXT NOT NULL,
+    "clientId" TEXT NOT NULL,
+    "managerId" TEXT,
+    "promisedDate" TIMESTAMP(3) NOT NULL,
+    "amount" DECIMAL(40,2) NOT NULL,
+    "paidAmount" DECIMAL(40,2) NOT NULL DEFAULT 0,
+    "status" "public"."PaymentPromiseStatus" NOT NULL DEFAULT 'PENDING',
+    "notes" TEXT,
+    "createdById" TEXT NOT NULL,
+    "resolvedAt" TIMESTAMP(3),
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "payment_promises_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "payment_promises_subLoanId_idx" ON "public"."payment_promises"("subLoanId");
+
+-- CreateIndex
+CREATE INDEX "payment_promises_clientId_idx" ON "public"."payment_promises"("clientId");
+
+-- CreateIndex
+CREATE INDEX "payment_promises_managerId_idx" ON "public"."payment_promises"("managerId");
+
+-- CreateIndex
+CREATE INDEX "payment_promises_status_promisedDate_idx" ON "public"."payment_promises"("status", "promisedDate");
+
+-- AddForeignKey
+ALTER TABLE "public"."payment_promises" ADD CONSTRAINT "payment_promises_subLoanId_fkey" FOREIGN KEY ("subLoanId") REFERENCES "public"."sub_loans"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "public"."payment_promises" ADD CONSTRAINT "payment_promises_clientId_fkey" FOREIGN KEY ("clientId") REFERENCES "public"."clients"("id") ON DELETE CASCADE ON UPDATE CASCADE;
@@ -0,0 +1,89 @@
+-- CreateEnum
+CREATE TYPE "public"."BankImportStatus" AS ENUM ('REVIEW', 'COMPLETED');
+
+-- CreateEnum
+CREATE TYPE "public"."BankLineStatus" AS ENUM ('CONFIRMED', 'AMBIGUOUS', 'UNMATCHED', 'DUPLICATE', 'IGNORED', 'REGISTERED', 'FAILED');
+
+-- CreateEnum
+CREATE TYPE "public"."BankLineMatchMethod" AS ENUM ('LOAN_TRACK', 'DOCUMENT', 'AMOUNT', 'MANUAL');
+
+-- CreateTable
+CREATE TABLE "public"."bank_import_profiles" (
+    "id" TEXT NOT NULL,
+    "ownerId" TEXT NOT NULL,
+    "name" TEXT NOT NULL,
+    "delimiter" TEXT NOT NULL DEFAULT ',',
+    "hasHeader" BOOLEAN NOT NULL DEFAULT true,
+    "skipRows" INTEGER NOT NULL DEFAULT 0,
+    "dateColumn" TEXT NOT NULL,
+    "dateFormat" TEXT NOT NULL DEFAULT 'dd/MM/yyyy',
+    "amountColumn" TEXT NOT NULL,
+    "decimalSeparator" TEXT NOT NULL DEFAULT ',',
+    "descriptionColumn" TEXT,
+    "referenceColumn" TEXT,
+    "documentColumn" TEXT,
+    "payerNameColumn" TEXT,
+    "currency" "public"."Currency" NOT NULL DEFAULT 'ARS',
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "bank_import_profiles_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateTable
+CREATE TABLE "public"."bank_statement_imports" (
+    "id" TEXT NOT NULL,
+    "profileId" TEXT NOT NULL,
+    "ownerId" TEXT NOT NULL,
+    "fileName" TEXT,
+    "status" "public"."BankImportStatus" NOT NULL DEFAULT 'REVIEW',
+    "totalLines" INTEGER NOT NULL DEFAULT 0,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "bank_statement_imports_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateTable
+CREATE TABLE "public"."bank_statement_lines" (
+    "id" TEXT NOT NULL,
+    "importId" TEXT NOT NULL,
+    "lineNumber" INTEGER NOT NULL,
+    "transactionDate" TIMESTAMP(3) NOT NULL,
+    "amount" DECIMAL(40,2) NOT NULL,
+    "description" TEXT,
+    "reference" TEXT,
+    "payerDocument" TEXT,
+    "payerName" TEXT,
+    "status" "public"."BankLineStatus" NOT NULL,
+    "matchMethod" "public"."BankLineMatchMethod",
+    "subLoanId" TEXT,
+    "candidates" JSONB,
+    "paymentId" TEXT,
+    "error" TEXT,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "bank_statement_lines_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE UNIQUE INDEX "bank_import_profiles_ownerId_name_key" ON "public"."bank_import_profiles"("ownerId", "name");
+
+-- CreateIndex
+CREATE INDEX "bank_statement_imports_ownerId_idx" ON "public"."bank_statement_imports"("ownerId");
+
+-- CreateIndex
+CREATE INDEX "bank_statement_imports_createdAt_idx" ON "public"."bank_statement_imports"("createdAt");
+
+-- CreateIndex
+CREATE INDEX "bank_statement_lines_importId_idx" ON "public"."bank_statement_lines"("importId");
+
+-- CreateIndex
+CREATE INDEX "bank_statement_lines_reference_idx" ON "public"."bank_statement_lines"("reference");
+
+-- AddForeignKey
+ALTER TABLE "public"."bank_statement_imports" ADD CONSTRAINT "bank_statement_imports_profileId_fkey" FOREIGN KEY ("profileId") REFERENCES "public"."bank_import_profiles"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "public"."bank_statement_lines" ADD CONSTRAINT "bank_statement_lines_importId_fkey" FOREIGN KEY ("importId") REFERENCES "public"."bank_statement_imports"("id") ON DELETE CASCADE ON UPDATE CASCADE;
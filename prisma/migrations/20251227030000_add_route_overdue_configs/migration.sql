@@ -0,0 +1,3 @@
+-- AlterEnum
+ALTER TYPE "public"."ConfigKey" ADD VALUE 'ROUTE_OVERDUE_LOOKBACK_DAYS';
+ALTER TYPE "public"."ConfigKey" ADD VALUE 'ROUTE_ITEM_PRIORITY';
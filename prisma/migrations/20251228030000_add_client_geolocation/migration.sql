@@ -0,0 +1,12 @@
+-- CreateEnum
+CREATE TYPE "public"."ClientLocationSource" AS ENUM ('DEVICE', 'MANUAL');
+
+-- AlterTable
+ALTER TABLE "public"."users" ADD COLUMN     "homeLatitude" DOUBLE PRECISION,
+ADD COLUMN     "homeLongitude" DOUBLE PRECISION;
+
+-- AlterTable
+ALTER TABLE "public"."clients" ADD COLUMN     "latitude" DOUBLE PRECISION,
+ADD COLUMN     "locationSource" "public"."ClientLocationSource",
+ADD COLUMN     "locationUpdatedAt" TIMESTAMP(3),
+ADD COLUMN     "longitude" DOUBLE PRECISION;
@@ -0,0 +1,14 @@
+-- CreateEnum
+CREATE TYPE "public"."VisitOutcome" AS ENUM ('PAID', 'NOT_HOME', 'REFUSED', 'MOVED', 'PROMISED_TO_PAY');
+
+-- AlterEnum
+ALTER TYPE "public"."ConfigKey" ADD VALUE 'NOT_HOME_FLAG_THRESHOLD';
+
+-- AlterEnum
+ALTER TYPE "public"."SyncOperationType" ADD VALUE 'ROUTE_ITEM_VISIT';
+
+-- AlterTable
+ALTER TABLE "public"."collection_route_items" ADD COLUMN     "visitLatitude" DOUBLE PRECISION,
+ADD COLUMN     "visitLongitude" DOUBLE PRECISION,
+ADD COLUMN     "visitOutcome" "public"."VisitOutcome",
+ADD COLUMN     "visitedAt" TIMESTAMP(3);
@@ -0,0 +1,39 @@
+-- CreateEnum
+CREATE TYPE "public"."RouteDelegationWallet" AS ENUM ('MANAGER', 'SUBSTITUTE');
+
+-- AlterTable
+ALTER TABLE "public"."payments" ADD COLUMN     "collectorWalletUserId" TEXT,
+ADD COLUMN     "routeDelegationId" TEXT;
+
+-- CreateTable
+CREATE TABLE "public"."route_delegations" (
+    "id" TEXT NOT NULL,
+    "managerId" TEXT NOT NULL,
+    "substituteId" TEXT NOT NULL,
+    "dateFrom" TIMESTAMP(3) NOT NULL,
+    "dateTo" TIMESTAMP(3) NOT NULL,
+    "walletTarget" "public"."RouteDelegationWallet" NOT NULL DEFAULT 'MANAGER',
+    "reason" TEXT,
+    "createdById" TEXT NOT NULL,
+    "revokedAt" TIMESTAMP(3),
+    "revokedById" TEXT,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "route_delegations_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "route_delegations_managerId_dateFrom_dateTo_idx" ON "public"."route_delegations"("managerId", "dateFrom", "dateTo");
+
+-- CreateIndex
+CREATE INDEX "route_delegations_substituteId_dateFrom_dateTo_idx" ON "public"."route_delegations"("substituteId", "dateFrom", "dateTo");
+
+-- AddForeignKey
+ALTER TABLE "public"."payments" ADD CONSTRAINT "payments_routeDelegationId_fkey" FOREIGN KEY ("routeDelegationId") REFERENCES "public"."route_delegations"("id") ON DELETE SET NULL ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "public"."route_delegations" ADD CONSTRAINT "route_delegations_managerId_fkey" FOREIGN KEY ("managerId") REFERENCES "public"."users"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "public"."route_delegations" ADD CONSTRAINT "route_delegations_substituteId_fkey" FOREIGN KEY ("substituteId") REFERENCES "public"."users"("id") ON DELETE CASCADE ON UPDATE CASCADE;
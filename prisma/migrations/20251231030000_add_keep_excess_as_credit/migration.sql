@@ -0,0 +1,5 @@
+-- AlterTable
+ALTER TABLE "public"."users" ADD COLUMN     "keepExcessAsCredit" BOOLEAN NOT NULL DEFAULT false;
+
+-- AlterTable
+ALTER TABLE "public"."loans" ADD COLUMN     "keepExcessAsCredit" BOOLEAN;
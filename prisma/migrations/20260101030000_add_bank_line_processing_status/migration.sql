@@ -0,0 +1,2 @@
+-- AlterEnum
+ALTER TYPE "public"."BankLineStatus" ADD VALUE 'PROCESSING';
@@ -0,0 +1,2 @@
+-- AlterEnum
+ALTER TYPE "public"."ConfigKey" ADD VALUE 'NOT_HOME_WINDOW_DAYS';
@@ -21,7 +21,10 @@ import { AuditModule } from './audit/audit.module';
 import { CollectionRoutesModule } from './collection-routes/collection-routes.module';
 import { CollectorWalletModule } from './collector-wallet/collector-wallet.module';
 import { SafeModule } from './safe/safe.module';
+import { HolidaysModule } from './holidays/holidays.module';
 import { RabbitMQModule } from './rabbitmq/rabbitmq.module';
+import { SyncModule } from './sync/sync.module';
+import { BankImportsModule } from './bank-imports/bank-imports.module';
 import { AuditInterceptor } from './common/interceptors/audit.interceptor';
 import { HttpLoggingInterceptor } from './common/interceptors/http-logging.interceptor';
 import { ResponseInterceptor } from './common/interceptors/response.interceptor';
@@ -58,7 +61,10 @@ import configuration from './config/configuration';
     CollectionRoutesModule,
     CollectorWalletModule,
     SafeModule,
+    HolidaysModule,
     RabbitMQModule,
+    SyncModule,
+    BankImportsModule,
   ],
   controllers: [AppController],
   providers: [
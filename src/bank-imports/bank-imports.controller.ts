@@ -0,0 +1,206 @@
+import {
+  Controller,
+  Get,
+  Post,
+  Patch,
+  Delete,
+  Body,
+  Param,
+  UseGuards,
+  Request,
+} from '@nestjs/common';
+import {
+  ApiTags,
+  ApiOperation,
+  ApiResponse,
+  ApiBearerAuth,
+  ApiParam,
+} from '@nestjs/swagger';
+import { BankImportsService } from './bank-imports.service';
+import {
+  CreateBankImportProfileDto,
+  UpdateBankImportProfileDto,
+  CreateBankStatementImportDto,
+  ReviewBankStatementLineDto,
+} from './dto';
+import { JwtAuthGuard } from '../common/guards/jwt-auth.guard';
+import { RolesGuard } from '../common/guards/roles.guard';
+import { Roles } from '../common/decorators/roles.decorator';
+import { UserRole } from '../common/enums';
+
+@ApiTags('Bank Imports')
+@Controller('bank-imports')
+@UseGuards(JwtAuthGuard, RolesGuard)
+@ApiBearerAuth()
+export class BankImportsController {
+  constructor(private readonly bankImportsService: BankImportsService) {}
+
+  @Post('profiles')
+  @Roles(UserRole.SUBADMIN, UserRole.ADMIN, UserRole.SUPERADMIN)
+  @ApiOperation({
+    summary: 'Crear un perfil de columnas de extracto bancario',
+    description:
+      'Describe el CSV que exporta un banco: separador, filas a ignorar, columnas de fecha, importe, concepto, referencia y CUIT/DNI del ordenante',
+  })
+  @ApiResponse({ status: 201, description: 'Perfil creado' })
+  @ApiResponse({
+    status: 400,
+    description: 'Ya existe un perfil con ese nombre',
+  })
+  async createProfile(
+    @Request() req,
+    @Body() createProfileDto: CreateBankImportProfileDto,
+  ) {
+    return this.bankImportsService.createProfile(req.user.id, createProfileDto);
+  }
+
+  @Get('profiles')
+  @Roles(UserRole.SUBADMIN, UserRole.ADMIN, UserRole.SUPERADMIN)
+  @ApiOperation({ summary: 'Listar perfiles de extracto bancario' })
+  @ApiResponse({ status: 200, description: 'Perfiles obtenidos' })
+  async getProfiles(@Request() req) {
+    return this.bankImportsService.getProfiles(req.user.id, req.user.role);
+  }
+
+  @Patch('profiles/:id')
+  @Roles(UserRole.SUBADMIN, UserRole.ADMIN, UserRole.SUPERADMIN)
+  @ApiOperation({ summary: 'Actualizar un perfil de extracto bancario' })
+  @ApiParam({ name: 'id', description: 'ID del perfil' })
+  @ApiResponse({ status: 200, description: 'Perfil actualizado' })
+  @ApiResponse({ status: 403, description: 'No tienes acceso a este perfil' })
+  @ApiResponse({ status: 404, description: 'Perfil no encontrado' })
+  async updateProfile(
+    @Request() req,
+    @Param('id') id: string,
+    @Body() updateProfileDto: UpdateBankImportProfileDto,
+  ) {
+    return this.bankImportsService.updateProfile(
+      id,
+      req.user.id,
+      req.user.role,
+      updateProfileDto,
+    );
+  }
+
+  @Delete('profiles/:id')
+  @Roles(UserRole.SUBADMIN, UserRole.ADMIN, UserRole.SUPERADMIN)
+  @ApiOperation({
+    summary: 'Eliminar un perfil de extracto bancario',
+    description: 'Elimina también las importaciones hechas con el perfil',
+  })
+  @ApiParam({ name: 'id', description: 'ID del perfil' })
+  @ApiResponse({ status: 200, description: 'Perfil eliminado' })
+  @ApiResponse({ status: 403, description: 'No tienes acceso a este perfil' })
+  @ApiResponse({ status: 404, description: 'Perfil no encontrado' })
+  async deleteProfile(@Request() req, @Param('id') id: string) {
+    return this.bankImportsService.deleteProfile(
+      id,
+      req.user.id,
+      req.user.role,
+    );
+  }
+
+  @Post()
+  @Roles(UserRole.SUBADMIN, UserRole.ADMIN, UserRole.SUPERADMIN)
+  @ApiOperation({
+    summary: 'Importar un extracto bancario en CSV',
+    description:
+      'Parsea el extracto con el perfil indicado y cruza cada crédito con las cuotas abiertas: por código de préstamo en el concepto o la referencia, por CUIT/DNI del ordenante o por monto. ' +
+      'Devuelve la revisión con las líneas confirmadas, ambiguas y sin coincidencia. No registra pagos: ' +
+      'los débitos se ignoran y las referencias que ya tienen un pago se marcan como duplicadas.',
+  })
+  @ApiResponse({ status: 201, description: 'Extracto importado para revisión' })
+  @ApiResponse({
+    status: 400,
+    description:
+      'El archivo no coincide con el perfil (columnas, fechas o importes inválidos)',
+  })
+  async importStatement(
+    @Request() req,
+    @Body() importDto: CreateBankStatementImportDto,
+  ) {
+    return this.bankImportsService.importStatement(
+      req.user.id,
+      req.user.role,
+      importDto,
+    );
+  }
+
+  @Get()
+  @Roles(UserRole.SUBADMIN, UserRole.ADMIN, UserRole.SUPERADMIN)
+  @ApiOperation({ summary: 'Listar importaciones de extractos' })
+  @ApiResponse({ status: 200, description: 'Importaciones obtenidas' })
+  async getImports(@Request() req) {
+    return this.bankImportsService.getImports(req.user.id, req.user.role);
+  }
+
+  @Get(':id')
+  @Roles(UserRole.SUBADMIN, UserRole.ADMIN, UserRole.SUPERADMIN)
+  @ApiOperation({
+    summary: 'Revisión de una importación',
+    description:
+      'Resumen por estado y líneas agrupadas en confirmadas, ambiguas (con sus cuotas candidatas), sin coincidencia y el resto',
+  })
+  @ApiParam({ name: 'id', description: 'ID de la importación' })
+  @ApiResponse({ status: 200, description: 'Revisión obtenida' })
+  @ApiResponse({
+    status: 403,
+    description: 'No tienes acceso a esta importación',
+  })
+  @ApiResponse({ status: 404, description: 'Importación no encontrada' })
+  async getImport(@Request() req, @Param('id') id: string) {
+    return this.bankImportsService.getImport(id, req.user.id, req.user.role);
+  }
+
+  @Patch(':id/lines/:lineId')
+  @Roles(UserRole.SUBADMIN, UserRole.ADMIN, UserRole.SUPERADMIN)
+  @ApiOperation({
+    summary: 'Revisar una línea del extracto',
+    description:
+      'Confirma la cuota a la que se imputa la línea (subLoanId) o la descarta (ignore: true)',
+  })
+  @ApiParam({ name: 'id', description: 'ID de la importación' })
+  @ApiParam({ name: 'lineId', description: 'ID de la línea' })
+  @ApiResponse({ status: 200, description: 'Línea revisada' })
+  @ApiResponse({
+    status: 400,
+    description:
+      'La importación ya fue completada, la línea ya tiene un pago o la cuota no está pendiente',
+  })
+  async reviewLine(
+    @Request() req,
+    @Param('id') id: string,
+    @Param('lineId') lineId: string,
+    @Body() reviewDto: ReviewBankStatementLineDto,
+  ) {
+    return this.bankImportsService.reviewLine(
+      id,
+      lineId,
+      req.user.id,
+      req.user.role,
+      reviewDto,
+    );
+  }
+
+  @Post(':id/register')
+  @Roles(UserRole.SUBADMIN, UserRole.ADMIN, UserRole.SUPERADMIN)
+  @ApiOperation({
+    summary: 'Registrar los pagos confirmados',
+    description:
+      'Registra cada línea confirmada como pago por transferencia (BANK_TRANSFER) con la lógica normal de pagos, usando la fecha y la referencia del extracto. ' +
+      'Las líneas que fallan quedan en FAILED para revisarlas y volver a registrarlas.',
+  })
+  @ApiParam({ name: 'id', description: 'ID de la importación' })
+  @ApiResponse({ status: 201, description: 'Resultado por línea' })
+  @ApiResponse({
+    status: 400,
+    description: 'La importación ya fue completada',
+  })
+  async registerConfirmed(@Request() req, @Param('id') id: string) {
+    return this.bankImportsService.registerConfirmed(
+      id,
+      req.user.id,
+      req.user.role,
+    );
+  }
+}
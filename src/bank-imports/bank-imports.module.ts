@@ -0,0 +1,12 @@
+import { Module } from '@nestjs/common';
+import { BankImportsController } from './bank-imports.controller';
+import { BankImportsService } from './bank-imports.service';
+import { PrismaModule } from '../prisma/prisma.module';
+import { PaymentsModule } from '../payments/payments.module';
+
+@Module({
+  imports: [PrismaModule, PaymentsModule],
+  controllers: [BankImportsController],
+  providers: [BankImportsService],
+})
+export class BankImportsModule {}
@@ -0,0 +1,375 @@
+import { Test, TestingModule } from '@nestjs/testing';
+import { BankImportProfile, Prisma } from '@prisma/client';
+import { PrismaService } from '../prisma/prisma.service';
+import { PaymentsService } from '../payments/payments.service';
+import {
+  BankImportStatus,
+  BankLineMatchMethod,
+  BankLineStatus,
+  UserRole,
+} from '../common/enums';
+import { BankImportsService } from './bank-imports.service';
+
+type MatchLineParams = Parameters<BankImportsService['matchLine']>;
+
+interface FakeLine {
+  id: string;
+  importId: string;
+  lineNumber: number;
+  status: BankLineStatus;
+  subLoanId: string;
+  amount: Prisma.Decimal;
+  transactionDate: Date;
+  reference: string | null;
+  payerName: string | null;
+  paymentId: string | null;
+  error: string | null;
+  updatedAt: Date;
+}
+
+type LineWhere = {
+  id?: string;
+  importId?: string;
+  status?: BankLineStatus | { in: BankLineStatus[] };
+  updatedAt?: { lt: Date };
+};
+
+/**
+ * Prisma en memoria con lo que usa el registro de líneas confirmadas
+ */
+const createFakePrisma = (lines: FakeLine[]) => {
+  const matches = (line: FakeLine, where: LineWhere) =>
+    (!where.id || line.id === where.id) &&
+    (!where.importId || line.importId === where.importId) &&
+    (!where.status ||
+      (typeof where.status === 'string'
+        ? line.status === where.status
+        : where.status.in.includes(line.status))) &&
+    (!where.updatedAt || line.updatedAt < where.updatedAt.lt);
+
+  return {
+    bankStatementImport: {
+      findUnique: () =>
+        Promise.resolve({
+          id: 'import-1',
+          ownerId: 'admin-1',
+          status: BankImportStatus.REVIEW,
+          profile: { name: 'Banco', currency: 'ARS' },
+        }),
+      update: jest.fn(),
+    },
+    bankStatementLine: {
+      findMany: ({ where }: { where: LineWhere }) =>
+        Promise.resolve(lines.filter((line) => matches(line, where))),
+      findUnique: ({ where }: { where: { id: string } }) =>
+        Promise.resolve(lines.find((line) => line.id === where.id) ?? null),
+      count: ({ where }: { where: LineWhere }) =>
+        Promise.resolve(lines.filter((line) => matches(line, where)).length),
+      updateMany: ({
+        where,
+        data,
+      }: {
+        where: LineWhere;
+        data: Partial<FakeLine>;
+      }) => {
+        const updated = lines.filter((line) => matches(line, where));
+        updated.forEach((line) =>
+          Object.assign(line, data, { updatedAt: new Date() }),
+        );
+        return Promise.resolve({ count: updated.length });
+      },
+    },
+    subLoan: {
+      findMany: () => Promise.resolve([{ id: 'sub-1' }]),
+    },
+  };
+};
+
+const confirmedLine = (values: Partial<FakeLine> = {}): FakeLine => ({
+  id: 'line-1',
+  importId: 'import-1',
+  lineNumber: 1,
+  status: BankLineStatus.CONFIRMED,
+  subLoanId: 'sub-1',
+  amount: new Prisma.Decimal(1000),
+  transactionDate: new Date('2026-03-10T15:00:00.000Z'),
+  reference: null,
+  payerName: null,
+  paymentId: null,
+  error: null,
+  updatedAt: new Date(),
+  ...values,
+});
+
+const subLoan = (
+  id: string,
+  paymentNumber: number,
+  pending: number,
+  loan: { id: string; loanTrack: string; dni: string; cuit: string | null },
+) => ({
+  id,
+  loanId: loan.id,
+  paymentNumber,
+  dueDate: new Date(`2026-03-0${paymentNumber}T15:00:00.000Z`),
+  totalAmount: new Prisma.Decimal(pending),
+  paidAmount: new Prisma.Decimal(0),
+  penaltyAmount: new Prisma.Decimal(0),
+  penaltyPaid: new Prisma.Decimal(0),
+  loan: {
+    loanTrack: loan.loanTrack,
+    clientId: `client-${loan.id}`,
+    client: { fullName: `Cliente ${loan.id}`, dni: loan.dni, cuit: loan.cuit },
+  },
+});
+
+const line = (values: Partial<MatchLineParams[0]>): MatchLineParams[0] => ({
+  lineNumber: 1,
+  transactionDate: new Date('2026-03-10T15:00:00.000Z'),
+  amount: 1000,
+  description: null,
+  reference: null,
+  payerDocument: null,
+  payerName: null,
+  ...values,
+});
+
+describe('BankImportsService', () => {
+  let service: BankImportsService;
+  let lines: FakeLine[];
+  let paymentsService: { registerPayment: jest.Mock };
+
+  beforeEach(async () => {
+    lines = [];
+    paymentsService = { registerPayment: jest.fn() };
+
+    const module: TestingModule = await Test.createTestingModule({
+      providers: [
+        BankImportsService,
+        { provide: PrismaService, useValue: createFakePrisma(lines) },
+        { provide: PaymentsService, useValue: paymentsService },
+      ],
+    }).compile();
+
+    service = module.get<BankImportsService>(BankImportsService);
+  });
+
+  describe('parseStatement', () => {
+    const profile = {
+      delimiter: ';',
+      hasHeader: true,
+      skipRows: 1,
+      dateColumn: 'Fecha',
+      dateFormat: 'dd/MM/yyyy',
+      amountColumn: 'Importe',
+      decimalSeparator: ',',
+      descriptionColumn: 'Concepto',
+      referenceColumn: 'Nro',
+      documentColumn: '5',
+      payerNameColumn: null,
+    } as BankImportProfile;
+
+    const parse = (content: string, values: Partial<BankImportProfile> = {}) =>
+      service['parseStatement']({ ...profile, ...values }, content);
+
+    it('should read the columns of the profile', () => {
+      const lines = parse(
+        'Cuenta 123/4;;;;\n' +
+          'Fecha;Concepto;Importe;Nro;CUIT\n' +
+          '05/03/2026;Transferencia CREDITO-2026-00001;"15.000,50";OP-1;20-12345678-9\n' +
+          '06/03/2026;Comisión;(1.200,00);;\n',
+      );
+
+      expect(lines).toEqual([
+        {
+          lineNumber: 3,
+          // Mediodía de Buenos Aires
+          transactionDate: new Date('2026-03-05T15:00:00.000Z'),
+          amount: 15000.5,
+          description: 'Transferencia CREDITO-2026-00001',
+          reference: 'OP-1',
+          payerDocument: '20-12345678-9',
+          payerName: null,
+        },
+        {
+          lineNumber: 4,
+          transactionDate: new Date('2026-03-06T15:00:00.000Z'),
+          amount: -1200,
+          description: 'Comisión',
+          reference: null,
+          payerDocument: null,
+          payerName: null,
+        },
+      ]);
+    });
+
+    it('should reject dates that do not follow the profile format', () => {
+      expect(() =>
+        parse('x\nFecha;Concepto;Importe;Nro;CUIT\n2026-03-05;A;100;;\n'),
+      ).toThrow('Fila 3: la fecha "2026-03-05" no tiene el formato dd/MM/yyyy');
+    });
+
+    it('should reject columns missing from the header', () => {
+      expect(() =>
+        parse('x\nFecha;Concepto;Monto\n05/03/2026;A;100\n'),
+      ).toThrow('La columna "Importe" no existe en el archivo');
+    });
+  });
+
+  describe('matchLine', () => {
+    const loanA = {
+      id: 'a',
+      loanTrack: 'CREDITO-2026-00001',
+      dni: '12345678',
+      cuit: '20-12345678-9',
+    };
+    const loanB = {
+      id: 'b',
+      loanTrack: 'CREDITO-2026-00002',
+      dni: '30111222',
+      cuit: null,
+    };
+    const openSubLoans = [
+      subLoan('a1', 1, 1000, loanA),
+      subLoan('a2', 2, 1000, loanA),
+      subLoan('b1', 1, 500, loanB),
+    ] as unknown as MatchLineParams[1];
+
+    let context: MatchLineParams[2];
+    const match = (values: Partial<MatchLineParams[0]>) =>
+      service['matchLine'](line(values), openSubLoans, context);
+
+    beforeEach(() => {
+      context = {
+        registeredReferences: new Set(['OP-OLD']),
+        fileReferences: new Set(),
+        assigned: new Map(),
+      };
+    });
+
+    it('should ignore debits', () => {
+      expect(match({ amount: -1000 }).status).toBe(BankLineStatus.IGNORED);
+    });
+
+    it('should confirm the next installment of the loan in the description', () => {
+      expect(match({ description: 'Pago credito-2026-00001 cuota 1' })).toEqual(
+        {
+          status: BankLineStatus.CONFIRMED,
+          matchMethod: BankLineMatchMethod.LOAN_TRACK,
+          subLoanId: 'a1',
+        },
+      );
+    });
+
+    it('should deduct earlier lines of the file from the installment balance', () => {
+      const description = 'CREDITO-2026-00001';
+
+      expect(match({ description }).subLoanId).toBe('a1');
+      expect(match({ description }).subLoanId).toBe('a2');
+      // El préstamo quedó cubierto y el importe no coincide con otra cuota
+      expect(match({ description }).status).toBe(BankLineStatus.UNMATCHED);
+    });
+
+    it('should confirm the client installment by the payer CUIT', () => {
+      expect(match({ payerDocument: '20123456789' })).toEqual({
+        status: BankLineStatus.CONFIRMED,
+        matchMethod: BankLineMatchMethod.DOCUMENT,
+        subLoanId: 'a1',
+      });
+    });
+
+    it('should leave amount-only matches for review', () => {
+      const result = match({ amount: 500 });
+
+      expect(result.status).toBe(BankLineStatus.AMBIGUOUS);
+      expect(result.matchMethod).toBe(BankLineMatchMethod.AMOUNT);
+      expect(result.candidates?.map((c) => c.subLoanId)).toEqual(['b1']);
+    });
+
+    it('should flag references already registered or repeated in the file', () => {
+      expect(match({ reference: 'OP-OLD' })).toMatchObject({
+        status: BankLineStatus.DUPLICATE,
+        error: 'Ya existe un pago con esta referencia',
+      });
+
+      expect(match({ reference: 'OP-1', amount: 500 }).status).toBe(
+        BankLineStatus.AMBIGUOUS,
+      );
+      expect(match({ reference: 'OP-1', amount: 500 })).toMatchObject({
+        status: BankLineStatus.DUPLICATE,
+        error: 'La referencia se repite en el archivo',
+      });
+    });
+  });
+
+  describe('registerConfirmed', () => {
+    const register = () =>
+      service.registerConfirmed('import-1', 'admin-1', UserRole.ADMIN);
+
+    // El pago guarda la línea dentro de su transacción (aquí, el mismo fake)
+    const commitPayment =
+      (paymentId: string, errorAfterCommit?: Error) =>
+      async (
+        _userId: string,
+        _userRole: UserRole,
+        _dto: object,
+        saveResponse: (tx: object, response: object) => Promise<void>,
+      ) => {
+        const response = { payment: { id: paymentId } };
+        await saveResponse(service['prisma'], response);
+        if (errorAfterCommit) throw errorAfterCommit;
+        return response;
+      };
+
+    it('should mark the line REGISTERED inside the payment transaction', async () => {
+      lines.push(confirmedLine());
+      paymentsService.registerPayment.mockImplementation(commitPayment('p-1'));
+
+      const result = await register();
+
+      expect(result.registered).toBe(1);
+      expect(lines[0]).toMatchObject({
+        status: BankLineStatus.REGISTERED,
+        paymentId: 'p-1',
+      });
+    });
+
+    it('should not mark a line FAILED when its payment was already committed', async () => {
+      lines.push(confirmedLine());
+      paymentsService.registerPayment.mockImplementation(
+        commitPayment('p-1', new Error('Error después del commit')),
+      );
+
+      const result = await register();
+
+      expect(result.failed).toBe(0);
+      expect(lines[0]).toMatchObject({
+        status: BankLineStatus.REGISTERED,
+        paymentId: 'p-1',
+      });
+    });
+
+    it('should skip lines claimed by another registration in progress', async () => {
+      lines.push(confirmedLine({ status: BankLineStatus.PROCESSING }));
+
+      await register();
+
+      expect(paymentsService.registerPayment).not.toHaveBeenCalled();
+      expect(lines[0].status).toBe(BankLineStatus.PROCESSING);
+    });
+
+    it('should retry lines left PROCESSING by an interrupted registration', async () => {
+      lines.push(
+        confirmedLine({
+          status: BankLineStatus.PROCESSING,
+          updatedAt: new Date(Date.now() - 10 * 60 * 1000),
+        }),
+      );
+      paymentsService.registerPayment.mockImplementation(commitPayment('p-2'));
+
+      const result = await register();
+
+      expect(result.registered).toBe(1);
+      expect(lines[0].status).toBe(BankLineStatus.REGISTERED);
+    });
+  });
+});
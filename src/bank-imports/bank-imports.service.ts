@@ -0,0 +1,1098 @@
+import {
+  Injectable,
+  NotFoundException,
+  ForbiddenException,
+  BadRequestException,
+} from '@nestjs/common';
+import { BankImportProfile, Prisma } from '@prisma/client';
+import { DateTime } from 'luxon';
+import { PrismaService } from '../prisma/prisma.service';
+import { PaymentsService } from '../payments/payments.service';
+import { RegisterPaymentDto } from '../payments/dto';
+import {
+  BankImportStatus,
+  BankLineMatchMethod,
+  BankLineStatus,
+  LoanStatus,
+  PaymentMethod,
+  PaymentStatus,
+  SubLoanStatus,
+  UserRole,
+} from '../common/enums';
+import { CsvUtil, DateUtil } from '../common/utils';
+import {
+  CreateBankImportProfileDto,
+  UpdateBankImportProfileDto,
+  CreateBankStatementImportDto,
+  ReviewBankStatementLineDto,
+} from './dto';
+
+const round = (value: number) => Number(value.toFixed(2));
+
+// Una línea PROCESSING sin pago después de este tiempo quedó de un registro
+// interrumpido (el pago se confirma junto con el estado REGISTERED) y se reintenta
+const PROCESSING_TIMEOUT_MINUTES = 5;
+
+// Códigos de préstamo: {PREFIJO}-{AÑO}-{SECUENCIA} (ej: CREDITO-2025-00012)
+const LOAN_TRACK_PATTERN = /[A-Z][A-Z0-9]*(?:-[A-Z0-9]+)*-\d{4}-\d{3,}/gi;
+// CUIT (11 dígitos, con o sin guiones) o DNI (7 u 8 dígitos)
+const DOCUMENT_PATTERN = /\b\d{2}-?\d{8}-?\d\b|\b\d{7,8}\b/g;
+
+const OPEN_SUB_LOAN_STATUSES = [
+  SubLoanStatus.PENDING,
+  SubLoanStatus.PARTIAL,
+  SubLoanStatus.OVERDUE,
+];
+
+const openSubLoanSelect = {
+  id: true,
+  loanId: true,
+  paymentNumber: true,
+  dueDate: true,
+  totalAmount: true,
+  paidAmount: true,
+  penaltyAmount: true,
+  penaltyPaid: true,
+  loan: {
+    select: {
+      loanTrack: true,
+      clientId: true,
+      client: { select: { fullName: true, dni: true, cuit: true } },
+    },
+  },
+} as const;
+
+type OpenSubLoan = Prisma.SubLoanGetPayload<{
+  select: typeof openSubLoanSelect;
+}>;
+
+/**
+ * Cuota posible para una línea del extracto
+ */
+export interface MatchCandidate {
+  subLoanId: string;
+  loanId: string;
+  loanTrack: string;
+  paymentNumber: number;
+  clientName: string;
+  dueDate: Date;
+  pending: number;
+}
+
+interface ParsedLine {
+  lineNumber: number;
+  transactionDate: Date;
+  amount: number;
+  description: string | null;
+  reference: string | null;
+  payerDocument: string | null;
+  payerName: string | null;
+}
+
+/**
+ * Estado del cruce a lo largo del archivo: referencias ya vistas y lo que las líneas
+ * anteriores ya asignaron a cada cuota
+ */
+interface MatchContext {
+  registeredReferences: Set<string>;
+  fileReferences: Set<string>;
+  assigned: Map<string, number>;
+}
+
+interface LineMatch {
+  status: BankLineStatus;
+  matchMethod?: BankLineMatchMethod;
+  subLoanId?: string;
+  candidates?: MatchCandidate[];
+  error?: string;
+}
+
+/**
+ * Importación de extractos bancarios en CSV: cada banco se describe con un perfil de
+ * columnas, las líneas de crédito se cruzan con las cuotas abiertas (por código de
+ * préstamo, CUIT/DNI del ordenante o monto) y, tras la revisión, las coincidencias
+ * confirmadas se registran como pagos por transferencia.
+ */
+@Injectable()
+export class BankImportsService {
+  private static readonly MAX_CANDIDATES = 10;
+
+  constructor(
+    private prisma: PrismaService,
+    private paymentsService: PaymentsService,
+  ) {}
+
+  async createProfile(userId: string, createDto: CreateBankImportProfileDto) {
+    const existing = await this.prisma.bankImportProfile.findUnique({
+      where: { ownerId_name: { ownerId: userId, name: createDto.name } },
+    });
+    if (existing) {
+      throw new BadRequestException('Ya existe un perfil con ese nombre');
+    }
+
+    return this.prisma.bankImportProfile.create({
+      data: { ...createDto, ownerId: userId },
+    });
+  }
+
+  async getProfiles(userId: string, userRole: UserRole) {
+    return this.prisma.bankImportProfile.findMany({
+      where: this.isAdmin(userRole) ? {} : { ownerId: userId },
+      orderBy: { name: 'asc' },
+    });
+  }
+
+  async updateProfile(
+    profileId: string,
+    userId: string,
+    userRole: UserRole,
+    updateDto: UpdateBankImportProfileDto,
+  ) {
+    const profile = await this.findProfile(profileId, userId, userRole);
+
+    if (updateDto.name && updateDto.name !== profile.name) {
+      const existing = await this.prisma.bankImportProfile.findUnique({
+        where: {
+          ownerId_name: { ownerId: profile.ownerId, name: updateDto.name },
+        },
+      });
+      if (existing) {
+        throw new BadRequestException('Ya existe un perfil con ese nombre');
+      }
+    }
+
+    return this.prisma.bankImportProfile.update({
+      where: { id: profileId },
+      data: updateDto,
+    });
+  }
+
+  async deleteProfile(profileId: string, userId: string, userRole: UserRole) {
+    await this.findProfile(profileId, userId, userRole);
+
+    await this.prisma.bankImportProfile.delete({ where: { id: profileId } });
+
+    return { message: 'Perfil eliminado exitosamente' };
+  }
+
+  /**
+   * Importa un extracto: parsea las líneas según el perfil, las cruza con las cuotas
+   * abiertas y devuelve la revisión. No registra pagos.
+   */
+  async importStatement(
+    userId: string,
+    userRole: UserRole,
+    importDto: CreateBankStatementImportDto,
+  ) {
+    const profile = await this.findProfile(
+      importDto.profileId,
+      userId,
+      userRole,
+    );
+    const lines = this.parseStatement(profile, importDto.content);
+
+    if (lines.length === 0) {
+      throw new BadRequestException('El archivo no tiene movimientos');
+    }
+
+    const openSubLoans = await this.getOpenSubLoans(
+      userId,
+      userRole,
+      profile.currency,
+    );
+    // Las líneas se cruzan en orden: cada coincidencia descuenta su importe del saldo
+    // de las cuotas para las líneas siguientes
+    const context: MatchContext = {
+      registeredReferences: await this.getRegisteredReferences(
+        lines.map((line) => line.reference),
+      ),
+      fileReferences: new Set(),
+      assigned: new Map(),
+    };
+    const matches = lines.map((line) =>
+      this.matchLine(line, openSubLoans, context),
+    );
+
+    const statementImport = await this.prisma.$transaction(
+      async (tx) => {
+        const created = await tx.bankStatementImport.create({
+          data: {
+            profileId: profile.id,
+            ownerId: userId,
+            fileName: importDto.fileName,
+            totalLines: lines.length,
+          },
+        });
+
+        await tx.bankStatementLine.createMany({
+          data: lines.map((line, index) => {
+            const match = matches[index];
+            return {
+              importId: created.id,
+              ...line,
+              amount: new Prisma.Decimal(line.amount),
+              status: match.status,
+              matchMethod: match.matchMethod,
+              subLoanId: match.subLoanId,
+              candidates: match.candidates
+                ? JSON.parse(JSON.stringify(match.candidates))
+                : undefined,
+              error: match.error,
+            };
+          }),
+        });
+
+        return created;
+      },
+      { maxWait: 30000, timeout: 30000 },
+    );
+
+    return this.getImport(statementImport.id, userId, userRole);
+  }
+
+  async getImports(userId: string, userRole: UserRole) {
+    const imports = await this.prisma.bankStatementImport.findMany({
+      where: this.isAdmin(userRole) ? {} : { ownerId: userId },
+      include: { profile: { select: { name: true } } },
+      orderBy: { createdAt: 'desc' },
+    });
+
+    return imports.map((statementImport) => ({
+      id: statementImport.id,
+      profileId: statementImport.profileId,
+      profileName: statementImport.profile.name,
+      ownerId: statementImport.ownerId,
+      fileName: statementImport.fileName,
+      status: statementImport.status,
+      totalLines: statementImport.totalLines,
+      createdAt: statementImport.createdAt,
+    }));
+  }
+
+  /**
+   * Revisión de la importación: resumen por estado y líneas agrupadas en
+   * confirmadas, ambiguas, sin coincidencia y el resto
+   */
+  async getImport(importId: string, userId: string, userRole: UserRole) {
+    const statementImport = await this.findImport(importId, userId, userRole);
+
+    const lines = await this.prisma.bankStatementLine.findMany({
+      where: { importId },
+      orderBy: { lineNumber: 'asc' },
+    });
+
+    const subLoanIds = lines
+      .map((line) => line.subLoanId)
+      .filter((id): id is string => !!id);
+    const subLoans = await this.prisma.subLoan.findMany({
+      where: { id: { in: subLoanIds } },
+      select: openSubLoanSelect,
+    });
+    const subLoansById = new Map(subLoans.map((sl) => [sl.id, sl]));
+
+    const toResponse = (line: (typeof lines)[number]) => {
+      const subLoan = line.subLoanId
+        ? subLoansById.get(line.subLoanId)
+        : undefined;
+      return {
+        id: line.id,
+        lineNumber: line.lineNumber,
+        transactionDate: line.transactionDate,
+        amount: Number(line.amount),
+        description: line.description,
+        reference: line.reference,
+        payerDocument: line.payerDocument,
+        payerName: line.payerName,
+        status: line.status,
+        matchMethod: line.matchMethod,
+        match: subLoan ? this.toCandidate(subLoan) : null,
+        candidates: (line.candidates as unknown as MatchCandidate[]) ?? [],
+        paymentId: line.paymentId,
+        error: line.error,
+      };
+    };
+
+    const byStatus = (...statuses: BankLineStatus[]) =>
+      lines
+        .filter((line) => statuses.includes(line.status as BankLineStatus))
+        .map(toResponse);
+
+    const summary = Object.values(BankLineStatus).reduce(
+      (acc, status) => ({
+        ...acc,
+        [status]: lines.filter((line) => line.status === status).length,
+      }),
+      {} as Record<BankLineStatus, number>,
+    );
+
+    return {
+      id: statementImport.id,
+      profileId: statementImport.profileId,
+      profileName: statementImport.profile.name,
+      currency: statementImport.profile.currency,
+      fileName: statementImport.fileName,
+      status: statementImport.status,
+      totalLines: statementImport.totalLines,
+      createdAt: statementImport.createdAt,
+      summary,
+      confirmed: byStatus(BankLineStatus.CONFIRMED),
+      ambiguous: byStatus(BankLineStatus.AMBIGUOUS),
+      unmatched: byStatus(BankLineStatus.UNMATCHED),
+      other: byStatus(
+        BankLineStatus.DUPLICATE,
+        BankLineStatus.IGNORED,
+        BankLineStatus.PROCESSING,
+        BankLineStatus.REGISTERED,
+        BankLineStatus.FAILED,
+      ),
+    };
+  }
+
+  /**
+   * Revisión de una línea: confirmar la cuota elegida o descartarla
+   */
+  async reviewLine(
+    importId: string,
+    lineId: string,
+    userId: string,
+    userRole: UserRole,
+    reviewDto: ReviewBankStatementLineDto,
+  ) {
+    const statementImport = await this.findImport(importId, userId, userRole);
+
+    if (statementImport.status !== BankImportStatus.REVIEW) {
+      throw new BadRequestException('La importación ya fue completada');
+    }
+
+    const line = await this.prisma.bankStatementLine.findFirst({
+      where: { id: lineId, importId },
+    });
+    if (!line) {
+      throw new NotFoundException('Línea no encontrada');
+    }
+
+    if (
+      line.status === BankLineStatus.REGISTERED ||
+      line.status === BankLineStatus.DUPLICATE
+    ) {
+      throw new BadRequestException(
+        'La línea ya tiene un pago registrado y no se puede modificar',
+      );
+    }
+
+    if (line.status === BankLineStatus.PROCESSING) {
+      throw new BadRequestException(
+        'El pago de la línea se está registrando y no se puede modificar',
+      );
+    }
+
+    if (!reviewDto.ignore && !reviewDto.subLoanId) {
+      throw new BadRequestException('Indique subLoanId o ignore');
+    }
+
+    if (reviewDto.ignore) {
+      await this.prisma.bankStatementLine.update({
+        where: { id: lineId },
+        data: { status: BankLineStatus.IGNORED, error: null },
+      });
+    } else {
+      if (Number(line.amount) <= 0) {
+        throw new BadRequestException(
+          'Los débitos no se pueden registrar como pagos',
+        );
+      }
+
+      const openSubLoans = await this.getOpenSubLoans(
+        userId,
+        userRole,
+        statementImport.profile.currency,
+        reviewDto.subLoanId,
+      );
+      if (openSubLoans.length === 0) {
+        throw new BadRequestException(
+          'La cuota no existe, no está pendiente o no tienes acceso a ella',
+        );
+      }
+
+      await this.prisma.bankStatementLine.update({
+        where: { id: lineId },
+        data: {
+          status: BankLineStatus.CONFIRMED,
+          matchMethod: BankLineMatchMethod.MANUAL,
+          subLoanId: reviewDto.subLoanId,
+          error: null,
+        },
+      });
+    }
+
+    return this.getImport(importId, userId, userRole);
+  }
+
+  /**
+   * Registra como transferencias las líneas confirmadas, en el orden del extracto,
+   * usando la lógica normal de pagos. Cada línea se reserva como PROCESSING antes
+   * de pagarla, para que dos registros simultáneos no la paguen dos veces, y pasa a
+   * REGISTERED dentro de la transacción del pago. Las líneas PROCESSING de un registro
+   * interrumpido vuelven a CONFIRMED después de PROCESSING_TIMEOUT_MINUTES.
+   * La importación se completa cuando no quedan líneas por revisar.
+   */
+  async registerConfirmed(
+    importId: string,
+    userId: string,
+    userRole: UserRole,
+  ) {
+    const statementImport = await this.findImport(importId, userId, userRole);
+
+    if (statementImport.status !== BankImportStatus.REVIEW) {
+      throw new BadRequestException('La importación ya fue completada');
+    }
+
+    // Sin pago confirmado, una reserva vencida no registró nada y se puede reintentar
+    await this.prisma.bankStatementLine.updateMany({
+      where: {
+        importId,
+        status: BankLineStatus.PROCESSING,
+        updatedAt: {
+          lt: DateUtil.now()
+            .minus({ minutes: PROCESSING_TIMEOUT_MINUTES })
+            .toJSDate(),
+        },
+      },
+      data: { status: BankLineStatus.CONFIRMED },
+    });
+
+    const lines = await this.prisma.bankStatementLine.findMany({
+      where: { importId, status: BankLineStatus.CONFIRMED },
+      orderBy: { lineNumber: 'asc' },
+    });
+
+    const results: {
+      lineId: string;
+      lineNumber: number;
+      status: BankLineStatus;
+      paymentId?: string;
+      error?: string;
+    }[] = [];
+
+    for (const line of lines) {
+      // Reservar la línea: si otro registro en curso ya la tomó, no se vuelve a pagar
+      const claimed = await this.prisma.bankStatementLine.updateMany({
+        where: { id: line.id, status: BankLineStatus.CONFIRMED },
+        data: { status: BankLineStatus.PROCESSING },
+      });
+      if (claimed.count !== 1) {
+        continue;
+      }
+
+      // Otra importación (o un pago manual) pudo registrar la misma operación
+      if (line.reference) {
+        const registered = await this.getRegisteredReferences([line.reference]);
+        if (registered.has(line.reference)) {
+          await this.prisma.bankStatementLine.update({
+            where: { id: line.id },
+            data: { status: BankLineStatus.DUPLICATE },
+          });
+          results.push({
+            lineId: line.id,
+            lineNumber: line.lineNumber,
+            status: BankLineStatus.DUPLICATE,
+          });
+          continue;
+        }
+      }
+
+      // La cuota pudo pagarse después de la revisión: no se registra sobre una cuota
+      // pagada y la línea vuelve a revisión
+      const [target] = await this.getOpenSubLoans(
+        userId,
+        userRole,
+        statementImport.profile.currency,
+        line.subLoanId!,
+      );
+      if (!target) {
+        const error =
+          'La cuota ya está pagada o no está disponible: elija otra cuota';
+        await this.prisma.bankStatementLine.update({
+          where: { id: line.id },
+          data: { status: BankLineStatus.FAILED, error },
+        });
+        results.push({
+          lineId: line.id,
+          lineNumber: line.lineNumber,
+          status: BankLineStatus.FAILED,
+          error,
+        });
+        continue;
+      }
+
+      try {
+        const paymentDto: RegisterPaymentDto = {
+          subLoanId: line.subLoanId!,
+          amount: Number(line.amount),
+          currency: statementImport.profile
+            .currency as RegisterPaymentDto['currency'],
+          paymentDate: line.transactionDate.toISOString(),
+          paymentMethod: PaymentMethod.BANK_TRANSFER,
+          externalReference: line.reference ?? undefined,
+          payerName: line.payerName ?? undefined,
+          description: `Transferencia bancaria${line.reference ? ` ${line.reference}` : ''} (extracto ${statementImport.profile.name})`,
+        };
+        // La línea pasa a REGISTERED en la transacción del pago: si la reserva se
+        // perdió mientras tanto, el pago se revierte. Nunca reemplaza el pago del día
+        // de una cuota que se pagó mientras tanto
+        const response = await this.paymentsService.registerPayment(
+          userId,
+          userRole,
+          paymentDto,
+          async (tx, paymentResponse) => {
+            const registered = await tx.bankStatementLine.updateMany({
+              where: { id: line.id, status: BankLineStatus.PROCESSING },
+              data: {
+                status: BankLineStatus.REGISTERED,
+                paymentId: paymentResponse.payment.id,
+                error: null,
+              },
+            });
+            if (registered.count !== 1) {
+              throw new BadRequestException(
+                'La línea dejó de estar reservada para este registro',
+              );
+            }
+          },
+          { replaceSameDayPayment: false },
+        );
+
+        results.push({
+          lineId: line.id,
+          lineNumber: line.lineNumber,
+          status: BankLineStatus.REGISTERED,
+          paymentId: response.payment.id,
+        });
+      } catch (error: any) {
+        // Si el pago ya se confirmó, la línea quedó REGISTERED y no se toca
+        const failed = await this.prisma.bankStatementLine.updateMany({
+          where: { id: line.id, status: BankLineStatus.PROCESSING },
+          data: { status: BankLineStatus.FAILED, error: error.message },
+        });
+        if (failed.count === 1) {
+          results.push({
+            lineId: line.id,
+            lineNumber: line.lineNumber,
+            status: BankLineStatus.FAILED,
+            error: error.message,
+          });
+          continue;
+        }
+
+        const current = await this.prisma.bankStatementLine.findUnique({
+          where: { id: line.id },
+        });
+        if (current?.status === BankLineStatus.REGISTERED) {
+          results.push({
+            lineId: line.id,
+            lineNumber: line.lineNumber,
+            status: BankLineStatus.REGISTERED,
+            paymentId: current.paymentId ?? undefined,
+          });
+        }
+      }
+    }
+
+    const pendingReview = await this.prisma.bankStatementLine.count({
+      where: {
+        importId,
+        status: {
+          in: [
+            BankLineStatus.CONFIRMED,
+            BankLineStatus.AMBIGUOUS,
+            BankLineStatus.PROCESSING,
+            BankLineStatus.FAILED,
+          ],
+        },
+      },
+    });
+    if (pendingReview === 0) {
+      await this.prisma.bankStatementImport.update({
+        where: { id: importId },
+        data: { status: BankImportStatus.COMPLETED },
+      });
+    }
+
+    const registered = results.filter(
+      (r) => r.status === BankLineStatus.REGISTERED,
+    ).length;
+
+    return {
+      message: `Se registraron ${registered} de ${results.length} pagos confirmados`,
+      registered,
+      failed: results.filter((r) => r.status === BankLineStatus.FAILED).length,
+      duplicates: results.filter((r) => r.status === BankLineStatus.DUPLICATE)
+        .length,
+      pendingReview,
+      results,
+    };
+  }
+
+  /**
+   * Convierte las filas del CSV en líneas según el perfil
+   */
+  private parseStatement(
+    profile: BankImportProfile,
+    content: string,
+  ): ParsedLine[] {
+    const rows = CsvUtil.parse(content, profile.delimiter).slice(
+      profile.skipRows,
+    );
+    const header = profile.hasHeader
+      ? (rows.shift() ?? []).map((cell) => cell.trim().toLowerCase())
+      : [];
+    const firstDataRow = profile.skipRows + (profile.hasHeader ? 1 : 0) + 1;
+
+    const column = (reference: string | null) => {
+      if (!reference) return null;
+      if (/^\d+$/.test(reference.trim())) {
+        return Number(reference.trim()) - 1;
+      }
+
+      const index = header.indexOf(reference.trim().toLowerCase());
+      if (index === -1) {
+        throw new BadRequestException(
+          `La columna "${reference}" no existe en el archivo`,
+        );
+      }
+      return index;
+    };
+
+    const dateIndex = column(profile.dateColumn)!;
+    const amountIndex = column(profile.amountColumn)!;
+    const descriptionIndex = column(profile.descriptionColumn);
+    const referenceIndex = column(profile.referenceColumn);
+    const documentIndex = column(profile.documentColumn);
+    const payerNameIndex = column(profile.payerNameColumn);
+
+    const cell = (row: string[], index: number | null) => {
+      const value = index === null ? '' : (row[index] ?? '').trim();
+      return value === '' ? null : value;
+    };
+
+    return rows.map((row, i) => {
+      const lineNumber = firstDataRow + i;
+
+      const date = DateTime.fromFormat(
+        cell(row, dateIndex) ?? '',
+        profile.dateFormat,
+        { zone: DateUtil.BUENOS_AIRES_TIMEZONE },
+      );
+      if (!date.isValid) {
+        throw new BadRequestException(
+          `Fila ${lineNumber}: la fecha "${cell(row, dateIndex) ?? ''}" no tiene el formato ${profile.dateFormat}`,
+        );
+      }
+
+      const amount = this.parseAmount(
+        cell(row, amountIndex),
+        profile.decimalSeparator,
+      );
+      if (amount === null) {
+        throw new BadRequestException(
+          `Fila ${lineNumber}: el importe "${cell(row, amountIndex) ?? ''}" no es válido`,
+        );
+      }
+
+      return {
+        lineNumber,
+        // Mediodía Argentina, igual que las fechas de pago del día
+        transactionDate: date
+          .set({ hour: 12, minute: 0, second: 0, millisecond: 0 })
+          .toJSDate(),
+        amount,
+        description: cell(row, descriptionIndex),
+        reference: cell(row, referenceIndex),
+        payerDocument: cell(row, documentIndex),
+        payerName: cell(row, payerNameIndex),
+      };
+    });
+  }
+
+  /**
+   * Importe con separador decimal configurable: "15.000,50", "-1500.5", "$ 1.500,00" o "(1.500,00)"
+   */
+  private parseAmount(
+    value: string | null,
+    decimalSeparator: string,
+  ): number | null {
+    if (!value) return null;
+
+    const negative = /^\(.*\)$/.test(value) || value.includes('-');
+    const thousandsSeparator = decimalSeparator === ',' ? '.' : ',';
+    const normalized = value
+      .replace(/[^\d.,]/g, '')
+      .split(thousandsSeparator)
+      .join('')
+      .replace(decimalSeparator, '.');
+
+    const amount = Number(normalized);
+    if (normalized === '' || Number.isNaN(amount)) {
+      return null;
+    }
+
+    return round(negative ? -amount : amount);
+  }
+
+  /**
+   * Cruza una línea con las cuotas abiertas:
+   * 1. Código de préstamo en la descripción o referencia: próxima cuota abierta del préstamo
+   * 2. CUIT/DNI del ordenante: próxima cuota abierta del préstamo del cliente; si tiene
+   *    varios préstamos, el que tenga una cuota con saldo igual al importe
+   * 3. Solo monto: cuotas con saldo igual al importe (siempre requiere revisión)
+   * El saldo de cada cuota descuenta lo asignado por las líneas anteriores del archivo,
+   * y una coincidencia confirmada asigna el importe de la línea.
+   */
+  private matchLine(
+    line: ParsedLine,
+    allOpenSubLoans: OpenSubLoan[],
+    context: MatchContext,
+  ): LineMatch {
+    if (line.amount <= 0) {
+      return { status: BankLineStatus.IGNORED, error: 'Débito' };
+    }
+
+    if (line.reference) {
+      if (context.registeredReferences.has(line.reference)) {
+        return {
+          status: BankLineStatus.DUPLICATE,
+          error: 'Ya existe un pago con esta referencia',
+        };
+      }
+      if (context.fileReferences.has(line.reference)) {
+        return {
+          status: BankLineStatus.DUPLICATE,
+          error: 'La referencia se repite en el archivo',
+        };
+      }
+      context.fileReferences.add(line.reference);
+    }
+
+    const { assigned } = context;
+    const openSubLoans = allOpenSubLoans.filter(
+      (sl) => this.owed(sl, assigned) > 0,
+    );
+    const confirm = (
+      subLoan: OpenSubLoan,
+      matchMethod: BankLineMatchMethod,
+    ): LineMatch => {
+      this.assign(subLoan, line.amount, allOpenSubLoans, assigned);
+      return {
+        status: BankLineStatus.CONFIRMED,
+        matchMethod,
+        subLoanId: subLoan.id,
+      };
+    };
+
+    const text = `${line.description ?? ''} ${line.reference ?? ''}`;
+
+    const foundTracks: string[] = text.match(LOAN_TRACK_PATTERN) ?? [];
+    const loanTracks = new Set(foundTracks.map((t) => t.toUpperCase()));
+    if (loanTracks.size > 0) {
+      const byLoan = openSubLoans.filter((sl) =>
+        loanTracks.has(sl.loan.loanTrack.toUpperCase()),
+      );
+      const loanIds = new Set(byLoan.map((sl) => sl.loanId));
+      if (loanIds.size === 1) {
+        return confirm(
+          this.nextOpenSubLoan(byLoan),
+          BankLineMatchMethod.LOAN_TRACK,
+        );
+      }
+    }
+
+    // La referencia no se usa: los nros. de operación se confunden con DNIs
+    const documents = this.extractDocuments(
+      `${line.payerDocument ?? ''} ${line.description ?? ''}`,
+    );
+    if (documents.size > 0) {
+      const byClient = openSubLoans.filter(
+        (sl) =>
+          (sl.loan.client.cuit &&
+            documents.has(sl.loan.client.cuit.replace(/\D/g, ''))) ||
+          (sl.loan.client.dni &&
+            documents.has(sl.loan.client.dni.replace(/\D/g, ''))),
+      );
+
+      if (byClient.length > 0) {
+        const nextByLoan = this.groupNextByLoan(byClient);
+        if (nextByLoan.length === 1) {
+          return confirm(nextByLoan[0], BankLineMatchMethod.DOCUMENT);
+        }
+
+        const sameAmount = nextByLoan.filter((sl) =>
+          this.matchesAmount(sl, line.amount, assigned),
+        );
+        if (sameAmount.length === 1) {
+          return confirm(sameAmount[0], BankLineMatchMethod.DOCUMENT);
+        }
+
+        return {
+          status: BankLineStatus.AMBIGUOUS,
+          matchMethod: BankLineMatchMethod.DOCUMENT,
+          candidates: nextByLoan.map((sl) => this.toCandidate(sl, assigned)),
+        };
+      }
+    }
+
+    const byAmount = openSubLoans
+      .filter(
+        (sl) =>
+          sl.dueDate <= line.transactionDate &&
+          this.matchesAmount(sl, line.amount, assigned),
+      )
+      .slice(0, BankImportsService.MAX_CANDIDATES);
+    if (byAmount.length > 0) {
+      return {
+        status: BankLineStatus.AMBIGUOUS,
+        matchMethod: BankLineMatchMethod.AMOUNT,
+        candidates: byAmount.map((sl) => this.toCandidate(sl, assigned)),
+      };
+    }
+
+    return { status: BankLineStatus.UNMATCHED };
+  }
+
+  /**
+   * CUITs y DNIs del texto. De cada CUIT se deriva también el DNI (dígitos 3 a 10).
+   */
+  private extractDocuments(text: string): Set<string> {
+    const documents = new Set<string>();
+    for (const match of text.match(DOCUMENT_PATTERN) ?? []) {
+      const digits = match.replace(/\D/g, '');
+      documents.add(digits);
+      if (digits.length === 11) {
+        documents.add(digits.slice(2, 10));
+      }
+    }
+    return documents;
+  }
+
+  /**
+   * El importe coincide con el saldo de la cuota, con o sin punitorios pendientes,
+   * descontando lo ya asignado por otras líneas
+   */
+  private matchesAmount(
+    subLoan: OpenSubLoan,
+    amount: number,
+    assigned: Map<string, number>,
+  ): boolean {
+    const pending =
+      Number(subLoan.totalAmount) -
+      Number(subLoan.paidAmount) -
+      (assigned.get(subLoan.id) ?? 0);
+    const penaltyPending = Math.max(
+      0,
+      Number(subLoan.penaltyAmount) - Number(subLoan.penaltyPaid),
+    );
+
+    return (
+      Math.abs(pending - amount) < 0.01 ||
+      Math.abs(pending + penaltyPending - amount) < 0.01
+    );
+  }
+
+  /**
+   * Saldo de la cuota (con punitorios) que no cubren las líneas ya asignadas
+   */
+  private owed(subLoan: OpenSubLoan, assigned: Map<string, number>): number {
+    return round(
+      Number(subLoan.totalAmount) -
+        Number(subLoan.paidAmount) +
+        Math.max(
+          0,
+          Number(subLoan.penaltyAmount) - Number(subLoan.penaltyPaid),
+        ) -
+        (assigned.get(subLoan.id) ?? 0),
+    );
+  }
+
+  /**
+   * Asigna el importe de una línea a la cuota; el excedente pasa a las siguientes
+   * cuotas abiertas del préstamo, como al registrar el pago
+   */
+  private assign(
+    target: OpenSubLoan,
+    amount: number,
+    openSubLoans: OpenSubLoan[],
+    assigned: Map<string, number>,
+  ): void {
+    const loanSubLoans = [
+      target,
+      ...openSubLoans
+        .filter((sl) => sl.loanId === target.loanId && sl.id !== target.id)
+        .sort((a, b) => a.paymentNumber - b.paymentNumber),
+    ];
+
+    let remaining = amount;
+    for (const subLoan of loanSubLoans) {
+      if (remaining <= 0) break;
+
+      const applied = round(
+        Math.min(remaining, Math.max(0, this.owed(subLoan, assigned))),
+      );
+      if (applied <= 0) continue;
+
+      assigned.set(
+        subLoan.id,
+        round((assigned.get(subLoan.id) ?? 0) + applied),
+      );
+      remaining = round(remaining - applied);
+    }
+  }
+
+  private nextOpenSubLoan(subLoans: OpenSubLoan[]): OpenSubLoan {
+    return subLoans.reduce((next, sl) =>
+      sl.paymentNumber < next.paymentNumber ? sl : next,
+    );
+  }
+
+  /**
+   * Próxima cuota abierta de cada préstamo
+   */
+  private groupNextByLoan(subLoans: OpenSubLoan[]): OpenSubLoan[] {
+    const byLoan = new Map<string, OpenSubLoan[]>();
+    for (const subLoan of subLoans) {
+      byLoan.set(subLoan.loanId, [
+        ...(byLoan.get(subLoan.loanId) ?? []),
+        subLoan,
+      ]);
+    }
+    return Array.from(byLoan.values()).map((group) =>
+      this.nextOpenSubLoan(group),
+    );
+  }
+
+  private toCandidate(
+    subLoan: OpenSubLoan,
+    assigned: Map<string, number> = new Map(),
+  ): MatchCandidate {
+    return {
+      subLoanId: subLoan.id,
+      loanId: subLoan.loanId,
+      loanTrack: subLoan.loan.loanTrack,
+      paymentNumber: subLoan.paymentNumber,
+      clientName: subLoan.loan.client.fullName,
+      dueDate: subLoan.dueDate,
+      pending: round(
+        Number(subLoan.totalAmount) -
+          Number(subLoan.paidAmount) -
+          (assigned.get(subLoan.id) ?? 0),
+      ),
+    };
+  }
+
+  /**
+   * Cuotas abiertas de los préstamos a los que el usuario tiene acceso
+   * (SUBADMIN: préstamos de sus managers)
+   */
+  private async getOpenSubLoans(
+    userId: string,
+    userRole: UserRole,
+    currency: BankImportProfile['currency'],
+    subLoanId?: string,
+  ): Promise<OpenSubLoan[]> {
+    const loanWhere: Prisma.LoanWhereInput = {
+      deletedAt: null,
+      currency,
+      status: {
+        in: [LoanStatus.ACTIVE, LoanStatus.APPROVED, LoanStatus.DEFAULTED],
+      },
+    };
+
+    if (userRole === UserRole.SUBADMIN) {
+      const managers = await this.prisma.user.findMany({
+        where: {
+          role: UserRole.MANAGER,
+          createdById: userId,
+          deletedAt: null,
+        },
+        select: { id: true },
+      });
+      loanWhere.managerId = { in: managers.map((m) => m.id) };
+    }
+
+    return this.prisma.subLoan.findMany({
+      where: {
+        ...(subLoanId && { id: subLoanId }),
+        deletedAt: null,
+        status: { in: OPEN_SUB_LOAN_STATUSES },
+        loan: loanWhere,
+      },
+      select: openSubLoanSelect,
+      orderBy: [{ dueDate: 'asc' }, { paymentNumber: 'asc' }],
+    });
+  }
+
+  /**
+   * Referencias de transferencias que ya tienen un pago registrado
+   */
+  private async getRegisteredReferences(
+    references: (string | null)[],
+  ): Promise<Set<string>> {
+    const values = references.filter((r): r is string => !!r);
+    if (values.length === 0) {
+      return new Set();
+    }
+
+    const payments = await this.prisma.payment.findMany({
+      where: {
+        externalReference: { in: values },
+        status: PaymentStatus.COMPLETED,
+      },
+      select: { externalReference: true },
+    });
+
+    return new Set(payments.map((p) => p.externalReference!));
+  }
+
+  private async findProfile(
+    profileId: string,
+    userId: string,
+    userRole: UserRole,
+  ) {
+    const profile = await this.prisma.bankImportProfile.findUnique({
+      where: { id: profileId },
+    });
+
+    if (!profile) {
+      throw new NotFoundException('Perfil no encontrado');
+    }
+
+    if (!this.isAdmin(userRole) && profile.ownerId !== userId) {
+      throw new ForbiddenException('No tienes acceso a este perfil');
+    }
+
+    return profile;
+  }
+
+  private async findImport(
+    importId: string,
+    userId: string,
+    userRole: UserRole,
+  ) {
+    const statementImport = await this.prisma.bankStatementImport.findUnique({
+      where: { id: importId },
+      include: { profile: true },
+    });
+
+    if (!statementImport) {
+      throw new NotFoundException('Importación no encontrada');
+    }
+
+    if (!this.isAdmin(userRole) && statementImport.ownerId !== userId) {
+      throw new ForbiddenException('No tienes acceso a esta importación');
+    }
+
+    return statementImport;
+  }
+
+  private isAdmin(userRole: UserRole): boolean {
+    return userRole === UserRole.ADMIN || userRole === UserRole.SUPERADMIN;
+  }
+}
@@ -0,0 +1,142 @@
+import {
+  IsBoolean,
+  IsEnum,
+  IsIn,
+  IsInt,
+  IsNotEmpty,
+  IsOptional,
+  IsString,
+  Max,
+  MaxLength,
+  Min,
+} from 'class-validator';
+import { ApiProperty, ApiPropertyOptional, PartialType } from '@nestjs/swagger';
+import { Type } from 'class-transformer';
+import { Currency } from '../../common/enums';
+
+const COLUMN_DESCRIPTION =
+  'Nombre del encabezado de la columna o su número (desde 1)';
+
+export class CreateBankImportProfileDto {
+  @ApiProperty({
+    description: 'Nombre del perfil',
+    example: 'Banco Nación - cuenta corriente',
+  })
+  @IsString()
+  @IsNotEmpty()
+  @MaxLength(100)
+  name: string;
+
+  @ApiPropertyOptional({
+    description: 'Separador de columnas',
+    default: ',',
+    example: ';',
+  })
+  @IsOptional()
+  @IsString()
+  @IsNotEmpty()
+  @MaxLength(3)
+  delimiter?: string;
+
+  @ApiPropertyOptional({
+    description: 'El archivo tiene una fila de encabezados',
+    default: true,
+  })
+  @IsOptional()
+  @IsBoolean()
+  hasHeader?: boolean;
+
+  @ApiPropertyOptional({
+    description:
+      'Filas a ignorar al inicio del archivo (datos de la cuenta que exporta el banco)',
+    default: 0,
+    example: 3,
+  })
+  @IsOptional()
+  @Type(() => Number)
+  @IsInt()
+  @Min(0)
+  @Max(50)
+  skipRows?: number;
+
+  @ApiProperty({ description: COLUMN_DESCRIPTION, example: 'Fecha' })
+  @IsString()
+  @IsNotEmpty()
+  @MaxLength(100)
+  dateColumn: string;
+
+  @ApiPropertyOptional({
+    description: 'Formato de la fecha (tokens de Luxon)',
+    default: 'dd/MM/yyyy',
+    example: 'dd/MM/yyyy',
+  })
+  @IsOptional()
+  @IsString()
+  @IsNotEmpty()
+  @MaxLength(50)
+  dateFormat?: string;
+
+  @ApiProperty({
+    description: `${COLUMN_DESCRIPTION}. Los importes negativos (débitos) se ignoran`,
+    example: 'Importe',
+  })
+  @IsString()
+  @IsNotEmpty()
+  @MaxLength(100)
+  amountColumn: string;
+
+  @ApiPropertyOptional({
+    description: 'Separador decimal de los importes',
+    enum: [',', '.'],
+    default: ',',
+  })
+  @IsOptional()
+  @IsIn([',', '.'])
+  decimalSeparator?: string;
+
+  @ApiPropertyOptional({ description: COLUMN_DESCRIPTION, example: 'Concepto' })
+  @IsOptional()
+  @IsString()
+  @MaxLength(100)
+  descriptionColumn?: string;
+
+  @ApiPropertyOptional({
+    description: `${COLUMN_DESCRIPTION} (nro. de operación)`,
+    example: 'Nro. Operación',
+  })
+  @IsOptional()
+  @IsString()
+  @MaxLength(100)
+  referenceColumn?: string;
+
+  @ApiPropertyOptional({
+    description: `${COLUMN_DESCRIPTION} (CUIT/DNI del ordenante)`,
+    example: 'CUIT Ordenante',
+  })
+  @IsOptional()
+  @IsString()
+  @MaxLength(100)
+  documentColumn?: string;
+
+  @ApiPropertyOptional({
+    description: `${COLUMN_DESCRIPTION} (nombre del ordenante)`,
+    example: 'Ordenante',
+  })
+  @IsOptional()
+  @IsString()
+  @MaxLength(100)
+  payerNameColumn?: string;
+
+  @ApiPropertyOptional({
+    description: 'Moneda de la cuenta',
+    enum: Currency,
+    default: Currency.ARS,
+  })
+  @IsOptional()
+  @IsEnum(Currency)
+  currency?: Currency;
+}
+
+export class UpdateBankImportProfileDto extends PartialType(
+  CreateBankImportProfileDto,
+) {}
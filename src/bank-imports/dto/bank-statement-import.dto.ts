@@ -0,0 +1,56 @@
+import {
+  IsBoolean,
+  IsNotEmpty,
+  IsOptional,
+  IsString,
+  MaxLength,
+} from 'class-validator';
+import { ApiProperty, ApiPropertyOptional } from '@nestjs/swagger';
+
+export class CreateBankStatementImportDto {
+  @ApiProperty({
+    description: 'ID del perfil de columnas del banco',
+    example: 'cm1234567890',
+  })
+  @IsString()
+  @IsNotEmpty()
+  profileId: string;
+
+  @ApiProperty({
+    description: 'Contenido del extracto en CSV',
+    example:
+      'Fecha;Concepto;Nro. Operación;Importe\n15/12/2025;TRANSF CREDITO-2025-00012;0001234;15.000,00',
+  })
+  @IsString()
+  @IsNotEmpty()
+  @MaxLength(5_000_000)
+  content: string;
+
+  @ApiPropertyOptional({
+    description: 'Nombre del archivo descargado del banco',
+    example: 'extracto-diciembre.csv',
+  })
+  @IsOptional()
+  @IsString()
+  @MaxLength(255)
+  fileName?: string;
+}
+
+export class ReviewBankStatementLineDto {
+  @ApiPropertyOptional({
+    description: 'Cuota a la que se imputa la línea (confirma la coincidencia)',
+    example: 'cm1234567890',
+  })
+  @IsOptional()
+  @IsString()
+  @IsNotEmpty()
+  subLoanId?: string;
+
+  @ApiPropertyOptional({
+    description: 'Descartar la línea (no se registra ningún pago)',
+    example: false,
+  })
+  @IsOptional()
+  @IsBoolean()
+  ignore?: boolean;
+}
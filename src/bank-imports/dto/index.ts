@@ -0,0 +1,2 @@
+export * from './bank-import-profile.dto';
+export * from './bank-statement-import.dto';
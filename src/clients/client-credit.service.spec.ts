@@ -0,0 +1,244 @@
+import { Test, TestingModule } from '@nestjs/testing';
+import {
+  ClientCreditMovementType,
+  Currency,
+  PaymentMethod,
+  Prisma,
+} from '@prisma/client';
+import { PrismaService } from '../prisma/prisma.service';
+import { CollectorWalletService } from '../collector-wallet/collector-wallet.service';
+import { ClientsService } from './clients.service';
+import { ClientCreditService } from './client-credit.service';
+
+interface FakeCredit {
+  id: string;
+  clientId: string;
+  currency: Currency;
+  balance: Prisma.Decimal;
+}
+
+interface FakeMovement {
+  creditId: string;
+  type: ClientCreditMovementType;
+  amount: Prisma.Decimal;
+  paymentId?: string | null;
+  paymentMethod?: PaymentMethod | null;
+  managerId?: string | null;
+  subLoanId?: string | null;
+  loanId?: string | null;
+}
+
+/**
+ * Transacción en memoria con lo que usa el ledger de saldo a favor
+ */
+const createFakeTransaction = () => {
+  const credits: FakeCredit[] = [];
+  const movements: FakeMovement[] = [];
+
+  const tx = {
+    clientCredit: {
+      findUnique: ({
+        where,
+      }: {
+        where: { clientId_currency: { clientId: string; currency: Currency } };
+      }) =>
+        Promise.resolve(
+          credits.find(
+            (credit) =>
+              credit.clientId === where.clientId_currency.clientId &&
+              credit.currency === where.clientId_currency.currency,
+          ) ?? null,
+        ),
+      upsert: async ({
+        create,
+      }: {
+        create: { clientId: string; currency: Currency };
+      }) => {
+        const existing = await tx.clientCredit.findUnique({
+          where: { clientId_currency: create },
+        });
+        if (existing) return existing;
+
+        const credit = {
+          id: `credit-${credits.length + 1}`,
+          ...create,
+          balance: new Prisma.Decimal(0),
+        };
+        credits.push(credit);
+        return credit;
+      },
+      findUniqueOrThrow: ({ where }: { where: { id: string } }) =>
+        Promise.resolve(credits.find((c) => c.id === where.id)!),
+      update: ({
+        where,
+        data,
+      }: {
+        where: { id: string };
+        data: { balance: { increment: Prisma.Decimal } };
+      }) => {
+        const credit = credits.find((c) => c.id === where.id)!;
+        credit.balance = credit.balance.plus(data.balance.increment);
+        return Promise.resolve(credit);
+      },
+      updateMany: ({
+        where,
+        data,
+      }: {
+        where: { id: string; balance: { gte: Prisma.Decimal } };
+        data: { balance: { increment: Prisma.Decimal } };
+      }) => {
+        const credit = credits.find(
+          (c) => c.id === where.id && c.balance.gte(where.balance.gte),
+        );
+        if (credit) {
+          credit.balance = credit.balance.plus(data.balance.increment);
+        }
+        return Promise.resolve({ count: credit ? 1 : 0 });
+      },
+    },
+    clientCreditMovement: {
+      create: ({ data }: { data: FakeMovement }) => {
+        movements.push(data);
+        return Promise.resolve(data);
+      },
+      findMany: ({
+        where,
+      }: {
+        where: {
+          paymentId: { in: string[] };
+          type: { in: ClientCreditMovementType[] };
+        };
+      }) =>
+        Promise.resolve(
+          movements
+            .filter(
+              (movement) =>
+                where.paymentId.in.includes(movement.paymentId!) &&
+                where.type.in.includes(movement.type),
+            )
+            .map((movement) => ({
+              ...movement,
+              credit: credits.find((c) => c.id === movement.creditId)!,
+            })),
+        ),
+    },
+  };
+
+  return { tx: tx as unknown as Prisma.TransactionClient, credits, movements };
+};
+
+describe('ClientCreditService', () => {
+  let service: ClientCreditService;
+  let collectorWalletService: { recordClientCredit: jest.Mock };
+  let fake: ReturnType<typeof createFakeTransaction>;
+
+  const overpayment = {
+    clientId: 'client-1',
+    currency: Currency.ARS,
+    amount: 150,
+    managerId: 'manager-1',
+    paymentMethod: PaymentMethod.CASH,
+    paymentId: 'payment-1',
+    subLoanId: 'sub-1',
+    loanId: 'loan-1',
+    createdById: 'manager-1',
+    description: 'Excedente del pago',
+  };
+  const application = {
+    clientId: 'client-1',
+    currency: Currency.ARS,
+    paymentId: 'payment-2',
+    subLoanId: 'sub-2',
+    loanId: 'loan-1',
+    createdById: 'manager-1',
+    description: 'Imputación de saldo a favor',
+  };
+
+  beforeEach(async () => {
+    collectorWalletService = { recordClientCredit: jest.fn() };
+    fake = createFakeTransaction();
+
+    const module: TestingModule = await Test.createTestingModule({
+      providers: [
+        ClientCreditService,
+        { provide: PrismaService, useValue: {} },
+        { provide: ClientsService, useValue: {} },
+        { provide: CollectorWalletService, useValue: collectorWalletService },
+      ],
+    }).compile();
+
+    service = module.get<ClientCreditService>(ClientCreditService);
+  });
+
+  describe('recordOverpayment', () => {
+    it('should add the excess to the client credit and record it in the manager wallet', async () => {
+      await service.recordOverpayment(fake.tx, overpayment);
+
+      expect(
+        await service.getAvailable('client-1', Currency.ARS, fake.tx),
+      ).toBe(150);
+      expect(fake.movements[0]).toMatchObject({
+        type: ClientCreditMovementType.OVERPAYMENT,
+        amount: new Prisma.Decimal(150),
+        balanceBefore: new Prisma.Decimal(0),
+        balanceAfter: new Prisma.Decimal(150),
+      });
+      expect(collectorWalletService.recordClientCredit).toHaveBeenCalledWith(
+        expect.objectContaining({ userId: 'manager-1', amount: 150 }),
+      );
+    });
+  });
+
+  describe('consume', () => {
+    it('should take the applied amount from the balance', async () => {
+      await service.recordOverpayment(fake.tx, overpayment);
+      await service.consume(fake.tx, { ...application, amount: 100 });
+
+      expect(
+        await service.getAvailable('client-1', Currency.ARS, fake.tx),
+      ).toBe(50);
+      expect(fake.movements[1]).toMatchObject({
+        type: ClientCreditMovementType.APPLICATION,
+        amount: new Prisma.Decimal(-100),
+      });
+    });
+
+    it('should not leave the balance negative', async () => {
+      await service.recordOverpayment(fake.tx, overpayment);
+
+      await expect(
+        service.consume(fake.tx, { ...application, amount: 200 }),
+      ).rejects.toThrow('Saldo a favor insuficiente');
+    });
+  });
+
+  describe('reverseOverpayments', () => {
+    it('should reverse the credit of a payment only once', async () => {
+      await service.recordOverpayment(fake.tx, overpayment);
+
+      expect(
+        await service.reverseOverpayments(fake.tx, ['payment-1'], 'Anulación'),
+      ).toBe(150);
+      expect(
+        await service.reverseOverpayments(fake.tx, ['payment-1'], 'Anulación'),
+      ).toBe(0);
+      expect(
+        await service.getAvailable('client-1', Currency.ARS, fake.tx),
+      ).toBe(0);
+      expect(
+        collectorWalletService.recordClientCredit,
+      ).toHaveBeenLastCalledWith(
+        expect.objectContaining({ userId: 'manager-1', amount: -150 }),
+      );
+    });
+
+    it('should refuse to reverse credit the client already used', async () => {
+      await service.recordOverpayment(fake.tx, overpayment);
+      await service.consume(fake.tx, { ...application, amount: 100 });
+
+      await expect(
+        service.reverseOverpayments(fake.tx, ['payment-1'], 'Anulación'),
+      ).rejects.toThrow('ya fue utilizado');
+    });
+  });
+});
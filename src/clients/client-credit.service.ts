@@ -0,0 +1,469 @@
+import {
+  Injectable,
+  BadRequestException,
+  ForbiddenException,
+} from '@nestjs/common';
+import {
+  ClientCredit,
+  ClientCreditMovementType,
+  Currency,
+  PaymentMethod,
+  Prisma,
+} from '@prisma/client';
+import { PrismaService } from '../prisma/prisma.service';
+import { CollectorWalletService } from '../collector-wallet/collector-wallet.service';
+import { ClientsService } from './clients.service';
+import { ClientCreditDepositDto } from './dto';
+import { UserRole } from '../common/enums';
+
+const round = (value: number) => Number(value.toFixed(2));
+
+/**
+ * Saldo a favor de los clientes (por moneda). Ingresa por excedentes de pagos y
+ * depósitos a cuenta, y se consume imputándolo a cuotas con el método CLIENT_CREDIT.
+ */
+@Injectable()
+export class ClientCreditService {
+  constructor(
+    private prisma: PrismaService,
+    private clientsService: ClientsService,
+    private collectorWalletService: CollectorWalletService,
+  ) {}
+
+  /**
+   * Saldo a favor disponible del cliente en una moneda
+   */
+  async getAvailable(
+    clientId: string,
+    currency: Currency,
+    tx?: Prisma.TransactionClient,
+  ): Promise<number> {
+    const prismaClient = tx || this.prisma;
+
+    const credit = await prismaClient.clientCredit.findUnique({
+      where: { clientId_currency: { clientId, currency } },
+      select: { balance: true },
+    });
+
+    return credit ? Number(credit.balance) : 0;
+  }
+
+  /**
+   * Saldo a favor y movimientos del cliente
+   */
+  async getClientCredit(clientId: string, userId: string, userRole: UserRole) {
+    await this.clientsService.findOne(clientId, userId, userRole);
+
+    const credits = await this.prisma.clientCredit.findMany({
+      where: { clientId },
+      include: {
+        movements: { orderBy: { createdAt: 'desc' } },
+      },
+      orderBy: { currency: 'asc' },
+    });
+
+    return credits.map((credit) => ({
+      currency: credit.currency,
+      balance: Number(credit.balance),
+      movements: credit.movements.map((movement) => ({
+        id: movement.id,
+        type: movement.type,
+        amount: Number(movement.amount),
+        balanceBefore: Number(movement.balanceBefore),
+        balanceAfter: Number(movement.balanceAfter),
+        description: movement.description,
+        paymentMethod: movement.paymentMethod,
+        managerId: movement.managerId,
+        paymentId: movement.paymentId,
+        subLoanId: movement.subLoanId,
+        loanId: movement.loanId,
+        createdAt: movement.createdAt,
+      })),
+    }));
+  }
+
+  /**
+   * Depósito a cuenta: el dinero ingresa a la wallet del manager (efectivo) o a su
+   * saldo bancario y queda como saldo a favor del cliente
+   */
+  async deposit(
+    clientId: string,
+    userId: string,
+    userRole: UserRole,
+    depositDto: ClientCreditDepositDto,
+  ) {
+    const client = await this.clientsService.findOne(
+      clientId,
+      userId,
+      userRole,
+    );
+    const managerId = await this.resolveDepositManager(
+      client.managers.map((manager) => manager.userId),
+      userId,
+      userRole,
+      depositDto.managerId,
+    );
+    const paymentMethod: PaymentMethod =
+      depositDto.paymentMethod ?? PaymentMethod.CASH;
+
+    if (paymentMethod === PaymentMethod.CLIENT_CREDIT) {
+      throw new BadRequestException(
+        'El depósito a cuenta debe indicar el medio con el que ingresó el dinero',
+      );
+    }
+
+    const description =
+      depositDto.description ||
+      `Depósito a cuenta ${client.fullName} (saldo a favor)`;
+
+    const movement = await this.prisma.$transaction(
+      async (tx) => {
+        const created = await this.addMovement(tx, {
+          clientId,
+          currency: depositDto.currency,
+          type: ClientCreditMovementType.DEPOSIT,
+          amount: depositDto.amount,
+          description,
+          paymentMethod,
+          managerId,
+          createdById: userId,
+        });
+
+        await this.collectorWalletService.recordClientCredit({
+          userId: managerId,
+          amount: depositDto.amount,
+          description,
+          paymentMethod,
+          externalReference: depositDto.externalReference,
+          transaction: tx,
+        });
+
+        return created;
+      },
+      {
+        maxWait: 30000,
+        timeout: 30000,
+      },
+    );
+
+    return {
+      clientId,
+      currency: depositDto.currency,
+      amount: Number(movement.amount),
+      balance: Number(movement.balanceAfter),
+      managerId,
+      paymentMethod,
+    };
+  }
+
+  /**
+   * Excedente de un pago que supera el saldo del préstamo: queda como saldo a favor
+   * y el dinero se registra en la wallet del manager como CLIENT_CREDIT
+   * IMPORTANTE: Este método debe ser llamado dentro de una transacción
+   */
+  async recordOverpayment(
+    tx: Prisma.TransactionClient,
+    params: {
+      clientId: string;
+      currency: Currency;
+      amount: number;
+      managerId: string;
+      paymentMethod: PaymentMethod;
+      externalReference?: string | null;
+      paymentId: string;
+      subLoanId: string;
+      loanId: string;
+      createdById: string;
+      description: string;
+    },
+  ) {
+    const movement = await this.addMovement(tx, {
+      clientId: params.clientId,
+      currency: params.currency,
+      type: ClientCreditMovementType.OVERPAYMENT,
+      amount: params.amount,
+      description: params.description,
+      paymentMethod: params.paymentMethod,
+      managerId: params.managerId,
+      paymentId: params.paymentId,
+      subLoanId: params.subLoanId,
+      loanId: params.loanId,
+      createdById: params.createdById,
+    });
+
+    await this.collectorWalletService.recordClientCredit({
+      userId: params.managerId,
+      amount: params.amount,
+      description: params.description,
+      paymentMethod: params.paymentMethod,
+      externalReference: params.externalReference,
+      subLoanId: params.subLoanId,
+      transaction: tx,
+    });
+
+    return movement;
+  }
+
+  /**
+   * Consumir saldo a favor para pagar una cuota (no mueve dinero)
+   * IMPORTANTE: Este método debe ser llamado dentro de una transacción
+   */
+  async consume(
+    tx: Prisma.TransactionClient,
+    params: {
+      clientId: string;
+      currency: Currency;
+      amount: number;
+      paymentId: string;
+      subLoanId: string;
+      loanId: string;
+      createdById: string;
+      description: string;
+    },
+  ) {
+    return this.addMovement(tx, {
+      ...params,
+      type: ClientCreditMovementType.APPLICATION,
+      amount: -params.amount,
+    });
+  }
+
+  /**
+   * Devolver al saldo a favor lo imputado por pagos que se revierten
+   * (reseteo, edición, anulación o reversión del pago del mismo día)
+   * IMPORTANTE: Este método debe ser llamado dentro de una transacción
+   */
+  async restore(
+    tx: Prisma.TransactionClient,
+    params: {
+      clientId: string;
+      currency: Currency;
+      amount: number;
+      subLoanId: string;
+      loanId: string;
+      description: string;
+    },
+  ) {
+    if (params.amount <= 0) {
+      return null;
+    }
+
+    return this.addMovement(tx, {
+      ...params,
+      type: ClientCreditMovementType.PAYMENT_REVERSAL,
+    });
+  }
+
+  /**
+   * Revertir el saldo a favor generado por excedentes de los pagos indicados,
+   * devolviendo el dinero de la wallet (o saldo bancario) del manager.
+   * Falla si el cliente ya usó ese saldo.
+   * IMPORTANTE: Este método debe ser llamado dentro de una transacción
+   */
+  async reverseOverpayments(
+    tx: Prisma.TransactionClient,
+    paymentIds: string[],
+    description: string,
+  ): Promise<number> {
+    if (paymentIds.length === 0) {
+      return 0;
+    }
+
+    const movements = await tx.clientCreditMovement.findMany({
+      where: {
+        paymentId: { in: paymentIds },
+        type: {
+          in: [
+            ClientCreditMovementType.OVERPAYMENT,
+            ClientCreditMovementType.OVERPAYMENT_REVERSAL,
+          ],
+        },
+      },
+      include: { credit: { select: { clientId: true, currency: true } } },
+      orderBy: { createdAt: 'asc' },
+    });
+
+    const alreadyReversed = new Set(
+      movements
+        .filter((m) => m.type === ClientCreditMovementType.OVERPAYMENT_REVERSAL)
+        .map((m) => m.paymentId),
+    );
+
+    let totalReversed = 0;
+    for (const movement of movements) {
+      if (
+        movement.type !== ClientCreditMovementType.OVERPAYMENT ||
+        alreadyReversed.has(movement.paymentId)
+      ) {
+        continue;
+      }
+
+      const amount = Number(movement.amount);
+      const available = await this.getAvailable(
+        movement.credit.clientId,
+        movement.credit.currency,
+        tx,
+      );
+      if (available + 0.001 < amount) {
+        throw new BadRequestException(
+          'El saldo a favor que generó el excedente del pago ya fue utilizado. ' +
+            'Revierta primero los pagos imputados con ese saldo',
+        );
+      }
+
+      await this.addMovement(tx, {
+        clientId: movement.credit.clientId,
+        currency: movement.credit.currency,
+        type: ClientCreditMovementType.OVERPAYMENT_REVERSAL,
+        amount: -amount,
+        description,
+        paymentMethod: movement.paymentMethod,
+        managerId: movement.managerId,
+        paymentId: movement.paymentId,
+        subLoanId: movement.subLoanId,
+        loanId: movement.loanId,
+      });
+
+      if (movement.managerId) {
+        await this.collectorWalletService.recordClientCredit({
+          userId: movement.managerId,
+          amount: -amount,
+          description,
+          paymentMethod: movement.paymentMethod ?? PaymentMethod.CASH,
+          subLoanId: movement.subLoanId ?? undefined,
+          transaction: tx,
+        });
+      }
+
+      totalReversed = round(totalReversed + amount);
+    }
+
+    return totalReversed;
+  }
+
+  /**
+   * Registra un movimiento y actualiza el saldo. Los consumos no pueden dejar el
+   * saldo negativo.
+   */
+  private async addMovement(
+    tx: Prisma.TransactionClient,
+    params: {
+      clientId: string;
+      currency: Currency;
+      type: ClientCreditMovementType;
+      amount: number;
+      description: string;
+      paymentMethod?: PaymentMethod | null;
+      managerId?: string | null;
+      paymentId?: string | null;
+      subLoanId?: string | null;
+      loanId?: string | null;
+      createdById?: string | null;
+    },
+  ) {
+    const amount = round(params.amount);
+
+    const credit = await tx.clientCredit.upsert({
+      where: {
+        clientId_currency: {
+          clientId: params.clientId,
+          currency: params.currency,
+        },
+      },
+      create: { clientId: params.clientId, currency: params.currency },
+      update: {},
+    });
+
+    // El saldo se actualiza en la misma sentencia: un consumo solo descuenta si el
+    // saldo alcanza, aunque otra transacción lo esté usando al mismo tiempo
+    let updatedCredit: ClientCredit;
+    if (amount < 0) {
+      const debited = await tx.clientCredit.updateMany({
+        where: {
+          id: credit.id,
+          balance: { gte: new Prisma.Decimal(-amount) },
+        },
+        data: { balance: { increment: new Prisma.Decimal(amount) } },
+      });
+      updatedCredit = await tx.clientCredit.findUniqueOrThrow({
+        where: { id: credit.id },
+      });
+
+      if (debited.count !== 1) {
+        throw new BadRequestException(
+          `Saldo a favor insuficiente: disponible ${Number(updatedCredit.balance).toFixed(2)} ${params.currency}`,
+        );
+      }
+    } else {
+      updatedCredit = await tx.clientCredit.update({
+        where: { id: credit.id },
+        data: { balance: { increment: new Prisma.Decimal(amount) } },
+      });
+    }
+
+    const balanceAfter = Number(updatedCredit.balance);
+    const balanceBefore = round(balanceAfter - amount);
+
+    return tx.clientCreditMovement.create({
+      data: {
+        creditId: credit.id,
+        type: params.type,
+        amount: new Prisma.Decimal(amount),
+        balanceBefore: new Prisma.Decimal(balanceBefore),
+        balanceAfter: new Prisma.Decimal(balanceAfter),
+        description: params.description,
+        paymentMethod: params.paymentMethod,
+        managerId: params.managerId,
+        paymentId: params.paymentId,
+        subLoanId: params.subLoanId,
+        loanId: params.loanId,
+        createdById: params.createdById,
+      },
+    });
+  }
+
+  /**
+   * Manager en cuya wallet ingresa el depósito: el propio MANAGER, el indicado
+   * (debe tener asignado al cliente) o el único manager del cliente
+   */
+  private async resolveDepositManager(
+    clientManagerIds: string[],
+    userId: string,
+    userRole: UserRole,
+    requestedManagerId?: string,
+  ): Promise<string> {
+    if (userRole === UserRole.MANAGER) {
+      return userId;
+    }
+
+    let candidateIds = clientManagerIds;
+    if (userRole === UserRole.SUBADMIN) {
+      const managed = await this.prisma.user.findMany({
+        where: {
+          id: { in: clientManagerIds },
+          createdById: userId,
+          deletedAt: null,
+        },
+        select: { id: true },
+      });
+      candidateIds = managed.map((m) => m.id);
+    }
+
+    if (requestedManagerId) {
+      if (!candidateIds.includes(requestedManagerId)) {
+        throw new ForbiddenException(
+          'El manager indicado no tiene asignado a este cliente',
+        );
+      }
+      return requestedManagerId;
+    }
+
+    if (candidateIds.length !== 1) {
+      throw new BadRequestException(
+        'Indique el manager que recibe el depósito (managerId)',
+      );
+    }
+
+    return candidateIds[0];
+  }
+}
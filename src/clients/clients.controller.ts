@@ -21,6 +21,7 @@ import {
   ApiQuery,
 } from '@nestjs/swagger';
 import { ClientsService } from './clients.service';
+import { ClientCreditService } from './client-credit.service';
 import {
   CreateClientDto,
   UpdateClientDto,
@@ -28,6 +29,9 @@ import {
   InactiveClientsDto,
   ActiveLoansClientsDto,
   UnverifiedClientsDto,
+  TransferClientsDto,
+  ClientCreditDepositDto,
+  UpdateClientLocationDto,
 } from './dto';
 import { PaginationDto } from '../common/dto/pagination.dto';
 import { PaginatedResponse } from '../common/interfaces/pagination.interface';
@@ -42,7 +46,10 @@ import { UserRole } from 'src/common/enums';
 @UseGuards(JwtAuthGuard, RolesGuard)
 @ApiBearerAuth()
 export class ClientsController {
-  constructor(private readonly clientsService: ClientsService) {}
+  constructor(
+    private readonly clientsService: ClientsService,
+    private readonly clientCreditService: ClientCreditService,
+  ) {}
 
   @Post()
   @Roles(UserRole.MANAGER)
@@ -427,6 +434,65 @@ export class ClientsController {
     return result;
   }
 
+  @Get(':id/credit')
+  @Roles(
+    UserRole.MANAGER,
+    UserRole.SUBADMIN,
+    UserRole.ADMIN,
+    UserRole.SUPERADMIN,
+  )
+  @ApiOperation({
+    summary: 'Saldo a favor del cliente y sus movimientos',
+    description:
+      'Devuelve el saldo a favor por moneda con sus movimientos: excedentes de pagos, ' +
+      'depósitos a cuenta, imputaciones a cuotas y reversiones.',
+  })
+  @ApiParam({ name: 'id', description: 'Client ID', example: 'cuid123' })
+  @ApiResponse({ status: 200, description: 'Saldo a favor del cliente' })
+  @ApiResponse({ status: 403, description: 'No tiene acceso a este cliente' })
+  @ApiResponse({ status: 404, description: 'Cliente no encontrado' })
+  async getCredit(@Param('id') id: string, @CurrentUser() currentUser: any) {
+    return this.clientCreditService.getClientCredit(
+      id,
+      currentUser.id,
+      currentUser.role,
+    );
+  }
+
+  @Post(':id/credit/deposit')
+  @Roles(
+    UserRole.MANAGER,
+    UserRole.SUBADMIN,
+    UserRole.ADMIN,
+    UserRole.SUPERADMIN,
+  )
+  @ApiOperation({
+    summary: 'Registrar un depósito a cuenta (saldo a favor)',
+    description:
+      'El dinero ingresa a la wallet de cobros del manager (o a su saldo bancario si no es efectivo) ' +
+      'como movimiento CLIENT_CREDIT y queda como saldo a favor del cliente para imputar a cuotas.',
+  })
+  @ApiParam({ name: 'id', description: 'Client ID', example: 'cuid123' })
+  @ApiResponse({ status: 201, description: 'Depósito registrado' })
+  @ApiResponse({
+    status: 400,
+    description: 'Datos inválidos o falta indicar el manager',
+  })
+  @ApiResponse({ status: 403, description: 'No tiene acceso a este cliente' })
+  @ApiResponse({ status: 404, description: 'Cliente no encontrado' })
+  async depositCredit(
+    @Param('id') id: string,
+    @Body() depositDto: ClientCreditDepositDto,
+    @CurrentUser() currentUser: any,
+  ) {
+    return this.clientCreditService.deposit(
+      id,
+      currentUser.id,
+      currentUser.role,
+      depositDto,
+    );
+  }
+
   @Patch(':id')
   @Roles(UserRole.MANAGER)
   @ApiOperation({ summary: 'Update a client (MANAGER only)' })
@@ -467,6 +533,35 @@ export class ClientsController {
     return result;
   }
 
+  @Patch(':id/location')
+  @Roles(UserRole.MANAGER)
+  @ApiOperation({
+    summary: 'Registrar la ubicación de un cliente',
+    description:
+      'Guarda latitud y longitud del domicilio de cobro, capturadas con el GPS del teléfono del cobrador (DEVICE) o cargadas a mano (MANUAL). ' +
+      'Se usa para optimizar el orden de visita de las rutas de cobro.',
+  })
+  @ApiParam({ name: 'id', description: 'Client ID', example: 'cuid123' })
+  @ApiResponse({ status: 200, description: 'Ubicación actualizada' })
+  @ApiResponse({ status: 400, description: 'Coordenadas inválidas' })
+  @ApiResponse({
+    status: 403,
+    description: 'Forbidden - Insufficient permissions',
+  })
+  @ApiResponse({ status: 404, description: 'Client not found' })
+  async updateLocation(
+    @Param('id') id: string,
+    @Body() locationDto: UpdateClientLocationDto,
+    @CurrentUser() currentUser: any,
+  ) {
+    return this.clientsService.updateLocation(
+      id,
+      locationDto,
+      currentUser.id,
+      currentUser.role,
+    );
+  }
+
   @Delete(':id')
   @Roles(UserRole.MANAGER)
   @ApiOperation({ summary: 'Delete a client permanently (MANAGER only)' })
@@ -640,4 +735,74 @@ export class ClientsController {
       timestamp: new Date().toISOString(),
     };
   }
+
+  @Post('transfer')
+  @Roles(UserRole.SUBADMIN, UserRole.ADMIN, UserRole.SUPERADMIN)
+  @ApiOperation({
+    summary: 'Transferir la cartera completa de un manager a otro',
+    description:
+      'Reasigna todos los clientes del manager de origen, sus préstamos activos y los ítems sin cobrar ' +
+      'de las rutas de hoy en adelante al manager de destino. Verifica la cuota de clientes del destino. ' +
+      'El historial de la wallet de cobros queda con el manager original. ' +
+      'SUBADMIN solo puede transferir entre managers que creó.',
+  })
+  @ApiResponse({ status: 201, description: 'Cartera transferida exitosamente' })
+  @ApiResponse({
+    status: 400,
+    description: 'Managers inválidos o cuota insuficiente en el destino',
+  })
+  @ApiResponse({
+    status: 403,
+    description: 'No tienes permisos sobre alguno de los managers',
+  })
+  @ApiResponse({
+    status: 404,
+    description: 'Manager no encontrado o sin clientes',
+  })
+  async transferPortfolio(
+    @Body() transferDto: TransferClientsDto,
+    @CurrentUser() currentUser: any,
+  ) {
+    return this.clientsService.transferClients(
+      transferDto,
+      currentUser.id,
+      currentUser.role,
+    );
+  }
+
+  @Post(':id/transfer')
+  @Roles(UserRole.SUBADMIN, UserRole.ADMIN, UserRole.SUPERADMIN)
+  @ApiOperation({
+    summary: 'Transferir un cliente a otro manager',
+    description:
+      'Reasigna el cliente, sus préstamos activos con el manager de origen y los ítems sin cobrar ' +
+      'de las rutas de hoy en adelante al manager de destino. Verifica la cuota de clientes del destino. ' +
+      'El historial de la wallet de cobros queda con el manager original.',
+  })
+  @ApiParam({ name: 'id', description: 'Client ID', example: 'cuid123' })
+  @ApiResponse({ status: 201, description: 'Cliente transferido exitosamente' })
+  @ApiResponse({
+    status: 400,
+    description: 'Managers inválidos o cuota insuficiente en el destino',
+  })
+  @ApiResponse({
+    status: 403,
+    description: 'No tienes permisos sobre alguno de los managers',
+  })
+  @ApiResponse({
+    status: 404,
+    description: 'Manager no encontrado o cliente no asignado al origen',
+  })
+  async transferClient(
+    @Param('id') id: string,
+    @Body() transferDto: TransferClientsDto,
+    @CurrentUser() currentUser: any,
+  ) {
+    return this.clientsService.transferClients(
+      transferDto,
+      currentUser.id,
+      currentUser.role,
+      id,
+    );
+  }
 }
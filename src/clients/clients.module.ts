@@ -1,12 +1,15 @@
 import { Module } from '@nestjs/common';
 import { ClientsService } from './clients.service';
+import { ClientCreditService } from './client-credit.service';
 import { ClientsController } from './clients.controller';
 import { PrismaModule } from '../prisma/prisma.module';
+import { AuditModule } from '../audit/audit.module';
+import { CollectorWalletModule } from '../collector-wallet/collector-wallet.module';
 
 @Module({
-  imports: [PrismaModule],
+  imports: [PrismaModule, AuditModule, CollectorWalletModule],
   controllers: [ClientsController],
-  providers: [ClientsService],
-  exports: [ClientsService],
+  providers: [ClientsService, ClientCreditService],
+  exports: [ClientsService, ClientCreditService],
 })
 export class ClientsModule {}
@@ -5,16 +5,25 @@ import {
   ForbiddenException,
 } from '@nestjs/common';
 import { PrismaService } from '../prisma/prisma.service';
-import { CreateClientDto, UpdateClientDto } from './dto';
-import { UserRole, LoanStatus } from 'src/common/enums';
+import {
+  CreateClientDto,
+  UpdateClientDto,
+  TransferClientsDto,
+  UpdateClientLocationDto,
+} from './dto';
+import { UserRole, LoanStatus, ClientLocationSource } from 'src/common/enums';
 import { PaginationDto } from '../common/dto/pagination.dto';
 import { PaginatedResponse } from '../common/interfaces/pagination.interface';
 import { DateUtil } from '../common/utils';
 import { ClientManager } from '@prisma/client';
+import { AuditService, AuditAction } from '../common/services/audit.service';
 
 @Injectable()
 export class ClientsService {
-  constructor(private prisma: PrismaService) {}
+  constructor(
+    private prisma: PrismaService,
+    private auditService: AuditService,
+  ) {}
 
   async create(
     createClientDto: CreateClientDto,
@@ -128,11 +137,18 @@ export class ClientsService {
       );
     }
 
+    const locationData = this.buildLocationData(
+      createClientDto.latitude,
+      createClientDto.longitude,
+      ClientLocationSource.MANUAL,
+    );
+
     // Crear nuevo cliente y actualizar cuota en una transacción
     const result = await this.prisma.$transaction(async (tx) => {
       const newClient = await tx.client.create({
         data: {
           ...createClientDto,
+          ...locationData,
           verified: false, // Siempre false al crear
         },
       });
@@ -265,6 +281,12 @@ export class ClientsService {
             loanTrack: true,
             createdAt: true,
             description: true,
+            refinancedFrom: {
+              select: { id: true, loanTrack: true },
+            },
+            refinancedInto: {
+              select: { id: true, loanTrack: true },
+            },
             _count: {
               select: {
                 subLoans: true,
@@ -283,6 +305,11 @@ export class ClientsService {
             transactions: true,
           },
         },
+        // Saldo a favor del cliente por moneda
+        credits: {
+          select: { currency: true, balance: true },
+          orderBy: { currency: 'asc' },
+        },
       },
     });
 
@@ -373,12 +400,97 @@ export class ClientsService {
 
     const updatedClient = await this.prisma.client.update({
       where: { id },
-      data: updateData,
+      data: {
+        ...updateData,
+        ...this.buildLocationData(
+          updateClientDto.latitude,
+          updateClientDto.longitude,
+          ClientLocationSource.MANUAL,
+        ),
+      },
     });
 
     return updatedClient;
   }
 
+  /**
+   * Registrar la ubicación del domicilio de cobro del cliente, capturada con el
+   * teléfono del cobrador o cargada a mano. Se usa para optimizar las rutas de cobro.
+   */
+  async updateLocation(
+    id: string,
+    locationDto: UpdateClientLocationDto,
+    userId: string,
+    userRole: UserRole,
+  ) {
+    // Verificar que el cliente existe y el usuario tiene acceso
+    await this.findOne(id, userId, userRole);
+
+    if (userRole !== UserRole.MANAGER) {
+      throw new ForbiddenException(
+        'Solo los MANAGER pueden actualizar la ubicación de clientes',
+      );
+    }
+
+    const clientManager = await this.prisma.clientManager.findFirst({
+      where: {
+        clientId: id,
+        userId: userId,
+        deletedAt: null,
+      },
+    });
+
+    if (!clientManager) {
+      throw new ForbiddenException(
+        'No tiene permisos para actualizar este cliente',
+      );
+    }
+
+    return this.prisma.client.update({
+      where: { id },
+      data: this.buildLocationData(
+        locationDto.latitude,
+        locationDto.longitude,
+        locationDto.source ?? ClientLocationSource.DEVICE,
+      ),
+      select: {
+        id: true,
+        fullName: true,
+        address: true,
+        latitude: true,
+        longitude: true,
+        locationSource: true,
+        locationUpdatedAt: true,
+      },
+    });
+  }
+
+  /**
+   * Helper: Datos de ubicación del cliente. Latitud y longitud van siempre juntas.
+   */
+  private buildLocationData(
+    latitude: number | undefined,
+    longitude: number | undefined,
+    source: ClientLocationSource,
+  ) {
+    if (latitude === undefined && longitude === undefined) {
+      return {};
+    }
+
+    if (latitude === undefined || longitude === undefined) {
+      throw new BadRequestException(
+        'La latitud y la longitud deben informarse juntas',
+      );
+    }
+
+    return {
+      latitude,
+      longitude,
+      locationSource: source,
+      locationUpdatedAt: new Date(),
+    };
+  }
+
   async remove(id: string, userId: string, userRole: UserRole) {
     // Verificar que el cliente existe y el usuario tiene acceso
     await this.findOne(id, userId, userRole);
@@ -455,6 +567,260 @@ export class ClientsService {
     return { message: 'Cliente desvinculado exitosamente' };
   }
 
+  /**
+   * Transfiere clientes de un manager a otro: un cliente puntual (clientId)
+   * o toda la cartera del manager origen. Reasigna la relación ClientManager,
+   * los préstamos activos y los ítems pendientes de las rutas de hoy en adelante.
+   * El historial de la wallet de cobros queda con el manager original.
+   */
+  async transferClients(
+    transferDto: TransferClientsDto,
+    userId: string,
+    userRole: UserRole,
+    clientId?: string,
+  ) {
+    const { fromManagerId, toManagerId, reason } = transferDto;
+
+    if (
+      userRole !== UserRole.SUBADMIN &&
+      userRole !== UserRole.ADMIN &&
+      userRole !== UserRole.SUPERADMIN
+    ) {
+      throw new ForbiddenException(
+        'Solo SUBADMIN, ADMIN o SUPERADMIN pueden transferir clientes',
+      );
+    }
+
+    if (fromManagerId === toManagerId) {
+      throw new BadRequestException(
+        'El manager de origen y el de destino deben ser distintos',
+      );
+    }
+
+    const managers = await this.prisma.user.findMany({
+      where: {
+        id: { in: [fromManagerId, toManagerId] },
+        deletedAt: null,
+      },
+      select: {
+        id: true,
+        fullName: true,
+        role: true,
+        createdById: true,
+        clientQuota: true,
+        usedClientQuota: true,
+      },
+    });
+
+    const fromManager = managers.find((m) => m.id === fromManagerId);
+    const toManager = managers.find((m) => m.id === toManagerId);
+
+    if (!fromManager || !toManager) {
+      throw new NotFoundException('Manager no encontrado');
+    }
+
+    if (
+      fromManager.role !== UserRole.MANAGER ||
+      toManager.role !== UserRole.MANAGER
+    ) {
+      throw new BadRequestException(
+        'Solo se pueden transferir clientes entre usuarios MANAGER',
+      );
+    }
+
+    if (
+      userRole === UserRole.SUBADMIN &&
+      (fromManager.createdById !== userId || toManager.createdById !== userId)
+    ) {
+      throw new ForbiddenException(
+        'Solo puedes transferir clientes entre managers que tú creaste',
+      );
+    }
+
+    const assignments = await this.prisma.clientManager.findMany({
+      where: {
+        userId: fromManagerId,
+        deletedAt: null,
+        ...(clientId ? { clientId } : {}),
+        client: { deletedAt: null },
+      },
+      select: { id: true, clientId: true },
+    });
+
+    if (assignments.length === 0) {
+      throw new NotFoundException(
+        clientId
+          ? 'El cliente no está asignado al manager de origen'
+          : 'El manager de origen no tiene clientes para transferir',
+      );
+    }
+
+    const clientIds = assignments.map((a) => a.clientId);
+
+    // Los clientes que el destino ya gestiona no consumen cuota nueva
+    const alreadyAssigned = await this.prisma.clientManager.findMany({
+      where: {
+        userId: toManagerId,
+        clientId: { in: clientIds },
+        deletedAt: null,
+      },
+      select: { clientId: true },
+    });
+    const newAssignments = clientIds.length - alreadyAssigned.length;
+
+    const availableQuota = toManager.clientQuota - toManager.usedClientQuota;
+    if (newAssignments > availableQuota) {
+      throw new BadRequestException(
+        `El manager de destino no tiene cuota suficiente. Necesita ${newAssignments} y tiene ${availableQuota} disponible(s). Cuota utilizada: ${toManager.usedClientQuota}/${toManager.clientQuota}`,
+      );
+    }
+
+    const today = DateUtil.now().startOf('day').toJSDate();
+
+    const result = await this.prisma.$transaction(
+      async (tx) => {
+        // Reasignar la relación cliente-manager
+        await tx.clientManager.deleteMany({
+          where: { id: { in: assignments.map((a) => a.id) } },
+        });
+
+        for (const id of clientIds) {
+          await tx.clientManager.upsert({
+            where: { clientId_userId: { clientId: id, userId: toManagerId } },
+            create: { clientId: id, userId: toManagerId },
+            update: { deletedAt: null },
+          });
+        }
+
+        await tx.user.update({
+          where: { id: fromManagerId },
+          data: {
+            usedClientQuota: Math.max(
+              fromManager.usedClientQuota - clientIds.length,
+              0,
+            ),
+          },
+        });
+
+        await tx.user.update({
+          where: { id: toManagerId },
+          data: { usedClientQuota: { increment: newAssignments } },
+        });
+
+        // Reasignar los préstamos activos
+        const loans = await tx.loan.findMany({
+          where: {
+            clientId: { in: clientIds },
+            managerId: fromManagerId,
+            deletedAt: null,
+            status: {
+              in: [
+                LoanStatus.PENDING,
+                LoanStatus.APPROVED,
+                LoanStatus.ACTIVE,
+                LoanStatus.DEFAULTED,
+              ],
+            },
+          },
+          select: { id: true, loanTrack: true },
+        });
+        const loanIds = loans.map((loan) => loan.id);
+
+        await tx.loan.updateMany({
+          where: { id: { in: loanIds } },
+          data: { managerId: toManagerId },
+        });
+
+        // Mover los ítems sin cobrar de las rutas activas de hoy en adelante.
+        // Si el destino no tiene ruta ese día, el ítem se quita y entrará
+        // cuando se genere su ruta.
+        const routeItems = await tx.collectionRouteItem.findMany({
+          where: {
+            amountCollected: 0,
+            subLoan: { loanId: { in: loanIds } },
+            route: {
+              managerId: fromManagerId,
+              status: 'ACTIVE',
+              routeDate: { gte: today },
+            },
+          },
+          select: {
+            id: true,
+            route: { select: { routeDate: true } },
+          },
+        });
+
+        let routeItemsMoved = 0;
+        let routeItemsRemoved = 0;
+
+        for (const item of routeItems) {
+          const targetRoute = await tx.dailyCollectionRoute.findFirst({
+            where: {
+              managerId: toManagerId,
+              routeDate: item.route.routeDate,
+              status: 'ACTIVE',
+            },
+            include: {
+              items: { select: { orderIndex: true } },
+            },
+          });
+
+          if (targetRoute) {
+            await tx.collectionRouteItem.update({
+              where: { id: item.id },
+              data: {
+                routeId: targetRoute.id,
+                orderIndex:
+                  targetRoute.items.reduce(
+                    (max, i) => Math.max(max, i.orderIndex),
+                    -1,
+                  ) + 1,
+              },
+            });
+            routeItemsMoved++;
+          } else {
+            await tx.collectionRouteItem.delete({ where: { id: item.id } });
+            routeItemsRemoved++;
+          }
+        }
+
+        return { loans, routeItemsMoved, routeItemsRemoved };
+      },
+      { maxWait: 30000, timeout: 30000 },
+    );
+
+    await this.auditService.log({
+      userId,
+      userRole,
+      action: AuditAction.TRANSFER,
+      entity: 'Client',
+      entityId: clientId,
+      changes: {
+        before: { managerId: fromManagerId },
+        after: {
+          managerId: toManagerId,
+          clientIds,
+          loanIds: result.loans.map((loan) => loan.id),
+        },
+      },
+      description:
+        `Transferencia de ${clientIds.length} cliente(s) y ${result.loans.length} préstamo(s) ` +
+        `de ${fromManager.fullName} a ${toManager.fullName}` +
+        (reason ? `: ${reason}` : ''),
+    });
+
+    return {
+      message: 'Transferencia realizada exitosamente',
+      fromManagerId,
+      toManagerId,
+      clientsTransferred: clientIds.length,
+      loansTransferred: result.loans.length,
+      loanTracks: result.loans.map((loan) => loan.loanTrack),
+      routeItemsMoved: result.routeItemsMoved,
+      routeItemsRemoved: result.routeItemsRemoved,
+    };
+  }
+
   async searchByDniOrCuit(
     dni?: string,
     cuit?: string,
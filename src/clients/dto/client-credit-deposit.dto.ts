@@ -0,0 +1,69 @@
+import {
+  IsEnum,
+  IsNotEmpty,
+  IsNumber,
+  IsOptional,
+  IsPositive,
+  IsString,
+  MaxLength,
+} from 'class-validator';
+import { ApiProperty, ApiPropertyOptional } from '@nestjs/swagger';
+import { Currency, PaymentMethod } from '../../common/enums';
+
+export class ClientCreditDepositDto {
+  @ApiProperty({
+    description: 'Monto que el cliente deja a cuenta',
+    example: 20000,
+    type: Number,
+  })
+  @IsNotEmpty()
+  @IsNumber()
+  @IsPositive()
+  amount: number;
+
+  @ApiProperty({
+    description: 'Moneda del depósito',
+    enum: Currency,
+    example: Currency.ARS,
+  })
+  @IsNotEmpty()
+  @IsEnum(Currency)
+  currency: Currency;
+
+  @ApiPropertyOptional({
+    description:
+      'Medio con el que ingresó el dinero. Solo el efectivo (CASH) ingresa a la wallet de cobros; el resto va al saldo bancario',
+    enum: PaymentMethod,
+    default: PaymentMethod.CASH,
+  })
+  @IsOptional()
+  @IsEnum(PaymentMethod)
+  paymentMethod?: PaymentMethod;
+
+  @ApiPropertyOptional({
+    description:
+      'Manager que recibe el dinero. Obligatorio para SUBADMIN/ADMIN si el cliente tiene más de un manager',
+    example: 'cmht5jiq20008gxv2ndk6mj8i',
+  })
+  @IsOptional()
+  @IsString()
+  managerId?: string;
+
+  @ApiPropertyOptional({
+    description: 'Referencia externa (nro. de operación de la transferencia)',
+    example: '0000003100012345678901',
+  })
+  @IsOptional()
+  @IsString()
+  @MaxLength(100)
+  externalReference?: string;
+
+  @ApiPropertyOptional({
+    description: 'Descripción del depósito',
+    example: 'Adelanto para las próximas cuotas',
+  })
+  @IsOptional()
+  @IsString()
+  @MaxLength(500)
+  description?: string;
+}
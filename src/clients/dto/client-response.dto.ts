@@ -1,4 +1,5 @@
 import { ApiProperty, ApiPropertyOptional } from '@nestjs/swagger';
+import { ClientLocationSource } from '../../common/enums';
 
 export class ClientResponseDto {
   @ApiProperty({ example: 'cuid123' })
@@ -34,6 +35,21 @@ export class ClientResponseDto {
   @ApiPropertyOptional({ example: 'Desarrollador de Software' })
   work?: string;
 
+  @ApiPropertyOptional({ example: -34.603722 })
+  latitude?: number;
+
+  @ApiPropertyOptional({ example: -58.381592 })
+  longitude?: number;
+
+  @ApiPropertyOptional({
+    enum: ClientLocationSource,
+    description: 'Origen de la ubicación: GPS del cobrador o carga manual',
+  })
+  locationSource?: ClientLocationSource;
+
+  @ApiPropertyOptional()
+  locationUpdatedAt?: Date;
+
   @ApiProperty({ example: '2024-01-01T00:00:00.000Z' })
   createdAt: Date;
 
@@ -113,4 +129,20 @@ export class ClientWithDetailsDto extends ClientWithManagersDto {
     loans: number;
     transactions: number;
   };
+
+  @ApiProperty({
+    description: 'Saldo a favor del cliente por moneda',
+    type: 'array',
+    items: {
+      type: 'object',
+      properties: {
+        currency: { type: 'string', example: 'ARS' },
+        balance: { type: 'number', example: 15000 },
+      },
+    },
+  })
+  credits: Array<{
+    currency: string;
+    balance: number;
+  }>;
 }
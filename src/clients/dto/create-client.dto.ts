@@ -1,4 +1,11 @@
-import { IsString, IsOptional, IsEmail, ValidateIf } from 'class-validator';
+import {
+  IsString,
+  IsOptional,
+  IsEmail,
+  ValidateIf,
+  IsLatitude,
+  IsLongitude,
+} from 'class-validator';
 import { ApiProperty, ApiPropertyOptional } from '@nestjs/swagger';
 
 export class CreateClientDto {
@@ -48,4 +55,20 @@ export class CreateClientDto {
   @IsOptional()
   @IsString()
   work?: string;
+
+  @ApiPropertyOptional({
+    example: -34.603722,
+    description: 'Latitud del domicilio de cobro (carga manual)',
+  })
+  @IsOptional()
+  @IsLatitude()
+  latitude?: number;
+
+  @ApiPropertyOptional({
+    example: -58.381592,
+    description: 'Longitud del domicilio de cobro (carga manual)',
+  })
+  @IsOptional()
+  @IsLongitude()
+  longitude?: number;
 }
@@ -5,3 +5,6 @@ export * from './inactive-clients-response.dto';
 export * from './inactive-clients.dto';
 export * from './active-loans-clients.dto';
 export * from './unverified-clients.dto';
+export * from './transfer-clients.dto';
+export * from './client-credit-deposit.dto';
+export * from './update-client-location.dto';
@@ -0,0 +1,29 @@
+import { IsNotEmpty, IsOptional, IsString, MaxLength } from 'class-validator';
+import { ApiProperty, ApiPropertyOptional } from '@nestjs/swagger';
+
+export class TransferClientsDto {
+  @ApiProperty({
+    description: 'ID del manager que hoy tiene asignada la cartera',
+    example: 'cmht5jiq20008gxv2ndk6mj8i',
+  })
+  @IsString()
+  @IsNotEmpty()
+  fromManagerId: string;
+
+  @ApiProperty({
+    description: 'ID del manager que recibe la cartera',
+    example: 'cmht5jiq20009gxv2ndk6mj9k',
+  })
+  @IsString()
+  @IsNotEmpty()
+  toManagerId: string;
+
+  @ApiPropertyOptional({
+    description: 'Motivo de la transferencia',
+    example: 'El manager deja la empresa',
+  })
+  @IsOptional()
+  @IsString()
+  @MaxLength(500)
+  reason?: string;
+}
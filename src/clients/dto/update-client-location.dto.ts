@@ -0,0 +1,29 @@
+import { IsEnum, IsLatitude, IsLongitude, IsOptional } from 'class-validator';
+import { ApiProperty, ApiPropertyOptional } from '@nestjs/swagger';
+import { ClientLocationSource } from '../../common/enums';
+
+export class UpdateClientLocationDto {
+  @ApiProperty({
+    description: 'Latitud del domicilio de cobro',
+    example: -34.603722,
+  })
+  @IsLatitude()
+  latitude: number;
+
+  @ApiProperty({
+    description: 'Longitud del domicilio de cobro',
+    example: -58.381592,
+  })
+  @IsLongitude()
+  longitude: number;
+
+  @ApiPropertyOptional({
+    description:
+      'Origen de la ubicación: DEVICE si se capturó con el GPS del teléfono del cobrador, MANUAL si se cargó a mano',
+    enum: ClientLocationSource,
+    default: ClientLocationSource.DEVICE,
+  })
+  @IsOptional()
+  @IsEnum(ClientLocationSource)
+  source?: ClientLocationSource;
+}
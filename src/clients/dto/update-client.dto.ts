@@ -1,4 +1,10 @@
-import { IsString, IsOptional, IsEmail } from 'class-validator';
+import {
+  IsString,
+  IsOptional,
+  IsEmail,
+  IsLatitude,
+  IsLongitude,
+} from 'class-validator';
 import { ApiPropertyOptional } from '@nestjs/swagger';
 
 export class UpdateClientDto {
@@ -49,4 +55,20 @@ export class UpdateClientDto {
   @IsOptional()
   @IsString()
   work?: string;
+
+  @ApiPropertyOptional({
+    example: -34.603722,
+    description: 'Latitud del domicilio de cobro (carga manual)',
+  })
+  @IsOptional()
+  @IsLatitude()
+  latitude?: number;
+
+  @ApiPropertyOptional({
+    example: -58.381592,
+    description: 'Longitud del domicilio de cobro (carga manual)',
+  })
+  @IsOptional()
+  @IsLongitude()
+  longitude?: number;
 }
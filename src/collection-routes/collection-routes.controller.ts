@@ -9,6 +9,7 @@ import {
   Body,
   UseGuards,
   Request,
+  Res,
 } from '@nestjs/common';
 import {
   ApiTags,
@@ -18,7 +19,9 @@ import {
   ApiParam,
   ApiQuery,
 } from '@nestjs/swagger';
+import { Response } from 'express';
 import { CollectionRoutesService } from './collection-routes.service';
+import { RouteSheetService } from './route-sheet.service';
 import { JwtAuthGuard } from '../common/guards/jwt-auth.guard';
 import { RolesGuard } from '../common/guards/roles.guard';
 import { Roles } from '../common/decorators/roles.decorator';
@@ -28,6 +31,10 @@ import {
   UpdateRouteOrderDto,
   CloseRouteDto,
   GetRoutesQueryDto,
+  ExportRouteSheetQueryDto,
+  OptimizeRouteResponseDto,
+  RecordVisitOutcomeDto,
+  RecordVisitOutcomeResponseDto,
   CreateRouteExpenseDto,
   UpdateRouteExpenseDto,
   RouteExpenseResponseDto,
@@ -41,6 +48,7 @@ import {
 export class CollectionRoutesController {
   constructor(
     private readonly collectionRoutesService: CollectionRoutesService,
+    private readonly routeSheetService: RouteSheetService,
   ) {}
 
   @Get('today')
@@ -54,13 +62,14 @@ export class CollectionRoutesController {
     summary: 'Obtener la ruta de cobro activa del día',
     description:
       'Retorna la ruta de cobro activa para el día actual. ' +
-      'Los MANAGERS ven su propia ruta. ' +
+      'Los MANAGERS ven su propia ruta, o la de otro manager si la tienen delegada para hoy (suplente). ' +
       'Los SUBADMIN/ADMIN pueden especificar un managerId para ver la ruta de un manager específico.',
   })
   @ApiQuery({
     name: 'managerId',
     required: false,
-    description: 'ID del manager (requerido para SUBADMIN/ADMIN)',
+    description:
+      'ID del manager (requerido para SUBADMIN/ADMIN; para un MANAGER, la ruta que tiene delegada)',
     example: 'manager_id_here',
   })
   @ApiResponse({
@@ -176,6 +185,55 @@ export class CollectionRoutesController {
     );
   }
 
+  @Get(':routeId/export')
+  @Roles(
+    UserRole.MANAGER,
+    UserRole.SUBADMIN,
+    UserRole.ADMIN,
+    UserRole.SUPERADMIN,
+  )
+  @ApiOperation({
+    summary: 'Exportar la hoja de ruta en PDF o CSV',
+    description:
+      'Genera la hoja de ruta imprimible con los clientes en orden de visita: teléfono, dirección, ' +
+      'número de cuota, monto a cobrar y saldo vencido del cliente, más columnas en blanco ' +
+      'para anotar el monto cobrado y la firma.',
+  })
+  @ApiParam({
+    name: 'routeId',
+    description: 'ID de la ruta',
+    example: 'route_id_here',
+  })
+  @ApiResponse({
+    status: 200,
+    description: 'Hoja de ruta',
+    content: { 'application/pdf': {}, 'text/csv': {} },
+  })
+  @ApiResponse({ status: 404, description: 'Ruta no encontrada' })
+  @ApiResponse({ status: 403, description: 'No tienes acceso a esta ruta' })
+  async exportRouteSheet(
+    @Request() req,
+    @Param('routeId') routeId: string,
+    @Query() query: ExportRouteSheetQueryDto,
+    @Res() res: Response,
+  ) {
+    const sheet = await this.routeSheetService.exportRouteSheet(
+      routeId,
+      req.user.id,
+      req.user.role,
+      query.format,
+    );
+
+    res.setHeader('Content-Type', sheet.contentType);
+    res.setHeader(
+      'Content-Disposition',
+      `attachment; filename="${sheet.filename}"`,
+    );
+    res.setHeader('Content-Length', sheet.content.length);
+
+    return res.send(sheet.content);
+  }
+
   @Put(':routeId/order')
   @Roles(UserRole.MANAGER, UserRole.SUBADMIN)
   @ApiOperation({
@@ -215,6 +273,81 @@ export class CollectionRoutesController {
     );
   }
 
+  @Post(':routeId/optimize')
+  @Roles(UserRole.MANAGER, UserRole.SUBADMIN)
+  @ApiOperation({
+    summary: 'Optimizar el orden de visita de una ruta',
+    description:
+      'Reordena los items de una ruta activa según la ubicación de los clientes ' +
+      '(vecino más cercano + 2-opt), partiendo del punto de partida del manager si está configurado. ' +
+      'Los items de un mismo cliente quedan juntos y los de clientes sin ubicación van al final. ' +
+      'Devuelve la distancia estimada del recorrido.',
+  })
+  @ApiParam({
+    name: 'routeId',
+    description: 'ID de la ruta',
+    example: 'route_id_here',
+  })
+  @ApiResponse({
+    status: 200,
+    description: 'Ruta reordenada',
+    type: OptimizeRouteResponseDto,
+  })
+  @ApiResponse({
+    status: 400,
+    description: 'No se puede optimizar una ruta cerrada',
+  })
+  @ApiResponse({ status: 404, description: 'Ruta no encontrada' })
+  @ApiResponse({ status: 403, description: 'No tienes acceso a esta ruta' })
+  async optimizeRoute(
+    @Request() req,
+    @Param('routeId') routeId: string,
+  ): Promise<OptimizeRouteResponseDto> {
+    return this.collectionRoutesService.optimizeRoute(
+      routeId,
+      req.user.id,
+      req.user.role,
+    );
+  }
+
+  @Put('items/:itemId/visit')
+  @Roles(UserRole.MANAGER, UserRole.SUBADMIN)
+  @ApiOperation({
+    summary: 'Registrar el resultado de la visita a un item',
+    description:
+      'Registra el resultado de la visita (PAID, NOT_HOME, REFUSED, MOVED, PROMISED_TO_PAY) ' +
+      'con fecha y hora y, opcionalmente, la posición GPS del cobrador. ' +
+      'Solo disponible para rutas con estado ACTIVE. Si ya tenía resultado, lo reemplaza.',
+  })
+  @ApiParam({
+    name: 'itemId',
+    description: 'ID del item de la ruta',
+    example: 'item_id_here',
+  })
+  @ApiResponse({
+    status: 200,
+    description: 'Visita registrada',
+    type: RecordVisitOutcomeResponseDto,
+  })
+  @ApiResponse({
+    status: 400,
+    description: 'No se pueden registrar visitas en una ruta cerrada',
+  })
+  @ApiResponse({ status: 404, description: 'Item de ruta no encontrado' })
+  @ApiResponse({ status: 403, description: 'No tienes acceso a esta ruta' })
+  async recordVisitOutcome(
+    @Request() req,
+    @Param('itemId') itemId: string,
+    @Body() visitDto: RecordVisitOutcomeDto,
+  ): Promise<RecordVisitOutcomeResponseDto> {
+    return this.collectionRoutesService.recordVisitOutcome(
+      itemId,
+      req.user.id,
+      req.user.role,
+      visitDto,
+    );
+  }
+
   @Post(':routeId/close')
   @Roles(
     UserRole.MANAGER,
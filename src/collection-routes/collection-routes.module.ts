@@ -1,14 +1,30 @@
 import { Module } from '@nestjs/common';
 import { CollectionRoutesController } from './collection-routes.controller';
 import { CollectionRoutesService } from './collection-routes.service';
+import { RouteOptimizationService } from './route-optimization.service';
+import { RouteDelegationService } from './route-delegation.service';
+import { RouteSheetService } from './route-sheet.service';
+import { RouteDelegationsController } from './route-delegations.controller';
 import { PrismaModule } from '../prisma/prisma.module';
 import { CollectorWalletModule } from '../collector-wallet/collector-wallet.module';
+import { HolidaysModule } from '../holidays/holidays.module';
+import { SystemConfigModule } from '../system-config/system-config.module';
 
 @Module({
-  imports: [PrismaModule, CollectorWalletModule],
-  controllers: [CollectionRoutesController],
-  providers: [CollectionRoutesService],
-  exports: [CollectionRoutesService],
+  imports: [
+    PrismaModule,
+    CollectorWalletModule,
+    HolidaysModule,
+    SystemConfigModule,
+  ],
+  controllers: [CollectionRoutesController, RouteDelegationsController],
+  providers: [
+    CollectionRoutesService,
+    RouteOptimizationService,
+    RouteDelegationService,
+    RouteSheetService,
+  ],
+  exports: [CollectionRoutesService, RouteDelegationService],
 })
 export class CollectionRoutesModule {}
 
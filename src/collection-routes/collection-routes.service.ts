@@ -6,7 +6,13 @@ import {
   Logger,
 } from '@nestjs/common';
 import { PrismaService } from '../prisma/prisma.service';
-import { UserRole, Prisma } from '@prisma/client';
+import {
+  UserRole,
+  Prisma,
+  PaymentStatus,
+  PaymentPromiseStatus,
+  SubLoanStatus,
+} from '@prisma/client';
 import {
   CloseRouteDto,
   UpdateRouteOrderDto,
@@ -15,10 +21,25 @@ import {
   CreateRouteExpenseDto,
   UpdateRouteExpenseDto,
   RouteExpenseResponseDto,
+  RouteClientGroupDto,
+  OptimizeRouteResponseDto,
+  RecordVisitOutcomeDto,
+  RecordVisitOutcomeResponseDto,
+  RouteVisitSummaryDto,
 } from './dto';
 import { Decimal } from '@prisma/client/runtime/library';
 import { DateUtil } from '../common/utils/date.util';
 import { CollectorWalletService } from '../collector-wallet/collector-wallet.service';
+import { HolidaysService } from '../holidays/holidays.service';
+import { SystemConfigService } from '../system-config/system-config.service';
+import { RouteOptimizationService } from './route-optimization.service';
+import { RouteDelegationService } from './route-delegation.service';
+import {
+  ConfigKey,
+  RouteItemCollectionFlag,
+  RouteItemPriority,
+  VisitOutcome,
+} from '../common/enums';
 
 @Injectable()
 export class CollectionRoutesService {
@@ -27,18 +48,89 @@ export class CollectionRoutesService {
   constructor(
     private prisma: PrismaService,
     private collectorWalletService: CollectorWalletService,
+    private holidaysService: HolidaysService,
+    private systemConfigService: SystemConfigService,
+    private routeOptimizationService: RouteOptimizationService,
+    private routeDelegationService: RouteDelegationService,
   ) {}
 
   /**
    * Crear rutas de cobro para todos los managers con subloans activos para hoy
    * Se ejecuta automáticamente a las 4:15 AM
+   * Los feriados no tienen ruta: el primer día hábil posterior incluye
+   * también los subloans que vencieron en los feriados inmediatamente anteriores.
+   * Además incluye los subloans OVERDUE y PARTIAL de días anteriores dentro de la
+   * ventana ROUTE_OVERDUE_LOOKBACK_DAYS. Los items de un mismo cliente quedan juntos
+   * y los clientes se ordenan según ROUTE_ITEM_PRIORITY.
+   * Los préstamos DEFAULTED siguen en la ruta: se les siguen devengando punitorios
+   * y el cobrador debe seguir gestionando su cobro.
    */
   async createDailyRoutes(): Promise<any> {
     // Usar zona horaria de Argentina (GMT-3)
-    const todayStart = DateUtil.now().startOf('day').toJSDate();
+    const today = DateUtil.now().startOf('day');
+    const todayStart = today.toJSDate();
     const endOfDay = DateUtil.now().endOf('day').toJSDate();
 
-    // Obtener todos los managers con subloans que vencen hoy
+    const holiday = await this.holidaysService.findByDay(today);
+    if (holiday) {
+      this.logger.log(
+        `Hoy es feriado (${holiday.name}): no se crean rutas de cobro`,
+      );
+      return {
+        message: `Hoy es feriado (${holiday.name}): no se crearon rutas de cobro`,
+        createdRoutes: [],
+        date: todayStart,
+      };
+    }
+
+    // Retroceder sobre los feriados consecutivos anteriores a hoy
+    const holidays = await this.holidaysService.getHolidayDateSet(
+      today.minus({ days: 31 }).toJSDate(),
+    );
+    let windowStart = today;
+    while (holidays.has(windowStart.minus({ days: 1 }).toISODate()!)) {
+      windowStart = windowStart.minus({ days: 1 });
+    }
+    const fromDate = windowStart.toJSDate();
+
+    // Promesas de pago pendientes para hoy (o para los feriados anteriores)
+    const promisedForToday = {
+      status: PaymentPromiseStatus.PENDING,
+      promisedDate: {
+        gte: fromDate,
+        lte: endOfDay,
+      },
+    };
+
+    const lookbackDays = await this.systemConfigService.getConfig(
+      ConfigKey.ROUTE_OVERDUE_LOOKBACK_DAYS,
+    );
+    const priority = (await this.systemConfigService.getConfig(
+      ConfigKey.ROUTE_ITEM_PRIORITY,
+    )) as RouteItemPriority;
+
+    const routeSubLoanFilter: Prisma.SubLoanWhereInput[] = [
+      {
+        dueDate: {
+          gte: fromDate,
+          lte: endOfDay,
+        },
+      },
+      { paymentPromises: { some: promisedForToday } },
+    ];
+
+    // Cuotas vencidas o con pago parcial de días anteriores
+    if (lookbackDays > 0) {
+      routeSubLoanFilter.push({
+        status: { in: [SubLoanStatus.OVERDUE, SubLoanStatus.PARTIAL] },
+        dueDate: {
+          gte: today.minus({ days: lookbackDays }).toJSDate(),
+          lt: fromDate,
+        },
+      });
+    }
+
+    // Obtener todos los managers con subloans para la ruta de hoy
     const managersWithSubLoans = await this.prisma.user.findMany({
       where: {
         role: UserRole.MANAGER,
@@ -51,14 +143,11 @@ export class CollectionRoutesService {
               loans: {
                 some: {
                   deletedAt: null,
-                  status: { in: ['ACTIVE', 'APPROVED'] },
+                  status: { in: ['ACTIVE', 'APPROVED', 'DEFAULTED'] },
                   subLoans: {
                     some: {
                       deletedAt: null,
-                      dueDate: {
-                        gte: todayStart,
-                        lte: endOfDay,
-                      },
+                      OR: routeSubLoanFilter,
                     },
                   },
                 },
@@ -92,17 +181,14 @@ export class CollectionRoutesService {
           continue;
         }
 
-        // Obtener subloans que vencen hoy para este manager
-        const subLoans = await this.prisma.subLoan.findMany({
+        // Obtener subloans de la ruta de hoy para este manager
+        const matchingSubLoans = await this.prisma.subLoan.findMany({
           where: {
             deletedAt: null,
-            dueDate: {
-              gte: todayStart,
-              lte: endOfDay,
-            },
+            OR: routeSubLoanFilter,
             loan: {
               deletedAt: null,
-              status: { in: ['ACTIVE', 'APPROVED'] },
+              status: { in: ['ACTIVE', 'APPROVED', 'DEFAULTED'] },
               client: {
                 deletedAt: null,
                 managers: {
@@ -133,6 +219,12 @@ export class CollectionRoutesService {
           },
         });
 
+        const subLoans = this.sortRouteSubLoans(
+          matchingSubLoans,
+          fromDate,
+          priority,
+        );
+
         if (subLoans.length === 0) {
           this.logger.log(
             `No hay subloans para manager ${manager.fullName} en fecha ${todayStart.toISOString()}`,
@@ -207,9 +299,21 @@ export class CollectionRoutesService {
     const allCreatedRoutes: any[] = [];
     const dailySummaries: any[] = [];
 
+    const holidays = await this.holidaysService.getHolidayDateSet(
+      startDate.toJSDate(),
+    );
+
     // Iterar día por día desde el 15 de noviembre hasta hoy
     let currentDate = startDate;
     while (currentDate <= endDate) {
+      if (holidays.has(currentDate.toISODate()!)) {
+        this.logger.log(
+          `Fecha ${DateUtil.format(currentDate, 'dd/MM/yyyy')} es feriado, no se crean rutas`,
+        );
+        currentDate = currentDate.plus({ days: 1 });
+        continue;
+      }
+
       const dayStart = currentDate.startOf('day').toJSDate();
       const dayEnd = currentDate.endOf('day').toJSDate();
 
@@ -228,7 +332,7 @@ export class CollectionRoutesService {
                 loans: {
                   some: {
                     deletedAt: null,
-                    status: { in: ['ACTIVE', 'APPROVED'] },
+                    status: { in: ['ACTIVE', 'APPROVED', 'DEFAULTED'] },
                     subLoans: {
                       some: {
                         deletedAt: null,
@@ -279,7 +383,7 @@ export class CollectionRoutesService {
               },
               loan: {
                 deletedAt: null,
-                status: { in: ['ACTIVE', 'APPROVED'] },
+                status: { in: ['ACTIVE', 'APPROVED', 'DEFAULTED'] },
                 client: {
                   deletedAt: null,
                   managers: {
@@ -423,6 +527,25 @@ export class CollectionRoutesService {
         throw new NotFoundException('Manager no encontrado o sin acceso');
       }
 
+      targetManagerId = managerId;
+    } else if (
+      managerId &&
+      managerId !== userId &&
+      userRole === UserRole.MANAGER
+    ) {
+      // Suplente: solo si tiene delegada la ruta del manager para hoy
+      const delegation = await this.routeDelegationService.findActiveDelegation(
+        managerId,
+        userId,
+        today,
+      );
+
+      if (!delegation) {
+        throw new ForbiddenException(
+          'No tienes delegada la ruta de este manager para hoy',
+        );
+      }
+
       targetManagerId = managerId;
     } else if (userRole !== UserRole.MANAGER) {
       throw new BadRequestException(
@@ -448,6 +571,7 @@ export class CollectionRoutesService {
                   select: {
                     id: true,
                     loanTrack: true,
+                    clientId: true,
                     amount: true,
                     currency: true,
                   },
@@ -458,12 +582,25 @@ export class CollectionRoutesService {
                     description: true,
                     amount: true,
                     paymentDate: true,
+                    status: true,
                     createdAt: true,
                   },
                   orderBy: {
                     createdAt: 'desc',
                   },
                 },
+                paymentPromises: {
+                  where: { status: PaymentPromiseStatus.PENDING },
+                  select: {
+                    id: true,
+                    promisedDate: true,
+                    amount: true,
+                    notes: true,
+                  },
+                  orderBy: {
+                    promisedDate: 'asc',
+                  },
+                },
               },
             },
           },
@@ -700,6 +837,7 @@ export class CollectionRoutesService {
                   select: {
                     id: true,
                     loanTrack: true,
+                    clientId: true,
                     amount: true,
                     currency: true,
                   },
@@ -731,8 +869,9 @@ export class CollectionRoutesService {
     });
 
     // Transformar rutas a DTO (incluye búsqueda de préstamos del día)
+    const notHome = await this.getNotHomeCounts(routes);
     const routesWithLoans = await Promise.all(
-      routes.map((route) => this.transformRouteToDto(route)),
+      routes.map((route) => this.transformRouteToDto(route, notHome)),
     );
 
     return routesWithLoans;
@@ -761,7 +900,11 @@ export class CollectionRoutesService {
     }
 
     // Verificar acceso
-    if (userRole === UserRole.MANAGER && route.managerId !== userId) {
+    if (
+      userRole === UserRole.MANAGER &&
+      route.managerId !== userId &&
+      !(await this.isRouteSubstitute(route, userId))
+    ) {
       throw new ForbiddenException('No tienes acceso a esta ruta');
     } else if (userRole === UserRole.SUBADMIN) {
       // Verificar que el manager está bajo este subadmin
@@ -800,6 +943,204 @@ export class CollectionRoutesService {
     return this.getTodayActiveRoute(userId, userRole, route.managerId);
   }
 
+  /**
+   * Optimizar el orden de visita de una ruta activa según la ubicación de los clientes.
+   * Cada cliente es una parada (sus items quedan juntos) y el recorrido parte del punto
+   * de partida del manager si lo tiene configurado. Los items de clientes sin ubicación
+   * quedan al final, en su orden actual.
+   */
+  async optimizeRoute(
+    routeId: string,
+    userId: string,
+    userRole: UserRole,
+  ): Promise<OptimizeRouteResponseDto> {
+    const route = await this.verifyRouteAccess(routeId, userId, userRole);
+
+    if (route.status !== 'ACTIVE') {
+      throw new BadRequestException('No se puede optimizar una ruta cerrada');
+    }
+
+    const [items, manager] = await Promise.all([
+      this.prisma.collectionRouteItem.findMany({
+        where: { routeId },
+        select: {
+          id: true,
+          subLoan: {
+            select: {
+              loan: {
+                select: {
+                  client: {
+                    select: { id: true, latitude: true, longitude: true },
+                  },
+                },
+              },
+            },
+          },
+        },
+        orderBy: { orderIndex: 'asc' },
+      }),
+      this.prisma.user.findUnique({
+        where: { id: route.managerId },
+        select: { homeLatitude: true, homeLongitude: true },
+      }),
+    ]);
+
+    // Una parada por cliente ubicado, en el orden actual de la ruta
+    const stops = new Map<
+      string,
+      { latitude: number; longitude: number; itemIds: string[] }
+    >();
+    const unlocatedItemIds: string[] = [];
+
+    for (const item of items) {
+      const client = item.subLoan?.loan.client;
+      if (!client || client.latitude === null || client.longitude === null) {
+        unlocatedItemIds.push(item.id);
+        continue;
+      }
+
+      const stop = stops.get(client.id) ?? {
+        latitude: client.latitude,
+        longitude: client.longitude,
+        itemIds: [],
+      };
+      stop.itemIds.push(item.id);
+      stops.set(client.id, stop);
+    }
+
+    const homeBase =
+      manager?.homeLatitude != null && manager?.homeLongitude != null
+        ? { latitude: manager.homeLatitude, longitude: manager.homeLongitude }
+        : null;
+
+    const optimized = this.routeOptimizationService.optimizeVisitOrder(
+      Array.from(stops.values()),
+      homeBase,
+    );
+
+    const orderedItemIds = [
+      ...optimized.stops.flatMap((stop) => stop.itemIds),
+      ...unlocatedItemIds,
+    ];
+
+    await this.prisma.$transaction(
+      orderedItemIds.map((itemId, index) =>
+        this.prisma.collectionRouteItem.update({
+          where: { id: itemId },
+          data: { orderIndex: index },
+        }),
+      ),
+    );
+
+    return {
+      estimatedDistanceKm: optimized.distanceKm,
+      startsFromHomeBase: homeBase !== null,
+      locatedClients: stops.size,
+      unlocatedItems: unlocatedItemIds.length,
+      route: await this.getRouteById(routeId, userId, userRole),
+    };
+  }
+
+  /**
+   * Actualizar la nota de un item de la ruta (solo rutas activas)
+   */
+  async updateRouteItemNotes(
+    itemId: string,
+    userId: string,
+    userRole: UserRole,
+    notes: string,
+  ) {
+    const item = await this.prisma.collectionRouteItem.findUnique({
+      where: { id: itemId },
+      select: { id: true, routeId: true },
+    });
+
+    if (!item) {
+      throw new NotFoundException('Item de ruta no encontrado');
+    }
+
+    const route = await this.verifyRouteAccess(item.routeId, userId, userRole);
+
+    if (route.status !== 'ACTIVE') {
+      throw new BadRequestException(
+        'No se pueden modificar las notas de una ruta cerrada',
+      );
+    }
+
+    const updated = await this.prisma.collectionRouteItem.update({
+      where: { id: itemId },
+      data: { notes },
+    });
+
+    return {
+      id: updated.id,
+      routeId: updated.routeId,
+      notes: updated.notes,
+      updatedAt: updated.updatedAt,
+    };
+  }
+
+  /**
+   * Registrar el resultado de la visita a un item de la ruta (solo rutas activas).
+   * Si se vuelve a registrar, reemplaza el resultado anterior.
+   */
+  async recordVisitOutcome(
+    itemId: string,
+    userId: string,
+    userRole: UserRole,
+    visitDto: RecordVisitOutcomeDto,
+  ): Promise<RecordVisitOutcomeResponseDto> {
+    const item = await this.prisma.collectionRouteItem.findUnique({
+      where: { id: itemId },
+      select: { id: true, routeId: true },
+    });
+
+    if (!item) {
+      throw new NotFoundException('Item de ruta no encontrado');
+    }
+
+    const route = await this.verifyRouteAccess(item.routeId, userId, userRole);
+
+    if (route.status !== 'ACTIVE') {
+      throw new BadRequestException(
+        'No se pueden registrar visitas en una ruta cerrada',
+      );
+    }
+
+    if (
+      (visitDto.latitude === undefined) !==
+      (visitDto.longitude === undefined)
+    ) {
+      throw new BadRequestException(
+        'La latitud y la longitud deben informarse juntas',
+      );
+    }
+
+    const updated = await this.prisma.collectionRouteItem.update({
+      where: { id: itemId },
+      data: {
+        visitOutcome: visitDto.outcome,
+        visitedAt: visitDto.visitedAt
+          ? DateUtil.fromISO(visitDto.visitedAt).toJSDate()
+          : DateUtil.now().toJSDate(),
+        visitLatitude: visitDto.latitude ?? null,
+        visitLongitude: visitDto.longitude ?? null,
+        ...(visitDto.notes !== undefined ? { notes: visitDto.notes } : {}),
+      },
+    });
+
+    return {
+      id: updated.id,
+      routeId: updated.routeId,
+      visitOutcome: updated.visitOutcome as VisitOutcome,
+      visitedAt: updated.visitedAt!,
+      visitLatitude: updated.visitLatitude,
+      visitLongitude: updated.visitLongitude,
+      notes: updated.notes,
+      updatedAt: updated.updatedAt,
+    };
+  }
+
   /**
    * Cerrar una ruta del día
    */
@@ -828,7 +1169,11 @@ export class CollectionRoutesService {
     }
 
     // Verificar acceso
-    if (userRole === UserRole.MANAGER && route.managerId !== userId) {
+    if (
+      userRole === UserRole.MANAGER &&
+      route.managerId !== userId &&
+      !(await this.isRouteSubstitute(route, userId))
+    ) {
       throw new ForbiddenException('No tienes acceso a esta ruta');
     } else if (userRole === UserRole.SUBADMIN) {
       const manager = await this.prisma.user.findFirst({
@@ -882,6 +1227,7 @@ export class CollectionRoutesService {
     const dayEnd = DateUtil.endOfDay(DateUtil.fromJSDate(route.routeDate)).toJSDate();
     const paymentsSum = await this.prisma.payment.aggregate({
       where: {
+        status: PaymentStatus.COMPLETED,
         createdAt: {
           gte: dayStart,
           lte: dayEnd,
@@ -934,6 +1280,7 @@ export class CollectionRoutesService {
                   select: {
                     id: true,
                     loanTrack: true,
+                    clientId: true,
                     amount: true,
                     currency: true,
                   },
@@ -1042,6 +1389,7 @@ export class CollectionRoutesService {
 
         const paymentsSum = await this.prisma.payment.aggregate({
           where: {
+            status: PaymentStatus.COMPLETED,
             createdAt: {
               gte: dayStart,
               lte: dayEnd,
@@ -1120,6 +1468,7 @@ export class CollectionRoutesService {
                   select: {
                     id: true,
                     loanTrack: true,
+                    clientId: true,
                     amount: true,
                     currency: true,
                   },
@@ -1152,7 +1501,11 @@ export class CollectionRoutesService {
     }
 
     // Verificar acceso
-    if (userRole === UserRole.MANAGER && route.managerId !== userId) {
+    if (
+      userRole === UserRole.MANAGER &&
+      route.managerId !== userId &&
+      !(await this.isRouteSubstitute(route, userId))
+    ) {
       throw new ForbiddenException('No tienes acceso a esta ruta');
     } else if (userRole === UserRole.SUBADMIN) {
       const manager = await this.prisma.user.findFirst({
@@ -1340,7 +1693,11 @@ export class CollectionRoutesService {
       throw new NotFoundException('Ruta no encontrada');
     }
 
-    if (userRole === UserRole.MANAGER && route.managerId !== userId) {
+    if (
+      userRole === UserRole.MANAGER &&
+      route.managerId !== userId &&
+      !(await this.isRouteSubstitute(route, userId))
+    ) {
       throw new ForbiddenException('No tienes acceso a esta ruta');
     } else if (userRole === UserRole.SUBADMIN) {
       const manager = await this.prisma.user.findFirst({
@@ -1360,6 +1717,23 @@ export class CollectionRoutesService {
     return route;
   }
 
+  /**
+   * Helper: El usuario trabaja la ruta como suplente (delegación vigente en la
+   * fecha de la ruta)
+   */
+  private async isRouteSubstitute(
+    route: { managerId: string; routeDate: Date },
+    userId: string,
+  ): Promise<boolean> {
+    const delegation = await this.routeDelegationService.findActiveDelegation(
+      route.managerId,
+      userId,
+      route.routeDate,
+    );
+
+    return delegation !== null;
+  }
+
   /**
    * Helper: Buscar préstamos creados el mismo día que la ruta
    */
@@ -1395,9 +1769,254 @@ export class CollectionRoutesService {
   }
 
   /**
-   * Helper: Transformar ruta de Prisma a DTO
+   * Helper: Agrupar los subloans de la ruta por cliente y ordenar los clientes
+   * según la prioridad configurada. Dentro de cada cliente se mantiene el orden
+   * por fecha de vencimiento.
+   */
+  private sortRouteSubLoans<
+    T extends {
+      dueDate: Date;
+      totalAmount: Decimal;
+      paidAmount: Decimal;
+      loan: { client: { id: string } };
+    },
+  >(subLoans: T[], fromDate: Date, priority: RouteItemPriority): T[] {
+    const groups = new Map<
+      string,
+      { subLoans: T[]; oldestDueDate: number; dueToday: boolean; owed: number }
+    >();
+
+    for (const subLoan of subLoans) {
+      const clientId = subLoan.loan.client.id;
+      const group = groups.get(clientId) ?? {
+        subLoans: [],
+        oldestDueDate: subLoan.dueDate.getTime(),
+        dueToday: false,
+        owed: 0,
+      };
+
+      group.subLoans.push(subLoan);
+      group.oldestDueDate = Math.min(
+        group.oldestDueDate,
+        subLoan.dueDate.getTime(),
+      );
+      group.dueToday = group.dueToday || subLoan.dueDate >= fromDate;
+      group.owed += Number(subLoan.totalAmount) - Number(subLoan.paidAmount);
+      groups.set(clientId, group);
+    }
+
+    const sortedGroups = Array.from(groups.values()).sort((a, b) => {
+      switch (priority) {
+        case RouteItemPriority.OLDEST_FIRST:
+          return a.oldestDueDate - b.oldestDueDate;
+        case RouteItemPriority.HIGHEST_AMOUNT_FIRST:
+          return b.owed - a.owed;
+        default:
+          if (a.dueToday !== b.dueToday) {
+            return a.dueToday ? -1 : 1;
+          }
+          return a.oldestDueDate - b.oldestDueDate;
+      }
+    });
+
+    return sortedGroups.flatMap((group) => group.subLoans);
+  }
+
+  /**
+   * Helper: Indicar por qué el subloan está en la ruta: vence hoy, está vencido
+   * hace N días o tiene un pago parcial
+   */
+  private getCollectionFlag(
+    subLoan: any,
+    routeDate: Date,
+  ): { collectionFlag: RouteItemCollectionFlag; daysOverdue: number } {
+    const daysOverdue = Math.max(
+      0,
+      DateUtil.diffInDays(
+        DateUtil.fromPrismaDate(routeDate).startOf('day'),
+        DateUtil.fromPrismaDate(subLoan.dueDate).startOf('day'),
+      ),
+    );
+
+    if (subLoan.status === SubLoanStatus.PARTIAL) {
+      return { collectionFlag: RouteItemCollectionFlag.PARTIAL, daysOverdue };
+    }
+
+    return {
+      collectionFlag:
+        daysOverdue > 0
+          ? RouteItemCollectionFlag.OVERDUE
+          : RouteItemCollectionFlag.DUE_TODAY,
+      daysOverdue,
+    };
+  }
+
+  /**
+   * Helper: Visitas NOT_HOME de los clientes de un conjunto de rutas, con una sola
+   * consulta. Para cada ruta cuenta las rutas de los últimos NOT_HOME_WINDOW_DAYS
+   * días (hasta la fecha de la ruta inclusive) en las que cada cliente tuvo una
+   * visita NOT_HOME, y devuelve el umbral NOT_HOME_FLAG_THRESHOLD
    */
-  private async transformRouteToDto(route: any): Promise<CollectionRouteResponseDto> {
+  private async getNotHomeCounts(
+    routes: {
+      id: string;
+      routeDate: Date;
+      items: { subLoan?: { loan?: { clientId: string } | null } | null }[];
+    }[],
+  ): Promise<{
+    threshold: number;
+    countsByRoute: Map<string, Map<string, number>>;
+  }> {
+    const [threshold, windowDays] = await Promise.all([
+      this.systemConfigService.getConfig(ConfigKey.NOT_HOME_FLAG_THRESHOLD),
+      this.systemConfigService.getConfig(ConfigKey.NOT_HOME_WINDOW_DAYS),
+    ]);
+    const countsByRoute = new Map<string, Map<string, number>>();
+
+    const clientIdsOf = (route: (typeof routes)[number]) =>
+      Array.from(
+        new Set(
+          route.items
+            .map((item) => item.subLoan?.loan?.clientId)
+            .filter((id): id is string => !!id),
+        ),
+      );
+    const uniqueClientIds = Array.from(
+      new Set(routes.flatMap((route) => clientIdsOf(route))),
+    );
+
+    if (uniqueClientIds.length === 0) {
+      return { threshold, countsByRoute };
+    }
+
+    const routeDays = routes.map((route) =>
+      DateUtil.fromPrismaDate(route.routeDate).startOf('day'),
+    );
+    const firstDay = routeDays.reduce((min, day) => (day < min ? day : min));
+    const lastDay = routeDays.reduce((max, day) => (day > max ? day : max));
+
+    const items = await this.prisma.collectionRouteItem.findMany({
+      where: {
+        visitOutcome: VisitOutcome.NOT_HOME,
+        subLoan: { loan: { clientId: { in: uniqueClientIds } } },
+        route: {
+          routeDate: {
+            gte: firstDay.minus({ days: windowDays }).toJSDate(),
+            lte: lastDay.endOf('day').toJSDate(),
+          },
+        },
+      },
+      select: {
+        routeId: true,
+        route: { select: { routeDate: true } },
+        subLoan: { select: { loan: { select: { clientId: true } } } },
+      },
+    });
+
+    // Una ruta cuenta una sola vez aunque el cliente tenga varios items en ella
+    const routesByClient = new Map<string, Map<string, number>>();
+    for (const item of items) {
+      const clientId = item.subLoan?.loan.clientId;
+      if (!clientId) continue;
+      const visitedRoutes =
+        routesByClient.get(clientId) ?? new Map<string, number>();
+      visitedRoutes.set(
+        item.routeId,
+        DateUtil.fromPrismaDate(item.route.routeDate).startOf('day').toMillis(),
+      );
+      routesByClient.set(clientId, visitedRoutes);
+    }
+
+    routes.forEach((route, index) => {
+      const to = routeDays[index].toMillis();
+      const from = routeDays[index].minus({ days: windowDays }).toMillis();
+      const counts = new Map<string, number>();
+
+      for (const clientId of clientIdsOf(route)) {
+        const visitedDays = Array.from(
+          routesByClient.get(clientId)?.values() ?? [],
+        );
+        counts.set(
+          clientId,
+          visitedDays.filter((day) => day >= from && day <= to).length,
+        );
+      }
+      countsByRoute.set(route.id, counts);
+    });
+
+    return { threshold, countsByRoute };
+  }
+
+  /**
+   * Helper: Resumen de visitas de la ruta. La efectividad es la proporción de
+   * visitas con resultado PAID sobre las visitas registradas.
+   */
+  private buildVisitSummary(items: any[]): RouteVisitSummaryDto {
+    const byOutcome = Object.values(VisitOutcome).reduce(
+      (acc, outcome) => ({ ...acc, [outcome]: 0 }),
+      {} as Record<VisitOutcome, number>,
+    );
+
+    for (const item of items) {
+      if (item.visitOutcome) {
+        byOutcome[item.visitOutcome as VisitOutcome] += 1;
+      }
+    }
+
+    const visited = Object.values(byOutcome).reduce(
+      (sum, count) => sum + count,
+      0,
+    );
+    const round = (value: number) => Number(value.toFixed(2));
+
+    return {
+      totalItems: items.length,
+      visited,
+      notVisited: items.length - visited,
+      byOutcome,
+      visitRate: items.length > 0 ? round(visited / items.length) : null,
+      effectivenessRate:
+        visited > 0 ? round(byOutcome[VisitOutcome.PAID] / visited) : null,
+    };
+  }
+
+  /**
+   * Helper: Agrupar los items de la ruta por cliente con el total adeudado
+   */
+  private buildClientGroups(items: any[]): RouteClientGroupDto[] {
+    const groups = new Map<string, RouteClientGroupDto>();
+
+    for (const item of items) {
+      const clientId = item.subLoan?.loan?.clientId ?? null;
+      const key = clientId ?? item.clientName;
+      const group: RouteClientGroupDto = groups.get(key) ?? {
+        clientId,
+        clientName: item.clientName,
+        clientPhone: item.clientPhone,
+        clientAddress: item.clientAddress,
+        itemIds: [],
+        totalOwed: 0,
+      };
+
+      group.itemIds.push(item.id);
+      if (item.subLoan) {
+        group.totalOwed +=
+          Number(item.subLoan.totalAmount) - Number(item.subLoan.paidAmount);
+      }
+      groups.set(key, group);
+    }
+
+    return Array.from(groups.values());
+  }
+
+  /**
+   * Helper: Transformar ruta de Prisma a DTO. Los listados pasan las visitas
+   * NOT_HOME ya cargadas para todas sus rutas.
+   */
+  private async transformRouteToDto(
+    route: any,
+    notHome?: Awaited<ReturnType<CollectionRoutesService['getNotHomeCounts']>>,
+  ): Promise<CollectionRouteResponseDto> {
     // Buscar préstamos del día
     const totalLoaned = await this.getLoansOfDay(route.managerId, route.routeDate);
     
@@ -1461,6 +2080,16 @@ export class CollectionRoutesService {
       }
     }
 
+    // Clientes con visitas NOT_HOME repetidas
+    const { threshold: notHomeThreshold, countsByRoute } =
+      notHome ?? (await this.getNotHomeCounts([route]));
+    const notHomeCounts =
+      countsByRoute.get(route.id) ?? new Map<string, number>();
+    const notHomeFlagged = (clientId?: string | null) =>
+      notHomeThreshold > 0 &&
+      !!clientId &&
+      (notHomeCounts.get(clientId) ?? 0) >= notHomeThreshold;
+
     return {
       id: route.id,
       managerId: route.managerId,
@@ -1490,6 +2119,15 @@ export class CollectionRoutesService {
         orderIndex: item.orderIndex,
         amountCollected: Number(item.amountCollected),
         notes: item.notes,
+        ...(item.subLoan
+          ? this.getCollectionFlag(item.subLoan, route.routeDate)
+          : {}),
+        visitOutcome: item.visitOutcome,
+        visitedAt: item.visitedAt,
+        visitLatitude: item.visitLatitude,
+        visitLongitude: item.visitLongitude,
+        notHomeCount: notHomeCounts.get(item.subLoan?.loan?.clientId) ?? 0,
+        notHomeFlagged: notHomeFlagged(item.subLoan?.loan?.clientId),
         createdAt: item.createdAt,
         updatedAt: item.updatedAt,
         subLoan: item.subLoan
@@ -1512,10 +2150,23 @@ export class CollectionRoutesService {
                         createdAt: payment.createdAt,
                       }))
                     : [],
+                  paymentPromises: item.subLoan.paymentPromises
+                    ? item.subLoan.paymentPromises.map((promise: any) => ({
+                        id: promise.id,
+                        promisedDate: promise.promisedDate,
+                        amount: Number(promise.amount),
+                        notes: promise.notes,
+                      }))
+                    : [],
             }
           : undefined,
         };
       }),
+      clientGroups: this.buildClientGroups(route.items).map((group) => ({
+        ...group,
+        notHomeFlagged: notHomeFlagged(group.clientId),
+      })),
+      visitSummary: this.buildVisitSummary(route.items),
       expenses: (route.expenses || []).map((expense: any) => ({
         id: expense.id,
         routeId: expense.routeId,
@@ -1,4 +1,5 @@
 import { ApiProperty, ApiPropertyOptional } from '@nestjs/swagger';
+import { RouteItemCollectionFlag, VisitOutcome } from '../../common/enums';
 
 export class CollectionRouteItemResponseDto {
   @ApiProperty({ example: 'cuid_here' })
@@ -28,6 +29,49 @@ export class CollectionRouteItemResponseDto {
   @ApiPropertyOptional({ example: 'Cliente pagó completo' })
   notes?: string;
 
+  @ApiPropertyOptional({
+    enum: RouteItemCollectionFlag,
+    example: RouteItemCollectionFlag.OVERDUE,
+    description: 'Vence hoy, vencida o con pago parcial',
+  })
+  collectionFlag?: RouteItemCollectionFlag;
+
+  @ApiPropertyOptional({
+    example: 3,
+    description: 'Días de atraso respecto de la fecha de la ruta',
+  })
+  daysOverdue?: number;
+
+  @ApiPropertyOptional({
+    enum: VisitOutcome,
+    example: VisitOutcome.NOT_HOME,
+    description: 'Resultado de la visita, si ya se registró',
+  })
+  visitOutcome?: VisitOutcome | null;
+
+  @ApiPropertyOptional()
+  visitedAt?: Date | null;
+
+  @ApiPropertyOptional({ example: -34.603722 })
+  visitLatitude?: number | null;
+
+  @ApiPropertyOptional({ example: -58.381592 })
+  visitLongitude?: number | null;
+
+  @ApiPropertyOptional({
+    example: 2,
+    description:
+      'Rutas de los últimos 30 días en las que el cliente no estaba en el domicilio',
+  })
+  notHomeCount?: number;
+
+  @ApiPropertyOptional({
+    example: false,
+    description:
+      'El cliente superó el umbral de visitas NOT_HOME (NOT_HOME_FLAG_THRESHOLD)',
+  })
+  notHomeFlagged?: boolean;
+
   @ApiProperty()
   createdAt: Date;
 
@@ -1,6 +1,71 @@
 import { ApiProperty, ApiPropertyOptional } from '@nestjs/swagger';
 import { CollectionRouteItemResponseDto } from './collection-route-item-response.dto';
 import { RouteExpenseResponseDto } from './route-expense.dto';
+import { VisitOutcome } from '../../common/enums';
+
+export class RouteClientGroupDto {
+  @ApiPropertyOptional({ example: 'client_id_here' })
+  clientId: string | null;
+
+  @ApiProperty({ example: 'Juan Pérez' })
+  clientName: string;
+
+  @ApiPropertyOptional({ example: '+54 9 11 1234-5678' })
+  clientPhone?: string;
+
+  @ApiPropertyOptional({ example: 'Av. Corrientes 1234, CABA' })
+  clientAddress?: string;
+
+  @ApiProperty({ type: [String], description: 'Items de la ruta del cliente' })
+  itemIds: string[];
+
+  @ApiProperty({
+    example: 15000.0,
+    description: 'Total adeudado por el cliente en las cuotas de la ruta',
+  })
+  totalOwed: number;
+
+  @ApiPropertyOptional({
+    example: false,
+    description: 'El cliente tiene visitas NOT_HOME repetidas',
+  })
+  notHomeFlagged?: boolean;
+}
+
+export class RouteVisitSummaryDto {
+  @ApiProperty({ example: 20 })
+  totalItems: number;
+
+  @ApiProperty({ example: 17, description: 'Items con resultado de visita' })
+  visited: number;
+
+  @ApiProperty({ example: 3, description: 'Items sin resultado de visita' })
+  notVisited: number;
+
+  @ApiProperty({
+    description: 'Cantidad de visitas por resultado',
+    example: {
+      PAID: 12,
+      NOT_HOME: 3,
+      REFUSED: 1,
+      MOVED: 0,
+      PROMISED_TO_PAY: 1,
+    },
+  })
+  byOutcome: Record<VisitOutcome, number>;
+
+  @ApiPropertyOptional({
+    example: 0.85,
+    description: 'Visitados / total de items',
+  })
+  visitRate: number | null;
+
+  @ApiPropertyOptional({
+    example: 0.71,
+    description: 'Visitas con resultado PAID / visitados',
+  })
+  effectivenessRate: number | null;
+}
 
 export class CollectionRouteResponseDto {
   @ApiProperty({ example: 'cuid_here' })
@@ -49,6 +114,18 @@ export class CollectionRouteResponseDto {
   @ApiProperty({ type: [CollectionRouteItemResponseDto] })
   items: CollectionRouteItemResponseDto[];
 
+  @ApiProperty({
+    type: [RouteClientGroupDto],
+    description: 'Items agrupados por cliente, en el orden de la ruta',
+  })
+  clientGroups: RouteClientGroupDto[];
+
+  @ApiProperty({
+    type: RouteVisitSummaryDto,
+    description: 'Visitados, no visitados y efectividad del manager en la ruta',
+  })
+  visitSummary: RouteVisitSummaryDto;
+
   @ApiProperty({ type: [RouteExpenseResponseDto] })
   expenses: RouteExpenseResponseDto[];
 
@@ -0,0 +1,14 @@
+import { ApiPropertyOptional } from '@nestjs/swagger';
+import { IsOptional, IsEnum } from 'class-validator';
+
+export class ExportRouteSheetQueryDto {
+  @ApiPropertyOptional({
+    enum: ['pdf', 'csv'],
+    description: 'Formato de la hoja de ruta',
+    example: 'pdf',
+    default: 'pdf',
+  })
+  @IsOptional()
+  @IsEnum(['pdf', 'csv'])
+  format?: 'pdf' | 'csv';
+}
@@ -6,3 +6,7 @@ export * from './get-routes-query.dto';
 export * from './route-expense.dto';
 export * from './today-expenses.dto';
 
+export * from './optimize-route-response.dto';
+export * from './record-visit-outcome.dto';
+export * from './route-delegation.dto';
+export * from './export-route-sheet-query.dto';
@@ -0,0 +1,33 @@
+import { ApiProperty } from '@nestjs/swagger';
+import { CollectionRouteResponseDto } from './collection-route-response.dto';
+
+export class OptimizeRouteResponseDto {
+  @ApiProperty({
+    example: 12.45,
+    description:
+      'Distancia estimada del recorrido en km (línea recta entre clientes ubicados)',
+  })
+  estimatedDistanceKm: number;
+
+  @ApiProperty({
+    example: true,
+    description: 'Si el recorrido parte del punto de partida del manager',
+  })
+  startsFromHomeBase: boolean;
+
+  @ApiProperty({
+    example: 18,
+    description: 'Clientes ubicados en el recorrido',
+  })
+  locatedClients: number;
+
+  @ApiProperty({
+    example: 2,
+    description:
+      'Items de clientes sin ubicación, ubicados al final de la ruta',
+  })
+  unlocatedItems: number;
+
+  @ApiProperty({ type: CollectionRouteResponseDto })
+  route: CollectionRouteResponseDto;
+}
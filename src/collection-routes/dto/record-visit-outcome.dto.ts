@@ -0,0 +1,82 @@
+import {
+  IsDateString,
+  IsEnum,
+  IsLatitude,
+  IsLongitude,
+  IsOptional,
+  IsString,
+  MaxLength,
+} from 'class-validator';
+import { ApiProperty, ApiPropertyOptional } from '@nestjs/swagger';
+import { VisitOutcome } from '../../common/enums';
+
+export class RecordVisitOutcomeDto {
+  @ApiProperty({
+    description: 'Resultado de la visita',
+    enum: VisitOutcome,
+    example: VisitOutcome.NOT_HOME,
+  })
+  @IsEnum(VisitOutcome)
+  outcome: VisitOutcome;
+
+  @ApiPropertyOptional({
+    description:
+      'Momento de la visita. Por defecto, el momento en que se registra',
+    example: '2025-12-29T15:20:00.000Z',
+  })
+  @IsOptional()
+  @IsDateString()
+  visitedAt?: string;
+
+  @ApiPropertyOptional({
+    description: 'Latitud del cobrador al registrar la visita',
+    example: -34.603722,
+  })
+  @IsOptional()
+  @IsLatitude()
+  latitude?: number;
+
+  @ApiPropertyOptional({
+    description: 'Longitud del cobrador al registrar la visita',
+    example: -58.381592,
+  })
+  @IsOptional()
+  @IsLongitude()
+  longitude?: number;
+
+  @ApiPropertyOptional({
+    description: 'Nota sobre la visita. Reemplaza la nota del item',
+    example: 'Volver después de las 18 hs',
+    maxLength: 500,
+  })
+  @IsOptional()
+  @IsString()
+  @MaxLength(500)
+  notes?: string;
+}
+
+export class RecordVisitOutcomeResponseDto {
+  @ApiProperty({ example: 'item_id_here' })
+  id: string;
+
+  @ApiProperty({ example: 'route_id_here' })
+  routeId: string;
+
+  @ApiProperty({ enum: VisitOutcome, example: VisitOutcome.NOT_HOME })
+  visitOutcome: VisitOutcome;
+
+  @ApiProperty()
+  visitedAt: Date;
+
+  @ApiPropertyOptional({ example: -34.603722 })
+  visitLatitude?: number | null;
+
+  @ApiPropertyOptional({ example: -58.381592 })
+  visitLongitude?: number | null;
+
+  @ApiPropertyOptional({ example: 'Volver después de las 18 hs' })
+  notes?: string | null;
+
+  @ApiProperty()
+  updatedAt: Date;
+}
@@ -0,0 +1,88 @@
+import {
+  IsDateString,
+  IsEnum,
+  IsNotEmpty,
+  IsOptional,
+  IsString,
+  MaxLength,
+} from 'class-validator';
+import { ApiProperty, ApiPropertyOptional } from '@nestjs/swagger';
+import { RouteDelegationWallet } from '../../common/enums';
+
+export class CreateRouteDelegationDto {
+  @ApiProperty({
+    description: 'Manager dueño de la ruta (el que no puede trabajarla)',
+    example: 'manager_id_here',
+  })
+  @IsNotEmpty()
+  @IsString()
+  managerId: string;
+
+  @ApiProperty({
+    description: 'Manager que trabaja la ruta en su reemplazo',
+    example: 'substitute_id_here',
+  })
+  @IsNotEmpty()
+  @IsString()
+  substituteId: string;
+
+  @ApiProperty({
+    description: 'Primer día delegado (YYYY-MM-DD)',
+    example: '2025-12-30',
+  })
+  @IsDateString()
+  dateFrom: string;
+
+  @ApiProperty({
+    description: 'Último día delegado (YYYY-MM-DD, inclusive)',
+    example: '2025-12-31',
+  })
+  @IsDateString()
+  dateTo: string;
+
+  @ApiPropertyOptional({
+    description:
+      'Collector wallet que recibe los cobros del suplente: la del manager de la ruta (MANAGER) o la del suplente (SUBSTITUTE)',
+    enum: RouteDelegationWallet,
+    default: RouteDelegationWallet.MANAGER,
+  })
+  @IsOptional()
+  @IsEnum(RouteDelegationWallet)
+  walletTarget?: RouteDelegationWallet;
+
+  @ApiPropertyOptional({
+    description: 'Motivo de la delegación',
+    example: 'Licencia por enfermedad',
+    maxLength: 500,
+  })
+  @IsOptional()
+  @IsString()
+  @MaxLength(500)
+  reason?: string;
+}
+
+export class GetRouteDelegationsQueryDto {
+  @ApiPropertyOptional({
+    description: 'Solo las delegaciones vigentes en esta fecha (YYYY-MM-DD)',
+    example: '2025-12-30',
+  })
+  @IsOptional()
+  @IsDateString()
+  activeOn?: string;
+
+  @ApiPropertyOptional({
+    description: 'ID del manager dueño de la ruta',
+    example: 'manager_id_here',
+  })
+  @IsOptional()
+  @IsString()
+  managerId?: string;
+
+  @ApiPropertyOptional({
+    description: 'ID del suplente',
+    example: 'substitute_id_here',
+  })
+  @IsOptional()
+  @IsString()
+  substituteId?: string;
+}
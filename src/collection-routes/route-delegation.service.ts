@@ -0,0 +1,203 @@
+import {
+  Injectable,
+  BadRequestException,
+  ForbiddenException,
+  NotFoundException,
+} from '@nestjs/common';
+import { Prisma } from '@prisma/client';
+import { PrismaService } from '../prisma/prisma.service';
+import { CreateRouteDelegationDto, GetRouteDelegationsQueryDto } from './dto';
+import { RouteDelegationWallet, UserRole } from '../common/enums';
+import { DateUtil } from '../common/utils';
+
+/**
+ * Delegación temporal de la ruta de cobro de un manager a otro (suplente).
+ * El suplente puede ver y cobrar la ruta del manager en los días delegados; los cobros
+ * quedan en la collector wallet del manager o, si así se indicó, en la del suplente.
+ */
+@Injectable()
+export class RouteDelegationService {
+  constructor(private prisma: PrismaService) {}
+
+  /**
+   * Crear una delegación entre dos managers del SUBADMIN
+   */
+  async create(userId: string, createDto: CreateRouteDelegationDto) {
+    if (createDto.managerId === createDto.substituteId) {
+      throw new BadRequestException(
+        'El suplente debe ser un manager distinto al dueño de la ruta',
+      );
+    }
+
+    const managers = await this.prisma.user.findMany({
+      where: {
+        id: { in: [createDto.managerId, createDto.substituteId] },
+        role: UserRole.MANAGER,
+        createdById: userId,
+        deletedAt: null,
+      },
+      select: { id: true },
+    });
+
+    if (managers.length !== 2) {
+      throw new NotFoundException('Manager no encontrado o sin acceso');
+    }
+
+    const dateFrom = DateUtil.fromJSDate(
+      DateUtil.parseToDate(createDto.dateFrom),
+    ).startOf('day');
+    const dateTo = DateUtil.fromJSDate(
+      DateUtil.parseToDate(createDto.dateTo),
+    ).endOf('day');
+
+    if (dateTo < dateFrom) {
+      throw new BadRequestException(
+        'La fecha hasta no puede ser anterior a la fecha desde',
+      );
+    }
+
+    if (dateTo < DateUtil.now().startOf('day')) {
+      throw new BadRequestException('No se pueden delegar días pasados');
+    }
+
+    const overlapping = {
+      revokedAt: null,
+      dateFrom: { lte: dateTo.toJSDate() },
+      dateTo: { gte: dateFrom.toJSDate() },
+    };
+
+    const [managerDelegation, substituteDelegation] = await Promise.all([
+      this.prisma.routeDelegation.findFirst({
+        where: { ...overlapping, managerId: createDto.managerId },
+      }),
+      this.prisma.routeDelegation.findFirst({
+        where: { ...overlapping, managerId: createDto.substituteId },
+      }),
+    ]);
+
+    if (managerDelegation) {
+      throw new BadRequestException(
+        'La ruta del manager ya está delegada en alguna de esas fechas',
+      );
+    }
+
+    if (substituteDelegation) {
+      throw new BadRequestException(
+        'El suplente tiene su propia ruta delegada en alguna de esas fechas',
+      );
+    }
+
+    const delegation = await this.prisma.routeDelegation.create({
+      data: {
+        managerId: createDto.managerId,
+        substituteId: createDto.substituteId,
+        dateFrom: dateFrom.toJSDate(),
+        dateTo: dateTo.toJSDate(),
+        walletTarget: createDto.walletTarget ?? RouteDelegationWallet.MANAGER,
+        reason: createDto.reason,
+        createdById: userId,
+      },
+      include: this.delegationInclude(),
+    });
+
+    return delegation;
+  }
+
+  /**
+   * Listar delegaciones. El SUBADMIN ve las de sus managers y el MANAGER las
+   * de su ruta y las que tiene como suplente.
+   */
+  async findAll(
+    userId: string,
+    userRole: UserRole,
+    query: GetRouteDelegationsQueryDto,
+  ) {
+    const where: Prisma.RouteDelegationWhereInput = {};
+
+    if (userRole === UserRole.MANAGER) {
+      where.OR = [{ managerId: userId }, { substituteId: userId }];
+    } else if (userRole === UserRole.SUBADMIN) {
+      where.manager = { createdById: userId };
+    }
+
+    if (query.managerId) {
+      where.managerId = query.managerId;
+    }
+
+    if (query.substituteId) {
+      where.substituteId = query.substituteId;
+    }
+
+    if (query.activeOn) {
+      const day = DateUtil.fromJSDate(DateUtil.parseToDate(query.activeOn));
+      where.revokedAt = null;
+      where.dateFrom = { lte: day.endOf('day').toJSDate() };
+      where.dateTo = { gte: day.startOf('day').toJSDate() };
+    }
+
+    return this.prisma.routeDelegation.findMany({
+      where,
+      include: this.delegationInclude(),
+      orderBy: [{ dateFrom: 'desc' }, { createdAt: 'desc' }],
+    });
+  }
+
+  /**
+   * Revocar una delegación. Los pagos ya cobrados por el suplente no se modifican.
+   */
+  async revoke(id: string, userId: string) {
+    const delegation = await this.prisma.routeDelegation.findUnique({
+      where: { id },
+      include: { manager: { select: { createdById: true } } },
+    });
+
+    if (!delegation) {
+      throw new NotFoundException('Delegación no encontrada');
+    }
+
+    if (delegation.manager.createdById !== userId) {
+      throw new ForbiddenException('No tienes acceso a esta delegación');
+    }
+
+    if (delegation.revokedAt) {
+      throw new BadRequestException('La delegación ya fue revocada');
+    }
+
+    return this.prisma.routeDelegation.update({
+      where: { id },
+      data: {
+        revokedAt: DateUtil.now().toJSDate(),
+        revokedById: userId,
+      },
+      include: this.delegationInclude(),
+    });
+  }
+
+  /**
+   * Delegación vigente en la fecha indicada de la ruta del manager al suplente
+   */
+  async findActiveDelegation(
+    managerId: string,
+    substituteId: string,
+    date: Date,
+    prismaClient: Prisma.TransactionClient = this.prisma,
+  ) {
+    return prismaClient.routeDelegation.findFirst({
+      where: {
+        managerId,
+        substituteId,
+        revokedAt: null,
+        dateFrom: { lte: date },
+        dateTo: { gte: date },
+      },
+      include: this.delegationInclude(),
+    });
+  }
+
+  private delegationInclude() {
+    return {
+      manager: { select: { id: true, fullName: true } },
+      substitute: { select: { id: true, fullName: true } },
+    };
+  }
+}
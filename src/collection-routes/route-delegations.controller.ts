@@ -0,0 +1,95 @@
+import {
+  Controller,
+  Get,
+  Post,
+  Delete,
+  Param,
+  Query,
+  Body,
+  UseGuards,
+  Request,
+} from '@nestjs/common';
+import {
+  ApiTags,
+  ApiOperation,
+  ApiResponse,
+  ApiBearerAuth,
+  ApiParam,
+} from '@nestjs/swagger';
+import { RouteDelegationService } from './route-delegation.service';
+import { JwtAuthGuard } from '../common/guards/jwt-auth.guard';
+import { RolesGuard } from '../common/guards/roles.guard';
+import { Roles } from '../common/decorators/roles.decorator';
+import { UserRole } from '../common/enums';
+import { CreateRouteDelegationDto, GetRouteDelegationsQueryDto } from './dto';
+
+@ApiTags('Collection Routes')
+@Controller('route-delegations')
+@UseGuards(JwtAuthGuard, RolesGuard)
+@ApiBearerAuth()
+export class RouteDelegationsController {
+  constructor(
+    private readonly routeDelegationService: RouteDelegationService,
+  ) {}
+
+  @Post()
+  @Roles(UserRole.SUBADMIN)
+  @ApiOperation({
+    summary: 'Delegar la ruta de un manager a un suplente',
+    description:
+      'Asigna un manager suplente que trabaja la ruta de cobro de otro manager en un rango de fechas. ' +
+      'El suplente puede ver la ruta, registrar visitas y cobrar. ' +
+      'Los cobros quedan en la collector wallet del manager de la ruta (MANAGER) o en la del suplente (SUBSTITUTE). ' +
+      'Ambos managers deben pertenecer al SUBADMIN.',
+  })
+  @ApiResponse({ status: 201, description: 'Delegación creada' })
+  @ApiResponse({
+    status: 400,
+    description: 'Fechas inválidas o la ruta ya está delegada en esas fechas',
+  })
+  @ApiResponse({ status: 404, description: 'Manager no encontrado' })
+  async create(@Request() req, @Body() createDto: CreateRouteDelegationDto) {
+    return this.routeDelegationService.create(req.user.id, createDto);
+  }
+
+  @Get()
+  @Roles(
+    UserRole.MANAGER,
+    UserRole.SUBADMIN,
+    UserRole.ADMIN,
+    UserRole.SUPERADMIN,
+  )
+  @ApiOperation({
+    summary: 'Listar delegaciones de rutas',
+    description:
+      'El MANAGER ve las delegaciones de su ruta y las rutas que tiene a cargo como suplente. ' +
+      'El SUBADMIN ve las de sus managers.',
+  })
+  @ApiResponse({ status: 200, description: 'Lista de delegaciones' })
+  async findAll(@Request() req, @Query() query: GetRouteDelegationsQueryDto) {
+    return this.routeDelegationService.findAll(
+      req.user.id,
+      req.user.role,
+      query,
+    );
+  }
+
+  @Delete(':id')
+  @Roles(UserRole.SUBADMIN)
+  @ApiOperation({
+    summary: 'Revocar una delegación',
+    description:
+      'El suplente deja de tener acceso a la ruta. Los pagos que ya cobró no se modifican.',
+  })
+  @ApiParam({ name: 'id', description: 'ID de la delegación' })
+  @ApiResponse({ status: 200, description: 'Delegación revocada' })
+  @ApiResponse({ status: 400, description: 'La delegación ya fue revocada' })
+  @ApiResponse({
+    status: 403,
+    description: 'No tienes acceso a esta delegación',
+  })
+  @ApiResponse({ status: 404, description: 'Delegación no encontrada' })
+  async revoke(@Request() req, @Param('id') id: string) {
+    return this.routeDelegationService.revoke(id, req.user.id);
+  }
+}
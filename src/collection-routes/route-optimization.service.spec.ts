@@ -0,0 +1,77 @@
+import { Test, TestingModule } from '@nestjs/testing';
+import { RouteOptimizationService } from './route-optimization.service';
+
+// Paradas sobre el meridiano 0: cada 0.01° de latitud son ~1.11 km
+const stop = (id: string, latitude: number) => ({
+  id,
+  latitude,
+  longitude: 0,
+});
+
+describe('RouteOptimizationService', () => {
+  let service: RouteOptimizationService;
+
+  beforeEach(async () => {
+    const module: TestingModule = await Test.createTestingModule({
+      providers: [RouteOptimizationService],
+    }).compile();
+
+    service = module.get<RouteOptimizationService>(RouteOptimizationService);
+  });
+
+  describe('distanceKm', () => {
+    it('should measure one degree of latitude as ~111 km', () => {
+      expect(
+        service.distanceKm(
+          { latitude: 0, longitude: 0 },
+          { latitude: 1, longitude: 0 },
+        ),
+      ).toBeCloseTo(111.19, 1);
+    });
+  });
+
+  describe('optimizeVisitOrder', () => {
+    it('should return an empty route without stops', () => {
+      expect(
+        service.optimizeVisitOrder([], { latitude: 0, longitude: 0 }),
+      ).toEqual({ stops: [], distanceKm: 0 });
+    });
+
+    it('should visit the nearest stops first from the starting point', () => {
+      const result = service.optimizeVisitOrder(
+        [stop('c', 0.03), stop('a', 0.01), stop('b', 0.02)],
+        { latitude: 0, longitude: 0 },
+      );
+
+      expect(result.stops.map((s) => s.id)).toEqual(['a', 'b', 'c']);
+      expect(result.distanceKm).toBeCloseTo(3.34, 1);
+    });
+
+    it('should start at the first stop without a starting point', () => {
+      const result = service.optimizeVisitOrder([
+        stop('b', 0.02),
+        stop('a', 0.01),
+        stop('c', 0.03),
+      ]);
+
+      expect(result.stops[0].id).toBe('b');
+      expect(result.stops).toHaveLength(3);
+    });
+
+    it('should improve the nearest neighbour route with 2-opt', () => {
+      // Vecino más cercano: a → d → c → b (~11.45 km); 2-opt descruza el recorrido
+      const result = service.optimizeVisitOrder(
+        [
+          { id: 'a', latitude: -0.01, longitude: -0.01 },
+          { id: 'b', latitude: 0.02, longitude: 0.01 },
+          { id: 'c', latitude: -0.02, longitude: 0.03 },
+          { id: 'd', latitude: -0.01, longitude: 0.02 },
+        ],
+        { latitude: 0, longitude: 0 },
+      );
+
+      expect(result.stops.map((s) => s.id)).toEqual(['a', 'b', 'd', 'c']);
+      expect(result.distanceKm).toBeCloseTo(10.66, 1);
+    });
+  });
+});
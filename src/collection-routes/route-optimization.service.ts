@@ -0,0 +1,130 @@
+import { Injectable } from '@nestjs/common';
+
+/**
+ * Punto geográfico en grados decimales
+ */
+export interface GeoPoint {
+  latitude: number;
+  longitude: number;
+}
+
+const EARTH_RADIUS_KM = 6371;
+
+/**
+ * Optimización del orden de visita de una ruta de cobro, sin servicios externos.
+ * Arma un recorrido abierto (no vuelve al punto de partida) con la heurística del
+ * vecino más cercano y lo mejora con 2-opt. Las distancias son en línea recta
+ * (haversine), por lo que la distancia devuelta es una estimación.
+ */
+@Injectable()
+export class RouteOptimizationService {
+  /**
+   * Ordena las paradas para minimizar la distancia recorrida. Si no hay punto de
+   * partida, el recorrido empieza en la primera parada recibida.
+   */
+  optimizeVisitOrder<T extends GeoPoint>(
+    stops: T[],
+    start?: GeoPoint | null,
+  ): { stops: T[]; distanceKm: number } {
+    if (stops.length === 0) {
+      return { stops: [], distanceKm: 0 };
+    }
+
+    const path: GeoPoint[] = start
+      ? [start, ...this.nearestNeighbour(stops, start)]
+      : this.nearestNeighbour(stops.slice(1), stops[0], [stops[0]]);
+
+    this.twoOpt(path);
+
+    return {
+      stops: (start ? path.slice(1) : path) as T[],
+      distanceKm: Math.round(this.pathDistance(path) * 100) / 100,
+    };
+  }
+
+  /**
+   * Distancia en kilómetros entre dos puntos (fórmula de haversine)
+   */
+  distanceKm(a: GeoPoint, b: GeoPoint): number {
+    const toRad = (degrees: number) => (degrees * Math.PI) / 180;
+    const dLat = toRad(b.latitude - a.latitude);
+    const dLon = toRad(b.longitude - a.longitude);
+    const h =
+      Math.sin(dLat / 2) ** 2 +
+      Math.cos(toRad(a.latitude)) *
+        Math.cos(toRad(b.latitude)) *
+        Math.sin(dLon / 2) ** 2;
+
+    return 2 * EARTH_RADIUS_KM * Math.asin(Math.min(1, Math.sqrt(h)));
+  }
+
+  private nearestNeighbour<T extends GeoPoint>(
+    stops: T[],
+    from: GeoPoint,
+    path: T[] = [],
+  ): T[] {
+    const pending = [...stops];
+    let current = from;
+
+    while (pending.length > 0) {
+      let nearestIndex = 0;
+      let nearestDistance = Infinity;
+
+      pending.forEach((stop, index) => {
+        const distance = this.distanceKm(current, stop);
+        if (distance < nearestDistance) {
+          nearestDistance = distance;
+          nearestIndex = index;
+        }
+      });
+
+      current = pending.splice(nearestIndex, 1)[0];
+      path.push(current as T);
+    }
+
+    return path;
+  }
+
+  /**
+   * Invierte tramos del recorrido mientras acorten la distancia total. El primer
+   * punto (el de partida, o la primera parada si no lo hay) queda fijo.
+   */
+  private twoOpt(path: GeoPoint[]): void {
+    const n = path.length;
+    const edge = (a: number, b: number) =>
+      b >= n ? 0 : this.distanceKm(path[a], path[b]);
+
+    let improved = true;
+    while (improved) {
+      improved = false;
+
+      for (let i = 1; i < n - 1; i++) {
+        for (let k = i + 1; k < n; k++) {
+          const delta =
+            edge(i - 1, k) + edge(i, k + 1) - edge(i - 1, i) - edge(k, k + 1);
+
+          if (delta < -1e-9) {
+            this.reverse(path, i, k);
+            improved = true;
+          }
+        }
+      }
+    }
+  }
+
+  private reverse(path: GeoPoint[], from: number, to: number): void {
+    while (from < to) {
+      [path[from], path[to]] = [path[to], path[from]];
+      from++;
+      to--;
+    }
+  }
+
+  private pathDistance(path: GeoPoint[]): number {
+    let total = 0;
+    for (let i = 1; i < path.length; i++) {
+      total += this.distanceKm(path[i - 1], path[i]);
+    }
+    return total;
+  }
+}
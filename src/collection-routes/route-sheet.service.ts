@@ -0,0 +1,286 @@
+import { Injectable } from '@nestjs/common';
+import { SubLoanStatus, UserRole } from '@prisma/client';
+import * as PDFDocument from 'pdfkit';
+import { PrismaService } from '../prisma/prisma.service';
+import { CollectionRoutesService } from './collection-routes.service';
+import { CollectionRouteResponseDto } from './dto';
+import { CsvUtil, DateUtil, PdfUtil } from '../common/utils';
+
+interface RouteSheetRow {
+  order: number;
+  clientId: string | null;
+  clientName: string;
+  clientPhone: string;
+  clientAddress: string;
+  paymentNumber: number | null;
+  currency: string;
+  amountDue: number;
+  overdueBalance: number;
+}
+
+// Lo que la hoja usa del subLoan de cada item (el DTO de la ruta lo expone sin tipo)
+interface RouteSheetSubLoan {
+  paymentNumber: number;
+  totalAmount: number;
+  paidAmount: number;
+  loan?: { clientId: string; currency: string } | null;
+}
+
+/**
+ * Hoja de ruta imprimible: los clientes de la ruta en su orden de visita, con lo que
+ * hay que cobrar y columnas en blanco para anotar lo cobrado y la firma del cliente.
+ */
+@Injectable()
+export class RouteSheetService {
+  constructor(
+    private prisma: PrismaService,
+    private collectionRoutesService: CollectionRoutesService,
+  ) {}
+
+  /**
+   * Exportar la hoja de ruta en PDF o CSV
+   */
+  async exportRouteSheet(
+    routeId: string,
+    userId: string,
+    userRole: UserRole,
+    format: 'pdf' | 'csv' = 'pdf',
+  ): Promise<{ content: Buffer; filename: string; contentType: string }> {
+    const route = await this.collectionRoutesService.getRouteById(
+      routeId,
+      userId,
+      userRole,
+    );
+    const rows = await this.buildRows(route);
+    const routeDate = DateUtil.fromJSDate(route.routeDate);
+    const filename = `hoja-de-ruta-${routeDate.toFormat('yyyy-MM-dd')}.${format}`;
+
+    if (format === 'csv') {
+      return {
+        content: this.renderCsv(rows),
+        filename,
+        contentType: 'text/csv; charset=utf-8',
+      };
+    }
+
+    return {
+      content: await this.renderPdf(route, rows),
+      filename,
+      contentType: 'application/pdf',
+    };
+  }
+
+  /**
+   * Una fila por item en orden de visita. El saldo vencido es el de todas las cuotas
+   * impagas del cliente en la moneda de la fila con vencimiento anterior al día de la
+   * ruta, estén o no en ella.
+   */
+  private async buildRows(
+    route: CollectionRouteResponseDto,
+  ): Promise<RouteSheetRow[]> {
+    const clientIds = Array.from(
+      new Set(
+        route.items
+          .map(
+            (item) =>
+              (item.subLoan as RouteSheetSubLoan | undefined)?.loan?.clientId,
+          )
+          .filter((id): id is string => !!id),
+      ),
+    );
+
+    // Saldo vencido por cliente y moneda
+    const overdueKey = (clientId: string, currency: string) =>
+      `${clientId}:${currency}`;
+    const overdueByClient = new Map<string, number>();
+    if (clientIds.length > 0) {
+      const overdueSubLoans = await this.prisma.subLoan.findMany({
+        where: {
+          deletedAt: null,
+          status: {
+            in: [
+              SubLoanStatus.PENDING,
+              SubLoanStatus.OVERDUE,
+              SubLoanStatus.PARTIAL,
+            ],
+          },
+          dueDate: {
+            lt: DateUtil.fromJSDate(route.routeDate).startOf('day').toJSDate(),
+          },
+          loan: { clientId: { in: clientIds }, deletedAt: null },
+        },
+        select: {
+          totalAmount: true,
+          paidAmount: true,
+          loan: { select: { clientId: true, currency: true } },
+        },
+      });
+
+      for (const subLoan of overdueSubLoans) {
+        const pending =
+          Number(subLoan.totalAmount) - Number(subLoan.paidAmount || 0);
+        const key = overdueKey(subLoan.loan.clientId, subLoan.loan.currency);
+        overdueByClient.set(key, (overdueByClient.get(key) ?? 0) + pending);
+      }
+    }
+
+    return [...route.items]
+      .sort((a, b) => a.orderIndex - b.orderIndex)
+      .map((item, index) => {
+        const subLoan = item.subLoan as RouteSheetSubLoan | undefined;
+        const clientId: string | null = subLoan?.loan?.clientId ?? null;
+        const currency = subLoan?.loan?.currency ?? '';
+
+        return {
+          order: index + 1,
+          clientId,
+          clientName: item.clientName,
+          clientPhone: item.clientPhone ?? '',
+          clientAddress: item.clientAddress ?? '',
+          paymentNumber: subLoan?.paymentNumber ?? null,
+          currency,
+          amountDue: subLoan
+            ? Math.max(0, subLoan.totalAmount - subLoan.paidAmount)
+            : 0,
+          overdueBalance: clientId
+            ? (overdueByClient.get(overdueKey(clientId, currency)) ?? 0)
+            : 0,
+        };
+      });
+  }
+
+  private renderCsv(rows: RouteSheetRow[]): Buffer {
+    const csv = CsvUtil.stringify([
+      [
+        'Orden',
+        'Cliente',
+        'Teléfono',
+        'Dirección',
+        'Cuota',
+        'Moneda',
+        'Monto a cobrar',
+        'Saldo vencido',
+        'Monto cobrado',
+        'Firma',
+      ],
+      ...rows.map((row) => [
+        row.order,
+        row.clientName,
+        row.clientPhone,
+        row.clientAddress,
+        row.paymentNumber,
+        row.currency,
+        row.amountDue.toFixed(2),
+        row.overdueBalance.toFixed(2),
+        '',
+        '',
+      ]),
+    ]);
+
+    // BOM para que Excel abra el archivo en UTF-8
+    return Buffer.from(`\uFEFF${csv}`, 'utf-8');
+  }
+
+  private renderPdf(
+    route: CollectionRouteResponseDto,
+    rows: RouteSheetRow[],
+  ): Promise<Buffer> {
+    return new Promise((resolve, reject) => {
+      try {
+        const doc = new PDFDocument({
+          size: 'A4',
+          layout: 'landscape',
+          margins: { top: 40, bottom: 50, left: 40, right: 40 },
+          bufferPages: true,
+        });
+
+        const chunks: Buffer[] = [];
+        doc.on('data', (chunk: Buffer) => chunks.push(chunk));
+        doc.on('end', () => resolve(Buffer.concat(chunks)));
+        doc.on('error', reject);
+
+        const money = (value: number) =>
+          `$${value.toLocaleString('es-AR', {
+            minimumFractionDigits: 2,
+            maximumFractionDigits: 2,
+          })}`;
+        const managerName =
+          (route.manager as { fullName: string } | undefined)?.fullName ??
+          'Manager';
+        const totalDue = rows.reduce((sum, row) => sum + row.amountDue, 0);
+        const clientCount = new Set(
+          rows.map((row) => row.clientId ?? row.clientName),
+        ).size;
+
+        PdfUtil.addReportHeader(doc, {
+          title: 'HOJA DE RUTA',
+          subtitle: `${managerName} - ${DateUtil.fromJSDate(route.routeDate).toFormat('dd/MM/yyyy')}`,
+          detail: `Clientes: ${clientCount} | Cuotas: ${rows.length} | Total a cobrar: ${money(totalDue)}`,
+        });
+
+        if (rows.length === 0) {
+          doc
+            .fontSize(10)
+            .fillColor('#7f8c8d')
+            .font('Helvetica')
+            .text('La ruta no tiene clientes para visitar.', 40, doc.y);
+        } else {
+          // El nombre, teléfono, dirección y saldo vencido van solo en la primera fila
+          // de cada cliente; sus demás cuotas quedan agrupadas debajo
+          const tableRows = rows.map((row, index) => {
+            const sameClient =
+              index > 0 &&
+              row.clientId !== null &&
+              rows[index - 1].clientId === row.clientId;
+
+            return [
+              `${row.order}`,
+              sameClient ? '' : row.clientName,
+              sameClient ? '' : row.clientPhone,
+              sameClient ? '' : row.clientAddress,
+              row.paymentNumber !== null ? `#${row.paymentNumber}` : '',
+              money(row.amountDue),
+              sameClient ? '' : money(row.overdueBalance),
+              '',
+              '',
+            ];
+          });
+
+          PdfUtil.addTable(
+            doc,
+            [
+              [
+                '#',
+                'Cliente',
+                'Teléfono',
+                'Dirección',
+                'Cuota',
+                'A cobrar',
+                'Saldo vencido',
+                'Cobrado',
+                'Firma',
+              ],
+              ...tableRows,
+              ['', 'TOTAL', '', '', '', money(totalDue), '', '', ''],
+            ],
+            {
+              columnWidths: [25, 125, 75, 160, 40, 70, 72, 80, 114],
+              rowHeight: 26,
+            },
+          );
+        }
+
+        // Pie de página en todas las páginas
+        const pages = doc.bufferedPageRange();
+        for (let i = 0; i < pages.count; i++) {
+          doc.switchToPage(pages.start + i);
+          PdfUtil.addFooter(doc, i + 1);
+        }
+
+        doc.end();
+      } catch (error) {
+        reject(error instanceof Error ? error : new Error(String(error)));
+      }
+    });
+  }
+}
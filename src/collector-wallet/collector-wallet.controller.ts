@@ -65,6 +65,27 @@ export class CollectorWalletController {
     );
   }
 
+  @Get('bank-balance')
+  @Roles(UserRole.MANAGER, UserRole.SUBADMIN)
+  @ApiOperation({
+    summary: 'Obtener saldo bancario (cobros no efectivo)',
+    description:
+      'Retorna el saldo de cobros recibidos por transferencia, MercadoPago u otros medios no efectivo, ' +
+      'que no ingresan a la wallet de cobros. ' +
+      'Para MANAGER: devuelve su saldo y últimos movimientos. ' +
+      'Para SUBADMIN: devuelve el saldo agregado y por manager.',
+  })
+  @ApiResponse({
+    status: HttpStatus.OK,
+    description: 'Saldo bancario obtenido exitosamente',
+  })
+  async getBankBalance(@CurrentUser() currentUser: any) {
+    return this.collectorWalletService.getBankBalance(
+      currentUser.id,
+      currentUser.role,
+    );
+  }
+
   @Get('managers-balances')
   @Roles(UserRole.SUBADMIN, UserRole.ADMIN, UserRole.SUPERADMIN)
   @ApiOperation({
@@ -6,8 +6,12 @@ import {
   Logger,
 } from '@nestjs/common';
 import { PrismaService } from '../prisma/prisma.service';
-import { Prisma, UserRole } from '@prisma/client';
-import { CollectorWalletTransactionType, SafeTransactionType } from '../common/enums';
+import { PaymentMethod, PaymentStatus, Prisma, UserRole } from '@prisma/client';
+import {
+  CollectorWalletTransactionType,
+  SafeTransactionType,
+  BankAccountTransactionType,
+} from '../common/enums';
 import { DateUtil } from '../common/utils/date.util';
 import { WalletService } from '../wallet/wallet.service';
 import { WalletTransactionType } from '../common/enums';
@@ -190,6 +194,8 @@ export class CollectorWalletService {
 
   /**
    * Registrar un cobro en la wallet (uso interno, llamado desde payments.service)
+   * Solo los cobros en efectivo ingresan a la wallet de cobros; los demás
+   * medios de pago se registran en el saldo bancario del manager.
    * IMPORTANTE: Este método debe ser llamado dentro de una transacción
    */
   async recordCollection(params: {
@@ -197,14 +203,31 @@ export class CollectorWalletService {
     amount: number;
     description: string;
     subLoanId: string;
+    paymentMethod?: PaymentMethod;
+    externalReference?: string | null;
     transaction: Prisma.TransactionClient;
   }): Promise<void> {
     const { userId, amount, description, subLoanId, transaction } = params;
+    const paymentMethod = params.paymentMethod ?? PaymentMethod.CASH;
 
     if (amount <= 0) {
       throw new BadRequestException('El monto debe ser mayor a 0');
     }
 
+    if (paymentMethod !== PaymentMethod.CASH) {
+      await this.recordBankMovement({
+        userId,
+        amount,
+        type: BankAccountTransactionType.COLLECTION,
+        paymentMethod,
+        description,
+        externalReference: params.externalReference,
+        subLoanId,
+        transaction,
+      });
+      return;
+    }
+
     // Obtener o crear wallet
     const wallet = await this.getOrCreateWallet(userId, transaction);
 
@@ -264,6 +287,273 @@ export class CollectorWalletService {
     );
   }
 
+  /**
+   * Revertir un cobro (reseteo, edición o reversión del pago del mismo día).
+   * El efectivo se descuenta de la wallet de cobros y el resto del saldo bancario.
+   * IMPORTANTE: Este método debe ser llamado dentro de una transacción
+   */
+  async reverseCollection(params: {
+    userId: string;
+    amount: number;
+    description: string;
+    subLoanId: string;
+    paymentMethod?: PaymentMethod;
+    transaction: Prisma.TransactionClient;
+  }): Promise<void> {
+    const { userId, amount, description, subLoanId, transaction } = params;
+    const paymentMethod = params.paymentMethod ?? PaymentMethod.CASH;
+
+    if (amount <= 0) {
+      return;
+    }
+
+    if (paymentMethod !== PaymentMethod.CASH) {
+      await this.recordBankMovement({
+        userId,
+        amount: -amount,
+        type: BankAccountTransactionType.PAYMENT_RESET,
+        paymentMethod,
+        description,
+        subLoanId,
+        transaction,
+      });
+      return;
+    }
+
+    const collectorWallet = await this.getOrCreateWallet(userId, transaction);
+    const collectorBalanceBefore = Number(collectorWallet.balance);
+    const collectorBalanceAfter = collectorBalanceBefore - amount;
+
+    await transaction.collectorWallet.update({
+      where: { id: collectorWallet.id },
+      data: {
+        balance: {
+          decrement: new Prisma.Decimal(amount),
+        },
+      },
+    });
+
+    // Negativo para indicar reversión
+    await transaction.collectorWalletTransaction.create({
+      data: {
+        walletId: collectorWallet.id,
+        userId,
+        type: CollectorWalletTransactionType.PAYMENT_RESET,
+        amount: new Prisma.Decimal(-amount),
+        currency: collectorWallet.currency,
+        description,
+        balanceBefore: new Prisma.Decimal(collectorBalanceBefore),
+        balanceAfter: new Prisma.Decimal(collectorBalanceAfter),
+        subLoanId,
+      },
+    });
+  }
+
+  /**
+   * Registrar dinero que ingresa (positivo) o se devuelve (negativo) como saldo a favor
+   * de un cliente. El efectivo va a la wallet de cobros y el resto al saldo bancario.
+   * IMPORTANTE: Este método debe ser llamado dentro de una transacción
+   */
+  async recordClientCredit(params: {
+    userId: string;
+    amount: number;
+    description: string;
+    paymentMethod?: PaymentMethod;
+    externalReference?: string | null;
+    subLoanId?: string;
+    transaction: Prisma.TransactionClient;
+  }): Promise<void> {
+    const { userId, amount, description, transaction } = params;
+    const paymentMethod = params.paymentMethod ?? PaymentMethod.CASH;
+
+    if (amount === 0) {
+      return;
+    }
+
+    if (paymentMethod !== PaymentMethod.CASH) {
+      await this.recordBankMovement({
+        userId,
+        amount,
+        type: BankAccountTransactionType.CLIENT_CREDIT,
+        paymentMethod,
+        description,
+        externalReference: params.externalReference,
+        subLoanId: params.subLoanId,
+        transaction,
+      });
+      return;
+    }
+
+    const wallet = await this.getOrCreateWallet(userId, transaction);
+    const balanceBefore = Number(wallet.balance);
+    const balanceAfter = balanceBefore + amount;
+
+    await transaction.collectorWallet.update({
+      where: { id: wallet.id },
+      data: {
+        balance: {
+          increment: new Prisma.Decimal(amount),
+        },
+      },
+    });
+
+    await transaction.collectorWalletTransaction.create({
+      data: {
+        walletId: wallet.id,
+        userId,
+        type: CollectorWalletTransactionType.CLIENT_CREDIT,
+        amount: new Prisma.Decimal(amount),
+        currency: wallet.currency,
+        description,
+        balanceBefore: new Prisma.Decimal(balanceBefore),
+        balanceAfter: new Prisma.Decimal(balanceAfter),
+        subLoanId: params.subLoanId,
+      },
+    });
+  }
+
+  /**
+   * Obtener o crear la cuenta bancaria (saldo de cobros no efectivo) de un usuario
+   */
+  async getOrCreateBankAccount(
+    userId: string,
+    transaction?: Prisma.TransactionClient,
+  ) {
+    const tx = transaction || this.prisma;
+
+    const account = await tx.bankAccount.findUnique({
+      where: { userId },
+    });
+
+    if (account) {
+      return account;
+    }
+
+    this.logger.log(`Creando cuenta bancaria para usuario ${userId}`);
+    return tx.bankAccount.create({
+      data: {
+        userId,
+        balance: new Prisma.Decimal(0),
+        currency: 'ARS',
+      },
+    });
+  }
+
+  /**
+   * Registrar un movimiento en el saldo bancario (positivo: cobro, negativo: reversión)
+   * IMPORTANTE: Este método debe ser llamado dentro de una transacción
+   */
+  async recordBankMovement(params: {
+    userId: string;
+    amount: number;
+    type: BankAccountTransactionType;
+    paymentMethod: PaymentMethod;
+    description: string;
+    externalReference?: string | null;
+    subLoanId?: string;
+    transaction: Prisma.TransactionClient;
+  }): Promise<void> {
+    const { userId, amount, transaction } = params;
+
+    const account = await this.getOrCreateBankAccount(userId, transaction);
+
+    const lastTransaction = await transaction.bankAccountTransaction.findFirst({
+      where: { accountId: account.id },
+      orderBy: { createdAt: 'desc' },
+    });
+
+    const balanceBefore = lastTransaction
+      ? Number(lastTransaction.balanceAfter)
+      : 0;
+    const balanceAfter = balanceBefore + amount;
+
+    await transaction.bankAccount.update({
+      where: { id: account.id },
+      data: { balance: new Prisma.Decimal(balanceAfter) },
+    });
+
+    await transaction.bankAccountTransaction.create({
+      data: {
+        accountId: account.id,
+        userId,
+        type: params.type,
+        paymentMethod: params.paymentMethod,
+        amount: new Prisma.Decimal(amount),
+        currency: account.currency,
+        description: params.description,
+        externalReference: params.externalReference,
+        balanceBefore: new Prisma.Decimal(balanceBefore),
+        balanceAfter: new Prisma.Decimal(balanceAfter),
+        subLoanId: params.subLoanId,
+      },
+    });
+
+    this.logger.log(
+      `Movimiento bancario (${params.paymentMethod}): Usuario ${userId}, Monto ${amount}, Nuevo saldo ${balanceAfter}`,
+    );
+  }
+
+  /**
+   * Obtener el saldo bancario (cobros no efectivo)
+   * Para MANAGER: devuelve su saldo y últimos movimientos
+   * Para SUBADMIN: devuelve el saldo agregado de todos sus managers
+   */
+  async getBankBalance(userId: string, userRole: UserRole): Promise<any> {
+    if (userRole === UserRole.SUBADMIN) {
+      const managers = await this.prisma.user.findMany({
+        where: {
+          createdById: userId,
+          role: UserRole.MANAGER,
+          deletedAt: null,
+        },
+        select: {
+          id: true,
+          fullName: true,
+          bankAccount: { select: { balance: true } },
+        },
+      });
+
+      const byManager = managers.map((manager) => ({
+        managerId: manager.id,
+        fullName: manager.fullName,
+        balance: manager.bankAccount ? Number(manager.bankAccount.balance) : 0,
+      }));
+
+      return {
+        balance: byManager.reduce((sum, m) => sum + m.balance, 0),
+        currency: 'ARS',
+        managersCount: managers.length,
+        byManager,
+      };
+    }
+
+    const account = await this.getOrCreateBankAccount(userId);
+    const transactions = await this.prisma.bankAccountTransaction.findMany({
+      where: { accountId: account.id },
+      orderBy: { createdAt: 'desc' },
+      take: 50,
+    });
+
+    return {
+      accountId: account.id,
+      balance: Number(account.balance),
+      currency: account.currency,
+      updatedAt: account.updatedAt,
+      transactions: transactions.map((t) => ({
+        id: t.id,
+        type: t.type,
+        paymentMethod: t.paymentMethod,
+        amount: Number(t.amount),
+        description: t.description,
+        externalReference: t.externalReference,
+        balanceBefore: Number(t.balanceBefore),
+        balanceAfter: Number(t.balanceAfter),
+        subLoanId: t.subLoanId,
+        createdAt: t.createdAt,
+      })),
+    };
+  }
+
   /**
    * Realizar un retiro de la wallet de cobrador
    * PERMITE SALDO NEGATIVO - La wallet puede tener saldo negativo
@@ -1348,6 +1638,7 @@ export class CollectorWalletService {
     // 3. Obtener todos los pagos realizados por este cobrador en el período
     const paymentsRegistered = await this.prisma.payment.findMany({
       where: {
+        status: PaymentStatus.COMPLETED,
         createdAt: {
           gte: periodStart,
           lte: periodEnd,
@@ -1584,6 +1875,24 @@ export class CollectorWalletService {
 
     const netCollectorWallet = totalCollections - totalWithdrawals - totalLoanedFromTransactions + totalCashAdjustments;
 
+    // 7c. Cobros no efectivo del período (saldo bancario, no pasan por la wallet de cobros)
+    const bankTransactions = await this.prisma.bankAccountTransaction.findMany({
+      where: {
+        userId: targetUserId,
+        createdAt: {
+          gte: periodStart,
+          lte: periodEnd,
+        },
+      },
+      orderBy: { createdAt: 'desc' },
+    });
+    const totalBankCollections = bankTransactions.reduce(
+      (sum, t) => sum + Number(t.amount),
+      0,
+    );
+    const collectedByPaymentMethod =
+      this.groupPaymentsByMethod(paymentsRegistered);
+
     // 8. Calcular comisión automática (solo en base a lo cobrado)
     // Nota: totalWithdrawals ya fue calculado anteriormente
     const commissionPercentage = user?.commission ? Number(user.commission) : 0;
@@ -1645,6 +1954,7 @@ export class CollectorWalletService {
         commissionPercentage,
       },
       cobrado: totalCollections, // Pagos de préstamos en el rango (suma bruta)
+      cobradoBanco: totalBankCollections, // Cobros no efectivo (transferencias, MercadoPago, etc.)
       gastado: totalExpenses, // Gastos de rutas en el rango
       prestado: totalLoanedFromTransactions, // Monto prestado (desde transacciones de collector wallet)
       retirado: totalWithdrawals, // Retiros de la wallet de cobros del manager
@@ -1690,6 +2000,21 @@ export class CollectorWalletService {
         totalCashAdjustments,
         netAmount: netCollectorWallet,
       },
+      bankAccount: {
+        transactions: bankTransactions.map((t) => ({
+          id: t.id,
+          type: t.type,
+          paymentMethod: t.paymentMethod,
+          amount: Number(t.amount),
+          description: t.description,
+          externalReference: t.externalReference,
+          balanceBefore: Number(t.balanceBefore),
+          balanceAfter: Number(t.balanceAfter),
+          subLoanId: t.subLoanId,
+          createdAt: t.createdAt,
+        })),
+        totalCollections: totalBankCollections,
+      },
       collections: {
         totalDue,
         collected: {
@@ -1706,6 +2031,7 @@ export class CollectorWalletService {
         amounts: {
           totalDue: totalAmountDue,
           totalCollected: totalAmountCollected,
+          byPaymentMethod: collectedByPaymentMethod,
         },
       },
       expenses: {
@@ -1725,6 +2051,7 @@ export class CollectorWalletService {
       },
       summary: {
         cobrado: totalAmountCollected, // Suma bruta de pagos
+        cobradoPorMedio: collectedByPaymentMethod,
         gastado: totalExpenses,
         prestado: totalLoanedFromTransactions,
         retirado: totalWithdrawals,
@@ -1735,6 +2062,28 @@ export class CollectorWalletService {
     };
   }
 
+  /**
+   * Agrupa pagos por medio de pago: cantidad y monto de cada uno
+   */
+  private groupPaymentsByMethod(
+    payments: { amount: Prisma.Decimal; paymentMethod: PaymentMethod }[],
+  ): Record<PaymentMethod, { count: number; amount: number }> {
+    const totals = Object.values(PaymentMethod).reduce(
+      (acc, method) => {
+        acc[method] = { count: 0, amount: 0 };
+        return acc;
+      },
+      {} as Record<PaymentMethod, { count: number; amount: number }>,
+    );
+
+    for (const payment of payments) {
+      totals[payment.paymentMethod].count += 1;
+      totals[payment.paymentMethod].amount += Number(payment.amount);
+    }
+
+    return totals;
+  }
+
   /**
    * Obtener resumen diario para manager
    * Incluye: cobrado, prestado y gastos del día en GMT-3
@@ -1778,6 +2127,7 @@ export class CollectorWalletService {
     // Calcular total cobrado real del día desde payments (igual que totalCollectedPayments de la ruta)
     const paymentsSum = await this.prisma.payment.aggregate({
       where: {
+        status: PaymentStatus.COMPLETED,
         createdAt: {
           gte: dayStart,
           lte: dayEnd,
@@ -1824,6 +2174,7 @@ export class CollectorWalletService {
     // Obtener TODOS los payments del día del manager para mostrar descripciones
     const allPaymentsToday = await this.prisma.payment.findMany({
       where: {
+        status: PaymentStatus.COMPLETED,
         createdAt: {
           gte: dayStart,
           lte: dayEnd,
@@ -2306,6 +2657,7 @@ export class CollectorWalletService {
     if (collectionSubLoanIds.length > 0) {
       const payments = await this.prisma.payment.findMany({
         where: {
+          status: PaymentStatus.COMPLETED,
           subLoanId: { in: collectionSubLoanIds },
         },
         select: {
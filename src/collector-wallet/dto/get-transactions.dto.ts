@@ -35,7 +35,8 @@ export class GetTransactionsDto {
   })
   @IsOptional()
   @IsEnum(CollectorWalletTransactionType, {
-    message: 'El tipo debe ser COLLECTION, WITHDRAWAL, ROUTE_EXPENSE, LOAN_DISBURSEMENT o CASH_ADJUSTMENT',
+    message:
+      'El tipo debe ser COLLECTION, WITHDRAWAL, ROUTE_EXPENSE, LOAN_DISBURSEMENT, CASH_ADJUSTMENT, PAYMENT_RESET o CLIENT_CREDIT',
   })
   type?: CollectorWalletTransactionType;
 }
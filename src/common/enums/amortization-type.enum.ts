@@ -0,0 +1,5 @@
+export enum AmortizationType {
+  FLAT = 'FLAT',
+  FRENCH = 'FRENCH',
+  GERMAN = 'GERMAN',
+}
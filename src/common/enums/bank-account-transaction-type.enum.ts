@@ -0,0 +1,5 @@
+export enum BankAccountTransactionType {
+  COLLECTION = 'COLLECTION',
+  PAYMENT_RESET = 'PAYMENT_RESET',
+  CLIENT_CREDIT = 'CLIENT_CREDIT',
+}
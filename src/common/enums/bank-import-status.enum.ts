@@ -0,0 +1,4 @@
+export enum BankImportStatus {
+  REVIEW = 'REVIEW',
+  COMPLETED = 'COMPLETED',
+}
@@ -0,0 +1,6 @@
+export enum BankLineMatchMethod {
+  LOAN_TRACK = 'LOAN_TRACK',
+  DOCUMENT = 'DOCUMENT',
+  AMOUNT = 'AMOUNT',
+  MANUAL = 'MANUAL',
+}
@@ -0,0 +1,10 @@
+export enum BankLineStatus {
+  CONFIRMED = 'CONFIRMED',
+  AMBIGUOUS = 'AMBIGUOUS',
+  UNMATCHED = 'UNMATCHED',
+  DUPLICATE = 'DUPLICATE',
+  IGNORED = 'IGNORED',
+  PROCESSING = 'PROCESSING',
+  REGISTERED = 'REGISTERED',
+  FAILED = 'FAILED',
+}
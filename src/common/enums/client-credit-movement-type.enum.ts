@@ -0,0 +1,7 @@
+export enum ClientCreditMovementType {
+  OVERPAYMENT = 'OVERPAYMENT',
+  DEPOSIT = 'DEPOSIT',
+  APPLICATION = 'APPLICATION',
+  PAYMENT_REVERSAL = 'PAYMENT_REVERSAL',
+  OVERPAYMENT_REVERSAL = 'OVERPAYMENT_REVERSAL',
+}
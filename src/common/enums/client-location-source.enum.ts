@@ -0,0 +1,4 @@
+export enum ClientLocationSource {
+  DEVICE = 'DEVICE',
+  MANUAL = 'MANUAL',
+}
@@ -5,5 +5,6 @@ export enum CollectorWalletTransactionType {
   LOAN_DISBURSEMENT = 'LOAN_DISBURSEMENT',
   CASH_ADJUSTMENT = 'CASH_ADJUSTMENT',
   PAYMENT_RESET = 'PAYMENT_RESET',
+  CLIENT_CREDIT = 'CLIENT_CREDIT',
 }
 
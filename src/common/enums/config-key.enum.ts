@@ -1,3 +1,9 @@
 export enum ConfigKey {
   ADMIN_MAX_CLIENTS = 'ADMIN_MAX_CLIENTS',
+  LOAN_DEFAULT_OVERDUE_DAYS = 'LOAN_DEFAULT_OVERDUE_DAYS',
+  EARLY_PAYOFF_UNEARNED_INTEREST_PERCENT = 'EARLY_PAYOFF_UNEARNED_INTEREST_PERCENT',
+  ROUTE_OVERDUE_LOOKBACK_DAYS = 'ROUTE_OVERDUE_LOOKBACK_DAYS',
+  ROUTE_ITEM_PRIORITY = 'ROUTE_ITEM_PRIORITY',
+  NOT_HOME_FLAG_THRESHOLD = 'NOT_HOME_FLAG_THRESHOLD',
+  NOT_HOME_WINDOW_DAYS = 'NOT_HOME_WINDOW_DAYS',
 }
@@ -0,0 +1,5 @@
+export enum HolidayType {
+  NATIONAL = 'NATIONAL',
+  BRIDGE = 'BRIDGE',
+  CUSTOM = 'CUSTOM',
+}
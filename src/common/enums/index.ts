@@ -1,13 +1,31 @@
 export { UserRole } from './user-role.enum';
 export { ConfigKey } from './config-key.enum';
+export { ClientLocationSource } from './client-location-source.enum';
 export { LoanStatus } from './loan-status.enum';
 export { Currency } from './currency.enum';
+export { PaymentMethod } from './payment-method.enum';
+export { PaymentStatus } from './payment-status.enum';
+export { PaymentAllocationStrategy } from './payment-allocation-strategy.enum';
+export { PaymentPromiseStatus } from './payment-promise-status.enum';
 export { PaymentFrequency } from './payment-frequency.enum';
+export { AmortizationType } from './amortization-type.enum';
 export { PaymentDay } from './payment-day.enum';
+export { HolidayType } from './holiday-type.enum';
 export { TransactionType } from './transaction-type.enum';
 export { SubLoanStatus } from './sub-loan-status.enum';
 export { WalletTransactionType } from './wallet-transaction-type.enum';
 export { ExpenseCategory } from './expense-category.enum';
 export { CollectionRouteStatus } from './collection-route-status.enum';
+export { RouteItemPriority } from './route-item-priority.enum';
+export { RouteItemCollectionFlag } from './route-item-collection-flag.enum';
+export { VisitOutcome } from './visit-outcome.enum';
+export { RouteDelegationWallet } from './route-delegation-wallet.enum';
 export { CollectorWalletTransactionType } from './collector-wallet-transaction-type.enum';
+export { BankAccountTransactionType } from './bank-account-transaction-type.enum';
+export { BankImportStatus } from './bank-import-status.enum';
+export { BankLineStatus } from './bank-line-status.enum';
+export { BankLineMatchMethod } from './bank-line-match-method.enum';
+export { ClientCreditMovementType } from './client-credit-movement-type.enum';
 export { SafeTransactionType } from './safe-transaction-type.enum';
+export { SyncOperationType } from './sync-operation-type.enum';
+export { SyncOperationStatus } from './sync-operation-status.enum';
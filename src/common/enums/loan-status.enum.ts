@@ -5,4 +5,5 @@ export enum LoanStatus {
   ACTIVE = 'ACTIVE',
   COMPLETED = 'COMPLETED',
   DEFAULTED = 'DEFAULTED',
+  REFINANCED = 'REFINANCED',
 }
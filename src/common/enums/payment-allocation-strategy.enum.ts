@@ -0,0 +1,5 @@
+export enum PaymentAllocationStrategy {
+  TARGET_FIRST = 'TARGET_FIRST',
+  OLDEST_FIRST = 'OLDEST_FIRST',
+  PENALTIES_INTEREST_PRINCIPAL = 'PENALTIES_INTEREST_PRINCIPAL',
+}
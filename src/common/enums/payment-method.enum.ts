@@ -0,0 +1,7 @@
+export enum PaymentMethod {
+  CASH = 'CASH',
+  BANK_TRANSFER = 'BANK_TRANSFER',
+  MERCADO_PAGO = 'MERCADO_PAGO',
+  OTHER = 'OTHER',
+  CLIENT_CREDIT = 'CLIENT_CREDIT',
+}
@@ -0,0 +1,5 @@
+export enum PaymentPromiseStatus {
+  PENDING = 'PENDING',
+  KEPT = 'KEPT',
+  BROKEN = 'BROKEN',
+}
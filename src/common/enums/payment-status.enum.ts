@@ -0,0 +1,4 @@
+export enum PaymentStatus {
+  COMPLETED = 'COMPLETED',
+  VOIDED = 'VOIDED',
+}
@@ -0,0 +1,4 @@
+export enum RouteDelegationWallet {
+  MANAGER = 'MANAGER',
+  SUBSTITUTE = 'SUBSTITUTE',
+}
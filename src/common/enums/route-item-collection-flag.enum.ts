@@ -0,0 +1,5 @@
+export enum RouteItemCollectionFlag {
+  DUE_TODAY = 'DUE_TODAY',
+  OVERDUE = 'OVERDUE',
+  PARTIAL = 'PARTIAL',
+}
@@ -0,0 +1,9 @@
+/**
+ * Criterio para ordenar los clientes de la ruta diaria.
+ * Se guarda como número en la configuración ROUTE_ITEM_PRIORITY.
+ */
+export enum RouteItemPriority {
+  DUE_TODAY_FIRST = 0,
+  OLDEST_FIRST = 1,
+  HIGHEST_AMOUNT_FIRST = 2,
+}
@@ -3,4 +3,5 @@ export enum SubLoanStatus {
   PAID = 'PAID',
   OVERDUE = 'OVERDUE',
   PARTIAL = 'PARTIAL',
+  REFINANCED = 'REFINANCED',
 }
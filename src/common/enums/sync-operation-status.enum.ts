@@ -0,0 +1,6 @@
+export enum SyncOperationStatus {
+  PENDING = 'PENDING',
+  APPLIED = 'APPLIED',
+  CONFLICT = 'CONFLICT',
+  FAILED = 'FAILED',
+}
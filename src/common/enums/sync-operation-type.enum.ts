@@ -0,0 +1,6 @@
+export enum SyncOperationType {
+  PAYMENT = 'PAYMENT',
+  ROUTE_EXPENSE = 'ROUTE_EXPENSE',
+  ROUTE_ITEM_NOTE = 'ROUTE_ITEM_NOTE',
+  ROUTE_ITEM_VISIT = 'ROUTE_ITEM_VISIT',
+}
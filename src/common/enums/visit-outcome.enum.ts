@@ -0,0 +1,7 @@
+export enum VisitOutcome {
+  PAID = 'PAID',
+  NOT_HOME = 'NOT_HOME',
+  REFUSED = 'REFUSED',
+  MOVED = 'MOVED',
+  PROMISED_TO_PAY = 'PROMISED_TO_PAY',
+}
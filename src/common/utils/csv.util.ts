@@ -0,0 +1,77 @@
+export class CsvUtil {
+  /**
+   * Parsea un CSV en filas de celdas. Soporta campos entre comillas dobles
+   * (con separadores, saltos de línea y comillas escapadas como "") y
+   * finales de línea \n o \r\n. Las filas vacías se descartan.
+   */
+  static parse(content: string, delimiter: string = ','): string[][] {
+    const rows: string[][] = [];
+    let row: string[] = [];
+    let field = '';
+    let inQuotes = false;
+
+    // Quitar BOM de archivos exportados desde Excel
+    const text = content.replace(/^\uFEFF/, '');
+
+    const pushRow = () => {
+      row.push(field);
+      if (row.some((cell) => cell.trim() !== '')) {
+        rows.push(row);
+      }
+      row = [];
+      field = '';
+    };
+
+    for (let i = 0; i < text.length; i++) {
+      const char = text[i];
+
+      if (inQuotes) {
+        if (char === '"' && text[i + 1] === '"') {
+          field += '"';
+          i++;
+        } else if (char === '"') {
+          inQuotes = false;
+        } else {
+          field += char;
+        }
+        continue;
+      }
+
+      if (char === '"') {
+        inQuotes = true;
+      } else if (text.startsWith(delimiter, i)) {
+        row.push(field);
+        field = '';
+        i += delimiter.length - 1;
+      } else if (char === '\n') {
+        pushRow();
+      } else if (char !== '\r') {
+        field += char;
+      }
+    }
+
+    if (field !== '' || row.length > 0) {
+      pushRow();
+    }
+
+    return rows;
+  }
+
+  /**
+   * Arma un CSV a partir de filas de celdas. Los campos con separadores, comillas
+   * o saltos de línea se encierran entre comillas dobles. Usa finales de línea \r\n.
+   */
+  static stringify(
+    rows: (string | number | null | undefined)[][],
+    delimiter: string = ',',
+  ): string {
+    const escape = (value: string | number | null | undefined) => {
+      const field = value === null || value === undefined ? '' : String(value);
+      return field.includes(delimiter) || /["\r\n]/.test(field)
+        ? `"${field.replace(/"/g, '""')}"`
+        : field;
+    };
+
+    return rows.map((row) => row.map(escape).join(delimiter)).join('\r\n');
+  }
+}
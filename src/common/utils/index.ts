@@ -1,2 +1,4 @@
 export * from './date.util';
 export * from './tracking-code.util';
+export * from './csv.util';
+export * from './pdf.util';
@@ -0,0 +1,180 @@
+import { DateUtil } from './date.util';
+
+export interface PdfTableOptions {
+  // Ancho de cada columna; por defecto el ancho útil se reparte en partes iguales
+  columnWidths?: number[];
+  rowHeight?: number;
+  fontSize?: number;
+  // Se llama al agregar una página nueva (por ejemplo, para el pie de página)
+  onPageAdded?: () => void;
+}
+
+/**
+ * Helpers de pdfkit compartidos por los reportes: encabezado, secciones, tablas y pie de página
+ */
+export class PdfUtil {
+  /**
+   * Banda de encabezado del documento con título, subtítulo y un detalle opcional
+   */
+  static addReportHeader(
+    doc: PDFKit.PDFDocument,
+    header: {
+      title: string;
+      subtitle: string;
+      detail?: string;
+      color?: string;
+    },
+  ): void {
+    doc
+      .rect(0, 0, doc.page.width, 80)
+      .fillColor(header.color ?? '#2c3e50')
+      .fill();
+
+    doc
+      .fontSize(24)
+      .fillColor('#ffffff')
+      .font('Helvetica-Bold')
+      .text(header.title, 40, 30, { align: 'left' });
+
+    doc
+      .fontSize(12)
+      .fillColor('#ecf0f1')
+      .font('Helvetica')
+      .text(header.subtitle, 40, 55, { align: 'left' });
+
+    if (header.detail) {
+      doc
+        .fontSize(10)
+        .fillColor('#bdc3c7')
+        .text(header.detail, 40, 70, { align: 'left' });
+    }
+
+    doc.y = 100;
+  }
+
+  /**
+   * Pie de página con número de página y fecha de generación
+   */
+  static addFooter(doc: PDFKit.PDFDocument, pageNumber?: number): void {
+    const currentPage = pageNumber || doc.bufferedPageRange()?.count || 1;
+    const footerY = doc.page.height - 40;
+    // El pie queda dentro del margen inferior; sin esto pdfkit agregaría otra página
+    const bottomMargin = doc.page.margins.bottom;
+    doc.page.margins.bottom = 0;
+    doc
+      .fontSize(8)
+      .fillColor('#666666')
+      .text(
+        `Página ${currentPage} | Generado el ${DateUtil.now().toFormat('dd/MM/yyyy HH:mm')} hs`,
+        40,
+        footerY,
+        { align: 'center', width: doc.page.width - 80 },
+      );
+    doc.page.margins.bottom = bottomMargin;
+  }
+
+  /**
+   * Título de sección con línea decorativa. Si no queda lugar en la página agrega una
+   * nueva y llama a onPageAdded (por ejemplo, para el pie de página).
+   */
+  static addSectionHeader(
+    doc: PDFKit.PDFDocument,
+    title: string,
+    onPageAdded?: () => void,
+  ): void {
+    if (doc.y > doc.page.height - 100) {
+      doc.addPage();
+      onPageAdded?.();
+    }
+    doc.moveDown(1);
+    doc
+      .fontSize(14)
+      .fillColor('#1a1a1a')
+      .font('Helvetica-Bold')
+      .text(title, { underline: false });
+    doc.moveDown(0.3);
+    // Línea decorativa
+    doc
+      .moveTo(40, doc.y)
+      .lineTo(doc.page.width - 40, doc.y)
+      .strokeColor('#cccccc')
+      .lineWidth(1)
+      .stroke();
+    doc.moveDown(0.5);
+  }
+
+  /**
+   * Tabla con bordes. La primera fila es el encabezado y se repite en cada página nueva.
+   * El texto que no entra en la celda se corta con puntos suspensivos.
+   */
+  static addTable(
+    doc: PDFKit.PDFDocument,
+    rows: string[][],
+    options: PdfTableOptions = {},
+  ): void {
+    if (rows.length === 0) {
+      return;
+    }
+
+    const left = doc.page.margins.left;
+    const pageWidth = doc.page.width - left - doc.page.margins.right;
+    const colCount = rows[0].length;
+    const columnWidths =
+      options.columnWidths ??
+      Array.from({ length: colCount }, () => pageWidth / colCount);
+    const rowHeight = options.rowHeight ?? 20;
+    const fontSize = options.fontSize ?? 8;
+
+    const drawRow = (row: string[], isHeader: boolean) => {
+      const y = doc.y;
+      let x = left;
+
+      doc
+        .fontSize(fontSize)
+        .font(isHeader ? 'Helvetica-Bold' : 'Helvetica')
+        .fillColor('#2c3e50')
+        .strokeColor('#999999')
+        .lineWidth(0.5);
+
+      row.forEach((cell, colIndex) => {
+        const colWidth = columnWidths[colIndex];
+
+        if (isHeader) {
+          doc
+            .rect(x, y, colWidth, rowHeight)
+            .fillAndStroke('#ecf0f1', '#999999');
+          doc.fillColor('#2c3e50');
+        } else {
+          doc.rect(x, y, colWidth, rowHeight).stroke();
+        }
+
+        doc.text(cell || '', x + 2, y + (rowHeight - fontSize) / 2, {
+          width: colWidth - 4,
+          height: rowHeight - (rowHeight - fontSize) / 2,
+          ellipsis: true,
+          lineBreak: false,
+          align: 'left',
+        });
+
+        x += colWidth;
+      });
+
+      doc.x = left;
+      doc.y = y + rowHeight;
+    };
+
+    rows.forEach((row, rowIndex) => {
+      // Verificar si necesitamos una nueva página
+      if (
+        rowIndex > 0 &&
+        doc.y + rowHeight > doc.page.height - doc.page.margins.bottom
+      ) {
+        doc.addPage();
+        options.onPageAdded?.();
+        drawRow(rows[0], true);
+      }
+
+      drawRow(row, rowIndex === 0);
+    });
+  }
+}
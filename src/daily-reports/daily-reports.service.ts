@@ -5,7 +5,8 @@ import { ConfigService } from '@nestjs/config';
 import * as PDFDocument from 'pdfkit';
 import { DateTime } from 'luxon';
 import { DateUtil } from '../common/utils/date.util';
-import { SubLoanStatus } from '@prisma/client';
+import { PdfUtil } from '../common/utils/pdf.util';
+import { PaymentStatus, SubLoanStatus } from '@prisma/client';
 
 @Injectable()
 export class DailyReportsService {
@@ -440,6 +441,7 @@ export class DailyReportsService {
           include: {
             payments: {
               where: {
+                status: PaymentStatus.COMPLETED,
                 paymentDate: {
                   gte: startOfRange,
                   lte: endOfRange,
@@ -519,6 +521,7 @@ export class DailyReportsService {
           include: {
             payments: {
               where: {
+                status: PaymentStatus.COMPLETED,
                 paymentDate: {
                   gte: startOfPreviousDay,
                   lte: endOfPreviousDay,
@@ -631,6 +634,7 @@ export class DailyReportsService {
 
     const payments = await this.prisma.payment.findMany({
       where: {
+        status: PaymentStatus.COMPLETED,
         paymentDate: {
           gte: startOfRange,
           lte: endOfRange,
@@ -665,6 +669,8 @@ export class DailyReportsService {
       numeroPrestamo: p.subLoan.loan.loanTrack,
       numeroCuota: p.subLoan.paymentNumber,
       descripcion: p.description || 'Pago de cuota',
+      medio: p.paymentMethod,
+      referencia: p.externalReference,
     }));
   }
 
@@ -678,6 +684,7 @@ export class DailyReportsService {
 
     const payments = await this.prisma.payment.findMany({
       where: {
+        status: PaymentStatus.COMPLETED,
         paymentDate: {
           gte: startOfDay,
           lte: endOfDay,
@@ -712,6 +719,8 @@ export class DailyReportsService {
       numeroPrestamo: p.subLoan.loan.loanTrack,
       numeroCuota: p.subLoan.paymentNumber,
       descripcion: p.description || 'Pago de cuota',
+      medio: p.paymentMethod,
+      referencia: p.externalReference,
     }));
   }
 
@@ -752,59 +761,17 @@ export class DailyReportsService {
         doc.on('error', reject);
 
         // Función helper para agregar pie de página
-        const addFooter = (pageNumber?: number) => {
-          const currentPage = pageNumber || (doc.bufferedPageRange()?.count || 1);
-          const footerY = doc.page.height - 40;
-          doc.fontSize(8)
-            .fillColor('#666666')
-            .text(
-              `Página ${currentPage} | Generado el ${DateTime.now().setZone('America/Argentina/Buenos_Aires').toFormat('dd/MM/yyyy HH:mm')} hs`,
-              40,
-              footerY,
-              { align: 'center', width: doc.page.width - 80 }
-            );
-        };
+        const addFooter = (pageNumber?: number) => PdfUtil.addFooter(doc, pageNumber);
 
         // Función helper para agregar encabezado de sección
-        const addSectionHeader = (title: string) => {
-          if (doc.y > doc.page.height - 100) {
-            doc.addPage();
-          }
-          doc.moveDown(1);
-          doc.fontSize(14)
-            .fillColor('#1a1a1a')
-            .font('Helvetica-Bold')
-            .text(title, { underline: false });
-          doc.moveDown(0.3);
-          // Línea decorativa
-          doc.moveTo(40, doc.y)
-            .lineTo(doc.page.width - 40, doc.y)
-            .strokeColor('#cccccc')
-            .lineWidth(1)
-            .stroke();
-          doc.moveDown(0.5);
-        };
+        const addSectionHeader = (title: string) => PdfUtil.addSectionHeader(doc, title);
 
         // Encabezado principal con diseño profesional
-        doc.rect(0, 0, doc.page.width, 80)
-          .fillColor('#2c3e50')
-          .fill();
-        
-        doc.fontSize(24)
-          .fillColor('#ffffff')
-          .font('Helvetica-Bold')
-          .text('REPORTE DIARIO', 40, 30, { align: 'left' });
-        
-        doc.fontSize(12)
-          .fillColor('#ecf0f1')
-          .font('Helvetica')
-          .text(`Fecha del Reporte: ${this.formatDate(data.reportDate)}`, 40, 55, { align: 'left' });
-        
-        doc.fontSize(10)
-          .fillColor('#bdc3c7')
-          .text(`Período de datos: ${previousDate.toFormat('dd/MM/yyyy')}`, 40, 70, { align: 'left' });
-
-        doc.y = 100;
+        PdfUtil.addReportHeader(doc, {
+          title: 'REPORTE DIARIO',
+          subtitle: `Fecha del Reporte: ${this.formatDate(data.reportDate)}`,
+          detail: `Período de datos: ${previousDate.toFormat('dd/MM/yyyy')}`,
+        });
 
         // Resumen Ejecutivo con diseño mejorado
         addSectionHeader('RESUMEN EJECUTIVO');
@@ -1145,6 +1112,22 @@ export class DailyReportsService {
             .fillColor('#27ae60')
             .font('Helvetica-Bold')
             .text(`Total de pagos: ${data.paymentsYesterday.length} | Monto total: $${totalPagos.toLocaleString('es-AR', { minimumFractionDigits: 2, maximumFractionDigits: 2 })}`, 50, doc.y);
+          doc.moveDown(0.3);
+
+          // Desglose por medio de pago
+          const pagosPorMedio = new Map<string, { count: number; total: number }>();
+          data.paymentsYesterday.forEach(p => {
+            const existing = pagosPorMedio.get(p.medio) || { count: 0, total: 0 };
+            existing.count += 1;
+            existing.total += p.monto;
+            pagosPorMedio.set(p.medio, existing);
+          });
+          pagosPorMedio.forEach((stats, medio) => {
+            doc.fontSize(9)
+              .fillColor('#34495e')
+              .font('Helvetica')
+              .text(`${this.translatePaymentMethod(medio)}: ${stats.count} pago(s) | $${stats.total.toLocaleString('es-AR', { minimumFractionDigits: 2, maximumFractionDigits: 2 })}`, 60, doc.y);
+          });
           doc.moveDown(0.5);
           
           data.paymentsYesterday.forEach((p, index) => {
@@ -1189,7 +1172,7 @@ export class DailyReportsService {
             doc.fontSize(9)
               .fillColor('#34495e')
               .font('Helvetica')
-              .text(`Préstamo: ${p.numeroPrestamo} | Cuota: ${p.numeroCuota}`, 50, doc.y);
+              .text(`Préstamo: ${p.numeroPrestamo} | Cuota: ${p.numeroCuota} | Medio: ${this.translatePaymentMethod(p.medio)}${p.referencia ? ` (Ref. ${p.referencia})` : ''}`, 50, doc.y);
             
             doc.moveDown(0.2);
 
@@ -1279,51 +1262,6 @@ export class DailyReportsService {
     });
   }
 
-  /**
-   * Agrega una tabla al PDF
-   */
-  private addTable(doc: any, rows: string[][]) {
-    const startY = doc.y;
-    const pageWidth = doc.page.width - 100; // Margen izquierdo y derecho
-    const colCount = rows[0].length;
-    const colWidth = pageWidth / colCount;
-    const rowHeight = 20;
-    const fontSize = 8;
-
-    rows.forEach((row, rowIndex) => {
-      // Verificar si necesitamos una nueva página
-      if (doc.y + rowHeight > doc.page.height - 50) {
-        doc.addPage();
-      }
-
-      const isHeader = rowIndex === 0;
-      doc.fontSize(fontSize).font(isHeader ? 'Helvetica-Bold' : 'Helvetica');
-
-      row.forEach((cell, colIndex) => {
-        const x = 50 + (colIndex * colWidth);
-        const y = doc.y;
-        const cellText = cell || '';
-
-        // Dibujar borde
-        doc.rect(x, y, colWidth, rowHeight).stroke();
-
-        // Agregar texto (truncar si es muy largo)
-        const maxWidth = colWidth - 4;
-        const truncatedText = doc.heightOfString(cellText, { width: maxWidth }) > rowHeight
-          ? cellText.substring(0, 20) + '...'
-          : cellText;
-
-        doc.text(truncatedText, x + 2, y + (rowHeight - fontSize) / 2, {
-          width: maxWidth,
-          height: rowHeight,
-          align: 'left',
-        });
-      });
-
-      doc.moveDown(rowHeight / 12);
-    });
-  }
-
   /**
    * Genera el PDF del reporte semanal con diseño profesional y visión general
    */
@@ -1363,59 +1301,18 @@ export class DailyReportsService {
         doc.on('error', reject);
 
         // Función helper para agregar pie de página
-        const addFooter = (pageNumber?: number) => {
-          const currentPage = pageNumber || (doc.bufferedPageRange()?.count || 1);
-          const footerY = doc.page.height - 40;
-          doc.fontSize(8)
-            .fillColor('#666666')
-            .text(
-              `Página ${currentPage} | Generado el ${DateTime.now().setZone('America/Argentina/Buenos_Aires').toFormat('dd/MM/yyyy HH:mm')} hs`,
-              40,
-              footerY,
-              { align: 'center', width: doc.page.width - 80 }
-            );
-        };
+        const addFooter = (pageNumber?: number) => PdfUtil.addFooter(doc, pageNumber);
 
         // Función helper para agregar encabezado de sección
-        const addSectionHeader = (title: string) => {
-          if (doc.y > doc.page.height - 100) {
-            doc.addPage();
-          }
-          doc.moveDown(1);
-          doc.fontSize(14)
-            .fillColor('#1a1a1a')
-            .font('Helvetica-Bold')
-            .text(title, { underline: false });
-          doc.moveDown(0.3);
-          // Línea decorativa
-          doc.moveTo(40, doc.y)
-            .lineTo(doc.page.width - 40, doc.y)
-            .strokeColor('#cccccc')
-            .lineWidth(1)
-            .stroke();
-          doc.moveDown(0.5);
-        };
+        const addSectionHeader = (title: string) => PdfUtil.addSectionHeader(doc, title);
 
         // Encabezado principal
-        doc.rect(0, 0, doc.page.width, 80)
-          .fillColor('#34495e')
-          .fill();
-        
-        doc.fontSize(24)
-          .fillColor('#ffffff')
-          .font('Helvetica-Bold')
-          .text('REPORTE SEMANAL', 40, 30, { align: 'left' });
-        
-        doc.fontSize(12)
-          .fillColor('#ecf0f1')
-          .font('Helvetica')
-          .text(`Período: ${data.weekLabel}`, 40, 55, { align: 'left' });
-        
-        doc.fontSize(10)
-          .fillColor('#bdc3c7')
-          .text(`Del ${weekStart.toFormat('dd/MM/yyyy')} al ${weekEnd.toFormat('dd/MM/yyyy')}`, 40, 70, { align: 'left' });
-
-        doc.y = 100;
+        PdfUtil.addReportHeader(doc, {
+          title: 'REPORTE SEMANAL',
+          subtitle: `Período: ${data.weekLabel}`,
+          detail: `Del ${weekStart.toFormat('dd/MM/yyyy')} al ${weekEnd.toFormat('dd/MM/yyyy')}`,
+          color: '#34495e',
+        });
 
         // Resumen Ejecutivo Semanal
         addSectionHeader('RESUMEN EJECUTIVO SEMANAL');
@@ -1909,6 +1806,7 @@ export class DailyReportsService {
       LOAN_DISBURSEMENT: 'Desembolsos',
       CASH_ADJUSTMENT: 'Ajustes de Caja',
       PAYMENT_RESET: 'Reseteos de Pago',
+      CLIENT_CREDIT: 'Saldo a Favor de Clientes',
       // Safe transaction types
       DEPOSIT: 'Depósitos',
       EXPENSE: 'Gastos',
@@ -1920,6 +1818,20 @@ export class DailyReportsService {
     return translations[type] || type;
   }
 
+  /**
+   * Traduce el medio de pago a español
+   */
+  private translatePaymentMethod(method: string): string {
+    const translations: Record<string, string> = {
+      CASH: 'Efectivo',
+      BANK_TRANSFER: 'Transferencia',
+      MERCADO_PAGO: 'MercadoPago',
+      OTHER: 'Otro',
+      CLIENT_CREDIT: 'Saldo a favor',
+    };
+    return translations[method] || method;
+  }
+
   /**
    * Genera el PDF del reporte de managers con diseño profesional
    */
@@ -1951,70 +1863,17 @@ export class DailyReportsService {
         doc.on('error', reject);
 
         // Función helper para agregar pie de página
-        const addFooter = (pageNumber?: number) => {
-          const currentPage = pageNumber || (doc.bufferedPageRange()?.count || 1);
-          const footerY = doc.page.height - 40;
-          doc.fontSize(8)
-            .fillColor('#666666')
-            .text(
-              `Página ${currentPage} | Generado el ${DateTime.now().setZone('America/Argentina/Buenos_Aires').toFormat('dd/MM/yyyy HH:mm')} hs`,
-              40,
-              footerY,
-              { align: 'center', width: doc.page.width - 80 }
-            );
-        };
+        const addFooter = (pageNumber?: number) => PdfUtil.addFooter(doc, pageNumber);
 
         // Función helper para agregar encabezado de sección
-        const addSectionHeader = (title: string) => {
-          if (doc.y > doc.page.height - 100) {
-            doc.addPage();
-            addFooter();
-          }
-          doc.moveDown(1);
-          doc.fontSize(14)
-            .fillColor('#1a1a1a')
-            .font('Helvetica-Bold')
-            .text(title, { underline: false });
-          doc.moveDown(0.3);
-          // Línea decorativa
-          doc.moveTo(40, doc.y)
-            .lineTo(doc.page.width - 40, doc.y)
-            .strokeColor('#cccccc')
-            .lineWidth(1)
-            .stroke();
-          doc.moveDown(0.5);
-        };
+        const addSectionHeader = (title: string) => PdfUtil.addSectionHeader(doc, title, addFooter);
 
         // Encabezado principal
-        doc.rect(0, 0, doc.page.width, 80)
-          .fillColor('#2c3e50')
-          .fill();
-        
-        doc.fontSize(24)
-          .fillColor('#ffffff')
-          .font('Helvetica-Bold')
-          .text('REPORTE DE MANAGERS', 40, 30, { align: 'left' });
-        
-        doc.fontSize(12)
-          .fillColor('#ecf0f1')
-          .font('Helvetica')
-          .text(
-            `Período: ${this.formatDate(data.startDate)} - ${this.formatDate(data.endDate)}`,
-            40,
-            55,
-            { align: 'left' }
-          );
-        
-        doc.fontSize(10)
-          .fillColor('#bdc3c7')
-          .text(
-            `Total de Managers: ${data.managers.length}`,
-            40,
-            70,
-            { align: 'left' }
-          );
-
-        doc.y = 100;
+        PdfUtil.addReportHeader(doc, {
+          title: 'REPORTE DE MANAGERS',
+          subtitle: `Período: ${this.formatDate(data.startDate)} - ${this.formatDate(data.endDate)}`,
+          detail: `Total de Managers: ${data.managers.length}`,
+        });
 
         // Resumen Ejecutivo
         addSectionHeader('RESUMEN EJECUTIVO');
@@ -0,0 +1,35 @@
+import {
+  IsDateString,
+  IsEnum,
+  IsNotEmpty,
+  IsOptional,
+  IsString,
+} from 'class-validator';
+import { ApiProperty, ApiPropertyOptional } from '@nestjs/swagger';
+import { HolidayType } from '../../common/enums';
+
+export class CreateHolidayDto {
+  @ApiProperty({
+    example: '2025-05-02',
+    description: 'Fecha del feriado (YYYY-MM-DD)',
+  })
+  @IsDateString()
+  date: string;
+
+  @ApiProperty({
+    example: 'Feriado puente turístico',
+    description: 'Nombre del feriado',
+  })
+  @IsString()
+  @IsNotEmpty()
+  name: string;
+
+  @ApiPropertyOptional({
+    enum: HolidayType,
+    default: HolidayType.CUSTOM,
+    description: 'Tipo de feriado (NATIONAL, BRIDGE o CUSTOM)',
+  })
+  @IsOptional()
+  @IsEnum(HolidayType)
+  type?: HolidayType;
+}
@@ -0,0 +1,2 @@
+export * from './create-holiday.dto';
+export * from './update-holiday.dto';
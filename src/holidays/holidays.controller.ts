@@ -0,0 +1,96 @@
+import {
+  Controller,
+  Get,
+  Post,
+  Body,
+  Patch,
+  Param,
+  Delete,
+  Query,
+  UseGuards,
+  ParseIntPipe,
+} from '@nestjs/common';
+import {
+  ApiTags,
+  ApiOperation,
+  ApiResponse,
+  ApiBearerAuth,
+  ApiParam,
+  ApiQuery,
+} from '@nestjs/swagger';
+import { HolidaysService } from './holidays.service';
+import { CreateHolidayDto, UpdateHolidayDto } from './dto';
+import { JwtAuthGuard } from '../common/guards/jwt-auth.guard';
+import { RolesGuard } from '../common/guards/roles.guard';
+import { Roles } from '../common/decorators/roles.decorator';
+import { UserRole } from '../common/enums';
+
+@ApiTags('Holidays')
+@Controller('holidays')
+@UseGuards(JwtAuthGuard, RolesGuard)
+@ApiBearerAuth()
+export class HolidaysController {
+  constructor(private readonly holidaysService: HolidaysService) {}
+
+  @Get()
+  @ApiOperation({ summary: 'Listar feriados' })
+  @ApiQuery({
+    name: 'year',
+    required: false,
+    type: Number,
+    description: 'Año a consultar',
+    example: 2025,
+  })
+  @ApiResponse({ status: 200, description: 'Feriados ordenados por fecha' })
+  async findAll(@Query('year') year?: string) {
+    return this.holidaysService.findAll(year ? Number(year) : undefined);
+  }
+
+  @Post()
+  @Roles(UserRole.SUPERADMIN, UserRole.ADMIN)
+  @ApiOperation({ summary: 'Crear un feriado (puente o personalizado)' })
+  @ApiResponse({ status: 201, description: 'Feriado creado' })
+  @ApiResponse({
+    status: 400,
+    description: 'Ya existe un feriado en esa fecha',
+  })
+  async create(@Body() createHolidayDto: CreateHolidayDto) {
+    return this.holidaysService.create(createHolidayDto);
+  }
+
+  @Post('seed/:year')
+  @Roles(UserRole.SUPERADMIN, UserRole.ADMIN)
+  @ApiOperation({
+    summary: 'Cargar los feriados nacionales de un año',
+    description:
+      'Calcula y carga los feriados nacionales inamovibles y trasladables. Las fechas ya cargadas no se modifican.',
+  })
+  @ApiParam({ name: 'year', example: 2025 })
+  @ApiResponse({ status: 201, description: 'Feriados nacionales cargados' })
+  async seed(@Param('year', ParseIntPipe) year: number) {
+    return this.holidaysService.seedNationalHolidays(year);
+  }
+
+  @Patch(':id')
+  @Roles(UserRole.SUPERADMIN, UserRole.ADMIN)
+  @ApiOperation({ summary: 'Actualizar un feriado' })
+  @ApiParam({ name: 'id', description: 'ID del feriado' })
+  @ApiResponse({ status: 200, description: 'Feriado actualizado' })
+  @ApiResponse({ status: 404, description: 'Feriado no encontrado' })
+  async update(
+    @Param('id') id: string,
+    @Body() updateHolidayDto: UpdateHolidayDto,
+  ) {
+    return this.holidaysService.update(id, updateHolidayDto);
+  }
+
+  @Delete(':id')
+  @Roles(UserRole.SUPERADMIN, UserRole.ADMIN)
+  @ApiOperation({ summary: 'Eliminar un feriado' })
+  @ApiParam({ name: 'id', description: 'ID del feriado' })
+  @ApiResponse({ status: 200, description: 'Feriado eliminado' })
+  @ApiResponse({ status: 404, description: 'Feriado no encontrado' })
+  async remove(@Param('id') id: string) {
+    return this.holidaysService.remove(id);
+  }
+}
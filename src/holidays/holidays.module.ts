@@ -0,0 +1,12 @@
+import { Module } from '@nestjs/common';
+import { HolidaysController } from './holidays.controller';
+import { HolidaysService } from './holidays.service';
+import { PrismaModule } from '../prisma/prisma.module';
+
+@Module({
+  imports: [PrismaModule],
+  controllers: [HolidaysController],
+  providers: [HolidaysService],
+  exports: [HolidaysService],
+})
+export class HolidaysModule {}
@@ -0,0 +1,295 @@
+import {
+  Injectable,
+  BadRequestException,
+  NotFoundException,
+} from '@nestjs/common';
+import { DateTime } from 'luxon';
+import { PrismaService } from '../prisma/prisma.service';
+import { HolidayType } from '../common/enums';
+import { DateUtil } from '../common/utils';
+import { CreateHolidayDto, UpdateHolidayDto } from './dto';
+
+/**
+ * Feriado calculado para el calendario nacional
+ */
+export interface NationalHoliday {
+  date: string;
+  name: string;
+}
+
+@Injectable()
+export class HolidaysService {
+  constructor(private prisma: PrismaService) {}
+
+  /**
+   * Lista los feriados cargados, opcionalmente filtrados por año
+   */
+  async findAll(year?: number) {
+    const where = year
+      ? {
+          date: {
+            gte: this.toDbDate(`${year}-01-01`),
+            lte: this.toDbDate(`${year}-12-31`),
+          },
+        }
+      : {};
+
+    const holidays = await this.prisma.holiday.findMany({
+      where,
+      orderBy: { date: 'asc' },
+    });
+
+    return holidays.map((holiday) => this.formatHoliday(holiday));
+  }
+
+  /**
+   * Crea un feriado. No puede haber dos feriados en la misma fecha.
+   */
+  async create(createHolidayDto: CreateHolidayDto) {
+    const date = this.toDbDate(createHolidayDto.date);
+    await this.ensureDateAvailable(date);
+
+    const holiday = await this.prisma.holiday.create({
+      data: {
+        date,
+        name: createHolidayDto.name,
+        type: createHolidayDto.type ?? HolidayType.CUSTOM,
+      },
+    });
+
+    return this.formatHoliday(holiday);
+  }
+
+  /**
+   * Actualiza un feriado existente
+   */
+  async update(id: string, updateHolidayDto: UpdateHolidayDto) {
+    await this.findOneOrFail(id);
+
+    const date = updateHolidayDto.date
+      ? this.toDbDate(updateHolidayDto.date)
+      : undefined;
+    if (date) {
+      await this.ensureDateAvailable(date, id);
+    }
+
+    const holiday = await this.prisma.holiday.update({
+      where: { id },
+      data: {
+        date,
+        name: updateHolidayDto.name,
+        type: updateHolidayDto.type,
+      },
+    });
+
+    return this.formatHoliday(holiday);
+  }
+
+  /**
+   * Elimina un feriado
+   */
+  async remove(id: string) {
+    await this.findOneOrFail(id);
+    await this.prisma.holiday.delete({ where: { id } });
+
+    return { message: 'Feriado eliminado correctamente' };
+  }
+
+  /**
+   * Carga los feriados nacionales del año. Los que ya existen en la misma
+   * fecha no se modifican (por ejemplo, si un admin los renombró).
+   */
+  async seedNationalHolidays(year: number) {
+    if (!Number.isInteger(year) || year < 2000 || year > 2100) {
+      throw new BadRequestException('El año debe estar entre 2000 y 2100');
+    }
+
+    const holidays = this.getNationalHolidays(year);
+
+    const result = await this.prisma.holiday.createMany({
+      data: holidays.map((holiday) => ({
+        date: this.toDbDate(holiday.date),
+        name: holiday.name,
+        type: HolidayType.NATIONAL,
+      })),
+      skipDuplicates: true,
+    });
+
+    return {
+      message: `Se cargaron ${result.count} feriados nacionales para ${year}`,
+      year,
+      created: result.count,
+      skipped: holidays.length - result.count,
+      holidays: await this.findAll(year),
+    };
+  }
+
+  /**
+   * Calcula los feriados nacionales argentinos inamovibles y trasladables
+   * de un año. Los feriados puente se decretan cada año y se cargan a mano.
+   */
+  getNationalHolidays(year: number): NationalHoliday[] {
+    const fixed = (month: number, day: number) =>
+      DateTime.fromObject({ year, month, day }, { zone: 'utc' });
+    const easter = this.getEasterSunday(year);
+
+    const holidays: { date: DateTime; name: string }[] = [
+      { date: fixed(1, 1), name: 'Año Nuevo' },
+      { date: easter.minus({ days: 48 }), name: 'Carnaval' },
+      { date: easter.minus({ days: 47 }), name: 'Carnaval' },
+      {
+        date: fixed(3, 24),
+        name: 'Día Nacional de la Memoria por la Verdad y la Justicia',
+      },
+      {
+        date: fixed(4, 2),
+        name: 'Día del Veterano y de los Caídos en la Guerra de Malvinas',
+      },
+      { date: easter.minus({ days: 2 }), name: 'Viernes Santo' },
+      { date: fixed(5, 1), name: 'Día del Trabajador' },
+      { date: fixed(5, 25), name: 'Día de la Revolución de Mayo' },
+      {
+        date: this.moveToMonday(fixed(6, 17)),
+        name: 'Paso a la Inmortalidad del General Martín Miguel de Güemes',
+      },
+      {
+        date: fixed(6, 20),
+        name: 'Paso a la Inmortalidad del General Manuel Belgrano',
+      },
+      { date: fixed(7, 9), name: 'Día de la Independencia' },
+      {
+        date: this.moveToMonday(fixed(8, 17)),
+        name: 'Paso a la Inmortalidad del General José de San Martín',
+      },
+      {
+        date: this.moveToMonday(fixed(10, 12)),
+        name: 'Día del Respeto a la Diversidad Cultural',
+      },
+      {
+        date: this.moveToMonday(fixed(11, 20)),
+        name: 'Día de la Soberanía Nacional',
+      },
+      { date: fixed(12, 8), name: 'Inmaculada Concepción de María' },
+      { date: fixed(12, 25), name: 'Navidad' },
+    ];
+
+    return holidays
+      .map((holiday) => ({
+        date: holiday.date.toISODate() as string,
+        name: holiday.name,
+      }))
+      .sort((a, b) => a.date.localeCompare(b.date));
+  }
+
+  /**
+   * Devuelve las fechas de feriados (YYYY-MM-DD) a partir de una fecha,
+   * para consultar rápidamente si un día es no laborable.
+   */
+  async getHolidayDateSet(from?: Date): Promise<Set<string>> {
+    const holidays = await this.prisma.holiday.findMany({
+      where: from
+        ? {
+            date: {
+              gte: this.toDbDate(DateUtil.fromJSDate(from).toISODate()!),
+            },
+          }
+        : {},
+      select: { date: true },
+    });
+
+    return new Set(holidays.map((holiday) => this.toDateKey(holiday.date)));
+  }
+
+  /**
+   * Busca el feriado de un día (en zona Argentina), si existe
+   */
+  async findByDay(day: DateTime) {
+    return this.prisma.holiday.findUnique({
+      where: { date: this.toDbDate(day.toISODate()!) },
+    });
+  }
+
+  private async findOneOrFail(id: string) {
+    const holiday = await this.prisma.holiday.findUnique({ where: { id } });
+
+    if (!holiday) {
+      throw new NotFoundException('Feriado no encontrado');
+    }
+
+    return holiday;
+  }
+
+  private async ensureDateAvailable(date: Date, excludeId?: string) {
+    const existing = await this.prisma.holiday.findUnique({ where: { date } });
+
+    if (existing && existing.id !== excludeId) {
+      throw new BadRequestException(
+        `Ya existe un feriado el ${this.toDateKey(date)}: ${existing.name}`,
+      );
+    }
+  }
+
+  /**
+   * Domingo de Pascua (algoritmo gregoriano anónimo)
+   */
+  private getEasterSunday(year: number): DateTime {
+    const a = year % 19;
+    const b = Math.floor(year / 100);
+    const c = year % 100;
+    const d = Math.floor(b / 4);
+    const e = b % 4;
+    const f = Math.floor((b + 8) / 25);
+    const g = Math.floor((b - f + 1) / 3);
+    const h = (19 * a + b - d - g + 15) % 30;
+    const i = Math.floor(c / 4);
+    const k = c % 4;
+    const l = (32 + 2 * e + 2 * i - h - k) % 7;
+    const m = Math.floor((a + 11 * h + 22 * l) / 451);
+    const month = Math.floor((h + l - 7 * m + 114) / 31);
+    const day = ((h + l - 7 * m + 114) % 31) + 1;
+
+    return DateTime.fromObject({ year, month, day }, { zone: 'utc' });
+  }
+
+  /**
+   * Traslado de feriados según Ley 27.399: martes y miércoles pasan al
+   * lunes anterior; jueves y viernes al lunes siguiente.
+   */
+  private moveToMonday(date: DateTime): DateTime {
+    switch (date.weekday) {
+      case 2:
+      case 3:
+        return date.minus({ days: date.weekday - 1 });
+      case 4:
+      case 5:
+        return date.plus({ days: 8 - date.weekday });
+      default:
+        return date;
+    }
+  }
+
+  /**
+   * Las fechas @db.Date se guardan a medianoche UTC
+   */
+  private toDbDate(isoDate: string): Date {
+    return DateTime.fromISO(isoDate.slice(0, 10), { zone: 'utc' }).toJSDate();
+  }
+
+  private toDateKey(date: Date): string {
+    return DateTime.fromJSDate(date, { zone: 'utc' }).toISODate()!;
+  }
+
+  private formatHoliday(holiday: {
+    id: string;
+    date: Date;
+    name: string;
+    type: string;
+    createdAt: Date;
+    updatedAt: Date;
+  }) {
+    return {
+      ...holiday,
+      date: this.toDateKey(holiday.date),
+    };
+  }
+}
@@ -0,0 +1,250 @@
+import {
+  Injectable,
+  BadRequestException,
+  ConflictException,
+} from '@nestjs/common';
+import { Prisma } from '@prisma/client';
+import { createHash } from 'crypto';
+import { PrismaService } from '../prisma/prisma.service';
+import { DateUtil } from '../common/utils';
+
+/**
+ * Datos que identifican una operación idempotente
+ */
+export interface IdempotentRequest {
+  key?: string;
+  userId: string;
+  endpoint: string;
+  payload: unknown;
+}
+
+/**
+ * Guarda la respuesta de la operación dentro de su transacción, para que la key
+ * quede resuelta solo si la operación se confirma
+ */
+export type SaveIdempotentResponse<T> = (
+  tx: Prisma.TransactionClient,
+  response: T,
+) => Promise<void>;
+
+export interface IdempotencyContext<T> {
+  saveResponse: SaveIdempotentResponse<T>;
+  /**
+   * Ejecuta una parte de la operación con su propia key derivada (por ejemplo, cada
+   * pago de un lote que se registra en transacciones separadas). Al reintentar, las
+   * partes ya confirmadas devuelven su respuesta sin volver a ejecutarse.
+   */
+  runPart<R>(
+    part: string,
+    payload: unknown,
+    operation: (saveResponse: SaveIdempotentResponse<R>) => Promise<R>,
+  ): Promise<R>;
+}
+
+@Injectable()
+export class IdempotencyService {
+  private static readonly MAX_KEY_LENGTH = 255;
+  // Una key sin respuesta después de este tiempo se considera abandonada
+  // (por ejemplo, el proceso se cayó a mitad de la solicitud) y se puede reintentar.
+  // Debe superar la duración máxima de las operaciones (ej: el lote atómico de pagos)
+  private static readonly PENDING_TIMEOUT_MINUTES = 10;
+
+  constructor(private prisma: PrismaService) {}
+
+  /**
+   * Ejecuta la operación una sola vez por Idempotency-Key.
+   * - Sin key: ejecuta normalmente.
+   * - Key nueva: ejecuta y guarda la respuesta. La operación debe guardarla con
+   *   saveResponse dentro de su transacción; si no lo hace, se guarda al terminar.
+   * - Key repetida con el mismo payload: devuelve la respuesta guardada sin volver a ejecutar.
+   * - Key repetida con otro payload, o mientras la original sigue en proceso: se rechaza.
+   *   Si la original quedó sin respuesta por más de PENDING_TIMEOUT_MINUTES, se reintenta.
+   * Si la operación falla sin haberse confirmado, la key se libera para poder reintentar;
+   * si ya se había confirmado, la key conserva la respuesta guardada.
+   */
+  async execute<T>(
+    request: IdempotentRequest,
+    operation: (context: IdempotencyContext<T>) => Promise<T>,
+  ): Promise<T> {
+    const key = request.key?.trim();
+    if (!key) {
+      return operation({
+        saveResponse: async () => {},
+        runPart: (_part, _payload, partOperation) =>
+          partOperation(async () => {}),
+      });
+    }
+
+    if (key.length > IdempotencyService.MAX_KEY_LENGTH) {
+      throw new BadRequestException(
+        `El header Idempotency-Key no puede superar los ${IdempotencyService.MAX_KEY_LENGTH} caracteres`,
+      );
+    }
+
+    return this.run({ ...request, key }, operation);
+  }
+
+  private async run<T>(
+    request: IdempotentRequest & { key: string },
+    operation: (context: IdempotencyContext<T>) => Promise<T>,
+  ): Promise<T> {
+    const { key } = request;
+    const requestHash = this.hashPayload(request.payload);
+    const where = {
+      userId_endpoint_key: {
+        userId: request.userId,
+        endpoint: request.endpoint,
+        key,
+      },
+    };
+
+    let record: { id: string };
+    try {
+      record = await this.prisma.idempotencyKey.create({
+        data: {
+          key,
+          userId: request.userId,
+          endpoint: request.endpoint,
+          requestHash,
+        },
+        select: { id: true },
+      });
+    } catch (error) {
+      if (
+        !(error instanceof Prisma.PrismaClientKnownRequestError) ||
+        error.code !== 'P2002'
+      ) {
+        throw error;
+      }
+
+      const existing = await this.prisma.idempotencyKey.findUnique({ where });
+      if (!existing) {
+        // La operación original falló y liberó la key entre ambas consultas
+        return this.run(request, operation);
+      }
+
+      if (existing.requestHash !== requestHash) {
+        throw new BadRequestException(
+          'La Idempotency-Key ya fue usada con un contenido distinto',
+        );
+      }
+
+      if (existing.response !== null) {
+        return existing.response as T;
+      }
+
+      // Tomar una key abandonada; si otra solicitud la tomó antes, sigue en proceso
+      const pendingCutoff = DateUtil.now()
+        .minus({ minutes: IdempotencyService.PENDING_TIMEOUT_MINUTES })
+        .toJSDate();
+      const claimed =
+        existing.updatedAt < pendingCutoff
+          ? await this.prisma.idempotencyKey.updateMany({
+              where: { id: existing.id, updatedAt: existing.updatedAt },
+              data: { updatedAt: DateUtil.now().toJSDate() },
+            })
+          : { count: 0 };
+
+      if (claimed.count !== 1) {
+        throw new ConflictException(
+          'Ya hay una solicitud en proceso con esta Idempotency-Key',
+        );
+      }
+
+      record = { id: existing.id };
+    }
+
+    const context: IdempotencyContext<T> = {
+      saveResponse: async (tx, response) => {
+        await tx.idempotencyKey.update({
+          where: { id: record.id },
+          data: { response: this.toJson(response) },
+        });
+      },
+      runPart: (part, payload, partOperation) =>
+        this.run(
+          {
+            key: `${key}#${part}`,
+            userId: request.userId,
+            endpoint: request.endpoint,
+            payload,
+          },
+          ({ saveResponse }) => partOperation(saveResponse),
+        ),
+    };
+
+    let result: T;
+    try {
+      result = await operation(context);
+    } catch (error) {
+      // Si la respuesta quedó guardada, la operación se confirmó: un reintento debe
+      // recibir esa respuesta y no volver a ejecutarla
+      const current = await this.prisma.idempotencyKey.findUnique({
+        where: { id: record.id },
+        select: { response: true },
+      });
+      if (current && current.response === null) {
+        await this.prisma.idempotencyKey.delete({ where: { id: record.id } });
+      }
+      throw error;
+    }
+
+    await this.prisma.idempotencyKey.update({
+      where: { id: record.id },
+      data: { response: this.toJson(result) },
+    });
+
+    return result;
+  }
+
+  /**
+   * Elimina las keys con más días de antigüedad que los indicados
+   */
+  async purgeExpired(days = 7) {
+    const cutoff = DateUtil.now().minus({ days }).toJSDate();
+
+    const result = await this.prisma.idempotencyKey.deleteMany({
+      where: { createdAt: { lt: cutoff } },
+    });
+
+    return {
+      message: `Se eliminaron ${result.count} Idempotency-Keys vencidas`,
+      deleted: result.count,
+    };
+  }
+
+  private toJson(value: unknown): Prisma.InputJsonValue {
+    return JSON.parse(JSON.stringify(value ?? null)) as Prisma.InputJsonValue;
+  }
+
+  /**
+   * Hash estable del payload: el orden de las propiedades no cambia el resultado
+   */
+  private hashPayload(payload: unknown): string {
+    return createHash('sha256')
+      .update(JSON.stringify(this.sortKeys(payload)))
+      .digest('hex');
+  }
+
+  private sortKeys(value: unknown): unknown {
+    if (Array.isArray(value)) {
+      return value.map((item) => this.sortKeys(item));
+    }
+
+    if (value && typeof value === 'object' && !(value instanceof Date)) {
+      return Object.keys(value)
+        .sort()
+        .reduce(
+          (sorted, key) => {
+            sorted[key] = this.sortKeys(
+              (value as Record<string, unknown>)[key],
+            );
+            return sorted;
+          },
+          {} as Record<string, unknown>,
+        );
+    }
+
+    return value;
+  }
+}
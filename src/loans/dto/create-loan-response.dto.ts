@@ -43,6 +43,13 @@ export class CreateLoanResponseDto {
   @ToNumber()
   originalAmount: number;
 
+  @ApiProperty({
+    example: 'FLAT',
+    enum: ['FLAT', 'FRENCH', 'GERMAN'],
+    description: 'Sistema de amortización del préstamo',
+  })
+  amortizationType: string;
+
   @ApiProperty({ example: 'Business expansion loan' })
   description?: string;
 
@@ -97,6 +104,7 @@ export class CreateLoanResponseDto {
         id: 'subloan_id_1',
         paymentNumber: 1,
         amount: 8333.33,
+        interestAmount: 0,
         totalAmount: 8333.33,
         status: 'PENDING',
         dueDate: '2024-02-02T00:00:00.000Z',
@@ -107,6 +115,7 @@ export class CreateLoanResponseDto {
         id: 'subloan_id_2',
         paymentNumber: 2,
         amount: 8333.33,
+        interestAmount: 0,
         totalAmount: 8333.33,
         status: 'PENDING',
         dueDate: '2024-02-09T00:00:00.000Z',
@@ -116,11 +125,12 @@ export class CreateLoanResponseDto {
     ],
     description: 'SubLoans generados automáticamente basados en totalPayments',
   })
-  @ToNumberArray(['amount', 'totalAmount', 'paidAmount'])
+  @ToNumberArray(['amount', 'interestAmount', 'totalAmount', 'paidAmount'])
   subLoans: Array<{
     id: string;
     paymentNumber: number;
     amount: number;
+    interestAmount: number;
     totalAmount: number;
     status: string;
     dueDate: string;
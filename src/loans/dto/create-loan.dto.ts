@@ -12,6 +12,7 @@ import {
   Currency,
   PaymentFrequency,
   PaymentDay,
+  AmortizationType,
 } from '../../common/enums';
 import { Type } from 'class-transformer';
 
@@ -25,7 +26,11 @@ export class CreateLoanDto {
   @IsPositive()
   amount: number;
 
-  @ApiProperty({ example: 0.05 })
+  @ApiProperty({
+    example: 0.05,
+    description:
+      'FLAT: tasa total del préstamo. FRENCH/GERMAN: tasa por período de cuota',
+  })
   @Type(() => Number)
   @Min(0)
   baseInterestRate: number;
@@ -54,6 +59,16 @@ export class CreateLoanDto {
   @IsInt()
   totalPayments: number;
 
+  @ApiPropertyOptional({
+    enum: AmortizationType,
+    example: AmortizationType.FLAT,
+    description:
+      'Sistema de amortización: FLAT (interés plano), FRENCH (cuota fija) o GERMAN (capital fijo). Por defecto FLAT',
+  })
+  @IsOptional()
+  @IsEnum(AmortizationType)
+  amortizationType?: AmortizationType;
+
   @ApiPropertyOptional({ example: '2024-12-31T23:59:59.000Z' })
   @IsOptional()
   @IsDateString()
@@ -5,3 +5,8 @@ export * from './sub-loan-response.dto';
 export * from './loan-list-response.dto';
 export * from './today-loans.dto';
 export * from './update-loan-description.dto';
+export * from './reject-loan.dto';
+export * from './simulate-loan.dto';
+export * from './loan-simulation-response.dto';
+export * from './refinance-loan.dto';
+export * from './update-loan-allocation-strategy.dto';
@@ -96,10 +96,24 @@ export class LoanListResponseDto {
   @ToNumber()
   originalAmount: number;
 
+  @ApiProperty({
+    example: 'FLAT',
+    enum: ['FLAT', 'FRENCH', 'GERMAN'],
+    description: 'Sistema de amortización del préstamo',
+  })
+  amortizationType: string;
+
   @ApiProperty({ type: ClientBasicInfoDto })
   client: ClientBasicInfoDto;
 
   @ApiProperty({ type: [SubLoanResponseDto] })
-  @ToNumberArray(['amount', 'totalAmount', 'paidAmount'])
+  @ToNumberArray([
+    'amount',
+    'interestAmount',
+    'totalAmount',
+    'paidAmount',
+    'penaltyAmount',
+    'penaltyPaid',
+  ])
   subLoans: SubLoanResponseDto[];
 }
@@ -0,0 +1,65 @@
+import { ApiProperty, ApiPropertyOptional } from '@nestjs/swagger';
+
+export class LoanSimulationInstallmentDto {
+  @ApiProperty({ example: 1 })
+  paymentNumber: number;
+
+  @ApiProperty({ example: '2024-02-02T15:00:00.000Z' })
+  dueDate: Date;
+
+  @ApiProperty({ example: 8333.33, description: 'Capital de la cuota' })
+  capital: number;
+
+  @ApiProperty({ example: 1250.0, description: 'Interés de la cuota' })
+  interest: number;
+
+  @ApiProperty({ example: 9583.33, description: 'Monto total de la cuota' })
+  total: number;
+
+  @ApiProperty({
+    example: 91666.67,
+    description: 'Capital pendiente luego de pagar la cuota',
+  })
+  remainingCapital: number;
+}
+
+export class LoanSimulationResponseDto {
+  @ApiProperty({ example: 100000.0, description: 'Monto prestado' })
+  originalAmount: number;
+
+  @ApiProperty({ example: 115000.0, description: 'Total a devolver' })
+  totalAmount: number;
+
+  @ApiProperty({ example: 15000.0, description: 'Total de intereses' })
+  totalInterest: number;
+
+  @ApiProperty({ example: 'ARS' })
+  currency: string;
+
+  @ApiProperty({ example: 0.15 })
+  baseInterestRate: number;
+
+  @ApiProperty({ example: 0.05 })
+  penaltyInterestRate: number;
+
+  @ApiProperty({ example: 'FLAT' })
+  amortizationType: string;
+
+  @ApiProperty({ example: 'WEEKLY' })
+  paymentFrequency: string;
+
+  @ApiPropertyOptional({ example: 'FRIDAY' })
+  paymentDay?: string;
+
+  @ApiProperty({ example: 12 })
+  totalPayments: number;
+
+  @ApiProperty({ example: '2024-02-02T15:00:00.000Z' })
+  firstDueDate: Date;
+
+  @ApiProperty({ example: '2024-04-19T15:00:00.000Z' })
+  lastDueDate: Date;
+
+  @ApiProperty({ type: [LoanSimulationInstallmentDto] })
+  installments: LoanSimulationInstallmentDto[];
+}
@@ -22,6 +22,13 @@ export class LoanTrackingResponseDto {
   @ApiProperty({ example: 12 })
   totalPayments: number;
 
+  @ApiProperty({
+    example: 'FLAT',
+    enum: ['FLAT', 'FRENCH', 'GERMAN'],
+    description: 'Sistema de amortización del préstamo',
+  })
+  amortizationType: string;
+
   @ApiProperty({ example: '2024-02-02T00:00:00.000Z' })
   firstDueDate?: string;
 
@@ -58,12 +65,15 @@ export class LoanTrackingResponseDto {
         id: 'subloan_id_1',
         paymentNumber: 1,
         amount: 8333.33,
+        interestAmount: 1250.0,
         totalAmount: 9583.33,
         status: 'PENDING',
         dueDate: '2024-02-02T00:00:00.000Z',
         paidDate: null,
         paidAmount: 0,
         daysOverdue: 0,
+        penaltyAmount: 0,
+        penaltyPaid: 0,
       },
     ],
   })
@@ -71,11 +81,58 @@ export class LoanTrackingResponseDto {
     id: string;
     paymentNumber: number;
     amount: number;
+    interestAmount: number;
     totalAmount: number;
     status: string;
     dueDate: string;
     paidDate?: string;
     paidAmount: number;
     daysOverdue: number;
+    penaltyAmount: number;
+    penaltyPaid: number;
   }>;
+
+  @ApiProperty({
+    example: null,
+    required: false,
+    description: 'Préstamo original que este préstamo refinanció',
+  })
+  refinancedFrom?: { id: string; loanTrack: string; status: string } | null;
+
+  @ApiProperty({
+    example: {
+      id: 'loan_id_2',
+      loanTrack: 'CREDITO-2025-00042',
+      status: 'ACTIVE',
+    },
+    required: false,
+    description: 'Préstamo nuevo que refinanció a este préstamo',
+  })
+  refinancedInto?: { id: string; loanTrack: string; status: string } | null;
+
+  @ApiProperty({
+    example: {
+      code: 'K7PQ-3XMA',
+      valid: true,
+      voided: false,
+      receiptNumber: 154,
+      amount: 12000,
+      currency: 'ARS',
+      paymentDate: '2025-12-20T14:30:00.000Z',
+      paymentNumber: 3,
+    },
+    required: false,
+    description:
+      'Resultado de verificar el código de recibo enviado en el parámetro receipt',
+  })
+  receiptVerification?: {
+    code: string;
+    valid: boolean;
+    voided?: boolean;
+    receiptNumber?: number | null;
+    amount?: number;
+    currency?: string;
+    paymentDate?: string;
+    paymentNumber?: number;
+  };
 }
@@ -0,0 +1,21 @@
+import { PartialType, PickType } from '@nestjs/swagger';
+import { CreateLoanDto } from './create-loan.dto';
+
+/**
+ * Condiciones del préstamo de refinanciación. El capital es el saldo pendiente
+ * del préstamo original; los campos omitidos conservan los valores del original.
+ */
+export class RefinanceLoanDto extends PartialType(
+  PickType(CreateLoanDto, [
+    'baseInterestRate',
+    'penaltyInterestRate',
+    'paymentFrequency',
+    'paymentDay',
+    'totalPayments',
+    'amortizationType',
+    'firstDueDate',
+    'loanTrack',
+    'description',
+    'notes',
+  ] as const),
+) {}
@@ -0,0 +1,13 @@
+import { IsNotEmpty, IsString, MaxLength } from 'class-validator';
+import { ApiProperty } from '@nestjs/swagger';
+
+export class RejectLoanDto {
+  @ApiProperty({
+    description: 'Motivo del rechazo de la solicitud de préstamo',
+    example: 'El cliente tiene cuotas vencidas en otro préstamo',
+  })
+  @IsString()
+  @IsNotEmpty()
+  @MaxLength(500)
+  reason: string;
+}
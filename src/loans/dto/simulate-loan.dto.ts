@@ -0,0 +1,10 @@
+import { OmitType } from '@nestjs/swagger';
+import { CreateLoanDto } from './create-loan.dto';
+
+/**
+ * Mismos datos que la creación de un préstamo, sin cliente ni código de tracking
+ */
+export class SimulateLoanDto extends OmitType(CreateLoanDto, [
+  'clientId',
+  'loanTrack',
+] as const) {}
@@ -11,11 +11,15 @@ export class SubLoanResponseDto {
   @ApiProperty({ example: 1 })
   paymentNumber: number;
 
-  @ApiProperty({ example: 8333.33 })
+  @ApiProperty({ example: 8333.33, description: 'Capital de la cuota' })
   @ToNumber()
   amount: number;
 
-  @ApiProperty({ example: 8333.33 })
+  @ApiProperty({ example: 1250.0, description: 'Interés de la cuota' })
+  @ToNumber()
+  interestAmount: number;
+
+  @ApiProperty({ example: 9583.33 })
   @ToNumber()
   totalAmount: number;
 
@@ -35,6 +39,20 @@ export class SubLoanResponseDto {
   @ApiProperty({ example: 0 })
   daysOverdue: number;
 
+  @ApiProperty({
+    example: 0,
+    description: 'Punitorios devengados acumulados',
+  })
+  @ToNumber()
+  penaltyAmount: number;
+
+  @ApiProperty({
+    example: 0,
+    description: 'Punitorios ya cobrados',
+  })
+  @ToNumber()
+  penaltyPaid: number;
+
   @ApiProperty({ example: '2024-01-15T00:00:00.000Z' })
   createdAt: string;
 
@@ -0,0 +1,26 @@
+import { IsBoolean, IsEnum, IsOptional } from 'class-validator';
+import { ApiPropertyOptional } from '@nestjs/swagger';
+import { PaymentAllocationStrategy } from '../../common/enums';
+
+export class UpdateLoanAllocationStrategyDto {
+  @ApiPropertyOptional({
+    enum: PaymentAllocationStrategy,
+    nullable: true,
+    example: PaymentAllocationStrategy.OLDEST_FIRST,
+    description:
+      'Estrategia de imputación de pagos del préstamo. null vuelve a usar la del SUBADMIN.',
+  })
+  @IsOptional()
+  @IsEnum(PaymentAllocationStrategy)
+  allocationStrategy?: PaymentAllocationStrategy | null;
+
+  @ApiPropertyOptional({
+    nullable: true,
+    example: true,
+    description:
+      'Si es true, el excedente sobre las cuotas vencidas queda como saldo a favor del cliente en vez de adelantar cuotas. null vuelve a usar la configuración del SUBADMIN.',
+  })
+  @IsOptional()
+  @IsBoolean()
+  keepExcessAsCredit?: boolean | null;
+}
@@ -28,6 +28,11 @@ import {
   TodayLoansDto,
   TodayLoanItemDto,
   UpdateLoanDescriptionDto,
+  RejectLoanDto,
+  SimulateLoanDto,
+  LoanSimulationResponseDto,
+  RefinanceLoanDto,
+  UpdateLoanAllocationStrategyDto,
 } from './dto';
 import { LoanFiltersDto, LoanChartDataDto } from '../common/dto';
 import { JwtAuthGuard } from '../common/guards/jwt-auth.guard';
@@ -46,7 +51,11 @@ export class LoansController {
   @UseGuards(JwtAuthGuard, RolesGuard)
   @Roles(UserRole.MANAGER)
   @ApiBearerAuth()
-  @ApiOperation({ summary: 'Create a new loan' })
+  @ApiOperation({
+    summary: 'Create a new loan',
+    description:
+      'Si el SUBADMIN del manager tiene habilitada la aprobación de préstamos, el préstamo queda PENDING sin cuotas ni desembolso hasta ser aprobado',
+  })
   @ApiResponse({
     status: 201,
     description: 'Préstamo creado exitosamente',
@@ -84,6 +93,9 @@ export class LoansController {
         result.subLoans?.map((subLoan) => ({
           ...subLoan,
           amount: subLoan.amount ? Number(subLoan.amount) : subLoan.amount,
+          interestAmount: subLoan.interestAmount
+            ? Number(subLoan.interestAmount)
+            : subLoan.interestAmount,
           totalAmount: subLoan.totalAmount
             ? Number(subLoan.totalAmount)
             : subLoan.totalAmount,
@@ -96,6 +108,33 @@ export class LoansController {
     return transformedResult;
   }
 
+  @Post('simulate')
+  @UseGuards(JwtAuthGuard, RolesGuard)
+  @Roles(
+    UserRole.MANAGER,
+    UserRole.SUBADMIN,
+    UserRole.ADMIN,
+    UserRole.SUPERADMIN,
+  )
+  @ApiBearerAuth()
+  @ApiOperation({
+    summary: 'Simular un préstamo',
+    description:
+      'Devuelve el cronograma de cuotas (fechas de vencimiento, capital, interés y total) sin crear el préstamo, sin reservar número de secuencia ni registrar desembolso',
+  })
+  @ApiResponse({
+    status: 201,
+    description: 'Simulación calculada exitosamente',
+    type: LoanSimulationResponseDto,
+  })
+  @ApiResponse({ status: 400, description: 'Solicitud incorrecta' })
+  @ApiResponse({ status: 401, description: 'No autorizado' })
+  async simulateLoan(
+    @Body() simulateLoanDto: SimulateLoanDto,
+  ): Promise<LoanSimulationResponseDto> {
+    return this.loansService.simulateLoan(simulateLoanDto);
+  }
+
   @Get('tracking')
   @Public()
   @ApiOperation({
@@ -112,6 +151,12 @@ export class LoansController {
     description: 'Código de tracking del préstamo',
     example: 'LOAN-2024-001',
   })
+  @ApiQuery({
+    name: 'receipt',
+    required: false,
+    description: 'Código de verificación de un recibo de pago a validar',
+    example: 'K7PQ-3XMA',
+  })
   @ApiResponse({
     status: 200,
     description: 'Información del préstamo obtenida exitosamente',
@@ -128,6 +173,7 @@ export class LoansController {
   async getLoanByTracking(
     @Query('dni') dni: string,
     @Query('tracking') tracking: string,
+    @Query('receipt') receipt?: string,
   ) {
     if (!dni || !tracking) {
       throw new BadRequestException(
@@ -135,7 +181,7 @@ export class LoansController {
       );
     }
 
-    return this.loansService.getLoanByTracking(dni, tracking);
+    return this.loansService.getLoanByTracking(dni, tracking, receipt);
   }
 
   @Get()
@@ -453,6 +499,118 @@ export class LoansController {
     return this.loansService.getTodayLoans(req.user.id, req.user.role);
   }
 
+  @Get('pending-approval')
+  @UseGuards(JwtAuthGuard, RolesGuard)
+  @Roles(
+    UserRole.MANAGER,
+    UserRole.SUBADMIN,
+    UserRole.ADMIN,
+    UserRole.SUPERADMIN,
+  )
+  @ApiBearerAuth()
+  @ApiOperation({
+    summary: 'Obtener solicitudes de préstamo pendientes de aprobación',
+    description:
+      'MANAGER ve sus propias solicitudes, SUBADMIN las de sus managers y ADMIN/SUPERADMIN todas',
+  })
+  @ApiResponse({
+    status: 200,
+    description: 'Solicitudes pendientes obtenidas exitosamente',
+  })
+  @ApiResponse({ status: 401, description: 'No autorizado' })
+  async getPendingApprovalLoans(@Request() req) {
+    return this.loansService.getPendingApprovalLoans(
+      req.user.id,
+      req.user.role,
+    );
+  }
+
+  @Post(':id/approve')
+  @UseGuards(JwtAuthGuard, RolesGuard)
+  @Roles(UserRole.SUBADMIN, UserRole.ADMIN, UserRole.SUPERADMIN)
+  @ApiBearerAuth()
+  @ApiOperation({
+    summary: 'Aprobar una solicitud de préstamo',
+    description:
+      'Aprueba un préstamo PENDING: genera las cuotas y registra el desembolso en la wallet de cobros del manager',
+  })
+  @ApiResponse({ status: 200, description: 'Préstamo aprobado exitosamente' })
+  @ApiResponse({
+    status: 400,
+    description: 'El préstamo no está pendiente de aprobación',
+  })
+  @ApiResponse({ status: 403, description: 'No tienes acceso a este préstamo' })
+  @ApiResponse({ status: 404, description: 'Préstamo no encontrado' })
+  async approveLoan(@Param('id') id: string, @Request() req) {
+    return this.loansService.approveLoan(id, req.user.id, req.user.role);
+  }
+
+  @Post(':id/reject')
+  @UseGuards(JwtAuthGuard, RolesGuard)
+  @Roles(UserRole.SUBADMIN, UserRole.ADMIN, UserRole.SUPERADMIN)
+  @ApiBearerAuth()
+  @ApiOperation({
+    summary: 'Rechazar una solicitud de préstamo',
+    description:
+      'Rechaza un préstamo PENDING indicando el motivo. No se generan cuotas ni movimientos de wallet',
+  })
+  @ApiResponse({ status: 200, description: 'Préstamo rechazado exitosamente' })
+  @ApiResponse({
+    status: 400,
+    description: 'El préstamo no está pendiente de aprobación',
+  })
+  @ApiResponse({ status: 403, description: 'No tienes acceso a este préstamo' })
+  @ApiResponse({ status: 404, description: 'Préstamo no encontrado' })
+  async rejectLoan(
+    @Param('id') id: string,
+    @Body() rejectLoanDto: RejectLoanDto,
+    @Request() req,
+  ) {
+    return this.loansService.rejectLoan(
+      id,
+      req.user.id,
+      req.user.role,
+      rejectLoanDto.reason,
+    );
+  }
+
+  @Post(':id/refinance')
+  @UseGuards(JwtAuthGuard, RolesGuard)
+  @Roles(
+    UserRole.MANAGER,
+    UserRole.SUBADMIN,
+    UserRole.ADMIN,
+    UserRole.SUPERADMIN,
+  )
+  @ApiBearerAuth()
+  @ApiOperation({
+    summary: 'Refinanciar un préstamo',
+    description:
+      'Cierra las cuotas impagas y parciales como REFINANCED y crea un préstamo nuevo por el saldo pendiente (cuotas más punitorios), vinculado al original. Tasa, frecuencia y cantidad de cuotas son opcionales; por defecto se conservan las del préstamo original. No registra desembolso',
+  })
+  @ApiResponse({
+    status: 201,
+    description: 'Préstamo refinanciado exitosamente',
+  })
+  @ApiResponse({
+    status: 400,
+    description: 'El préstamo no está activo o no tiene saldo pendiente',
+  })
+  @ApiResponse({ status: 403, description: 'No tienes acceso a este préstamo' })
+  @ApiResponse({ status: 404, description: 'Préstamo no encontrado' })
+  async refinanceLoan(
+    @Param('id') id: string,
+    @Body() refinanceLoanDto: RefinanceLoanDto,
+    @Request() req,
+  ) {
+    return this.loansService.refinanceLoan(
+      id,
+      refinanceLoanDto,
+      req.user.id,
+      req.user.role,
+    );
+  }
+
   @Patch(':id/description')
   @UseGuards(JwtAuthGuard, RolesGuard)
   @Roles(UserRole.MANAGER)
@@ -469,6 +627,41 @@ export class LoansController {
     return this.loansService.updateDescription(id, req.user.id, dto.description || '');
   }
 
+  @Patch(':id/allocation-strategy')
+  @UseGuards(JwtAuthGuard, RolesGuard)
+  @Roles(UserRole.SUBADMIN, UserRole.ADMIN, UserRole.SUPERADMIN)
+  @ApiBearerAuth()
+  @ApiOperation({
+    summary: 'Configurar la estrategia de imputación de pagos de un préstamo',
+    description:
+      'TARGET_FIRST: cuota elegida, anteriores impagas y adelanto de las siguientes. ' +
+      'OLDEST_FIRST: cuota impaga más antigua primero. ' +
+      'PENALTIES_INTEREST_PRINCIPAL: punitorios, interés y capital de las cuotas vencidas. ' +
+      'keepExcessAsCredit: el excedente sobre las cuotas vencidas queda como saldo a favor en vez de adelantar cuotas. ' +
+      'Enviar null en una opción para volver a usar la del SUBADMIN; las opciones omitidas no cambian.',
+  })
+  @ApiResponse({
+    status: 200,
+    description: 'Estrategia actualizada exitosamente',
+  })
+  @ApiResponse({ status: 403, description: 'No tienes acceso a este préstamo' })
+  @ApiResponse({ status: 404, description: 'Préstamo no encontrado' })
+  async updateAllocationStrategy(
+    @Param('id') id: string,
+    @Body() dto: UpdateLoanAllocationStrategyDto,
+    @Request() req,
+  ) {
+    return this.loansService.updateAllocationStrategy(
+      id,
+      req.user.id,
+      req.user.role,
+      {
+        allocationStrategy: dto.allocationStrategy,
+        keepExcessAsCredit: dto.keepExcessAsCredit,
+      },
+    );
+  }
+
   @Get(':id')
   @UseGuards(JwtAuthGuard, RolesGuard)
   @Roles(
@@ -5,9 +5,19 @@ import { SubLoanGeneratorService } from './sub-loan-generator.service';
 import { PrismaModule } from '../prisma/prisma.module';
 import { WalletModule } from '../wallet/wallet.module';
 import { CollectorWalletModule } from '../collector-wallet/collector-wallet.module';
+import { AuditModule } from '../audit/audit.module';
+import { SystemConfigModule } from '../system-config/system-config.module';
+import { HolidaysModule } from '../holidays/holidays.module';
 
 @Module({
-  imports: [PrismaModule, WalletModule, CollectorWalletModule],
+  imports: [
+    PrismaModule,
+    WalletModule,
+    CollectorWalletModule,
+    AuditModule,
+    SystemConfigModule,
+    HolidaysModule,
+  ],
   controllers: [LoansController],
   providers: [LoansService, SubLoanGeneratorService],
   exports: [LoansService],
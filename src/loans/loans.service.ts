@@ -6,13 +6,42 @@ import {
 } from '@nestjs/common';
 import { PrismaService } from '../prisma/prisma.service';
 import { CreateLoanDto } from './dto/create-loan.dto';
+import { SimulateLoanDto } from './dto/simulate-loan.dto';
+import { RefinanceLoanDto } from './dto/refinance-loan.dto';
+import { LoanSimulationResponseDto } from './dto/loan-simulation-response.dto';
 import { LoanFiltersDto, LoanChartDataDto } from '../common/dto';
 import { DateUtil, TrackingCodeUtil } from '../common/utils';
 import { SubLoanGeneratorService } from './sub-loan-generator.service';
-import { Prisma, UserRole } from '@prisma/client';
+import {
+  PaymentAllocationStrategy,
+  PaymentStatus,
+  Prisma,
+  UserRole,
+} from '@prisma/client';
 import { LoanStatus, WalletTransactionType } from 'src/common/enums';
-import { CollectorWalletTransactionType } from '../common/enums';
+import {
+  CollectorWalletTransactionType,
+  Currency,
+  PaymentFrequency,
+  PaymentDay,
+  SubLoanStatus,
+  AmortizationType,
+} from '../common/enums';
+import { ConfigKey } from '../common/enums/config-key.enum';
 import { CollectorWalletService } from '../collector-wallet/collector-wallet.service';
+import { AuditService, AuditAction } from '../common/services/audit.service';
+import { SystemConfigService } from '../system-config/system-config.service';
+
+/**
+ * Cambio automático de estado de un préstamo, para registrar en auditoría
+ */
+export interface LoanStatusTransition {
+  loanId: string;
+  loanTrack: string;
+  from: LoanStatus;
+  to: LoanStatus;
+  reason: string;
+}
 
 @Injectable()
 export class LoansService {
@@ -20,6 +49,8 @@ export class LoansService {
     private prisma: PrismaService,
     private subLoanGenerator: SubLoanGeneratorService,
     private collectorWalletService: CollectorWalletService,
+    private auditService: AuditService,
+    private systemConfigService: SystemConfigService,
   ) {}
 
   async createLoan(createLoanDto: CreateLoanDto, userId: string) {
@@ -66,54 +97,19 @@ export class LoansService {
       );
     }
 
-    // 5. Generar o usar el código de tracking
-    let loanTrack: string;
-    let prefix: string;
-    let year: number;
-    let sequence: number;
-
-    if (!createLoanDto.loanTrack) {
-      // Generar código automáticamente usando secuencia atómica
-      const trackingData =
-        await TrackingCodeUtil.generateSequentialTrackingCode(
-          this.prisma,
-          'CREDITO',
-        );
-      loanTrack = trackingData.trackingCode;
-      prefix = trackingData.prefix;
-      year = trackingData.year;
-      sequence = trackingData.sequence;
-    } else {
-      // Usar código personalizado
-      loanTrack = createLoanDto.loanTrack;
-
-      // Verificar que el código personalizado sea único
-      const existingLoan = await this.prisma.loan.findUnique({
-        where: { loanTrack: loanTrack },
-      });
-
-      if (existingLoan) {
-        throw new BadRequestException(
-          'El código de tracking ya existe en el sistema',
-        );
-      }
+    // 4b. Si el SUBADMIN del manager exige aprobación, el préstamo queda PENDING
+    const requiresApproval = await this.requiresLoanApproval(userId);
 
-      // Para códigos personalizados, extraer información si es posible
-      const parts = loanTrack.split('-');
-      if (parts.length >= 3) {
-        prefix = parts[0];
-        year = parseInt(parts[1]) || DateUtil.now().year;
-        sequence = parseInt(parts[2]) || 0;
-      } else {
-        prefix = 'CUSTOM';
-        year = DateUtil.now().year;
-        sequence = 0;
-      }
-    }
+    // 5. Generar o usar el código de tracking
+    const { loanTrack, prefix, year, sequence } = await this.resolveLoanTrack(
+      createLoanDto.loanTrack,
+    );
 
     // 6. Calcular el monto total con intereses
     const originalAmount = Number(createLoanDto.amount);
-    const totalAmount = originalAmount * (1 + Number(createLoanDto.baseInterestRate));
+    const amortizationType =
+      createLoanDto.amortizationType ?? AmortizationType.FLAT;
+    const totalAmount = this.calculateTotalAmount(createLoanDto);
 
     // 7. Usar transacción para crear el loan, subloans y debitar de cartera
     const result = await this.prisma.$transaction(async (prisma) => {
@@ -127,7 +123,7 @@ export class LoansService {
           currency: createLoanDto.currency || 'ARS',
           paymentFrequency: createLoanDto.paymentFrequency,
           paymentDay: createLoanDto.paymentDay,
-          status: LoanStatus.ACTIVE,
+          status: requiresApproval ? LoanStatus.PENDING : LoanStatus.ACTIVE,
           totalPayments: createLoanDto.totalPayments,
           firstDueDate: createLoanDto.firstDueDate
             ? DateUtil.parseToDate(createLoanDto.firstDueDate)
@@ -140,33 +136,343 @@ export class LoansService {
           notes: createLoanDto.notes,
           baseInterestRate: createLoanDto.baseInterestRate,
           penaltyInterestRate: createLoanDto.penaltyInterestRate,
+          amortizationType,
         },
         include: {
           client: true,
         },
       });
 
-      // Generar SubLoans automáticamente
+      // Las solicitudes pendientes de aprobación no generan cuotas ni desembolso
+      if (!requiresApproval) {
+        // Generar SubLoans automáticamente
+        await this.subLoanGenerator.generateSubLoans(
+          loan.id,
+          createLoanDto,
+          createLoanDto.firstDueDate
+            ? DateUtil.parseToDate(createLoanDto.firstDueDate)
+            : undefined,
+          prisma,
+        );
+
+        // Debitar de la collector wallet del manager (permite saldo negativo)
+        await this.collectorWalletService.recordLoanDisbursement({
+          userId,
+          amount: Number(createLoanDto.amount),
+          description: `Préstamo ${loanTrack} - ${createLoanDto.description || 'Desembolso'}`,
+          loanId: loan.id,
+          transaction: prisma,
+        });
+      }
+
+      // Obtener el loan con los subloans generados
+      const loanWithSubLoans = await prisma.loan.findUnique({
+        where: { id: loan.id },
+        include: {
+          client: true,
+          subLoans: {
+            orderBy: { paymentNumber: 'asc' },
+          },
+        },
+      });
+
+      return loanWithSubLoans;
+    });
+
+    return result;
+  }
+
+  /**
+   * Genera el código de tracking con la secuencia atómica o valida el código personalizado
+   */
+  private async resolveLoanTrack(customLoanTrack?: string): Promise<{
+    loanTrack: string;
+    prefix: string;
+    year: number;
+    sequence: number;
+  }> {
+    if (!customLoanTrack) {
+      // Generar código automáticamente usando secuencia atómica
+      const trackingData =
+        await TrackingCodeUtil.generateSequentialTrackingCode(
+          this.prisma,
+          'CREDITO',
+        );
+      return {
+        loanTrack: trackingData.trackingCode,
+        prefix: trackingData.prefix,
+        year: trackingData.year,
+        sequence: trackingData.sequence,
+      };
+    }
+
+    // Verificar que el código personalizado sea único
+    const existingLoan = await this.prisma.loan.findUnique({
+      where: { loanTrack: customLoanTrack },
+    });
+
+    if (existingLoan) {
+      throw new BadRequestException(
+        'El código de tracking ya existe en el sistema',
+      );
+    }
+
+    // Para códigos personalizados, extraer información si es posible
+    const parts = customLoanTrack.split('-');
+    if (parts.length >= 3) {
+      return {
+        loanTrack: customLoanTrack,
+        prefix: parts[0],
+        year: parseInt(parts[1]) || DateUtil.now().year,
+        sequence: parseInt(parts[2]) || 0,
+      };
+    }
+
+    return {
+      loanTrack: customLoanTrack,
+      prefix: 'CUSTOM',
+      year: DateUtil.now().year,
+      sequence: 0,
+    };
+  }
+
+  /**
+   * Monto total a devolver (capital + intereses) según el sistema de amortización
+   */
+  private calculateTotalAmount(
+    loanData: Pick<
+      CreateLoanDto,
+      'amount' | 'baseInterestRate' | 'totalPayments' | 'amortizationType'
+    >,
+  ): number {
+    const originalAmount = Number(loanData.amount);
+    const amortizationType = loanData.amortizationType ?? AmortizationType.FLAT;
+
+    if (amortizationType === AmortizationType.FLAT) {
+      return originalAmount * (1 + Number(loanData.baseInterestRate));
+    }
+
+    return this.subLoanGenerator
+      .calculateInstallments(
+        originalAmount,
+        Number(loanData.baseInterestRate),
+        loanData.totalPayments,
+        amortizationType,
+      )
+      .reduce((sum, installment) => sum + installment.total, 0);
+  }
+
+  /**
+   * Simula un préstamo y devuelve el cronograma de cuotas sin persistir nada:
+   * no crea el préstamo, no reserva número de secuencia ni registra desembolso
+   */
+  async simulateLoan(
+    simulateLoanDto: SimulateLoanDto,
+  ): Promise<LoanSimulationResponseDto> {
+    const schedule = await this.subLoanGenerator.buildSchedule(
+      simulateLoanDto,
+      simulateLoanDto.firstDueDate
+        ? DateUtil.parseToDate(simulateLoanDto.firstDueDate)
+        : undefined,
+    );
+
+    const originalAmount = Number(simulateLoanDto.amount);
+    const totalAmount = Number(
+      this.calculateTotalAmount(simulateLoanDto).toFixed(2),
+    );
+
+    let remainingCapital = originalAmount;
+    const installments = schedule.map((installment) => {
+      remainingCapital = Number(
+        Math.max(0, remainingCapital - installment.capital).toFixed(2),
+      );
+      return { ...installment, remainingCapital };
+    });
+
+    return {
+      originalAmount,
+      totalAmount,
+      totalInterest: Number((totalAmount - originalAmount).toFixed(2)),
+      currency: simulateLoanDto.currency || 'ARS',
+      baseInterestRate: Number(simulateLoanDto.baseInterestRate),
+      penaltyInterestRate: Number(simulateLoanDto.penaltyInterestRate),
+      amortizationType:
+        simulateLoanDto.amortizationType ?? AmortizationType.FLAT,
+      paymentFrequency: simulateLoanDto.paymentFrequency,
+      paymentDay: simulateLoanDto.paymentDay,
+      totalPayments: simulateLoanDto.totalPayments,
+      firstDueDate: schedule[0]?.dueDate,
+      lastDueDate: schedule[schedule.length - 1]?.dueDate,
+      installments,
+    };
+  }
+
+  /**
+   * Indica si los préstamos del manager deben quedar PENDING hasta que su SUBADMIN los apruebe
+   */
+  private async requiresLoanApproval(managerId: string): Promise<boolean> {
+    const manager = await this.prisma.user.findUnique({
+      where: { id: managerId },
+      select: {
+        createdBy: {
+          select: {
+            role: true,
+            requiresLoanApproval: true,
+            deletedAt: true,
+          },
+        },
+      },
+    });
+
+    const subadmin = manager?.createdBy;
+    return (
+      !!subadmin &&
+      subadmin.role === UserRole.SUBADMIN &&
+      subadmin.requiresLoanApproval &&
+      !subadmin.deletedAt
+    );
+  }
+
+  /**
+   * Obtener un préstamo PENDING validando que el usuario pueda aprobarlo o rechazarlo.
+   * SUBADMIN solo puede revisar préstamos de los managers que creó.
+   */
+  private async getLoanForReview(
+    loanId: string,
+    userId: string,
+    userRole: UserRole,
+  ) {
+    const loan = await this.prisma.loan.findFirst({
+      where: { id: loanId, deletedAt: null },
+    });
+
+    if (!loan) {
+      throw new NotFoundException('Préstamo no encontrado');
+    }
+
+    if (userRole === UserRole.SUBADMIN) {
+      const managedUserIds = await this.getManagedUserIds(userId);
+      if (!loan.managerId || !managedUserIds.includes(loan.managerId)) {
+        throw new ForbiddenException('No tienes acceso a este préstamo');
+      }
+    } else if (
+      userRole !== UserRole.ADMIN &&
+      userRole !== UserRole.SUPERADMIN
+    ) {
+      throw new ForbiddenException(
+        'No tienes permisos para revisar solicitudes de préstamo',
+      );
+    }
+
+    if (loan.status !== LoanStatus.PENDING) {
+      throw new BadRequestException(
+        `Solo se pueden revisar préstamos pendientes de aprobación. Estado actual: ${loan.status}`,
+      );
+    }
+
+    return loan;
+  }
+
+  /**
+   * Listar las solicitudes de préstamo pendientes de aprobación visibles para el usuario
+   */
+  async getPendingApprovalLoans(userId: string, userRole: UserRole) {
+    const where: Prisma.LoanWhereInput = {
+      status: LoanStatus.PENDING,
+      deletedAt: null,
+    };
+
+    if (userRole === UserRole.MANAGER) {
+      where.managerId = userId;
+    } else if (userRole === UserRole.SUBADMIN) {
+      const managedUserIds = await this.getManagedUserIds(userId);
+      where.managerId = { in: managedUserIds };
+    }
+
+    const loans = await this.prisma.loan.findMany({
+      where,
+      include: {
+        client: {
+          select: {
+            id: true,
+            fullName: true,
+            dni: true,
+            phone: true,
+          },
+        },
+      },
+      orderBy: { requestDate: 'asc' },
+    });
+
+    return loans.map((loan) => ({
+      ...loan,
+      amount: Number(loan.amount),
+      originalAmount: Number(loan.originalAmount),
+      baseInterestRate: Number(loan.baseInterestRate),
+      penaltyInterestRate: Number(loan.penaltyInterestRate),
+    }));
+  }
+
+  /**
+   * Aprobar una solicitud de préstamo PENDING.
+   * Recién en este momento se generan las cuotas y se registra el desembolso en la collector wallet.
+   */
+  async approveLoan(loanId: string, userId: string, userRole: UserRole) {
+    const loan = await this.getLoanForReview(loanId, userId, userRole);
+
+    const managerId = loan.managerId;
+    if (!managerId) {
+      throw new BadRequestException('El préstamo no tiene manager asignado');
+    }
+
+    // Si la primera fecha de vencimiento solicitada ya pasó, se recalcula desde hoy
+    const firstDueDate =
+      loan.firstDueDate &&
+      DateUtil.fromPrismaDate(loan.firstDueDate) >=
+        DateUtil.startOfDay(DateUtil.now())
+        ? loan.firstDueDate
+        : undefined;
+
+    const loanData: CreateLoanDto = {
+      clientId: loan.clientId,
+      amount: Number(loan.originalAmount),
+      baseInterestRate: Number(loan.baseInterestRate),
+      penaltyInterestRate: Number(loan.penaltyInterestRate),
+      currency: loan.currency as Currency,
+      paymentFrequency: loan.paymentFrequency as PaymentFrequency,
+      paymentDay: (loan.paymentDay as PaymentDay) ?? undefined,
+      totalPayments: loan.totalPayments,
+      amortizationType: loan.amortizationType as AmortizationType,
+      description: loan.description ?? undefined,
+      notes: loan.notes ?? undefined,
+    };
+
+    const result = await this.prisma.$transaction(async (prisma) => {
+      await prisma.loan.update({
+        where: { id: loan.id },
+        data: {
+          status: LoanStatus.APPROVED,
+          approvedDate: DateUtil.now().toJSDate(),
+          reviewedById: userId,
+        },
+      });
+
       await this.subLoanGenerator.generateSubLoans(
         loan.id,
-        createLoanDto,
-        createLoanDto.firstDueDate
-          ? DateUtil.parseToDate(createLoanDto.firstDueDate)
-          : undefined,
+        loanData,
+        firstDueDate,
         prisma,
       );
 
-      // Debitar de la collector wallet del manager (permite saldo negativo)
       await this.collectorWalletService.recordLoanDisbursement({
-        userId,
-        amount: Number(createLoanDto.amount),
-        description: `Préstamo ${loanTrack} - ${createLoanDto.description || 'Desembolso'}`,
+        userId: managerId,
+        amount: Number(loan.originalAmount),
+        description: `Préstamo ${loan.loanTrack} - ${loan.description || 'Desembolso'}`,
         loanId: loan.id,
         transaction: prisma,
       });
 
-      // Obtener el loan con los subloans generados
-      const loanWithSubLoans = await prisma.loan.findUnique({
+      return prisma.loan.findUnique({
         where: { id: loan.id },
         include: {
           client: true,
@@ -175,14 +481,503 @@ export class LoansService {
           },
         },
       });
+    });
 
-      return loanWithSubLoans;
+    await this.auditService.log({
+      userId,
+      userRole,
+      action: AuditAction.APPROVAL,
+      entity: 'Loan',
+      entityId: loan.id,
+      changes: {
+        before: { status: loan.status },
+        after: { status: LoanStatus.APPROVED },
+      },
+      description: `Préstamo ${loan.loanTrack} aprobado`,
     });
 
-    return result;
+    return {
+      message: 'Préstamo aprobado exitosamente',
+      loan: {
+        ...result,
+        amount: Number(result!.amount),
+        originalAmount: Number(result!.originalAmount),
+        baseInterestRate: Number(result!.baseInterestRate),
+        penaltyInterestRate: Number(result!.penaltyInterestRate),
+        subLoans: result!.subLoans.map((subLoan) => ({
+          ...subLoan,
+          amount: Number(subLoan.amount),
+          interestAmount: Number(subLoan.interestAmount),
+          totalAmount: Number(subLoan.totalAmount),
+          paidAmount: Number(subLoan.paidAmount),
+        })),
+      },
+    };
+  }
+
+  /**
+   * Rechazar una solicitud de préstamo PENDING indicando el motivo.
+   * No se generan cuotas ni movimientos de wallet.
+   */
+  async rejectLoan(
+    loanId: string,
+    userId: string,
+    userRole: UserRole,
+    reason: string,
+  ) {
+    const loan = await this.getLoanForReview(loanId, userId, userRole);
+
+    const updatedLoan = await this.prisma.loan.update({
+      where: { id: loan.id },
+      data: {
+        status: LoanStatus.REJECTED,
+        rejectedDate: DateUtil.now().toJSDate(),
+        rejectionReason: reason,
+        reviewedById: userId,
+      },
+    });
+
+    await this.auditService.log({
+      userId,
+      userRole,
+      action: AuditAction.REJECTION,
+      entity: 'Loan',
+      entityId: loan.id,
+      changes: {
+        before: { status: loan.status },
+        after: { status: LoanStatus.REJECTED, rejectionReason: reason },
+      },
+      description: `Préstamo ${loan.loanTrack} rechazado: ${reason}`,
+    });
+
+    return {
+      message: 'Préstamo rechazado',
+      loan: {
+        id: updatedLoan.id,
+        loanTrack: updatedLoan.loanTrack,
+        status: updatedLoan.status,
+        rejectedDate: updatedLoan.rejectedDate,
+        rejectionReason: updatedLoan.rejectionReason,
+      },
+    };
+  }
+
+  /**
+   * Refinancia un préstamo: las cuotas impagas o parciales quedan REFINANCED y
+   * se crea un préstamo nuevo cuyo capital es el saldo pendiente (cuotas más
+   * punitorios impagos). No hay desembolso: el dinero ya está en la calle.
+   */
+  async refinanceLoan(
+    loanId: string,
+    refinanceLoanDto: RefinanceLoanDto,
+    userId: string,
+    userRole: UserRole,
+  ) {
+    const unpaidStatuses = [
+      SubLoanStatus.PENDING,
+      SubLoanStatus.PARTIAL,
+      SubLoanStatus.OVERDUE,
+    ];
+
+    const loan = await this.prisma.loan.findFirst({
+      where: { id: loanId, deletedAt: null },
+      include: {
+        subLoans: {
+          where: {
+            deletedAt: null,
+            status: { in: unpaidStatuses },
+          },
+          orderBy: { paymentNumber: 'asc' },
+        },
+      },
+    });
+
+    if (!loan) {
+      throw new NotFoundException('Préstamo no encontrado');
+    }
+
+    if (userRole === UserRole.MANAGER) {
+      if (loan.managerId !== userId) {
+        throw new ForbiddenException('No tienes acceso a este préstamo');
+      }
+    } else if (userRole === UserRole.SUBADMIN) {
+      const managedUserIds = await this.getManagedUserIds(userId);
+      if (!loan.managerId || !managedUserIds.includes(loan.managerId)) {
+        throw new ForbiddenException('No tienes acceso a este préstamo');
+      }
+    }
+
+    if (
+      ![LoanStatus.ACTIVE, LoanStatus.APPROVED, LoanStatus.DEFAULTED].includes(
+        loan.status as LoanStatus,
+      )
+    ) {
+      throw new BadRequestException(
+        `Solo se pueden refinanciar préstamos activos o incobrables. Estado actual: ${loan.status}`,
+      );
+    }
+
+    const pendingInstallments = loan.subLoans.reduce(
+      (sum, subLoan) =>
+        sum +
+        Math.max(0, Number(subLoan.totalAmount) - Number(subLoan.paidAmount)),
+      0,
+    );
+    const pendingPenalty = loan.subLoans.reduce(
+      (sum, subLoan) =>
+        sum +
+        Math.max(
+          0,
+          Number(subLoan.penaltyAmount) - Number(subLoan.penaltyPaid),
+        ),
+      0,
+    );
+    const outstandingBalance = Number(
+      (pendingInstallments + pendingPenalty).toFixed(2),
+    );
+
+    if (loan.subLoans.length === 0 || outstandingBalance <= 0) {
+      throw new BadRequestException(
+        'El préstamo no tiene saldo pendiente para refinanciar',
+      );
+    }
+
+    const loanData: CreateLoanDto = {
+      clientId: loan.clientId,
+      amount: outstandingBalance,
+      baseInterestRate:
+        refinanceLoanDto.baseInterestRate ?? Number(loan.baseInterestRate),
+      penaltyInterestRate:
+        refinanceLoanDto.penaltyInterestRate ??
+        Number(loan.penaltyInterestRate),
+      currency: loan.currency as Currency,
+      paymentFrequency:
+        refinanceLoanDto.paymentFrequency ??
+        (loan.paymentFrequency as PaymentFrequency),
+      paymentDay:
+        refinanceLoanDto.paymentDay ??
+        (loan.paymentDay as PaymentDay) ??
+        undefined,
+      totalPayments: refinanceLoanDto.totalPayments ?? loan.totalPayments,
+      amortizationType:
+        refinanceLoanDto.amortizationType ??
+        (loan.amortizationType as AmortizationType),
+      firstDueDate: refinanceLoanDto.firstDueDate,
+      description:
+        refinanceLoanDto.description ?? `Refinanciación de ${loan.loanTrack}`,
+      notes: refinanceLoanDto.notes,
+    };
+
+    const { loanTrack, prefix, year, sequence } = await this.resolveLoanTrack(
+      refinanceLoanDto.loanTrack,
+    );
+    const totalAmount = this.calculateTotalAmount(loanData);
+
+    const result = await this.prisma.$transaction(
+      async (prisma) => {
+        // Cerrar las cuotas impagas; si alguna cambió mientras tanto (p. ej. un pago), abortar
+        const closed = await prisma.subLoan.updateMany({
+          where: {
+            id: { in: loan.subLoans.map((subLoan) => subLoan.id) },
+            status: { in: unpaidStatuses },
+          },
+          data: { status: SubLoanStatus.REFINANCED },
+        });
+
+        if (closed.count !== loan.subLoans.length) {
+          throw new BadRequestException(
+            'Las cuotas del préstamo cambiaron durante la refinanciación. Intente nuevamente',
+          );
+        }
+
+        await prisma.loan.update({
+          where: { id: loan.id },
+          data: {
+            status: LoanStatus.REFINANCED,
+            completedDate: DateUtil.now().toJSDate(),
+          },
+        });
+
+        const newLoan = await prisma.loan.create({
+          data: {
+            clientId: loan.clientId,
+            managerId: loan.managerId,
+            amount: totalAmount,
+            originalAmount: outstandingBalance,
+            currency: loanData.currency,
+            paymentFrequency: loanData.paymentFrequency,
+            paymentDay: loanData.paymentDay,
+            status: LoanStatus.ACTIVE,
+            totalPayments: loanData.totalPayments,
+            firstDueDate: loanData.firstDueDate
+              ? DateUtil.parseToDate(loanData.firstDueDate)
+              : null,
+            loanTrack,
+            prefix,
+            year,
+            sequence,
+            description: loanData.description,
+            notes: loanData.notes,
+            baseInterestRate: loanData.baseInterestRate,
+            penaltyInterestRate: loanData.penaltyInterestRate,
+            amortizationType: loanData.amortizationType,
+            allocationStrategy: loan.allocationStrategy,
+            keepExcessAsCredit: loan.keepExcessAsCredit,
+            refinancedFromId: loan.id,
+          },
+        });
+
+        await this.subLoanGenerator.generateSubLoans(
+          newLoan.id,
+          loanData,
+          loanData.firstDueDate
+            ? DateUtil.parseToDate(loanData.firstDueDate)
+            : undefined,
+          prisma,
+        );
+
+        return prisma.loan.findUnique({
+          where: { id: newLoan.id },
+          include: {
+            client: true,
+            subLoans: {
+              orderBy: { paymentNumber: 'asc' },
+            },
+            refinancedFrom: {
+              select: { id: true, loanTrack: true, status: true },
+            },
+          },
+        });
+      },
+      { maxWait: 30000, timeout: 30000 },
+    );
+
+    await this.logLoanStatusTransitions(
+      [
+        {
+          loanId: loan.id,
+          loanTrack: loan.loanTrack,
+          from: loan.status as LoanStatus,
+          to: LoanStatus.REFINANCED,
+          reason: `Refinanciado en ${loanTrack}`,
+        },
+      ],
+      { id: userId, role: userRole },
+    );
+
+    await this.auditService.log({
+      userId,
+      userRole,
+      action: AuditAction.CREATE,
+      entity: 'Loan',
+      entityId: result!.id,
+      changes: {
+        after: {
+          loanTrack,
+          refinancedFromId: loan.id,
+          originalAmount: outstandingBalance,
+        },
+      },
+      description: `Préstamo ${loanTrack} creado por refinanciación de ${loan.loanTrack}`,
+    });
+
+    return {
+      message: 'Préstamo refinanciado exitosamente',
+      outstandingBalance: {
+        installments: Number(pendingInstallments.toFixed(2)),
+        penalty: Number(pendingPenalty.toFixed(2)),
+        total: outstandingBalance,
+      },
+      refinancedSubLoans: loan.subLoans.length,
+      loan: {
+        ...result,
+        amount: Number(result!.amount),
+        originalAmount: Number(result!.originalAmount),
+        baseInterestRate: Number(result!.baseInterestRate),
+        penaltyInterestRate: Number(result!.penaltyInterestRate),
+        subLoans: result!.subLoans.map((subLoan) => ({
+          ...subLoan,
+          amount: Number(subLoan.amount),
+          interestAmount: Number(subLoan.interestAmount),
+          totalAmount: Number(subLoan.totalAmount),
+          paidAmount: Number(subLoan.paidAmount),
+        })),
+      },
+    };
+  }
+
+  /**
+   * Sincroniza el estado del préstamo con el de sus cuotas:
+   * - COMPLETED cuando todas las cuotas están PAID
+   * - ACTIVE cuando estaba COMPLETED y un reseteo/edición reabrió alguna cuota
+   * Se ejecuta dentro de la transacción del pago. Retorna la transición aplicada, si hubo.
+   */
+  async syncLoanCompletionStatus(
+    loanId: string,
+    tx: Prisma.TransactionClient,
+  ): Promise<LoanStatusTransition | null> {
+    const loan = await tx.loan.findUnique({
+      where: { id: loanId },
+      select: {
+        id: true,
+        loanTrack: true,
+        status: true,
+        subLoans: {
+          where: { deletedAt: null },
+          select: { status: true },
+        },
+      },
+    });
+
+    if (!loan || loan.subLoans.length === 0) {
+      return null;
+    }
+
+    const currentStatus = loan.status as LoanStatus;
+    const allPaid = loan.subLoans.every(
+      (subLoan) => subLoan.status === SubLoanStatus.PAID,
+    );
+
+    if (
+      allPaid &&
+      [LoanStatus.ACTIVE, LoanStatus.APPROVED, LoanStatus.DEFAULTED].includes(
+        currentStatus,
+      )
+    ) {
+      await tx.loan.update({
+        where: { id: loan.id },
+        data: {
+          status: LoanStatus.COMPLETED,
+          completedDate: DateUtil.now().toJSDate(),
+        },
+      });
+
+      return {
+        loanId: loan.id,
+        loanTrack: loan.loanTrack,
+        from: currentStatus,
+        to: LoanStatus.COMPLETED,
+        reason: 'Todas las cuotas fueron pagadas',
+      };
+    }
+
+    if (!allPaid && currentStatus === LoanStatus.COMPLETED) {
+      await tx.loan.update({
+        where: { id: loan.id },
+        data: {
+          status: LoanStatus.ACTIVE,
+          completedDate: null,
+        },
+      });
+
+      return {
+        loanId: loan.id,
+        loanTrack: loan.loanTrack,
+        from: currentStatus,
+        to: LoanStatus.ACTIVE,
+        reason: 'Se reabrieron cuotas del préstamo',
+      };
+    }
+
+    return null;
+  }
+
+  /**
+   * Registrar en auditoría los cambios automáticos de estado de préstamos
+   */
+  async logLoanStatusTransitions(
+    transitions: Array<LoanStatusTransition | null>,
+    user?: { id?: string; role?: string },
+  ): Promise<void> {
+    for (const transition of transitions) {
+      if (!transition) continue;
+
+      await this.auditService.log({
+        userId: user?.id,
+        userRole: user?.role,
+        action: AuditAction.UPDATE,
+        entity: 'Loan',
+        entityId: transition.loanId,
+        changes: {
+          before: { status: transition.from },
+          after: { status: transition.to },
+        },
+        description: `Préstamo ${transition.loanTrack}: ${transition.from} → ${transition.to} (${transition.reason})`,
+      });
+    }
   }
 
-  async getLoanByTracking(dni: string, loanTrack: string) {
+  /**
+   * Marca como DEFAULTED los préstamos que tienen alguna cuota OVERDUE
+   * con más días de atraso que el umbral configurado (LOAN_DEFAULT_OVERDUE_DAYS).
+   * Un umbral de 0 desactiva la regla; es el valor por defecto, hay que activarla
+   * explícitamente.
+   */
+  async markDefaultedLoans() {
+    const thresholdDays = await this.systemConfigService.getConfig(
+      ConfigKey.LOAN_DEFAULT_OVERDUE_DAYS,
+    );
+
+    if (thresholdDays <= 0) {
+      return {
+        message: 'Regla de préstamos incobrables desactivada',
+        thresholdDays,
+        count: 0,
+        loans: [],
+      };
+    }
+
+    const loans = await this.prisma.loan.findMany({
+      where: {
+        deletedAt: null,
+        status: { in: [LoanStatus.ACTIVE, LoanStatus.APPROVED] },
+        subLoans: {
+          some: {
+            deletedAt: null,
+            status: SubLoanStatus.OVERDUE,
+            daysOverdue: { gte: thresholdDays },
+          },
+        },
+      },
+      select: {
+        id: true,
+        loanTrack: true,
+        status: true,
+      },
+    });
+
+    const transitions: LoanStatusTransition[] = [];
+
+    for (const loan of loans) {
+      await this.prisma.loan.update({
+        where: { id: loan.id },
+        data: { status: LoanStatus.DEFAULTED },
+      });
+
+      transitions.push({
+        loanId: loan.id,
+        loanTrack: loan.loanTrack,
+        from: loan.status as LoanStatus,
+        to: LoanStatus.DEFAULTED,
+        reason: `Cuota con ${thresholdDays} o más días en OVERDUE`,
+      });
+    }
+
+    await this.logLoanStatusTransitions(transitions);
+
+    return {
+      message: `Se marcaron ${transitions.length} préstamos como DEFAULTED`,
+      thresholdDays,
+      count: transitions.length,
+      loans: transitions.map((t) => ({ id: t.loanId, loanTrack: t.loanTrack })),
+    };
+  }
+
+  async getLoanByTracking(
+    dni: string,
+    loanTrack: string,
+    receiptCode?: string,
+  ) {
     // Find the loan by tracking code and verify DNI matches
     const loan = await this.prisma.loan.findFirst({
       where: {
@@ -212,14 +1007,23 @@ export class LoansService {
             id: true,
             paymentNumber: true,
             amount: true,
+            interestAmount: true,
             totalAmount: true,
             status: true,
             dueDate: true,
             paidDate: true,
             paidAmount: true,
             daysOverdue: true,
+            penaltyAmount: true,
+            penaltyPaid: true,
           },
         },
+        refinancedFrom: {
+          select: { id: true, loanTrack: true, status: true },
+        },
+        refinancedInto: {
+          select: { id: true, loanTrack: true, status: true },
+        },
       },
     });
 
@@ -227,7 +1031,44 @@ export class LoansService {
       throw new NotFoundException('Préstamo no encontrado o DNI no coincide');
     }
 
-    return loan;
+    if (!receiptCode) {
+      return loan;
+    }
+
+    return {
+      ...loan,
+      receiptVerification: await this.verifyReceipt(loan.id, receiptCode),
+    };
+  }
+
+  /**
+   * Verifica un código de recibo contra los pagos del préstamo consultado.
+   * Acepta el código con o sin guion y en minúsculas.
+   */
+  private async verifyReceipt(loanId: string, receiptCode: string) {
+    const raw = receiptCode.replace(/[^A-Za-z0-9]/g, '').toUpperCase();
+    const code = raw.length === 8 ? `${raw.slice(0, 4)}-${raw.slice(4)}` : raw;
+
+    const payment = await this.prisma.payment.findFirst({
+      where: { verificationCode: code, subLoan: { loanId } },
+      include: { subLoan: { select: { paymentNumber: true } } },
+    });
+
+    if (!payment) {
+      return { code, valid: false };
+    }
+
+    return {
+      code,
+      // Un recibo de un pago anulado deja de ser válido
+      valid: payment.status === PaymentStatus.COMPLETED,
+      voided: payment.status === PaymentStatus.VOIDED,
+      receiptNumber: payment.receiptNumber,
+      amount: Number(payment.amount),
+      currency: payment.currency,
+      paymentDate: payment.paymentDate,
+      paymentNumber: payment.subLoan.paymentNumber,
+    };
   }
 
   async getAllActiveLoans(userId: string) {
@@ -277,12 +1118,15 @@ export class LoansService {
             loanId: true,
             paymentNumber: true,
             amount: true,
+            interestAmount: true,
             totalAmount: true,
             status: true,
             dueDate: true,
             paidDate: true,
             paidAmount: true,
             daysOverdue: true,
+            penaltyAmount: true,
+            penaltyPaid: true,
             createdAt: true,
             updatedAt: true,
             deletedAt: true,
@@ -293,6 +1137,7 @@ export class LoansService {
                 currency: true,
                 paymentDate: true,
                 description: true,
+                status: true,
                 createdAt: true,
               },
               orderBy: {
@@ -357,12 +1202,15 @@ export class LoansService {
             loanId: true,
             paymentNumber: true,
             amount: true,
+            interestAmount: true,
             totalAmount: true,
             status: true,
             dueDate: true,
             paidDate: true,
             paidAmount: true,
             daysOverdue: true,
+            penaltyAmount: true,
+            penaltyPaid: true,
             createdAt: true,
             updatedAt: true,
             deletedAt: true,
@@ -373,6 +1221,7 @@ export class LoansService {
                 currency: true,
                 paymentDate: true,
                 description: true,
+                status: true,
                 createdAt: true,
               },
               orderBy: {
@@ -468,6 +1317,51 @@ export class LoansService {
     });
   }
 
+  /**
+   * Define la imputación de pagos de un préstamo: estrategia y si el excedente queda como
+   * saldo a favor. null vuelve a usar la del SUBADMIN; undefined no cambia la opción.
+   * SUBADMIN solo puede configurar préstamos de los managers que creó.
+   */
+  async updateAllocationStrategy(
+    loanId: string,
+    userId: string,
+    userRole: UserRole,
+    policy: {
+      allocationStrategy?: PaymentAllocationStrategy | null;
+      keepExcessAsCredit?: boolean | null;
+    },
+  ) {
+    const loan = await this.prisma.loan.findFirst({
+      where: { id: loanId, deletedAt: null },
+      select: { id: true, managerId: true },
+    });
+
+    if (!loan) {
+      throw new NotFoundException('Préstamo no encontrado');
+    }
+
+    if (userRole === UserRole.SUBADMIN) {
+      const managedUserIds = await this.getManagedUserIds(userId);
+      if (!loan.managerId || !managedUserIds.includes(loan.managerId)) {
+        throw new ForbiddenException('No tienes acceso a este préstamo');
+      }
+    }
+
+    return this.prisma.loan.update({
+      where: { id: loanId },
+      data: {
+        allocationStrategy: policy.allocationStrategy,
+        keepExcessAsCredit: policy.keepExcessAsCredit,
+      },
+      select: {
+        id: true,
+        loanTrack: true,
+        allocationStrategy: true,
+        keepExcessAsCredit: true,
+      },
+    });
+  }
+
   async getAllLoansWithFilters(
     userId: string,
     userRole: UserRole,
@@ -858,7 +1752,10 @@ export class LoansService {
       return sum + pagosSubloan;
     }, 0);
 
-    const montoADevolver = totalPrestamo - totalPagado;
+    // Los préstamos pendientes o rechazados nunca fueron desembolsados
+    const fueDesembolsado =
+      loan.status !== LoanStatus.PENDING && loan.status !== LoanStatus.REJECTED;
+    const montoADevolver = fueDesembolsado ? totalPrestamo - totalPagado : 0;
 
     // Obtener la wallet del manager
     const managerWallet = await this.prisma.wallet.findUnique({
@@ -0,0 +1,106 @@
+import { Test, TestingModule } from '@nestjs/testing';
+import { PrismaService } from '../prisma/prisma.service';
+import { HolidaysService } from '../holidays/holidays.service';
+import { AmortizationType } from '../common/enums';
+import {
+  InstallmentBreakdown,
+  SubLoanGeneratorService,
+} from './sub-loan-generator.service';
+
+const sum = (
+  installments: InstallmentBreakdown[],
+  field: keyof InstallmentBreakdown,
+) =>
+  Number(
+    installments
+      .reduce((total, installment) => total + installment[field], 0)
+      .toFixed(2),
+  );
+
+describe('SubLoanGeneratorService', () => {
+  let service: SubLoanGeneratorService;
+
+  beforeEach(async () => {
+    const module: TestingModule = await Test.createTestingModule({
+      providers: [
+        SubLoanGeneratorService,
+        { provide: PrismaService, useValue: {} },
+        { provide: HolidaysService, useValue: {} },
+      ],
+    }).compile();
+
+    service = module.get<SubLoanGeneratorService>(SubLoanGeneratorService);
+  });
+
+  describe('calculateInstallments', () => {
+    it('FLAT should split principal and total interest in equal parts', () => {
+      const installments = service.calculateInstallments(
+        1000,
+        0.2,
+        4,
+        AmortizationType.FLAT,
+      );
+
+      expect(installments).toEqual(
+        Array(4).fill({ capital: 250, interest: 50, total: 300 }),
+      );
+    });
+
+    it('FRENCH should charge a fixed installment with decreasing interest', () => {
+      const installments = service.calculateInstallments(
+        1000,
+        0.1,
+        3,
+        AmortizationType.FRENCH,
+      );
+
+      expect(installments[0]).toEqual({
+        capital: 302.11,
+        interest: 100,
+        total: 402.11,
+      });
+      expect(installments[1].total).toBe(402.11);
+      // La última cuota absorbe el redondeo del capital
+      expect(installments[2].total).toBeCloseTo(402.11, 1);
+      expect(installments[1].interest).toBeLessThan(installments[0].interest);
+      expect(installments[2].interest).toBeLessThan(installments[1].interest);
+      expect(sum(installments, 'capital')).toBe(1000);
+    });
+
+    it('FRENCH without interest should split the principal in equal parts', () => {
+      expect(
+        service.calculateInstallments(300, 0, 3, AmortizationType.FRENCH),
+      ).toEqual(Array(3).fill({ capital: 100, interest: 0, total: 100 }));
+    });
+
+    it('GERMAN should amortize a fixed principal with interest on the remaining balance', () => {
+      const installments = service.calculateInstallments(
+        1000,
+        0.1,
+        4,
+        AmortizationType.GERMAN,
+      );
+
+      expect(installments).toEqual([
+        { capital: 250, interest: 100, total: 350 },
+        { capital: 250, interest: 75, total: 325 },
+        { capital: 250, interest: 50, total: 300 },
+        { capital: 250, interest: 25, total: 275 },
+      ]);
+    });
+
+    it('GERMAN should leave the rounding of the principal to the last installment', () => {
+      const installments = service.calculateInstallments(
+        1000,
+        0.05,
+        3,
+        AmortizationType.GERMAN,
+      );
+
+      expect(installments.map((installment) => installment.capital)).toEqual([
+        333.33, 333.33, 333.34,
+      ]);
+      expect(sum(installments, 'capital')).toBe(1000);
+    });
+  });
+});
@@ -1,5 +1,6 @@
 import { Injectable } from '@nestjs/common';
 import { PrismaService } from '../prisma/prisma.service';
+import { HolidaysService } from '../holidays/holidays.service';
 import { CreateLoanDto } from './dto/create-loan.dto';
 import {
   PaymentFrequency,
@@ -9,10 +10,31 @@ import {
 } from '@prisma/client';
 import { DateTime } from 'luxon';
 import { DateUtil } from '../common/utils';
+import { AmortizationType } from '../common/enums';
+
+/**
+ * Cuota calculada: capital, interés y total
+ */
+export interface InstallmentBreakdown {
+  capital: number;
+  interest: number;
+  total: number;
+}
+
+/**
+ * Cuota del cronograma con su número y fecha de vencimiento
+ */
+export interface ScheduledInstallment extends InstallmentBreakdown {
+  paymentNumber: number;
+  dueDate: Date;
+}
 
 @Injectable()
 export class SubLoanGeneratorService {
-  constructor(private prisma: PrismaService) {}
+  constructor(
+    private prisma: PrismaService,
+    private holidaysService: HolidaysService,
+  ) {}
 
   /**
    * Genera SubLoans automáticamente basado en la configuración del Loan
@@ -23,7 +45,8 @@ export class SubLoanGeneratorService {
     firstDueDate?: Date,
     prismaTransaction?: Prisma.TransactionClient,
   ): Promise<void> {
-    const { totalPayments, paymentFrequency, paymentDay, amount, baseInterestRate } = loanData;
+    const { amount, baseInterestRate } = loanData;
+    const amortizationType = loanData.amortizationType ?? AmortizationType.FLAT;
 
     // Use transaction instance if provided, otherwise use the service's prisma instance
     const prismaClient = prismaTransaction || this.prisma;
@@ -44,34 +67,18 @@ export class SubLoanGeneratorService {
 
     console.log('Loan found:', existingLoan.id);
 
-    // Calcular monto por SubLoan (solo capital)
-    const amountPerSubLoan = Number(amount) / totalPayments;
-
-    // Calcular interés total del préstamo
-    const totalInterest = Number(amount) * Number(baseInterestRate);
-    
-    // Calcular interés por cuota
-    const interestPerSubLoan = totalInterest / totalPayments;
-    
-    // Total por cuota = capital + interés
-    const totalAmountPerSubLoan = amountPerSubLoan + interestPerSubLoan;
-
-    // Calcular fechas de vencimiento
-    const dueDates = this.calculateDueDates(
-      totalPayments,
-      paymentFrequency,
-      paymentDay,
-      firstDueDate,
-    );
+    // Calcular cronograma: fechas de vencimiento, capital e interés de cada cuota
+    const schedule = await this.buildSchedule(loanData, firstDueDate);
 
     // Crear SubLoans
-    const subLoansData = dueDates.map((dueDate, index) => ({
+    const subLoansData = schedule.map((installment) => ({
       loanId,
-      paymentNumber: index + 1,
-      amount: new Prisma.Decimal(amountPerSubLoan.toFixed(2)),
-      totalAmount: new Prisma.Decimal(totalAmountPerSubLoan.toFixed(2)),
+      paymentNumber: installment.paymentNumber,
+      amount: new Prisma.Decimal(installment.capital.toFixed(2)),
+      interestAmount: new Prisma.Decimal(installment.interest.toFixed(2)),
+      totalAmount: new Prisma.Decimal(installment.total.toFixed(2)),
       status: SubLoanStatus.PENDING,
-      dueDate,
+      dueDate: installment.dueDate,
       paidAmount: new Prisma.Decimal(0),
       daysOverdue: 0,
     }));
@@ -83,10 +90,8 @@ export class SubLoanGeneratorService {
     console.log('Interest calculation:', {
       loanAmount: amount,
       baseInterestRate,
-      totalInterest,
-      interestPerSubLoan,
-      amountPerSubLoan,
-      totalAmountPerSubLoan,
+      amortizationType,
+      firstInstallment: schedule[0],
     });
 
     // Crear todos los SubLoans en una sola operación
@@ -97,15 +102,116 @@ export class SubLoanGeneratorService {
     console.log('SubLoans created successfully for loan:', loanId);
   }
 
+  /**
+   * Calcula el cronograma completo de cuotas sin persistir nada
+   * (usado por la generación de SubLoans y por la simulación de préstamos).
+   * Los vencimientos que caen en domingo o feriado pasan al siguiente día hábil.
+   */
+  async buildSchedule(
+    loanData: Pick<
+      CreateLoanDto,
+      | 'amount'
+      | 'baseInterestRate'
+      | 'totalPayments'
+      | 'paymentFrequency'
+      | 'paymentDay'
+      | 'amortizationType'
+    >,
+    firstDueDate?: Date,
+  ): Promise<ScheduledInstallment[]> {
+    const installments = this.calculateInstallments(
+      Number(loanData.amount),
+      Number(loanData.baseInterestRate),
+      loanData.totalPayments,
+      loanData.amortizationType ?? AmortizationType.FLAT,
+    );
+
+    const dueDates = this.calculateDueDates(
+      loanData.totalPayments,
+      loanData.paymentFrequency,
+      loanData.paymentDay,
+      firstDueDate,
+      await this.holidaysService.getHolidayDateSet(
+        firstDueDate ?? DateUtil.now().toJSDate(),
+      ),
+    );
+
+    return dueDates.map((dueDate, index) => ({
+      paymentNumber: index + 1,
+      dueDate,
+      ...installments[index],
+    }));
+  }
+
+  /**
+   * Calcula el capital, interés y total de cada cuota.
+   * - FLAT: interés total = amount * baseInterestRate, repartido en partes iguales
+   * - FRENCH: cuota fija; baseInterestRate es la tasa por período
+   * - GERMAN: capital fijo e interés decreciente; baseInterestRate es la tasa por período
+   * En FRENCH y GERMAN la última cuota absorbe el redondeo del capital.
+   */
+  calculateInstallments(
+    amount: number,
+    baseInterestRate: number,
+    totalPayments: number,
+    amortizationType: AmortizationType = AmortizationType.FLAT,
+  ): InstallmentBreakdown[] {
+    const round = (value: number) => Number(value.toFixed(2));
+    const installments: InstallmentBreakdown[] = [];
+
+    if (amortizationType === AmortizationType.FLAT) {
+      const capital = round(amount / totalPayments);
+      const total = round(
+        amount / totalPayments + (amount * baseInterestRate) / totalPayments,
+      );
+
+      for (let i = 0; i < totalPayments; i++) {
+        installments.push({ capital, interest: round(total - capital), total });
+      }
+
+      return installments;
+    }
+
+    const fixedInstallment =
+      baseInterestRate > 0
+        ? (amount * baseInterestRate) /
+          (1 - Math.pow(1 + baseInterestRate, -totalPayments))
+        : amount / totalPayments;
+    const fixedCapital = amount / totalPayments;
+
+    let balance = amount;
+
+    for (let i = 0; i < totalPayments; i++) {
+      const isLast = i === totalPayments - 1;
+      const interest = round(balance * baseInterestRate);
+      const capital = isLast
+        ? round(balance)
+        : amortizationType === AmortizationType.FRENCH
+          ? round(fixedInstallment - interest)
+          : round(fixedCapital);
+
+      installments.push({
+        capital,
+        interest,
+        total: round(capital + interest),
+      });
+      balance = round(balance - capital);
+    }
+
+    return installments;
+  }
+
   /**
    * Calcula las fechas de vencimiento para todos los SubLoans
    * Usa Luxon en zona horaria Argentina para evitar desfases UTC.
+   * holidays contiene las fechas de feriados en formato YYYY-MM-DD.
    */
   private calculateDueDates(
     totalPayments: number,
     paymentFrequency: PaymentFrequency,
     paymentDay?: PaymentDay,
     firstDueDate?: Date,
+    holidays: Set<string> = new Set(),
   ): Date[] {
     const tz = DateUtil.BUENOS_AIRES_TIMEZONE;
     const dueDates: DateTime[] = [];
@@ -135,8 +241,8 @@ export class SubLoanGeneratorService {
       }
     }
 
-    // Ajustar si cae en domingo
-    start = this.adjustSunday(start);
+    // Ajustar si cae en domingo o feriado
+    start = this.adjustNonWorkingDay(start, holidays);
 
     for (let i = 0; i < totalPayments; i++) {
       let dueDate: DateTime;
@@ -144,23 +250,23 @@ export class SubLoanGeneratorService {
       switch (paymentFrequency) {
         case 'DAILY':
           dueDate = start.plus({ days: i });
-          dueDate = this.adjustSunday(dueDate);
+          dueDate = this.adjustNonWorkingDay(dueDate, holidays);
           break;
 
         case 'WEEKLY':
           dueDate = start.plus({ weeks: i });
-          dueDate = this.adjustSunday(dueDate);
+          dueDate = this.adjustNonWorkingDay(dueDate, holidays);
           break;
 
         case 'BIWEEKLY':
           dueDate = start.plus({ weeks: i * 2 });
-          dueDate = this.adjustSunday(dueDate);
+          dueDate = this.adjustNonWorkingDay(dueDate, holidays);
           break;
 
         case 'MONTHLY':
           dueDate = start.plus({ months: i });
           // Si el día no existe en el mes, Luxon ya ajusta al último día válido
-          dueDate = this.adjustSunday(dueDate);
+          dueDate = this.adjustNonWorkingDay(dueDate, holidays);
           break;
 
         default:
@@ -168,9 +274,9 @@ export class SubLoanGeneratorService {
           break;
       }
 
-      // Para DAILY, asegurar que no haya fechas duplicadas (por ajuste de domingo)
+      // Para DAILY, asegurar que no haya fechas duplicadas (por ajuste de domingo o feriado)
       if (paymentFrequency === 'DAILY') {
-        dueDate = this.ensureUniqueDateLuxon(dueDate, dueDates);
+        dueDate = this.ensureUniqueDateLuxon(dueDate, dueDates, holidays);
       }
 
       dueDates.push(dueDate);
@@ -197,24 +303,29 @@ export class SubLoanGeneratorService {
   }
 
   /**
-   * Ajusta una fecha que cae en domingo (weekday 7) al lunes siguiente
+   * Mueve una fecha que cae en domingo (weekday 7) o feriado al siguiente día hábil
    */
-  private adjustSunday(dt: DateTime): DateTime {
-    if (dt.weekday === 7) {
-      return dt.plus({ days: 1 });
+  private adjustNonWorkingDay(dt: DateTime, holidays: Set<string>): DateTime {
+    let adjusted = dt;
+    while (adjusted.weekday === 7 || holidays.has(adjusted.toISODate()!)) {
+      adjusted = adjusted.plus({ days: 1 });
     }
-    return dt;
+    return adjusted;
   }
 
   /**
    * Asegura que la fecha sea única comparándola con las fechas existentes
    */
-  private ensureUniqueDateLuxon(newDate: DateTime, existingDates: DateTime[]): DateTime {
+  private ensureUniqueDateLuxon(
+    newDate: DateTime,
+    existingDates: DateTime[],
+    holidays: Set<string>,
+  ): DateTime {
     let adjusted = newDate;
 
     while (existingDates.some((d) => d.hasSame(adjusted, 'day'))) {
       adjusted = adjusted.plus({ days: 1 });
-      adjusted = this.adjustSunday(adjusted);
+      adjusted = this.adjustNonWorkingDay(adjusted, holidays);
     }
 
     return adjusted;
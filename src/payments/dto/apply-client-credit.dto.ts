@@ -0,0 +1,47 @@
+import {
+  IsDateString,
+  IsNumber,
+  IsOptional,
+  IsPositive,
+  IsString,
+  ValidateIf,
+} from 'class-validator';
+import { ApiPropertyOptional } from '@nestjs/swagger';
+
+export class ApplyClientCreditDto {
+  @ApiPropertyOptional({
+    description: 'ID del SubLoan al que se imputa el saldo a favor',
+    example: 'cm1234567890',
+  })
+  @ValidateIf((dto) => !dto.loanId)
+  @IsString()
+  subLoanId?: string;
+
+  @ApiPropertyOptional({
+    description:
+      'ID del préstamo: el saldo se imputa desde su primera cuota impaga (por ejemplo, un préstamo nuevo)',
+    example: 'cm0987654321',
+  })
+  @ValidateIf((dto) => !dto.subLoanId)
+  @IsString()
+  loanId?: string;
+
+  @ApiPropertyOptional({
+    description:
+      'Monto a imputar. Por defecto todo el saldo disponible (solo se consume lo que se pudo imputar)',
+    example: 15000,
+    type: Number,
+  })
+  @IsOptional()
+  @IsNumber()
+  @IsPositive()
+  amount?: number;
+
+  @ApiPropertyOptional({
+    description: 'Fecha de la imputación (zona horaria Buenos Aires)',
+    example: '2024-01-15T00:00:00.000Z',
+  })
+  @IsOptional()
+  @IsDateString()
+  paymentDate?: string;
+}
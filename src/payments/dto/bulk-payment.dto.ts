@@ -1,5 +1,11 @@
-import { IsNotEmpty, IsArray, ValidateNested } from 'class-validator';
-import { ApiProperty } from '@nestjs/swagger';
+import {
+  IsNotEmpty,
+  IsArray,
+  ValidateNested,
+  IsOptional,
+  IsBoolean,
+} from 'class-validator';
+import { ApiProperty, ApiPropertyOptional } from '@nestjs/swagger';
 import { Type } from 'class-transformer';
 import { RegisterPaymentDto } from './register-payment.dto';
 
@@ -13,4 +19,15 @@ export class BulkPaymentDto {
   @ValidateNested({ each: true })
   @Type(() => RegisterPaymentDto)
   payments: RegisterPaymentDto[];
+
+  @ApiPropertyOptional({
+    description:
+      'Todo o nada: se validan todos los pagos antes de escribir y se registran en una única transacción. ' +
+      'Si alguno falla no se registra ninguno. Admite hasta 80 pagos',
+    default: false,
+    example: true,
+  })
+  @IsOptional()
+  @IsBoolean()
+  atomic?: boolean;
 }
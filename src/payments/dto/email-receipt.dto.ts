@@ -0,0 +1,17 @@
+import { IsArray, IsEmail, IsOptional } from 'class-validator';
+import { ApiPropertyOptional } from '@nestjs/swagger';
+
+/**
+ * Envío del recibo por email. Sin destinatarios se usa el email del cliente.
+ */
+export class EmailReceiptDto {
+  @ApiPropertyOptional({
+    description: 'Destinatarios del recibo',
+    example: ['cliente@example.com'],
+    type: [String],
+  })
+  @IsOptional()
+  @IsArray()
+  @IsEmail({}, { each: true })
+  recipients?: string[];
+}
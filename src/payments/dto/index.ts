@@ -1,2 +1,6 @@
 export { RegisterPaymentDto } from './register-payment.dto';
 export { BulkPaymentDto } from './bulk-payment.dto';
+export { LoanPayoffDto } from './loan-payoff.dto';
+export { EmailReceiptDto } from './email-receipt.dto';
+export { VoidPaymentDto } from './void-payment.dto';
+export { ApplyClientCreditDto } from './apply-client-credit.dto';
@@ -0,0 +1,10 @@
+import { OmitType } from '@nestjs/swagger';
+import { RegisterPaymentDto } from './register-payment.dto';
+
+/**
+ * Cancelación anticipada de un préstamo. El monto debe coincidir con la cotización
+ * (GET /payments/loan/:loanId/payoff-quote) a la fecha del pago.
+ */
+export class LoanPayoffDto extends OmitType(RegisterPaymentDto, [
+  'subLoanId',
+] as const) {}
@@ -6,9 +6,10 @@ import {
   IsString,
   IsOptional,
   IsDateString,
+  MaxLength,
 } from 'class-validator';
 import { ApiProperty, ApiPropertyOptional } from '@nestjs/swagger';
-import { Currency } from '../../common/enums';
+import { Currency, PaymentMethod } from '../../common/enums';
 
 export class RegisterPaymentDto {
   @ApiProperty({
@@ -53,4 +54,34 @@ export class RegisterPaymentDto {
   @IsOptional()
   @IsString()
   description?: string;
+
+  @ApiPropertyOptional({
+    description:
+      'Medio de pago. Solo el efectivo (CASH) ingresa a la wallet de cobros; el resto va al saldo bancario',
+    enum: PaymentMethod,
+    default: PaymentMethod.CASH,
+    example: PaymentMethod.BANK_TRANSFER,
+  })
+  @IsOptional()
+  @IsEnum(PaymentMethod)
+  paymentMethod?: PaymentMethod;
+
+  @ApiPropertyOptional({
+    description:
+      'Referencia externa (nro. de operación de la transferencia o MercadoPago)',
+    example: '0000003100012345678901',
+  })
+  @IsOptional()
+  @IsString()
+  @MaxLength(100)
+  externalReference?: string;
+
+  @ApiPropertyOptional({
+    description: 'Nombre de quien realizó el pago, si no es el cliente',
+    example: 'María Pérez',
+  })
+  @IsOptional()
+  @IsString()
+  @MaxLength(200)
+  payerName?: string;
 }
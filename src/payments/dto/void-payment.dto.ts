@@ -0,0 +1,14 @@
+import { IsNotEmpty, IsString, MaxLength } from 'class-validator';
+import { ApiProperty } from '@nestjs/swagger';
+
+export class VoidPaymentDto {
+  @ApiProperty({
+    description: 'Motivo de la anulación',
+    example: 'Transferencia rechazada por el banco',
+    maxLength: 500,
+  })
+  @IsNotEmpty()
+  @IsString()
+  @MaxLength(500)
+  reason: string;
+}
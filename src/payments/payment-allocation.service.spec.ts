@@ -0,0 +1,152 @@
+import { Test, TestingModule } from '@nestjs/testing';
+import { PaymentAllocationStrategy, Prisma } from '@prisma/client';
+import { PrismaService } from '../prisma/prisma.service';
+import {
+  AllocationInstallment,
+  PaymentAllocationService,
+  PlannedAllocation,
+} from './payment-allocation.service';
+
+const installment = (
+  paymentNumber: number,
+  values: { paidAmount?: number; penaltyAmount?: number } = {},
+): AllocationInstallment => ({
+  id: `sub-${paymentNumber}`,
+  paymentNumber,
+  dueDate: new Date(`2026-01-0${paymentNumber}T15:00:00.000Z`),
+  totalAmount: new Prisma.Decimal(100),
+  interestAmount: new Prisma.Decimal(20),
+  paidAmount: new Prisma.Decimal(values.paidAmount ?? 0),
+  penaltyAmount: new Prisma.Decimal(values.penaltyAmount ?? 0),
+  penaltyPaid: new Prisma.Decimal(0),
+});
+
+const allocation = (
+  paymentNumber: number,
+  penalty: number,
+  interest: number,
+  principal: number,
+): PlannedAllocation => ({
+  subLoanId: `sub-${paymentNumber}`,
+  paymentNumber,
+  penalty,
+  interest,
+  principal,
+});
+
+describe('PaymentAllocationService', () => {
+  let service: PaymentAllocationService;
+
+  // Cuotas de 100 (20 de interés) que vencen del 1 al 5 de enero; el pago es del 3.
+  // La 1 tiene 30 pagados (todo el interés), la 2 y la 3 tienen punitorios.
+  const installments = [
+    installment(1, { paidAmount: 30 }),
+    installment(2, { penaltyAmount: 10 }),
+    installment(3, { penaltyAmount: 5 }),
+    installment(4),
+    installment(5),
+  ];
+  const referenceDate = new Date('2026-01-03T18:00:00.000Z');
+
+  const plan = (
+    strategy: PaymentAllocationStrategy,
+    amount: number,
+    keepExcessAsCredit?: boolean,
+  ) =>
+    service.planAllocation({
+      strategy,
+      installments,
+      targetSubLoanId: 'sub-3',
+      amount,
+      referenceDate,
+      keepExcessAsCredit,
+    });
+
+  beforeEach(async () => {
+    const module: TestingModule = await Test.createTestingModule({
+      providers: [
+        PaymentAllocationService,
+        { provide: PrismaService, useValue: {} },
+      ],
+    }).compile();
+
+    service = module.get<PaymentAllocationService>(PaymentAllocationService);
+  });
+
+  describe('planAllocation', () => {
+    it('TARGET_FIRST should settle the target, then earlier installments newest first, then later ones', () => {
+      const result = plan(PaymentAllocationStrategy.TARGET_FIRST, 350);
+
+      expect(result.allocations).toEqual([
+        allocation(3, 5, 20, 80),
+        allocation(2, 0, 20, 80),
+        allocation(1, 0, 0, 70),
+        allocation(4, 0, 20, 55),
+      ]);
+      expect(result.unallocated).toBe(0);
+    });
+
+    it('OLDEST_FIRST should settle installments in order with their penalties', () => {
+      const result = plan(PaymentAllocationStrategy.OLDEST_FIRST, 250);
+
+      expect(result.allocations).toEqual([
+        allocation(1, 0, 0, 70),
+        allocation(2, 10, 20, 80),
+        allocation(3, 5, 20, 45),
+      ]);
+      expect(result.unallocated).toBe(0);
+    });
+
+    it('PENALTIES_INTEREST_PRINCIPAL should cover penalties, then interest, then principal of due installments', () => {
+      const result = plan(
+        PaymentAllocationStrategy.PENALTIES_INTEREST_PRINCIPAL,
+        250,
+      );
+
+      expect(
+        [...result.allocations].sort(
+          (a, b) => a.paymentNumber - b.paymentNumber,
+        ),
+      ).toEqual([
+        allocation(1, 0, 0, 70),
+        allocation(2, 10, 20, 80),
+        allocation(3, 5, 20, 45),
+      ]);
+      expect(result.unallocated).toBe(0);
+    });
+
+    it('should leave what exceeds the loan balance as unallocated', () => {
+      // TARGET_FIRST no cobra los punitorios de las cuotas anteriores a la elegida
+      expect(
+        plan(PaymentAllocationStrategy.TARGET_FIRST, 1000).unallocated,
+      ).toBe(525);
+      expect(
+        plan(PaymentAllocationStrategy.OLDEST_FIRST, 1000).unallocated,
+      ).toBe(515);
+    });
+
+    it('should not prepay installments with keepExcessAsCredit', () => {
+      const result = plan(PaymentAllocationStrategy.TARGET_FIRST, 400, true);
+
+      expect(result.allocations.map((a) => a.paymentNumber)).toEqual([3, 2, 1]);
+      expect(result.unallocated).toBe(125);
+    });
+
+    it('should settle the pending penalty before interest and principal', () => {
+      const result = service.planAllocation({
+        strategy: PaymentAllocationStrategy.TARGET_FIRST,
+        installments: [
+          {
+            ...installment(1, { penaltyAmount: 10 }),
+            penaltyPaid: new Prisma.Decimal(4),
+          },
+        ],
+        targetSubLoanId: 'sub-1',
+        amount: 16,
+        referenceDate,
+      });
+
+      expect(result.allocations).toEqual([allocation(1, 6, 10, 0)]);
+    });
+  });
+});
@@ -0,0 +1,415 @@
+import { Injectable } from '@nestjs/common';
+import {
+  PaymentAllocationStrategy,
+  Prisma,
+  SubLoan,
+  SubLoanStatus,
+  UserRole,
+} from '@prisma/client';
+import { PrismaService } from '../prisma/prisma.service';
+
+/**
+ * Datos de la cuota que necesita el planificador de imputación
+ */
+export type AllocationInstallment = Pick<
+  SubLoan,
+  | 'id'
+  | 'paymentNumber'
+  | 'dueDate'
+  | 'totalAmount'
+  | 'paidAmount'
+  | 'interestAmount'
+  | 'penaltyAmount'
+  | 'penaltyPaid'
+>;
+
+/**
+ * Parte de un pago imputada a una cuota
+ */
+export interface PlannedAllocation {
+  subLoanId: string;
+  paymentNumber: number;
+  penalty: number;
+  interest: number;
+  principal: number;
+}
+
+/**
+ * Cómo se imputan los pagos de un préstamo
+ */
+export interface AllocationPolicy {
+  strategy: PaymentAllocationStrategy;
+  // El excedente sobre las cuotas vencidas (y la elegida) no adelanta cuotas:
+  // queda sin imputar, como saldo a favor del cliente
+  keepExcessAsCredit: boolean;
+}
+
+type AllocationPart = 'penalty' | 'interest' | 'principal';
+
+const round = (value: number) => Number(value.toFixed(2));
+
+@Injectable()
+export class PaymentAllocationService {
+  constructor(private prisma: PrismaService) {}
+
+  /**
+   * Imputación del préstamo: cada opción (estrategia y excedente como saldo a favor)
+   * es la propia del préstamo si la tiene, si no la del SUBADMIN que creó al manager,
+   * y por defecto TARGET_FIRST adelantando cuotas.
+   */
+  async resolvePolicy(
+    loanId: string,
+    tx?: Prisma.TransactionClient,
+  ): Promise<AllocationPolicy> {
+    const prismaClient = tx || this.prisma;
+
+    const loan = await prismaClient.loan.findUnique({
+      where: { id: loanId },
+      select: {
+        allocationStrategy: true,
+        keepExcessAsCredit: true,
+        managerId: true,
+      },
+    });
+
+    let subadminPolicy: AllocationPolicy | null = null;
+    if (
+      loan?.managerId &&
+      (!loan.allocationStrategy || loan.keepExcessAsCredit === null)
+    ) {
+      const manager = await prismaClient.user.findUnique({
+        where: { id: loan.managerId },
+        select: {
+          createdBy: {
+            select: {
+              role: true,
+              allocationStrategy: true,
+              keepExcessAsCredit: true,
+              deletedAt: true,
+            },
+          },
+        },
+      });
+
+      const subadmin = manager?.createdBy;
+      if (subadmin?.role === UserRole.SUBADMIN && !subadmin.deletedAt) {
+        subadminPolicy = {
+          strategy: subadmin.allocationStrategy,
+          keepExcessAsCredit: subadmin.keepExcessAsCredit,
+        };
+      }
+    }
+
+    return {
+      strategy:
+        loan?.allocationStrategy ??
+        subadminPolicy?.strategy ??
+        PaymentAllocationStrategy.TARGET_FIRST,
+      keepExcessAsCredit:
+        loan?.keepExcessAsCredit ?? subadminPolicy?.keepExcessAsCredit ?? false,
+    };
+  }
+
+  /**
+   * Cuotas del préstamo que pueden recibir el pago (impagas más la cuota elegida),
+   * ordenadas por número de cuota
+   */
+  async getOpenInstallments(
+    tx: Prisma.TransactionClient,
+    loanId: string,
+    targetSubLoanId: string,
+  ) {
+    return tx.subLoan.findMany({
+      where: {
+        loanId,
+        deletedAt: null,
+        OR: [
+          {
+            status: {
+              in: [
+                SubLoanStatus.OVERDUE,
+                SubLoanStatus.PENDING,
+                SubLoanStatus.PARTIAL,
+              ],
+            },
+          },
+          { id: targetSubLoanId },
+        ],
+      },
+      orderBy: { paymentNumber: 'asc' },
+    });
+  }
+
+  /**
+   * Calcula cómo se reparte un pago entre las cuotas sin persistir nada.
+   * - TARGET_FIRST: punitorios y saldo de la cuota elegida, luego cuotas anteriores
+   *   impagas (de la más reciente a la más antigua) y el excedente adelanta las siguientes
+   * - OLDEST_FIRST: cada cuota impaga en orden (punitorios y saldo), empezando por la más antigua
+   * - PENALTIES_INTEREST_PRINCIPAL: sobre las cuotas vencidas a referenceDate (y la elegida),
+   *   primero todos los punitorios, luego todo el interés y luego el capital; el excedente
+   *   adelanta las cuotas siguientes
+   * Dentro de una cuota lo pagado cubre primero el interés y después el capital.
+   * Con keepExcessAsCredit solo se imputan las cuotas vencidas a referenceDate y la
+   * elegida: no se adelantan cuotas.
+   * El monto que no se pudo imputar queda en unallocated.
+   */
+  planAllocation(params: {
+    strategy: PaymentAllocationStrategy;
+    installments: AllocationInstallment[];
+    targetSubLoanId: string;
+    amount: number;
+    referenceDate: Date;
+    keepExcessAsCredit?: boolean;
+  }): { allocations: PlannedAllocation[]; unallocated: number } {
+    const { strategy, targetSubLoanId, referenceDate } = params;
+
+    const isDue = (installment: AllocationInstallment) =>
+      installment.id === targetSubLoanId ||
+      (!!installment.dueDate && installment.dueDate <= referenceDate);
+    const installments = params.keepExcessAsCredit
+      ? params.installments.filter(isDue)
+      : params.installments;
+
+    const state = new Map(
+      installments.map((installment) => [
+        installment.id,
+        {
+          totalAmount: Number(installment.totalAmount),
+          paidAmount: Number(installment.paidAmount),
+          interestAmount: Number(installment.interestAmount),
+          penaltyPending: Math.max(
+            0,
+            Number(installment.penaltyAmount) - Number(installment.penaltyPaid),
+          ),
+        },
+      ]),
+    );
+    const allocations = new Map<string, PlannedAllocation>();
+    let remaining = round(params.amount);
+
+    const take = (installment: AllocationInstallment, part: AllocationPart) => {
+      if (remaining <= 0) return;
+
+      const current = state.get(installment.id)!;
+      const pendingTotal = Math.max(
+        0,
+        current.totalAmount - current.paidAmount,
+      );
+      const pendingInterest = Math.min(
+        pendingTotal,
+        Math.max(
+          0,
+          current.interestAmount -
+            Math.min(current.paidAmount, current.interestAmount),
+        ),
+      );
+      const pending =
+        part === 'penalty'
+          ? current.penaltyPending
+          : part === 'interest'
+            ? pendingInterest
+            : pendingTotal - pendingInterest;
+
+      const applied = round(Math.min(remaining, pending));
+      if (applied <= 0) return;
+
+      if (part === 'penalty') {
+        current.penaltyPending = round(current.penaltyPending - applied);
+      } else {
+        current.paidAmount = round(current.paidAmount + applied);
+      }
+      remaining = round(remaining - applied);
+
+      const allocation = allocations.get(installment.id) ?? {
+        subLoanId: installment.id,
+        paymentNumber: installment.paymentNumber,
+        penalty: 0,
+        interest: 0,
+        principal: 0,
+      };
+      allocation[part] = round(allocation[part] + applied);
+      allocations.set(installment.id, allocation);
+    };
+
+    const settle = (
+      installment: AllocationInstallment,
+      withPenalty: boolean,
+    ) => {
+      if (withPenalty) take(installment, 'penalty');
+      take(installment, 'interest');
+      take(installment, 'principal');
+    };
+
+    const target = installments.find((i) => i.id === targetSubLoanId);
+
+    switch (strategy) {
+      case PaymentAllocationStrategy.OLDEST_FIRST:
+        installments.forEach((installment) => settle(installment, true));
+        break;
+
+      case PaymentAllocationStrategy.PENALTIES_INTEREST_PRINCIPAL: {
+        const due = installments.filter(isDue);
+
+        due.forEach((installment) => take(installment, 'penalty'));
+        due.forEach((installment) => take(installment, 'interest'));
+        due.forEach((installment) => take(installment, 'principal'));
+        installments
+          .filter((installment) => !isDue(installment))
+          .forEach((installment) => settle(installment, true));
+        break;
+      }
+
+      case PaymentAllocationStrategy.TARGET_FIRST:
+      default:
+        if (target) {
+          settle(target, true);
+          installments
+            .filter((i) => i.paymentNumber < target.paymentNumber)
+            .reverse()
+            .forEach((installment) => settle(installment, false));
+          installments
+            .filter((i) => i.paymentNumber > target.paymentNumber)
+            .forEach((installment) => settle(installment, false));
+        }
+        break;
+    }
+
+    return {
+      allocations: Array.from(allocations.values()),
+      unallocated: remaining,
+    };
+  }
+
+  /**
+   * Separa lo aplicado al saldo de una cuota en interés y capital
+   * (lo pagado cubre primero el interés de la cuota)
+   */
+  splitInstallmentPayment(
+    interestAmount: number,
+    paidBefore: number,
+    applied: number,
+  ): { interest: number; principal: number } {
+    const interestPending = Math.max(
+      0,
+      interestAmount - Math.min(paidBefore, interestAmount),
+    );
+    const interest = round(Math.min(applied, interestPending));
+
+    return { interest, principal: round(applied - interest) };
+  }
+
+  /**
+   * Arma el detalle de imputación a partir de la distribución ya aplicada
+   * (pagos editados, que usan su propia regla de imputación)
+   */
+  async buildFromDistribution(
+    tx: Prisma.TransactionClient,
+    target: { subLoanId: string; paymentNumber: number; penalty: number },
+    distributed: {
+      subLoanId: string;
+      paymentNumber: number;
+      distributedAmount: number;
+      newPaidAmount: number;
+    }[],
+  ): Promise<PlannedAllocation[]> {
+    const subLoans = await tx.subLoan.findMany({
+      where: { id: { in: distributed.map((d) => d.subLoanId) } },
+      select: { id: true, interestAmount: true },
+    });
+    const interestById = new Map(
+      subLoans.map((sl) => [sl.id, Number(sl.interestAmount)]),
+    );
+
+    const allocations = new Map<string, PlannedAllocation>();
+    if (target.penalty > 0) {
+      allocations.set(target.subLoanId, {
+        subLoanId: target.subLoanId,
+        paymentNumber: target.paymentNumber,
+        penalty: round(target.penalty),
+        interest: 0,
+        principal: 0,
+      });
+    }
+
+    for (const item of distributed) {
+      if (item.distributedAmount <= 0) continue;
+
+      const { interest, principal } = this.splitInstallmentPayment(
+        interestById.get(item.subLoanId) ?? 0,
+        item.newPaidAmount - item.distributedAmount,
+        item.distributedAmount,
+      );
+      const allocation = allocations.get(item.subLoanId) ?? {
+        subLoanId: item.subLoanId,
+        paymentNumber: item.paymentNumber,
+        penalty: 0,
+        interest: 0,
+        principal: 0,
+      };
+      allocation.interest = round(allocation.interest + interest);
+      allocation.principal = round(allocation.principal + principal);
+      allocations.set(item.subLoanId, allocation);
+    }
+
+    return Array.from(allocations.values());
+  }
+
+  /**
+   * Guarda el detalle de imputación de un pago
+   */
+  async recordAllocations(
+    tx: Prisma.TransactionClient,
+    paymentId: string,
+    strategy: PaymentAllocationStrategy | null,
+    allocations: PlannedAllocation[],
+  ): Promise<void> {
+    if (allocations.length === 0) return;
+
+    await tx.paymentAllocation.createMany({
+      data: allocations.map((allocation) => ({
+        paymentId,
+        subLoanId: allocation.subLoanId,
+        strategy,
+        penaltyAmount: new Prisma.Decimal(allocation.penalty),
+        interestAmount: new Prisma.Decimal(allocation.interest),
+        principalAmount: new Prisma.Decimal(allocation.principal),
+      })),
+    });
+  }
+
+  /**
+   * Punitorios cobrados por cada cuota en los pagos indicados. Los pagos sin detalle
+   * de imputación (anteriores a su registro) se imputan a su propia cuota.
+   */
+  async getPenaltiesBySubLoan(
+    tx: Prisma.TransactionClient,
+    payments: {
+      id: string;
+      subLoanId: string;
+      penaltyAmount: Prisma.Decimal;
+    }[],
+  ): Promise<Map<string, number>> {
+    const allocations = await tx.paymentAllocation.findMany({
+      where: { paymentId: { in: payments.map((p) => p.id) } },
+      select: { paymentId: true, subLoanId: true, penaltyAmount: true },
+    });
+
+    const paymentsWithDetail = new Set(allocations.map((a) => a.paymentId));
+    const penalties = new Map<string, number>();
+    const add = (subLoanId: string, amount: number) => {
+      if (amount <= 0) return;
+      penalties.set(subLoanId, round((penalties.get(subLoanId) ?? 0) + amount));
+    };
+
+    for (const allocation of allocations) {
+      add(allocation.subLoanId, Number(allocation.penaltyAmount));
+    }
+    for (const payment of payments) {
+      if (!paymentsWithDetail.has(payment.id)) {
+        add(payment.subLoanId, Number(payment.penaltyAmount));
+      }
+    }
+
+    return penalties;
+  }
+}
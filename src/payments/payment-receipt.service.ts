@@ -0,0 +1,471 @@
+import {
+  Injectable,
+  BadRequestException,
+  NotFoundException,
+  ForbiddenException,
+  Logger,
+} from '@nestjs/common';
+import { PaymentStatus, Prisma, SubLoanStatus, UserRole } from '@prisma/client';
+import * as PDFDocument from 'pdfkit';
+import { randomInt } from 'crypto';
+import { PrismaService } from '../prisma/prisma.service';
+import { RabbitMQService } from '../rabbitmq/rabbitmq.service';
+import { DateUtil } from '../common/utils';
+
+// Sin 0/O ni 1/I para que el código se pueda dictar sin confusiones
+const VERIFICATION_CODE_ALPHABET = 'ABCDEFGHJKLMNPQRSTUVWXYZ23456789';
+
+const PAYMENT_METHOD_LABELS: Record<string, string> = {
+  CASH: 'Efectivo',
+  BANK_TRANSFER: 'Transferencia',
+  MERCADO_PAGO: 'MercadoPago',
+  OTHER: 'Otro',
+  CLIENT_CREDIT: 'Saldo a favor',
+};
+
+@Injectable()
+export class PaymentReceiptService {
+  private readonly logger = new Logger(PaymentReceiptService.name);
+
+  constructor(
+    private prisma: PrismaService,
+    private rabbitMQService: RabbitMQService,
+  ) {}
+
+  /**
+   * Asigna al pago el siguiente número de recibo del SUBADMIN del manager
+   * y un código de verificación. Debe llamarse dentro de la transacción del pago.
+   */
+  async assignReceipt(
+    paymentId: string,
+    tx: Prisma.TransactionClient,
+  ): Promise<{ receiptNumber: number; verificationCode: string }> {
+    const payment = await tx.payment.findUnique({
+      where: { id: paymentId },
+      select: {
+        receiptNumber: true,
+        verificationCode: true,
+        subLoan: { select: { loan: { select: { managerId: true } } } },
+      },
+    });
+
+    if (!payment) {
+      throw new NotFoundException('Pago no encontrado');
+    }
+
+    if (payment.receiptNumber && payment.verificationCode) {
+      return {
+        receiptNumber: payment.receiptNumber,
+        verificationCode: payment.verificationCode,
+      };
+    }
+
+    const managerId = payment.subLoan.loan.managerId;
+    if (!managerId) {
+      throw new BadRequestException('El préstamo no tiene manager asignado');
+    }
+
+    const manager = await tx.user.findUnique({
+      where: { id: managerId },
+      select: { createdById: true },
+    });
+    // La numeración es por SUBADMIN; un manager sin creador numera por sí mismo
+    const scopeId = manager?.createdById ?? managerId;
+
+    const sequence = await tx.receiptSequence.upsert({
+      where: { scopeId },
+      create: { scopeId, next: 2 }, // Reservará el 1
+      update: { next: { increment: 1 } },
+      select: { next: true },
+    });
+    const receiptNumber = sequence.next - 1;
+    const verificationCode = await this.generateVerificationCode(tx);
+
+    await tx.payment.update({
+      where: { id: paymentId },
+      data: { receiptScopeId: scopeId, receiptNumber, verificationCode },
+    });
+
+    return { receiptNumber, verificationCode };
+  }
+
+  /**
+   * Genera el PDF del recibo de un pago. Los pagos anteriores a la numeración
+   * reciben su número al pedir el recibo por primera vez.
+   */
+  async generateReceipt(
+    paymentId: string,
+    userId: string,
+    userRole: UserRole,
+  ): Promise<{
+    pdfBase64: string;
+    filename: string;
+    clientEmail: string | null;
+  }> {
+    await this.assertCanAccess(paymentId, userId, userRole);
+
+    await this.prisma.$transaction((tx) => this.assignReceipt(paymentId, tx));
+
+    const payment = await this.prisma.payment.findUniqueOrThrow({
+      where: { id: paymentId },
+      include: {
+        subLoan: {
+          include: {
+            loan: {
+              include: {
+                client: {
+                  select: { fullName: true, dni: true, email: true },
+                },
+                subLoans: {
+                  where: { deletedAt: null },
+                  select: {
+                    status: true,
+                    totalAmount: true,
+                    paidAmount: true,
+                    penaltyAmount: true,
+                    penaltyPaid: true,
+                  },
+                },
+              },
+            },
+          },
+        },
+      },
+    });
+
+    const { subLoan } = payment;
+    const { loan } = subLoan;
+    const manager = loan.managerId
+      ? await this.prisma.user.findUnique({
+          where: { id: loan.managerId },
+          select: { fullName: true },
+        })
+      : null;
+
+    const pendingOf = (sl: {
+      totalAmount: Prisma.Decimal;
+      paidAmount: Prisma.Decimal;
+      penaltyAmount: Prisma.Decimal;
+      penaltyPaid: Prisma.Decimal;
+    }) =>
+      Math.max(Number(sl.totalAmount) - Number(sl.paidAmount), 0) +
+      Math.max(Number(sl.penaltyAmount) - Number(sl.penaltyPaid), 0);
+
+    const installmentBalance = pendingOf(subLoan);
+    const loanBalance = loan.subLoans
+      .filter((sl) => sl.status !== SubLoanStatus.REFINANCED)
+      .reduce((sum, sl) => sum + pendingOf(sl), 0);
+
+    const receiptLabel = String(payment.receiptNumber).padStart(8, '0');
+
+    const pdfBase64 = await this.renderPdf({
+      receiptLabel,
+      verificationCode: payment.verificationCode!,
+      paymentDate: payment.paymentDate,
+      clientName: loan.client.fullName,
+      clientDni: loan.client.dni,
+      loanTrack: loan.loanTrack,
+      paymentNumber: subLoan.paymentNumber,
+      totalPayments: loan.totalPayments,
+      amount: Number(payment.amount),
+      penaltyAmount: Number(payment.penaltyAmount),
+      currency: payment.currency,
+      paymentMethod: payment.paymentMethod,
+      externalReference: payment.externalReference,
+      payerName: payment.payerName,
+      isEarlyPayoff: payment.isEarlyPayoff,
+      voided: payment.status === PaymentStatus.VOIDED,
+      installmentBalance,
+      loanBalance,
+      collectorName: manager?.fullName ?? null,
+    });
+
+    return {
+      pdfBase64,
+      filename: `recibo-${loan.loanTrack}-${receiptLabel}.pdf`,
+      clientEmail: loan.client.email,
+    };
+  }
+
+  /**
+   * Envía el recibo por email (por defecto al email del cliente)
+   */
+  async emailReceipt(
+    paymentId: string,
+    userId: string,
+    userRole: UserRole,
+    recipients?: string[],
+  ) {
+    const receipt = await this.generateReceipt(paymentId, userId, userRole);
+
+    const to = recipients?.length
+      ? recipients
+      : receipt.clientEmail
+        ? [receipt.clientEmail]
+        : [];
+
+    if (to.length === 0) {
+      throw new BadRequestException(
+        'El cliente no tiene email registrado: indique al menos un destinatario',
+      );
+    }
+
+    const sent = await this.rabbitMQService.sendEmailWithPDF(
+      to,
+      'Recibo de pago',
+      receipt.pdfBase64,
+      receipt.filename,
+    );
+
+    if (!sent) {
+      this.logger.warn(`No se pudo encolar el recibo ${receipt.filename}`);
+    }
+
+    return {
+      sent,
+      recipients: to,
+      filename: receipt.filename,
+      message: sent
+        ? 'Recibo enviado exitosamente'
+        : 'No se pudo enviar el recibo, intente nuevamente',
+    };
+  }
+
+  private async assertCanAccess(
+    paymentId: string,
+    userId: string,
+    userRole: UserRole,
+  ) {
+    const payment = await this.prisma.payment.findUnique({
+      where: { id: paymentId },
+      select: {
+        subLoan: { select: { loan: { select: { managerId: true } } } },
+      },
+    });
+
+    if (!payment) {
+      throw new NotFoundException('Pago no encontrado');
+    }
+
+    const managerId = payment.subLoan.loan.managerId;
+
+    if (userRole === UserRole.MANAGER && managerId !== userId) {
+      throw new ForbiddenException('No tienes acceso a este pago');
+    }
+
+    if (userRole === UserRole.SUBADMIN) {
+      const manager = managerId
+        ? await this.prisma.user.findUnique({
+            where: { id: managerId },
+            select: { createdById: true },
+          })
+        : null;
+
+      if (manager?.createdById !== userId) {
+        throw new ForbiddenException('No tienes acceso a este pago');
+      }
+    }
+  }
+
+  /**
+   * Código de 8 caracteres con formato XXXX-XXXX, único entre todos los pagos
+   */
+  private async generateVerificationCode(
+    tx: Prisma.TransactionClient,
+  ): Promise<string> {
+    for (let attempt = 0; attempt < 10; attempt++) {
+      let raw = '';
+      for (let i = 0; i < 8; i++) {
+        raw +=
+          VERIFICATION_CODE_ALPHABET[
+            randomInt(VERIFICATION_CODE_ALPHABET.length)
+          ];
+      }
+      const code = `${raw.slice(0, 4)}-${raw.slice(4)}`;
+
+      const existing = await tx.payment.findUnique({
+        where: { verificationCode: code },
+        select: { id: true },
+      });
+      if (!existing) {
+        return code;
+      }
+    }
+
+    throw new BadRequestException(
+      'No se pudo generar un código de verificación único',
+    );
+  }
+
+  private renderPdf(data: {
+    receiptLabel: string;
+    verificationCode: string;
+    paymentDate: Date;
+    clientName: string;
+    clientDni: string | null;
+    loanTrack: string;
+    paymentNumber: number;
+    totalPayments: number;
+    amount: number;
+    penaltyAmount: number;
+    currency: string;
+    paymentMethod: string;
+    externalReference: string | null;
+    payerName: string | null;
+    isEarlyPayoff: boolean;
+    voided: boolean;
+    installmentBalance: number;
+    loanBalance: number;
+    collectorName: string | null;
+  }): Promise<string> {
+    return new Promise((resolve, reject) => {
+      try {
+        const doc = new PDFDocument({
+          size: 'A5',
+          margins: { top: 40, bottom: 40, left: 40, right: 40 },
+        });
+
+        const chunks: Buffer[] = [];
+        doc.on('data', (chunk: Buffer) => chunks.push(chunk));
+        doc.on('end', () => resolve(Buffer.concat(chunks).toString('base64')));
+        doc.on('error', reject);
+
+        const money = (value: number) =>
+          `${data.currency} $${value.toLocaleString('es-AR', {
+            minimumFractionDigits: 2,
+            maximumFractionDigits: 2,
+          })}`;
+        const width = doc.page.width - 80;
+
+        // Encabezado
+        doc.rect(0, 0, doc.page.width, 70).fillColor('#2c3e50').fill();
+        doc
+          .fontSize(18)
+          .fillColor('#ffffff')
+          .font('Helvetica-Bold')
+          .text('RECIBO DE PAGO', 40, 22);
+        doc
+          .fontSize(10)
+          .fillColor('#ecf0f1')
+          .font('Helvetica')
+          .text(`N° ${data.receiptLabel}`, 40, 45);
+
+        doc.y = 90;
+
+        if (data.voided) {
+          doc
+            .fontSize(14)
+            .fillColor('#c0392b')
+            .font('Helvetica-Bold')
+            .text('PAGO ANULADO', 40, doc.y, { width, align: 'center' });
+          doc.moveDown(0.8);
+        }
+
+        const row = (label: string, value: string) => {
+          const y = doc.y;
+          doc
+            .fontSize(10)
+            .fillColor('#7f8c8d')
+            .font('Helvetica')
+            .text(label, 40, y, { width: 140 });
+          doc
+            .fillColor('#2c3e50')
+            .font('Helvetica-Bold')
+            .text(value, 180, y, { width: width - 140 });
+          doc.moveDown(0.4);
+        };
+
+        row(
+          'Fecha:',
+          DateUtil.fromJSDate(data.paymentDate).toFormat('dd/MM/yyyy HH:mm'),
+        );
+        row('Cliente:', data.clientName);
+        if (data.clientDni) {
+          row('DNI:', data.clientDni);
+        }
+        row('Préstamo:', data.loanTrack);
+        row(
+          'Cuota:',
+          data.isEarlyPayoff
+            ? 'Cancelación anticipada'
+            : `${data.paymentNumber} de ${data.totalPayments}`,
+        );
+        row(
+          'Medio de pago:',
+          PAYMENT_METHOD_LABELS[data.paymentMethod] ?? data.paymentMethod,
+        );
+        if (data.externalReference) {
+          row('Referencia:', data.externalReference);
+        }
+        if (data.payerName) {
+          row('Pagado por:', data.payerName);
+        }
+        if (data.collectorName) {
+          row('Cobrador:', data.collectorName);
+        }
+
+        doc.moveDown(0.5);
+        doc
+          .moveTo(40, doc.y)
+          .lineTo(doc.page.width - 40, doc.y)
+          .strokeColor('#cccccc')
+          .lineWidth(1)
+          .stroke();
+        doc.moveDown(0.8);
+
+        row('Monto recibido:', money(data.amount));
+        if (data.penaltyAmount > 0) {
+          row('Incluye punitorios:', money(data.penaltyAmount));
+        }
+        row('Saldo de la cuota:', money(data.installmentBalance));
+        row('Saldo del préstamo:', money(data.loanBalance));
+
+        doc.moveDown(1);
+        doc
+          .fontSize(9)
+          .fillColor('#7f8c8d')
+          .font('Helvetica')
+          .text(
+            `Saldos al ${DateUtil.now().toFormat('dd/MM/yyyy HH:mm')} hs.`,
+            40,
+            doc.y,
+            { width },
+          );
+
+        // Código de verificación
+        doc.moveDown(1.5);
+        doc
+          .fontSize(10)
+          .fillColor('#2c3e50')
+          .font('Helvetica')
+          .text('Código de verificación', 40, doc.y, {
+            width,
+            align: 'center',
+          });
+        doc
+          .fontSize(20)
+          .font('Helvetica-Bold')
+          .text(data.verificationCode, 40, doc.y, {
+            width,
+            align: 'center',
+          });
+        doc.moveDown(0.5);
+        doc
+          .fontSize(8)
+          .fillColor('#95a5a6')
+          .font('Helvetica')
+          .text(
+            'Puede verificar este recibo en el seguimiento de su préstamo ingresando su DNI, ' +
+              'el código del préstamo y este código de verificación.',
+            40,
+            doc.y,
+            { width, align: 'center' },
+          );
+
+        doc.end();
+      } catch (error) {
+        reject(error instanceof Error ? error : new Error(String(error)));
+      }
+    });
+  }
+}
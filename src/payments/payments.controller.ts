@@ -8,6 +8,9 @@ import {
   Param,
   UseGuards,
   Request,
+  Query,
+  Headers,
+  Res,
 } from '@nestjs/common';
 import {
   ApiTags,
@@ -15,9 +18,21 @@ import {
   ApiResponse,
   ApiBearerAuth,
   ApiParam,
+  ApiQuery,
+  ApiHeader,
 } from '@nestjs/swagger';
+import { Response } from 'express';
 import { PaymentsService } from './payments.service';
-import { RegisterPaymentDto, BulkPaymentDto } from './dto';
+import { PaymentReceiptService } from './payment-receipt.service';
+import { IdempotencyService } from '../idempotency/idempotency.service';
+import {
+  RegisterPaymentDto,
+  BulkPaymentDto,
+  LoanPayoffDto,
+  EmailReceiptDto,
+  VoidPaymentDto,
+  ApplyClientCreditDto,
+} from './dto';
 import { JwtAuthGuard } from '../common/guards/jwt-auth.guard';
 import { RolesGuard } from '../common/guards/roles.guard';
 import { Roles } from '../common/decorators/roles.decorator';
@@ -28,7 +43,11 @@ import { UserRole } from '../common/enums';
 @Controller('payments')
 @UseGuards(JwtAuthGuard, RolesGuard)
 export class PaymentsController {
-  constructor(private readonly paymentsService: PaymentsService) {}
+  constructor(
+    private readonly paymentsService: PaymentsService,
+    private readonly idempotencyService: IdempotencyService,
+    private readonly paymentReceiptService: PaymentReceiptService,
+  ) {}
 
   @Post('register')
   @Roles(
@@ -41,7 +60,9 @@ export class PaymentsController {
     summary: 'Registrar un pago para un SubLoan',
     description:
       'Registra un pago que puede ser parcial, exacto o con excedente. ' +
-      'Los excedentes se distribuyen automáticamente a SubLoans anteriores PARTIAL.',
+      'Los excedentes se distribuyen automáticamente a SubLoans anteriores PARTIAL; ' +
+      'lo que supera el saldo del préstamo queda como saldo a favor del cliente. ' +
+      'Con paymentMethod CLIENT_CREDIT el pago se imputa desde el saldo a favor.',
   })
   @ApiResponse({
     status: 201,
@@ -59,14 +80,36 @@ export class PaymentsController {
     status: 404,
     description: 'SubLoan no encontrado',
   })
+  @ApiResponse({
+    status: 409,
+    description: 'Ya hay una solicitud en proceso con la misma Idempotency-Key',
+  })
+  @ApiHeader({
+    name: 'Idempotency-Key',
+    required: false,
+    description:
+      'Identificador único del intento de pago. Si se reintenta con la misma key y el mismo contenido, ' +
+      'se devuelve la respuesta original sin volver a registrar el pago.',
+  })
   async registerPayment(
     @Request() req: any,
     @Body() registerPaymentDto: RegisterPaymentDto,
+    @Headers('idempotency-key') idempotencyKey?: string,
   ) {
-    return this.paymentsService.registerPayment(
-      req.user.id,
-      req.user.role,
-      registerPaymentDto,
+    return this.idempotencyService.execute(
+      {
+        key: idempotencyKey,
+        userId: req.user.id,
+        endpoint: 'POST /payments/register',
+        payload: registerPaymentDto,
+      },
+      ({ saveResponse }) =>
+        this.paymentsService.registerPayment(
+          req.user.id,
+          req.user.role,
+          registerPaymentDto,
+          saveResponse,
+        ),
     );
   }
 
@@ -79,20 +122,51 @@ export class PaymentsController {
   )
   @ApiOperation({
     summary: 'Registrar múltiples pagos a la vez',
-    description: 'Permite registrar varios pagos en una sola operación.',
+    description:
+      'Permite registrar varios pagos en una sola operación. Por defecto cada pago se registra por separado ' +
+      'y el resultado informa cuáles fallaron. Con atomic: true se validan todos los pagos antes de escribir ' +
+      '(si alguno tiene errores se devuelven por ítem y no se registra nada) y el lote se aplica en una única ' +
+      'transacción: si un pago falla se revierte el lote completo.',
   })
   @ApiResponse({
     status: 201,
     description: 'Pagos procesados',
   })
+  @ApiResponse({
+    status: 400,
+    description:
+      'Lote atómico: un pago falló al aplicarse y no se registró ninguno',
+  })
+  @ApiResponse({
+    status: 409,
+    description: 'Ya hay una solicitud en proceso con la misma Idempotency-Key',
+  })
+  @ApiHeader({
+    name: 'Idempotency-Key',
+    required: false,
+    description:
+      'Identificador único del intento de pago. Si se reintenta con la misma key y el mismo contenido, ' +
+      'se devuelve la respuesta original sin volver a registrar el pago.',
+  })
   async registerBulkPayments(
     @Request() req: any,
     @Body() bulkPaymentDto: BulkPaymentDto,
+    @Headers('idempotency-key') idempotencyKey?: string,
   ) {
-    return this.paymentsService.registerBulkPayments(
-      req.user.id,
-      req.user.role,
-      bulkPaymentDto,
+    return this.idempotencyService.execute(
+      {
+        key: idempotencyKey,
+        userId: req.user.id,
+        endpoint: 'POST /payments/bulk-register',
+        payload: bulkPaymentDto,
+      },
+      (idempotency) =>
+        this.paymentsService.registerBulkPayments(
+          req.user.id,
+          req.user.role,
+          bulkPaymentDto,
+          idempotency,
+        ),
     );
   }
 
@@ -229,4 +303,292 @@ export class PaymentsController {
       req.user.role,
     );
   }
+
+  @Get('loan/:loanId/payoff-quote')
+  @Roles(
+    UserRole.MANAGER,
+    UserRole.SUBADMIN,
+    UserRole.ADMIN,
+    UserRole.SUPERADMIN,
+  )
+  @ApiOperation({
+    summary: 'Cotizar la cancelación anticipada de un préstamo',
+    description:
+      'Calcula el capital pendiente, el interés devengado de las cuotas vencidas, ' +
+      'el porcentaje configurado del interés no devengado y los punitorios pendientes.',
+  })
+  @ApiParam({
+    name: 'loanId',
+    description: 'ID del préstamo',
+    type: String,
+  })
+  @ApiQuery({
+    name: 'paymentDate',
+    required: false,
+    description:
+      'Fecha de la cancelación (por defecto hoy, zona horaria Buenos Aires)',
+    example: '2024-01-15T00:00:00.000Z',
+  })
+  @ApiResponse({
+    status: 200,
+    description: 'Cotización calculada exitosamente',
+  })
+  @ApiResponse({
+    status: 400,
+    description: 'El préstamo no está activo o no tiene cuotas pendientes',
+  })
+  @ApiResponse({
+    status: 403,
+    description: 'No tienes acceso a este préstamo',
+  })
+  @ApiResponse({
+    status: 404,
+    description: 'Préstamo no encontrado',
+  })
+  async getLoanPayoffQuote(
+    @Request() req: any,
+    @Param('loanId') loanId: string,
+    @Query('paymentDate') paymentDate?: string,
+  ) {
+    return this.paymentsService.getLoanPayoffQuote(
+      loanId,
+      req.user.id,
+      req.user.role,
+      paymentDate,
+    );
+  }
+
+  @Post('loan/:loanId/payoff')
+  @Roles(
+    UserRole.MANAGER,
+    UserRole.SUBADMIN,
+    UserRole.ADMIN,
+    UserRole.SUPERADMIN,
+  )
+  @ApiOperation({
+    summary: 'Cancelar anticipadamente un préstamo',
+    description:
+      'Registra un único pago por el total cotizado, cierra todas las cuotas pendientes ' +
+      'bonificando el interés no devengado y acredita el cobro en las wallets del manager.',
+  })
+  @ApiParam({
+    name: 'loanId',
+    description: 'ID del préstamo',
+    type: String,
+  })
+  @ApiResponse({
+    status: 201,
+    description: 'Préstamo cancelado exitosamente',
+  })
+  @ApiResponse({
+    status: 400,
+    description:
+      'El monto no coincide con la cotización o el préstamo no está activo',
+  })
+  @ApiResponse({
+    status: 403,
+    description: 'No tienes acceso a este préstamo',
+  })
+  @ApiResponse({
+    status: 404,
+    description: 'Préstamo no encontrado',
+  })
+  async settleLoanPayoff(
+    @Request() req: any,
+    @Param('loanId') loanId: string,
+    @Body() loanPayoffDto: LoanPayoffDto,
+  ) {
+    return this.paymentsService.settleLoanPayoff(
+      req.user.id,
+      req.user.role,
+      loanId,
+      loanPayoffDto,
+    );
+  }
+
+  @Post('client-credit/apply')
+  @Roles(
+    UserRole.MANAGER,
+    UserRole.SUBADMIN,
+    UserRole.ADMIN,
+    UserRole.SUPERADMIN,
+  )
+  @ApiOperation({
+    summary: 'Imputar saldo a favor del cliente',
+    description:
+      'Imputa el saldo a favor del cliente a una cuota, o a un préstamo (por ejemplo, uno nuevo) ' +
+      'desde su primera cuota impaga. Se registra como un pago con método CLIENT_CREDIT ' +
+      'que no ingresa dinero a las wallets de cobro.',
+  })
+  @ApiResponse({
+    status: 201,
+    description: 'Saldo a favor imputado exitosamente',
+  })
+  @ApiResponse({
+    status: 400,
+    description: 'Saldo a favor insuficiente o sin cuotas pendientes',
+  })
+  @ApiResponse({
+    status: 403,
+    description: 'No tienes acceso a este préstamo',
+  })
+  @ApiResponse({
+    status: 404,
+    description: 'SubLoan no encontrado',
+  })
+  async applyClientCredit(
+    @Request() req: any,
+    @Body() applyDto: ApplyClientCreditDto,
+  ) {
+    return this.paymentsService.applyClientCredit(
+      req.user.id,
+      req.user.role,
+      applyDto,
+    );
+  }
+
+  @Post(':paymentId/void')
+  @Roles(UserRole.SUBADMIN, UserRole.ADMIN, UserRole.SUPERADMIN)
+  @ApiOperation({
+    summary: 'Anular un pago',
+    description:
+      'Anula un pago puntual, aunque sea de un día anterior. Revierte su imputación en ' +
+      'todas las cuotas alcanzadas (incluido el excedente adelantado a cuotas posteriores) ' +
+      'y registra los contramovimientos en la wallet y la collector wallet del manager. ' +
+      'El pago se conserva con estado VOIDED, el motivo y el usuario que lo anuló.',
+  })
+  @ApiParam({
+    name: 'paymentId',
+    description: 'ID del pago a anular',
+    type: String,
+  })
+  @ApiResponse({
+    status: 201,
+    description: 'Pago anulado exitosamente',
+  })
+  @ApiResponse({
+    status: 400,
+    description:
+      'El pago ya fue anulado, es una cancelación anticipada o el préstamo fue refinanciado',
+  })
+  @ApiResponse({
+    status: 403,
+    description: 'No tienes acceso a este préstamo',
+  })
+  @ApiResponse({
+    status: 404,
+    description: 'Pago no encontrado',
+  })
+  async voidPayment(
+    @Request() req: any,
+    @Param('paymentId') paymentId: string,
+    @Body() voidPaymentDto: VoidPaymentDto,
+  ) {
+    return this.paymentsService.voidPayment(
+      paymentId,
+      req.user.id,
+      req.user.role,
+      voidPaymentDto,
+    );
+  }
+
+  @Get(':paymentId/receipt')
+  @Roles(
+    UserRole.MANAGER,
+    UserRole.SUBADMIN,
+    UserRole.ADMIN,
+    UserRole.SUPERADMIN,
+  )
+  @ApiOperation({
+    summary: 'Descargar recibo de un pago en PDF',
+    description:
+      'Genera el recibo numerado del pago con cliente, préstamo, cuota, monto, ' +
+      'saldo restante y código de verificación.',
+  })
+  @ApiParam({
+    name: 'paymentId',
+    description: 'ID del pago',
+    type: String,
+  })
+  @ApiResponse({
+    status: 200,
+    description: 'PDF del recibo',
+    content: { 'application/pdf': {} },
+  })
+  @ApiResponse({
+    status: 403,
+    description: 'No tienes acceso a este pago',
+  })
+  @ApiResponse({
+    status: 404,
+    description: 'Pago no encontrado',
+  })
+  async downloadReceipt(
+    @Request() req: any,
+    @Param('paymentId') paymentId: string,
+    @Res() res: Response,
+  ) {
+    const receipt = await this.paymentReceiptService.generateReceipt(
+      paymentId,
+      req.user.id,
+      req.user.role,
+    );
+    const pdfBuffer = Buffer.from(receipt.pdfBase64, 'base64');
+
+    res.setHeader('Content-Type', 'application/pdf');
+    res.setHeader(
+      'Content-Disposition',
+      `attachment; filename="${receipt.filename}"`,
+    );
+    res.setHeader('Content-Length', pdfBuffer.length);
+
+    return res.send(pdfBuffer);
+  }
+
+  @Post(':paymentId/receipt/email')
+  @Roles(
+    UserRole.MANAGER,
+    UserRole.SUBADMIN,
+    UserRole.ADMIN,
+    UserRole.SUPERADMIN,
+  )
+  @ApiOperation({
+    summary: 'Enviar recibo de un pago por email',
+    description:
+      'Envía el PDF del recibo a los destinatarios indicados o, si no se indican, ' +
+      'al email del cliente.',
+  })
+  @ApiParam({
+    name: 'paymentId',
+    description: 'ID del pago',
+    type: String,
+  })
+  @ApiResponse({
+    status: 201,
+    description: 'Recibo encolado para envío',
+  })
+  @ApiResponse({
+    status: 400,
+    description: 'El cliente no tiene email y no se indicaron destinatarios',
+  })
+  @ApiResponse({
+    status: 403,
+    description: 'No tienes acceso a este pago',
+  })
+  @ApiResponse({
+    status: 404,
+    description: 'Pago no encontrado',
+  })
+  async emailReceipt(
+    @Request() req: any,
+    @Param('paymentId') paymentId: string,
+    @Body() emailReceiptDto: EmailReceiptDto,
+  ) {
+    return this.paymentReceiptService.emailReceipt(
+      paymentId,
+      req.user.id,
+      req.user.role,
+      emailReceiptDto.recipients,
+    );
+  }
 }
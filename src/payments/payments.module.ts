@@ -1,14 +1,30 @@
 import { Module } from '@nestjs/common';
 import { PaymentsService } from './payments.service';
+import { PaymentReceiptService } from './payment-receipt.service';
+import { PaymentAllocationService } from './payment-allocation.service';
 import { PaymentsController } from './payments.controller';
 import { PrismaModule } from '../prisma/prisma.module';
 import { WalletModule } from '../wallet/wallet.module';
 import { CollectorWalletModule } from '../collector-wallet/collector-wallet.module';
+import { LoansModule } from '../loans/loans.module';
+import { SystemConfigModule } from '../system-config/system-config.module';
+import { IdempotencyModule } from '../idempotency/idempotency.module';
+import { ClientsModule } from '../clients/clients.module';
+import { CollectionRoutesModule } from '../collection-routes/collection-routes.module';
 
 @Module({
-  imports: [PrismaModule, WalletModule, CollectorWalletModule],
+  imports: [
+    PrismaModule,
+    WalletModule,
+    CollectorWalletModule,
+    LoansModule,
+    SystemConfigModule,
+    IdempotencyModule,
+    ClientsModule,
+    CollectionRoutesModule,
+  ],
   controllers: [PaymentsController],
-  providers: [PaymentsService],
+  providers: [PaymentsService, PaymentReceiptService, PaymentAllocationService],
   exports: [PaymentsService],
 })
 export class PaymentsModule {}
@@ -0,0 +1,156 @@
+import { Test, TestingModule } from '@nestjs/testing';
+import { Prisma } from '@prisma/client';
+import { PrismaService } from '../prisma/prisma.service';
+import { WalletService } from '../wallet/wallet.service';
+import { CollectorWalletService } from '../collector-wallet/collector-wallet.service';
+import { LoansService } from '../loans/loans.service';
+import { SystemConfigService } from '../system-config/system-config.service';
+import { PaymentReceiptService } from './payment-receipt.service';
+import { PaymentAllocationService } from './payment-allocation.service';
+import { ClientCreditService } from '../clients/client-credit.service';
+import { RouteDelegationService } from '../collection-routes/route-delegation.service';
+import { Currency, LoanStatus, UserRole } from '../common/enums';
+import { LoanPayoffQuote, PaymentsService } from './payments.service';
+
+const subLoan = (
+  paymentNumber: number,
+  dueDate: string,
+  values: { paidAmount?: number; penaltyAmount?: number; penaltyPaid?: number },
+) => ({
+  id: `sub-${paymentNumber}`,
+  paymentNumber,
+  dueDate: new Date(dueDate),
+  totalAmount: new Prisma.Decimal(100),
+  interestAmount: new Prisma.Decimal(20),
+  paidAmount: new Prisma.Decimal(values.paidAmount ?? 0),
+  penaltyAmount: new Prisma.Decimal(values.penaltyAmount ?? 0),
+  penaltyPaid: new Prisma.Decimal(values.penaltyPaid ?? 0),
+});
+
+describe('PaymentsService', () => {
+  let service: PaymentsService;
+  let prisma: { loan: { findFirst: jest.Mock } };
+  let systemConfigService: { getConfig: jest.Mock };
+
+  // Cotización al 10 de febrero: la cuota 1 ya venció (con 10 pagados y punitorios),
+  // las cuotas 2 y 3 todavía no
+  const loan = {
+    id: 'loan-1',
+    loanTrack: 'LN-2026-0001',
+    currency: 'ARS',
+    managerId: 'manager-1',
+    status: LoanStatus.ACTIVE,
+    subLoans: [
+      subLoan(1, '2026-02-05T15:00:00.000Z', {
+        paidAmount: 10,
+        penaltyAmount: 3,
+        penaltyPaid: 1,
+      }),
+      subLoan(2, '2026-02-15T15:00:00.000Z', {}),
+      subLoan(3, '2026-02-20T15:00:00.000Z', {}),
+    ],
+  };
+  const quoteDate = '2026-02-10T12:00:00-03:00';
+
+  beforeEach(async () => {
+    prisma = { loan: { findFirst: jest.fn().mockResolvedValue(loan) } };
+    systemConfigService = { getConfig: jest.fn().mockResolvedValue(25) };
+
+    const module: TestingModule = await Test.createTestingModule({
+      providers: [
+        PaymentsService,
+        { provide: PrismaService, useValue: prisma },
+        { provide: WalletService, useValue: {} },
+        { provide: CollectorWalletService, useValue: {} },
+        { provide: LoansService, useValue: {} },
+        { provide: SystemConfigService, useValue: systemConfigService },
+        { provide: PaymentReceiptService, useValue: {} },
+        { provide: PaymentAllocationService, useValue: {} },
+        { provide: ClientCreditService, useValue: {} },
+        { provide: RouteDelegationService, useValue: {} },
+      ],
+    }).compile();
+
+    service = module.get<PaymentsService>(PaymentsService);
+  });
+
+  describe('getLoanPayoffQuote', () => {
+    it('should charge due installments in full and only the configured share of unearned interest', async () => {
+      const quote = (await service.getLoanPayoffQuote(
+        'loan-1',
+        'admin-1',
+        UserRole.ADMIN,
+        quoteDate,
+      )) as LoanPayoffQuote;
+
+      expect(quote).toMatchObject({
+        unearnedInterestPercent: 25,
+        remainingPrincipal: 240,
+        earnedInterest: 10,
+        unearnedInterest: 40,
+        chargedUnearnedInterest: 10,
+        interestRebate: 30,
+        pendingPenalty: 2,
+        total: 262,
+      });
+      expect(quote.installments).toEqual([
+        expect.objectContaining({ isDue: true, amount: 92 }),
+        expect.objectContaining({
+          isDue: false,
+          interestRebate: 15,
+          amount: 85,
+        }),
+        expect.objectContaining({
+          isDue: false,
+          interestRebate: 15,
+          amount: 85,
+        }),
+      ]);
+    });
+
+    it('should cap the unearned interest percent at 100', async () => {
+      systemConfigService.getConfig.mockResolvedValue(150);
+
+      const quote = (await service.getLoanPayoffQuote(
+        'loan-1',
+        'admin-1',
+        UserRole.ADMIN,
+        quoteDate,
+      )) as LoanPayoffQuote;
+
+      expect(quote).toMatchObject({
+        unearnedInterestPercent: 100,
+        interestRebate: 0,
+        total: 292,
+      });
+    });
+
+    it('should reject managers quoting loans they do not manage', async () => {
+      await expect(
+        service.getLoanPayoffQuote(
+          'loan-1',
+          'manager-2',
+          UserRole.MANAGER,
+          quoteDate,
+        ),
+      ).rejects.toThrow('No tienes acceso a este préstamo');
+    });
+  });
+
+  describe('registerBulkPayments', () => {
+    it('should reject atomic batches over the limit', async () => {
+      const payments = Array.from({ length: 81 }, (_, index) => ({
+        subLoanId: `sub-${index + 1}`,
+        amount: 100,
+        currency: Currency.ARS,
+      }));
+
+      await expect(
+        service.registerBulkPayments('admin-1', UserRole.ADMIN, {
+          payments,
+          atomic: true,
+        }),
+      ).rejects.toThrow('Un lote atómico admite hasta 80 pagos');
+    });
+  });
+});
@@ -7,32 +7,151 @@ import {
 import { PrismaService } from '../prisma/prisma.service';
 import { WalletService } from '../wallet/wallet.service';
 import { CollectorWalletService } from '../collector-wallet/collector-wallet.service';
-import { RegisterPaymentDto, BulkPaymentDto } from './dto';
-import { Prisma, SubLoanStatus, UserRole } from '@prisma/client';
+import { LoansService } from '../loans/loans.service';
+import {
+  RegisterPaymentDto,
+  BulkPaymentDto,
+  LoanPayoffDto,
+  VoidPaymentDto,
+  ApplyClientCreditDto,
+} from './dto';
+import {
+  Currency,
+  LoanStatus,
+  PaymentMethod,
+  PaymentStatus,
+  Prisma,
+  SubLoanStatus,
+  UserRole,
+} from '@prisma/client';
 import { DateUtil } from '../common/utils';
-import { WalletTransactionType, CollectorWalletTransactionType } from '../common/enums';
+import { RouteDelegationWallet, WalletTransactionType } from '../common/enums';
+import { ConfigKey } from '../common/enums/config-key.enum';
+import { SystemConfigService } from '../system-config/system-config.service';
+import { DateTime } from 'luxon';
+import { PaymentReceiptService } from './payment-receipt.service';
+import { PaymentAllocationService } from './payment-allocation.service';
+import { ClientCreditService } from '../clients/client-credit.service';
+import { RouteDelegationService } from '../collection-routes/route-delegation.service';
+import {
+  IdempotencyContext,
+  SaveIdempotentResponse,
+} from '../idempotency/idempotency.service';
+
+/**
+ * Opciones del registro de un pago
+ */
+export interface RegisterPaymentOptions {
+  // Un pago sobre una cuota pagada hoy reemplaza al último pago del día (corrección del
+  // cobrador). Los registros automáticos lo desactivan: la cuota pagada se rechaza.
+  replaceSameDayPayment?: boolean;
+}
+
+/**
+ * Detalle por cuota de una cotización de cancelación anticipada
+ */
+export interface PayoffInstallmentQuote {
+  subLoanId: string;
+  paymentNumber: number;
+  dueDate: Date;
+  isDue: boolean;
+  pendingCapital: number;
+  pendingInterest: number;
+  chargedInterest: number;
+  interestRebate: number;
+  pendingPenalty: number;
+  amount: number;
+}
+
+/**
+ * Cotización de cancelación anticipada de un préstamo
+ */
+export interface LoanPayoffQuote {
+  unearnedInterestPercent: number;
+  remainingPrincipal: number;
+  earnedInterest: number;
+  unearnedInterest: number;
+  chargedUnearnedInterest: number;
+  interestRebate: number;
+  pendingPenalty: number;
+  total: number;
+  installments: PayoffInstallmentQuote[];
+}
 
 @Injectable()
 export class PaymentsService {
+  // Pagos por lote atómico. Su transacción puede durar 30 s de espera + 30 s + 5 s por
+  // pago: con este tope termina antes de los 10 minutos tras los que una Idempotency-Key
+  // pendiente se puede retomar, así un reintento nunca vuelve a ejecutar un lote en curso
+  private static readonly MAX_ATOMIC_BULK_PAYMENTS = 80;
+
   constructor(
     private prisma: PrismaService,
     private walletService: WalletService,
     private collectorWalletService: CollectorWalletService,
+    private loansService: LoansService,
+    private systemConfigService: SystemConfigService,
+    private paymentReceiptService: PaymentReceiptService,
+    private paymentAllocationService: PaymentAllocationService,
+    private clientCreditService: ClientCreditService,
+    private routeDelegationService: RouteDelegationService,
   ) {}
 
   /**
-   * Registrar un pago para un SubLoan con lógica de distribución de excedentes
+   * Registrar un pago para un SubLoan con lógica de distribución de excedentes.
+   * saveResponse se ejecuta dentro de la transacción del pago con la respuesta final
+   * (por ejemplo, para guardarla en la Idempotency-Key).
    */
   async registerPayment(
     userId: string,
     userRole: UserRole,
     registerPaymentDto: RegisterPaymentDto,
+    saveResponse?: SaveIdempotentResponse<any>,
+    options: RegisterPaymentOptions = {},
   ): Promise<any> {
-    const { subLoanId, amount, currency, paymentDate, description } =
+    const { response, loanStatusTransition } = await this.prisma.$transaction(
+      async (tx) => {
+        const processed = await this.processPayment(
+          userId,
+          userRole,
+          registerPaymentDto,
+          tx,
+          options,
+        );
+        await saveResponse?.(tx, processed.response);
+        return processed;
+      },
+      {
+        maxWait: 30000, // 30 segundos máximo de espera para iniciar la transacción
+        timeout: 30000, // 30 segundos máximo de ejecución de la transacción
+      },
+    );
+
+    await this.loansService.logLoanStatusTransitions([loanStatusTransition], {
+      id: userId,
+      role: userRole,
+    });
+
+    return response;
+  }
+
+  /**
+   * Valida un pago sin escribir nada (SubLoan, acceso, moneda, manager y saldo a favor)
+   * y arma el contexto del registro, incluido el pago del mismo día a revertir
+   * si la cuota ya estaba pagada (salvo que options lo desactive)
+   */
+  private async preparePayment(
+    prismaClient: Prisma.TransactionClient,
+    userId: string,
+    userRole: UserRole,
+    registerPaymentDto: RegisterPaymentDto,
+    options: RegisterPaymentOptions = {},
+  ) {
+    const { subLoanId, amount, currency, paymentDate, paymentMethod } =
       registerPaymentDto;
 
     // Obtener el SubLoan con su Loan y Client
-    const subLoan = await this.prisma.subLoan.findUnique({
+    const subLoan = await prismaClient.subLoan.findUnique({
       where: { id: subLoanId },
       include: {
         loan: {
@@ -57,10 +176,33 @@ export class PaymentsService {
       throw new BadRequestException('SubLoan eliminado');
     }
 
-    // Validar que el usuario tenga acceso al préstamo
+    if (subLoan.loan.status === LoanStatus.REFINANCED) {
+      throw new BadRequestException(
+        'El préstamo fue refinanciado: los pagos se registran en el préstamo nuevo',
+      );
+    }
+
+    // Validar que el usuario tenga acceso al préstamo. Otro manager solo puede cobrar
+    // como suplente, con la ruta del manager delegada para el día del pago.
+    let delegation: Awaited<
+      ReturnType<RouteDelegationService['findActiveDelegation']>
+    > = null;
     if (userRole === UserRole.MANAGER) {
       if (subLoan.loan.managerId !== userId) {
-        throw new ForbiddenException('No tienes acceso a este préstamo');
+        if (subLoan.loan.managerId) {
+          delegation = await this.routeDelegationService.findActiveDelegation(
+            subLoan.loan.managerId,
+            userId,
+            paymentDate
+              ? DateUtil.fromISO(paymentDate).toJSDate()
+              : DateUtil.now().toJSDate(),
+            prismaClient,
+          );
+        }
+
+        if (!delegation) {
+          throw new ForbiddenException('No tienes acceso a este préstamo');
+        }
       }
     }
 
@@ -68,18 +210,35 @@ export class PaymentsService {
     let shouldRevertLastPayment = false;
     let lastPayment: any = null;
     let lastPaymentAmount = 0;
+    let lastPaymentPenaltyAmount = 0;
+
+    if (
+      subLoan.status === SubLoanStatus.PAID &&
+      options.replaceSameDayPayment === false
+    ) {
+      throw new BadRequestException(
+        'Este SubLoan ya está completamente pagado',
+      );
+    }
 
     if (subLoan.status === SubLoanStatus.PAID) {
       // Obtener el último pago del subpréstamo
-      const payments = await this.prisma.payment.findMany({
-        where: { subLoanId },
+      const payments = await prismaClient.payment.findMany({
+        where: { subLoanId, status: PaymentStatus.COMPLETED },
         orderBy: { paymentDate: 'desc' },
         take: 1,
       });
 
       if (payments.length > 0) {
         lastPayment = payments[0];
+
+        if (lastPayment.isEarlyPayoff) {
+          throw new BadRequestException(
+            'Este SubLoan fue cancelado anticipadamente y no admite nuevos pagos',
+          );
+        }
         lastPaymentAmount = Number(lastPayment.amount);
+        lastPaymentPenaltyAmount = Number(lastPayment.penaltyAmount);
 
         // Verificar si el último pago fue hoy
         const lastPaymentDate = DateUtil.fromPrismaDate(lastPayment.paymentDate);
@@ -119,9 +278,86 @@ export class PaymentsService {
       throw new BadRequestException('El préstamo no tiene manager asignado');
     }
 
+    // Pago con saldo a favor: el cliente debe tener saldo suficiente en la moneda
+    const isCreditPayment = paymentMethod === PaymentMethod.CLIENT_CREDIT;
+    if (isCreditPayment) {
+      const availableCredit = await this.clientCreditService.getAvailable(
+        subLoan.loan.clientId,
+        currency,
+        prismaClient,
+      );
+      if (availableCredit < amount) {
+        throw new BadRequestException(
+          `Saldo a favor insuficiente: disponible ${availableCredit.toFixed(2)} ${currency}`,
+        );
+      }
+    }
+
+    return {
+      subLoan,
+      managerId,
+      delegation,
+      isCreditPayment,
+      shouldRevertLastPayment,
+      lastPayment,
+      lastPaymentAmount,
+      lastPaymentPenaltyAmount,
+    };
+  }
+
+  /**
+   * Registra el pago dentro de la transacción recibida (lotes atómicos) o en una propia.
+   * No audita los cambios de estado del préstamo: lo hace quien llama, después del commit.
+   */
+  private async processPayment(
+    userId: string,
+    userRole: UserRole,
+    registerPaymentDto: RegisterPaymentDto,
+    transaction?: Prisma.TransactionClient,
+    options: RegisterPaymentOptions = {},
+  ) {
+    const {
+      subLoanId,
+      amount,
+      currency,
+      paymentDate,
+      description,
+      paymentMethod,
+      externalReference,
+      payerName,
+    } = registerPaymentDto;
+    const prismaClient = transaction || this.prisma;
+
+    const {
+      subLoan,
+      managerId,
+      delegation,
+      isCreditPayment,
+      shouldRevertLastPayment,
+      lastPayment,
+      lastPaymentAmount,
+      lastPaymentPenaltyAmount,
+    } = await this.preparePayment(
+      prismaClient,
+      userId,
+      userRole,
+      registerPaymentDto,
+      options,
+    );
+
+    // Con la ruta delegada, el cobro queda en la collector wallet del suplente si así
+    // se indicó en la delegación, y su descripción deja constancia de quién cobró
+    const collectorUserId =
+      delegation?.walletTarget === RouteDelegationWallet.SUBSTITUTE
+        ? delegation.substituteId
+        : managerId;
+    const collectedBy = delegation
+      ? ` (cobró ${delegation.substitute.fullName} en reemplazo de ${delegation.manager.fullName})`
+      : '';
+
     // Realizar el pago y distribución en transacción
     // Timeout aumentado a 30 segundos para transacciones complejas
-    const result = await this.prisma.$transaction(async (tx) => {
+    const result = await this.runInTransaction(transaction, async (tx) => {
       // 0. Si necesitamos revertir el último pago, hacerlo primero
       if (shouldRevertLastPayment && lastPayment) {
         // Revertir el crédito en la wallet del manager
@@ -133,37 +369,22 @@ export class PaymentsService {
           transaction: tx,
         });
 
-        // Revertir el registro en collector wallet
-        const collectorWallet = await this.collectorWalletService.getOrCreateWallet(
-          managerId,
-          tx,
-        );
-        const collectorBalanceBefore = Number(collectorWallet.balance);
-        const collectorBalanceAfter = collectorBalanceBefore - lastPaymentAmount;
-
-        await tx.collectorWallet.update({
-          where: { id: collectorWallet.id },
-          data: {
-            balance: {
-              decrement: new Prisma.Decimal(lastPaymentAmount),
-            },
-          },
+        // Revertir el registro en collector wallet (o saldo bancario si no fue en efectivo)
+        await this.reverseCollectedAmount(tx, {
+          managerId: lastPayment.collectorWalletUserId ?? managerId,
+          loan: subLoan.loan,
+          amount: lastPaymentAmount,
+          paymentMethod: lastPayment.paymentMethod,
+          description: `Reversión cobro préstamo ${subLoan.loan.client.fullName} - Cuota #${subLoan.paymentNumber}`,
+          subLoanId,
         });
 
-        // Crear transacción de reversión en collector wallet
-        await tx.collectorWalletTransaction.create({
-          data: {
-            walletId: collectorWallet.id,
-            userId: managerId,
-            type: CollectorWalletTransactionType.PAYMENT_RESET,
-            amount: new Prisma.Decimal(-lastPaymentAmount), // Negativo para indicar reversión
-            currency: collectorWallet.currency,
-            description: `Reversión cobro préstamo ${subLoan.loan.client.fullName} - Cuota #${subLoan.paymentNumber}`,
-            balanceBefore: new Prisma.Decimal(collectorBalanceBefore),
-            balanceAfter: new Prisma.Decimal(collectorBalanceAfter),
-            subLoanId,
-          },
-        });
+        // Revertir el saldo a favor que haya generado el excedente del pago
+        await this.clientCreditService.reverseOverpayments(
+          tx,
+          [lastPayment.id],
+          `Reversión excedente pago préstamo ${subLoan.loan.loanTrack} - Cuota #${subLoan.paymentNumber}`,
+        );
 
         // Calcular cuánto se aplicó realmente a este subpréstamo
         // Si el subpréstamo estaba parcialmente pagado antes del último pago,
@@ -177,14 +398,19 @@ export class PaymentsService {
           lastHistoryEntry && typeof lastHistoryEntry === 'object' && 'amount' in lastHistoryEntry
             ? Number(lastHistoryEntry.amount)
             : Math.min(
-                lastPaymentAmount,
+                lastPaymentAmount - lastPaymentPenaltyAmount,
                 Number(subLoan.totalAmount) -
-                  (Number(subLoan.paidAmount) - lastPaymentAmount),
+                  (Number(subLoan.paidAmount) -
+                    (lastPaymentAmount - lastPaymentPenaltyAmount)),
               );
 
         // Buscar otros subpréstamos del mismo préstamo que puedan haber recibido parte del excedente
         // (solo si el pago excedió el monto necesario para este subpréstamo)
-        const excessAmount = lastPaymentAmount - amountAppliedToThisSubLoan;
+        // La porción imputada a punitorios no forma parte del excedente
+        const excessAmount =
+          lastPaymentAmount -
+          lastPaymentPenaltyAmount -
+          amountAppliedToThisSubLoan;
         
         if (excessAmount > 0) {
           // Buscar subpréstamos parciales anteriores que puedan haber recibido el excedente
@@ -213,6 +439,7 @@ export class PaymentsService {
             ? await tx.payment.findMany({
                 where: {
                   subLoanId: { in: partialSubLoanIds },
+                  status: PaymentStatus.COMPLETED,
                   paymentDate: {
                     gte: paymentDateStart,
                     lte: paymentDateEnd,
@@ -289,6 +516,19 @@ export class PaymentsService {
           }
         }
 
+        // Punitorios cobrados por el pago revertido, por cuota según su imputación
+        const revertedPenalties =
+          await this.paymentAllocationService.getPenaltiesBySubLoan(tx, [
+            lastPayment,
+          ]);
+        for (const [penaltySubLoanId, penalty] of revertedPenalties) {
+          if (penaltySubLoanId === subLoanId) continue;
+          await tx.subLoan.update({
+            where: { id: penaltySubLoanId },
+            data: { penaltyPaid: { decrement: new Prisma.Decimal(penalty) } },
+          });
+        }
+
         // Eliminar el último pago del subpréstamo actual
         await tx.payment.delete({
           where: { id: lastPayment.id },
@@ -310,6 +550,12 @@ export class PaymentsService {
             paymentHistory: this.removeLastPaymentFromHistory(
               subLoan.paymentHistory,
             ),
+            // Devolver los punitorios que había cancelado el pago revertido
+            penaltyPaid: {
+              decrement: new Prisma.Decimal(
+                revertedPenalties.get(subLoanId) ?? 0,
+              ),
+            },
           },
         });
 
@@ -321,308 +567,243 @@ export class PaymentsService {
             : SubLoanStatus.PENDING;
       }
 
-      let remainingAmount = amount;
-      const distributedPayments: any[] = [];
-
-      // 1. Procesar el pago del SubLoan actual
-      const currentRemainingAmount =
-        Number(subLoan.totalAmount) - Number(subLoan.paidAmount);
+      // 1. Imputar el pago según la estrategia del préstamo (o la de su SUBADMIN)
+      const paidAt = paymentDate
+        ? DateUtil.parseToDate(paymentDate)
+        : DateUtil.now().toJSDate();
+      const { strategy: allocationStrategy, keepExcessAsCredit } =
+        await this.paymentAllocationService.resolvePolicy(subLoan.loanId, tx);
+      const installments =
+        await this.paymentAllocationService.getOpenInstallments(
+          tx,
+          subLoan.loanId,
+          subLoanId,
+        );
+      const { allocations, unallocated } =
+        this.paymentAllocationService.planAllocation({
+          strategy: allocationStrategy,
+          keepExcessAsCredit,
+          installments,
+          targetSubLoanId: subLoanId,
+          amount,
+          referenceDate: DateUtil.endOfDay(
+            DateUtil.fromJSDate(paidAt),
+          ).toJSDate(),
+        });
 
-      let updatedSubLoan: any;
+      // Lo que supera el saldo del préstamo (o de las cuotas vencidas, con
+      // keepExcessAsCredit) queda como saldo a favor del cliente
+      // (un pago con saldo a favor solo consume lo que se pudo imputar)
+      const paymentAmount = Number((amount - unallocated).toFixed(2));
+      if (paymentAmount <= 0) {
+        throw new BadRequestException(
+          'El préstamo no tiene saldo pendiente para imputar el pago',
+        );
+      }
 
-      if (remainingAmount >= currentRemainingAmount) {
-        // Pago completa o excede la cuota actual
-        updatedSubLoan = await tx.subLoan.update({
-          where: { id: subLoanId },
-          data: {
-            paidAmount: subLoan.totalAmount,
-            status: SubLoanStatus.PAID,
-            paidDate: paymentDate
-              ? DateUtil.parseToDate(paymentDate)
-              : DateUtil.now().toJSDate(),
-            paymentHistory: this.addToPaymentHistory(
-              subLoan.paymentHistory,
-              currentRemainingAmount,
-              0,
-              paymentDate,
-            ),
-          },
-        });
+      const distributedPayments: any[] = [];
+      let penaltyApplied = 0;
+
+      for (const allocation of allocations) {
+        const installment = installments.find(
+          (i) => i.id === allocation.subLoanId,
+        )!;
+        const applied = Number(
+          (allocation.interest + allocation.principal).toFixed(2),
+        );
+        penaltyApplied += allocation.penalty;
 
-        remainingAmount -= currentRemainingAmount;
+        if (applied <= 0) {
+          // El pago solo alcanzó para cubrir punitorios de esta cuota
+          await tx.subLoan.update({
+            where: { id: installment.id },
+            data: {
+              penaltyPaid: {
+                increment: new Prisma.Decimal(allocation.penalty),
+              },
+            },
+          });
+          continue;
+        }
 
-        distributedPayments.push({
-          subLoanId: subLoan.id,
-          paymentNumber: subLoan.paymentNumber,
-          distributedAmount: currentRemainingAmount,
-          newStatus: SubLoanStatus.PAID,
-          newPaidAmount: Number(subLoan.totalAmount),
-        });
-      } else {
-        // Pago parcial
-        const newPaidAmount = Number(subLoan.paidAmount) + remainingAmount;
-        const newRemainingAmount = Number(subLoan.totalAmount) - newPaidAmount;
+        const newPaidAmount = Number(
+          (Number(installment.paidAmount) + applied).toFixed(2),
+        );
+        const isPaid = newPaidAmount >= Number(installment.totalAmount);
 
-        updatedSubLoan = await tx.subLoan.update({
-          where: { id: subLoanId },
+        await tx.subLoan.update({
+          where: { id: installment.id },
           data: {
-            paidAmount: new Prisma.Decimal(newPaidAmount),
-            status: SubLoanStatus.PARTIAL,
+            paidAmount: isPaid
+              ? installment.totalAmount
+              : new Prisma.Decimal(newPaidAmount),
+            status: isPaid ? SubLoanStatus.PAID : SubLoanStatus.PARTIAL,
+            ...(isPaid ? { paidDate: paidAt } : {}),
+            ...(allocation.penalty > 0
+              ? {
+                  penaltyPaid: {
+                    increment: new Prisma.Decimal(allocation.penalty),
+                  },
+                }
+              : {}),
             paymentHistory: this.addToPaymentHistory(
-              subLoan.paymentHistory,
-              remainingAmount,
-              newRemainingAmount,
+              installment.paymentHistory,
+              applied,
+              isPaid ? 0 : Number(installment.totalAmount) - newPaidAmount,
               paymentDate,
             ),
           },
         });
 
         distributedPayments.push({
-          subLoanId: subLoan.id,
-          paymentNumber: subLoan.paymentNumber,
-          distributedAmount: remainingAmount,
-          newStatus: SubLoanStatus.PARTIAL,
-          newPaidAmount,
+          subLoanId: installment.id,
+          paymentNumber: installment.paymentNumber,
+          distributedAmount: applied,
+          newStatus: isPaid ? SubLoanStatus.PAID : SubLoanStatus.PARTIAL,
+          newPaidAmount: isPaid ? Number(installment.totalAmount) : newPaidAmount,
         });
-
-        remainingAmount = 0;
       }
+      penaltyApplied = Number(penaltyApplied.toFixed(2));
 
-      // 2. Si hay excedente, primero cubrir SubLoans ANTERIORES no pagados (OVERDUE/PENDING/PARTIAL)
-      // Regla: primero la cuota seleccionada, luego anteriores, luego futuras.
-      if (remainingAmount > 0) {
-        const previousSubLoans = await tx.subLoan.findMany({
-          where: {
-            loanId: subLoan.loanId,
-            paymentNumber: { lt: subLoan.paymentNumber },
-            status: {
-              in: [SubLoanStatus.OVERDUE, SubLoanStatus.PENDING, SubLoanStatus.PARTIAL],
-            },
-            deletedAt: null,
-          },
-          orderBy: { paymentNumber: 'desc' },
-        });
-
-        for (const prev of previousSubLoans) {
-          if (remainingAmount <= 0) break;
+      const updatedSubLoan = await tx.subLoan.findUnique({
+        where: { id: subLoanId },
+      });
 
-          const prevRemaining =
-            Number(prev.totalAmount) - Number(prev.paidAmount);
-          if (prevRemaining <= 0) continue;
+      // 4. Crear registro de pago
+      const payment = await tx.payment.create({
+        data: {
+          subLoanId,
+          amount: new Prisma.Decimal(paymentAmount),
+          penaltyAmount: new Prisma.Decimal(penaltyApplied),
+          currency,
+          paymentDate: paidAt,
+          description: description || `Pago SubLoan #${subLoan.paymentNumber}`,
+          paymentMethod,
+          externalReference,
+          payerName,
+          routeDelegationId: delegation?.id,
+          collectorWalletUserId:
+            collectorUserId !== managerId ? collectorUserId : null,
+        },
+      });
 
-          if (remainingAmount >= prevRemaining) {
-            await tx.subLoan.update({
-              where: { id: prev.id },
-              data: {
-                paidAmount: prev.totalAmount,
-                status: SubLoanStatus.PAID,
-                paidDate: paymentDate
-                  ? DateUtil.parseToDate(paymentDate)
-                  : DateUtil.now().toJSDate(),
-                paymentHistory: this.addToPaymentHistory(
-                  prev.paymentHistory,
-                  prevRemaining,
-                  0,
-                  paymentDate,
-                ),
-              },
-            });
+      // 4b. Numerar el recibo del pago
+      const receipt = await this.paymentReceiptService.assignReceipt(
+        payment.id,
+        tx,
+      );
 
-            distributedPayments.push({
-              subLoanId: prev.id,
-              paymentNumber: prev.paymentNumber,
-              distributedAmount: prevRemaining,
-              newStatus: SubLoanStatus.PAID,
-              newPaidAmount: Number(prev.totalAmount),
-            });
+      // 4c. Guardar el detalle de imputación del pago
+      await this.paymentAllocationService.recordAllocations(
+        tx,
+        payment.id,
+        allocationStrategy,
+        allocations,
+      );
 
-            remainingAmount -= prevRemaining;
-          } else {
-            const newPrevPaid = Number(prev.paidAmount) + remainingAmount;
-            const newPrevRemaining = Number(prev.totalAmount) - newPrevPaid;
+      // 3a. Marcar en paymentHistory qué pago origen generó estas actualizaciones
+      // Esto permite resetear adelantados desde cualquier cuota afectada.
+      const affectedSubLoanIds = Array.from(
+        new Set([
+          subLoanId,
+          ...distributedPayments.map((dp) => dp.subLoanId),
+        ]),
+      );
 
-            await tx.subLoan.update({
-              where: { id: prev.id },
-              data: {
-                paidAmount: new Prisma.Decimal(newPrevPaid),
-                status: SubLoanStatus.PARTIAL,
-                paymentHistory: this.addToPaymentHistory(
-                  prev.paymentHistory,
-                  remainingAmount,
-                  newPrevRemaining,
-                  paymentDate,
-                ),
-              },
-            });
+      for (const affectedId of affectedSubLoanIds) {
+        const sl = await tx.subLoan.findUnique({
+          where: { id: affectedId },
+          select: { paymentHistory: true },
+        });
 
-            distributedPayments.push({
-              subLoanId: prev.id,
-              paymentNumber: prev.paymentNumber,
-              distributedAmount: remainingAmount,
-              newStatus: SubLoanStatus.PARTIAL,
-              newPaidAmount: newPrevPaid,
-            });
+        const hist = Array.isArray(sl?.paymentHistory) ? (sl!.paymentHistory as any[]) : [];
+        if (hist.length === 0) continue;
 
-            remainingAmount = 0;
-          }
+        const last = hist[hist.length - 1];
+        if (last && typeof last === 'object' && !('sourcePaymentId' in last)) {
+          last.sourcePaymentId = payment.id;
+          await tx.subLoan.update({
+            where: { id: affectedId },
+            data: {
+              paymentHistory: hist as any,
+            },
+          });
         }
       }
 
-      // 3. Si hay excedente, buscar SubLoans SIGUIENTES no pagados (PENDING, PARTIAL o OVERDUE)
-      // El excedente restante se usa para adelantar pagos de cuotas posteriores
-      // Incluimos OVERDUE para que se paguen las cuotas vencidas de forma contigua
-      if (remainingAmount > 0) {
-        const nextSubLoans = await tx.subLoan.findMany({
-          where: {
-            loanId: subLoan.loanId,
-            paymentNumber: { gt: subLoan.paymentNumber },
-            status: { in: [SubLoanStatus.PENDING, SubLoanStatus.PARTIAL, SubLoanStatus.OVERDUE] },
-            deletedAt: null,
-          },
-          orderBy: { paymentNumber: 'asc' },
-        });
-
-        for (const nextSubLoan of nextSubLoans) {
-          if (remainingAmount <= 0) break;
+      // 3b. Actualizar totalCollectedPayments de la ruta del día (sin tocar wallets/safe)
+      // Nota: routeDate se guarda como inicio del día en Buenos Aires
+      await this.recalcRouteTotalCollectedPaymentsForDay({
+        tx,
+        managerId,
+        day: payment.createdAt,
+      });
 
-          const nextRemainingAmount =
-            Number(nextSubLoan.totalAmount) - Number(nextSubLoan.paidAmount);
+      // 4. Acreditar a la cartera del manager
+      await this.walletService.credit({
+        userId: managerId,
+        amount: paymentAmount,
+        type: WalletTransactionType.LOAN_PAYMENT,
+        description: `Pago préstamo ${subLoan.loan.loanTrack} - Cuota #${subLoan.paymentNumber}`,
+        transaction: tx,
+      });
 
-          if (remainingAmount >= nextRemainingAmount) {
-            // Completar este SubLoan
-            await tx.subLoan.update({
-              where: { id: nextSubLoan.id },
-              data: {
-                paidAmount: nextSubLoan.totalAmount,
-                status: SubLoanStatus.PAID,
-                paidDate: paymentDate
-                  ? DateUtil.parseToDate(paymentDate)
-                  : DateUtil.now().toJSDate(),
-                paymentHistory: this.addToPaymentHistory(
-                  nextSubLoan.paymentHistory,
-                  nextRemainingAmount,
-                  0,
-                  paymentDate,
-                ),
-              },
-            });
-
-            distributedPayments.push({
-              subLoanId: nextSubLoan.id,
-              paymentNumber: nextSubLoan.paymentNumber,
-              distributedAmount: nextRemainingAmount,
-              newStatus: SubLoanStatus.PAID,
-              newPaidAmount: Number(nextSubLoan.totalAmount),
-            });
-
-            remainingAmount -= nextRemainingAmount;
-          } else {
-            // Pago parcial a este SubLoan (el excedente no alcanza para completar)
-            const newPaidAmount = Number(nextSubLoan.paidAmount) + remainingAmount;
-            const newRemainingAmount =
-              Number(nextSubLoan.totalAmount) - newPaidAmount;
-
-            await tx.subLoan.update({
-              where: { id: nextSubLoan.id },
-              data: {
-                paidAmount: new Prisma.Decimal(newPaidAmount),
-                status: SubLoanStatus.PARTIAL,
-                paymentHistory: this.addToPaymentHistory(
-                  nextSubLoan.paymentHistory,
-                  remainingAmount,
-                  newRemainingAmount,
-                  paymentDate,
-                ),
-              },
-            });
-
-            distributedPayments.push({
-              subLoanId: nextSubLoan.id,
-              paymentNumber: nextSubLoan.paymentNumber,
-              distributedAmount: remainingAmount,
-              newStatus: SubLoanStatus.PARTIAL,
-              newPaidAmount,
-            });
-
-            remainingAmount = 0;
-          }
-        }
+      // 5. Registrar el cobro en la wallet del cobrador del manager asignado al cliente
+      // Siempre actualizar la wallet del manager, independientemente de quién registre el pago.
+      // Un pago con saldo a favor no ingresa dinero: consume el saldo del cliente.
+      if (isCreditPayment) {
+        await this.clientCreditService.consume(tx, {
+          clientId: subLoan.loan.clientId,
+          currency,
+          amount: paymentAmount,
+          paymentId: payment.id,
+          subLoanId,
+          loanId: subLoan.loanId,
+          createdById: userId,
+          description: `Imputación a préstamo ${subLoan.loan.loanTrack} - Cuota #${subLoan.paymentNumber}`,
+        });
+      } else {
+        await this.collectorWalletService.recordCollection({
+          userId: collectorUserId, // Usar el manager del cliente, no quien registra el pago (salvo delegación)
+          amount: paymentAmount,
+          description: `Cobro préstamo ${subLoan.loan.client.fullName} - Cuota #${subLoan.paymentNumber}${collectedBy}`,
+          subLoanId,
+          paymentMethod,
+          externalReference,
+          transaction: tx,
+        });
       }
 
-      // 4. Crear registro de pago
-      const payment = await tx.payment.create({
-        data: {
-          subLoanId,
-          amount: new Prisma.Decimal(amount),
+      // 5b. El excedente queda como saldo a favor del cliente (movimiento CLIENT_CREDIT en la wallet)
+      const creditedToClient = isCreditPayment ? 0 : unallocated;
+      if (creditedToClient > 0) {
+        await this.clientCreditService.recordOverpayment(tx, {
+          clientId: subLoan.loan.clientId,
           currency,
-          paymentDate: paymentDate
-            ? DateUtil.parseToDate(paymentDate)
-            : DateUtil.now().toJSDate(),
-          description: description || `Pago SubLoan #${subLoan.paymentNumber}`,
-        },
-      });
-
-      // 3a. Marcar en paymentHistory qué pago origen generó estas actualizaciones
-      // Esto permite resetear adelantados desde cualquier cuota afectada.
-      const affectedSubLoanIds = Array.from(
-        new Set([
+          amount: creditedToClient,
+          managerId: collectorUserId,
+          paymentMethod: paymentMethod ?? PaymentMethod.CASH,
+          externalReference,
+          paymentId: payment.id,
           subLoanId,
-          ...distributedPayments.map((dp) => dp.subLoanId),
-        ]),
-      );
-
-      for (const affectedId of affectedSubLoanIds) {
-        const sl = await tx.subLoan.findUnique({
-          where: { id: affectedId },
-          select: { paymentHistory: true },
+          loanId: subLoan.loanId,
+          createdById: userId,
+          description: `Saldo a favor ${subLoan.loan.client.fullName} - Excedente pago préstamo ${subLoan.loan.loanTrack}`,
         });
-
-        const hist = Array.isArray(sl?.paymentHistory) ? (sl!.paymentHistory as any[]) : [];
-        if (hist.length === 0) continue;
-
-        const last = hist[hist.length - 1];
-        if (last && typeof last === 'object' && !('sourcePaymentId' in last)) {
-          last.sourcePaymentId = payment.id;
-          await tx.subLoan.update({
-            where: { id: affectedId },
-            data: {
-              paymentHistory: hist as any,
-            },
-          });
-        }
       }
 
-      // 3b. Actualizar totalCollectedPayments de la ruta del día (sin tocar wallets/safe)
-      // Nota: routeDate se guarda como inicio del día en Buenos Aires
-      await this.recalcRouteTotalCollectedPaymentsForDay({
-        tx,
-        managerId,
-        day: payment.createdAt,
-      });
-
-      // 4. Acreditar a la cartera del manager
-      await this.walletService.credit({
-        userId: managerId,
-        amount,
-        type: WalletTransactionType.LOAN_PAYMENT,
-        description: `Pago préstamo ${subLoan.loan.loanTrack} - Cuota #${subLoan.paymentNumber}`,
-        transaction: tx,
-      });
-
-      // 5. Registrar el cobro en la wallet del cobrador del manager asignado al cliente
-      // Siempre actualizar la wallet del manager, independientemente de quién registre el pago
-      await this.collectorWalletService.recordCollection({
-        userId: managerId, // Usar el manager del cliente, no quien registra el pago
-        amount,
-        description: `Cobro préstamo ${subLoan.loan.client.fullName} - Cuota #${subLoan.paymentNumber}`,
-        subLoanId,
-        transaction: tx,
-      });
+      // 6. Completar el préstamo si quedaron todas las cuotas pagadas
+      const loanStatusTransition =
+        await this.loansService.syncLoanCompletionStatus(subLoan.loanId, tx);
 
       return {
-        payment,
-        subLoan: updatedSubLoan,
+        payment: { ...payment, ...receipt },
+        subLoan: updatedSubLoan!,
         distributedPayments,
+        allocationStrategy,
+        allocations,
+        creditedToClient,
+        loanStatusTransition,
       };
     }, {
       maxWait: 30000, // 30 segundos máximo de espera para iniciar la transacción
@@ -630,7 +811,7 @@ export class PaymentsService {
     });
 
     // Obtener todos los subLoans del préstamo actualizados después de la transacción
-    const allSubLoans = await this.prisma.subLoan.findMany({
+    const allSubLoans = await prismaClient.subLoan.findMany({
       where: {
         loanId: subLoan.loanId,
         deletedAt: null,
@@ -697,10 +878,11 @@ export class PaymentsService {
 
     const totalCuotas = allSubLoans.length;
 
-    return {
+    const response = {
       payment: {
         ...result.payment,
         amount: Number(result.payment.amount),
+        penaltyAmount: Number(result.payment.penaltyAmount),
       },
       subLoan: {
         id: result.subLoan.id,
@@ -711,11 +893,20 @@ export class PaymentsService {
         remainingAmount:
           Number(result.subLoan.totalAmount) -
           Number(result.subLoan.paidAmount),
+        penaltyAmount: Number(result.subLoan.penaltyAmount),
+        penaltyPaid: Number(result.subLoan.penaltyPaid),
+        penaltyPending:
+          Number(result.subLoan.penaltyAmount) -
+          Number(result.subLoan.penaltyPaid),
       },
       distributedPayments: result.distributedPayments,
+      allocationStrategy: result.allocationStrategy,
+      allocations: result.allocations,
+      creditedToClient: result.creditedToClient,
       loan: {
         id: subLoan.loan.id,
         loanTrack: subLoan.loan.loanTrack,
+        status: result.loanStatusTransition?.to ?? subLoan.loan.status,
         amount: totalADevolver,
         originalAmount: montoPrestado,
         currency: subLoan.loan.currency,
@@ -738,6 +929,92 @@ export class PaymentsService {
       },
       subLoans: subLoansDetail,
     };
+
+    return {
+      response,
+      loanStatusTransition: result.loanStatusTransition,
+    };
+  }
+
+  /**
+   * Ejecuta la función en la transacción recibida o, si no hay, en una nueva
+   */
+  private runInTransaction<T>(
+    transaction: Prisma.TransactionClient | undefined,
+    fn: (tx: Prisma.TransactionClient) => Promise<T>,
+    options: { maxWait: number; timeout: number },
+  ): Promise<T> {
+    return transaction
+      ? fn(transaction)
+      : this.prisma.$transaction(fn, options);
+  }
+
+  /**
+   * Suma los pagos por dueño de la collector wallet que recibió el cobro y por medio de
+   * pago (para revertir efectivo y saldo bancario por separado). El dueño es el manager,
+   * salvo los pagos que un suplente cobró en su propia wallet.
+   */
+  private sumPaymentsByCollector(
+    payments: {
+      amount: Prisma.Decimal;
+      paymentMethod: PaymentMethod;
+      collectorWalletUserId: string | null;
+    }[],
+    managerId: string,
+  ): { userId: string; paymentMethod: PaymentMethod; amount: number }[] {
+    const totals = new Map<
+      string,
+      { userId: string; paymentMethod: PaymentMethod; amount: number }
+    >();
+    for (const payment of payments) {
+      const userId = payment.collectorWalletUserId ?? managerId;
+      const key = `${userId}:${payment.paymentMethod}`;
+      const total = totals.get(key) ?? {
+        userId,
+        paymentMethod: payment.paymentMethod,
+        amount: 0,
+      };
+      total.amount += Number(payment.amount);
+      totals.set(key, total);
+    }
+    return Array.from(totals.values());
+  }
+
+  /**
+   * Revierte lo cobrado por pagos: el efectivo y los demás medios en la collector wallet
+   * o el saldo bancario; lo imputado con saldo a favor vuelve al saldo del cliente.
+   */
+  private async reverseCollectedAmount(
+    tx: Prisma.TransactionClient,
+    params: {
+      managerId: string;
+      loan: { id: string; clientId: string; currency: Currency };
+      amount: number;
+      paymentMethod: PaymentMethod;
+      description: string;
+      subLoanId: string;
+    },
+  ): Promise<void> {
+    if (params.paymentMethod === PaymentMethod.CLIENT_CREDIT) {
+      await this.clientCreditService.restore(tx, {
+        clientId: params.loan.clientId,
+        currency: params.loan.currency,
+        amount: params.amount,
+        subLoanId: params.subLoanId,
+        loanId: params.loan.id,
+        description: params.description,
+      });
+      return;
+    }
+
+    await this.collectorWalletService.reverseCollection({
+      userId: params.managerId,
+      amount: params.amount,
+      paymentMethod: params.paymentMethod,
+      description: params.description,
+      subLoanId: params.subLoanId,
+      transaction: tx,
+    });
   }
 
   /**
@@ -757,6 +1034,9 @@ export class PaymentsService {
 
     const paymentsSum = await tx.payment.aggregate({
       where: {
+        status: PaymentStatus.COMPLETED,
+        // Lo imputado con saldo a favor no es un cobro del día
+        paymentMethod: { not: PaymentMethod.CLIENT_CREDIT },
         createdAt: {
           gte: dayStart,
           lte: dayEnd,
@@ -783,38 +1063,749 @@ export class PaymentsService {
     });
   }
 
-  /**
-   * Registrar múltiples pagos
-   */
-  async registerBulkPayments(
-    userId: string,
-    userRole: UserRole,
-    bulkPaymentDto: BulkPaymentDto,
-  ): Promise<any> {
-    const results: any[] = [];
+  /**
+   * Registrar múltiples pagos. Por defecto cada pago va en su propia transacción;
+   * con atomic el lote se registra todo o nada.
+   */
+  async registerBulkPayments(
+    userId: string,
+    userRole: UserRole,
+    bulkPaymentDto: BulkPaymentDto,
+    idempotency?: IdempotencyContext<any>,
+  ): Promise<any> {
+    if (bulkPaymentDto.atomic) {
+      return this.registerBulkPaymentsAtomic(
+        userId,
+        userRole,
+        bulkPaymentDto.payments,
+        idempotency?.saveResponse,
+      );
+    }
+
+    const results: any[] = [];
+
+    for (const [index, paymentDto] of bulkPaymentDto.payments.entries()) {
+      try {
+        // Cada pago va en su propia transacción: con Idempotency-Key cada uno guarda
+        // su respuesta, y un reintento del lote no vuelve a registrar los ya aplicados
+        const result = idempotency
+          ? await idempotency.runPart(
+              `${index + 1}`,
+              paymentDto,
+              (saveResponse) =>
+                this.registerPayment(
+                  userId,
+                  userRole,
+                  paymentDto,
+                  saveResponse,
+                ),
+            )
+          : await this.registerPayment(userId, userRole, paymentDto);
+        results.push({
+          success: true,
+          subLoanId: paymentDto.subLoanId,
+          result,
+        });
+      } catch (error: any) {
+        results.push({
+          success: false,
+          subLoanId: paymentDto.subLoanId,
+          error: error.message,
+        });
+      }
+    }
+
+    return {
+      total: bulkPaymentDto.payments.length,
+      successful: results.filter((r) => r.success).length,
+      failed: results.filter((r) => !r.success).length,
+      results,
+    };
+  }
+
+  /**
+   * Registrar un lote de pagos todo o nada: primero valida todos los pagos sin escribir
+   * y, si ninguno tiene errores, los registra en una única transacción. Si un pago falla
+   * al aplicarse se revierte el lote completo.
+   */
+  private async registerBulkPaymentsAtomic(
+    userId: string,
+    userRole: UserRole,
+    payments: RegisterPaymentDto[],
+    saveResponse?: SaveIdempotentResponse<any>,
+  ): Promise<any> {
+    if (payments.length > PaymentsService.MAX_ATOMIC_BULK_PAYMENTS) {
+      throw new BadRequestException(
+        `Un lote atómico admite hasta ${PaymentsService.MAX_ATOMIC_BULK_PAYMENTS} pagos`,
+      );
+    }
+
+    // 1. Validar todos los pagos antes de escribir
+    const validations: any[] = [];
+    const seenSubLoanIds = new Set<string>();
+
+    for (const paymentDto of payments) {
+      try {
+        if (seenSubLoanIds.has(paymentDto.subLoanId)) {
+          throw new BadRequestException(
+            'El SubLoan aparece más de una vez en el lote',
+          );
+        }
+        seenSubLoanIds.add(paymentDto.subLoanId);
+
+        await this.preparePayment(this.prisma, userId, userRole, paymentDto);
+        validations.push({ success: true, subLoanId: paymentDto.subLoanId });
+      } catch (error: any) {
+        validations.push({
+          success: false,
+          subLoanId: paymentDto.subLoanId,
+          error: error.message,
+        });
+      }
+    }
+
+    const failed = validations.filter((v) => !v.success).length;
+    if (failed > 0) {
+      return {
+        atomic: true,
+        applied: false,
+        total: payments.length,
+        successful: 0,
+        failed,
+        results: validations,
+      };
+    }
+
+    // 2. Registrar el lote en una única transacción
+    const processed = await this.prisma.$transaction(
+      async (tx) => {
+        const items: any[] = [];
+
+        for (const [index, paymentDto] of payments.entries()) {
+          try {
+            items.push(
+              await this.processPayment(userId, userRole, paymentDto, tx),
+            );
+          } catch (error: any) {
+            throw new BadRequestException(
+              `No se registró ningún pago del lote: falló el pago #${index + 1} ` +
+                `(SubLoan ${paymentDto.subLoanId}): ${error.message}`,
+            );
+          }
+        }
+
+        const response = {
+          atomic: true,
+          applied: true,
+          total: payments.length,
+          successful: items.length,
+          failed: 0,
+          results: items.map((item, index) => ({
+            success: true,
+            subLoanId: payments[index].subLoanId,
+            result: item.response,
+          })),
+        };
+        await saveResponse?.(tx, response);
+
+        return { items, response };
+      },
+      {
+        maxWait: 30000,
+        // Todos los pagos del lote comparten la transacción
+        timeout: 30000 + payments.length * 5000,
+      },
+    );
+
+    await this.loansService.logLoanStatusTransitions(
+      processed.items.map((item) => item.loanStatusTransition),
+      { id: userId, role: userRole },
+    );
+
+    return processed.response;
+  }
+
+  /**
+   * Imputar el saldo a favor del cliente a una cuota, o a un préstamo desde su
+   * primera cuota impaga. Se registra como un pago con método CLIENT_CREDIT.
+   */
+  async applyClientCredit(
+    userId: string,
+    userRole: UserRole,
+    applyDto: ApplyClientCreditDto,
+  ): Promise<any> {
+    let subLoanId = applyDto.subLoanId;
+
+    if (!subLoanId) {
+      const firstOpen = await this.prisma.subLoan.findFirst({
+        where: {
+          loanId: applyDto.loanId,
+          deletedAt: null,
+          status: {
+            in: [
+              SubLoanStatus.OVERDUE,
+              SubLoanStatus.PENDING,
+              SubLoanStatus.PARTIAL,
+            ],
+          },
+        },
+        orderBy: { paymentNumber: 'asc' },
+        select: { id: true },
+      });
+
+      if (!firstOpen) {
+        throw new BadRequestException(
+          'El préstamo no tiene cuotas pendientes para imputar el saldo a favor',
+        );
+      }
+      subLoanId = firstOpen.id;
+    }
+
+    const subLoan = await this.prisma.subLoan.findUnique({
+      where: { id: subLoanId },
+      select: {
+        paymentNumber: true,
+        loan: {
+          select: { clientId: true, currency: true, loanTrack: true },
+        },
+      },
+    });
+
+    if (!subLoan) {
+      throw new NotFoundException('SubLoan no encontrado');
+    }
+
+    const availableCredit = await this.clientCreditService.getAvailable(
+      subLoan.loan.clientId,
+      subLoan.loan.currency,
+    );
+    if (availableCredit <= 0) {
+      throw new BadRequestException(
+        'El cliente no tiene saldo a favor en la moneda del préstamo',
+      );
+    }
+
+    return this.registerPayment(userId, userRole, {
+      subLoanId,
+      amount: applyDto.amount ?? availableCredit,
+      currency: subLoan.loan.currency as RegisterPaymentDto['currency'],
+      paymentDate: applyDto.paymentDate,
+      paymentMethod:
+        PaymentMethod.CLIENT_CREDIT as RegisterPaymentDto['paymentMethod'],
+      description: `Imputación saldo a favor - Cuota #${subLoan.paymentNumber}`,
+    });
+  }
+
+  /**
+   * Imputa automáticamente el saldo a favor de los clientes a sus cuotas vencidas
+   * o que vencen hoy (de la más antigua a la más reciente), en nombre del manager
+   * del préstamo. Las cuotas que fallan se informan y no frenan al resto.
+   */
+  async applyClientCreditToDueSubLoans(): Promise<any> {
+    const todayEnd = DateUtil.endOfDay(DateUtil.now()).toJSDate();
+
+    const credits = await this.prisma.clientCredit.findMany({
+      where: { balance: { gt: 0 }, client: { deletedAt: null } },
+    });
+
+    let appliedCount = 0;
+    let appliedAmount = 0;
+    const errors: { subLoanId: string; error: string }[] = [];
+
+    for (const credit of credits) {
+      let remaining = Number(credit.balance);
+
+      const dueSubLoans = await this.prisma.subLoan.findMany({
+        where: {
+          deletedAt: null,
+          dueDate: { lte: todayEnd },
+          status: {
+            in: [
+              SubLoanStatus.OVERDUE,
+              SubLoanStatus.PENDING,
+              SubLoanStatus.PARTIAL,
+            ],
+          },
+          loan: {
+            clientId: credit.clientId,
+            currency: credit.currency,
+            deletedAt: null,
+            status: {
+              in: [
+                LoanStatus.ACTIVE,
+                LoanStatus.APPROVED,
+                LoanStatus.DEFAULTED,
+              ],
+            },
+            managerId: { not: null },
+          },
+        },
+        select: { id: true },
+        orderBy: [{ dueDate: 'asc' }, { paymentNumber: 'asc' }],
+      });
+
+      for (const { id } of dueSubLoans) {
+        if (remaining <= 0) break;
+
+        // Releer la cuota: una imputación anterior pudo haberla cancelado
+        const subLoan = await this.prisma.subLoan.findUnique({
+          where: { id },
+          include: { loan: { select: { managerId: true } } },
+        });
+        if (!subLoan || subLoan.status === SubLoanStatus.PAID) continue;
+
+        const owed =
+          Number(subLoan.totalAmount) -
+          Number(subLoan.paidAmount) +
+          Math.max(
+            0,
+            Number(subLoan.penaltyAmount) - Number(subLoan.penaltyPaid),
+          );
+        const amount = Number(Math.min(remaining, owed).toFixed(2));
+        if (amount <= 0) continue;
+
+        try {
+          const result = await this.registerPayment(
+            subLoan.loan.managerId!,
+            UserRole.MANAGER,
+            {
+              subLoanId: id,
+              amount,
+              currency: credit.currency as RegisterPaymentDto['currency'],
+              paymentMethod:
+                PaymentMethod.CLIENT_CREDIT as RegisterPaymentDto['paymentMethod'],
+              description: `Imputación automática saldo a favor - Cuota #${subLoan.paymentNumber}`,
+            },
+          );
+          remaining = Number((remaining - result.payment.amount).toFixed(2));
+          appliedAmount += result.payment.amount;
+          appliedCount++;
+        } catch (error: any) {
+          errors.push({ subLoanId: id, error: error.message });
+        }
+      }
+    }
+
+    return {
+      message: `Se imputó saldo a favor a ${appliedCount} cuotas`,
+      count: appliedCount,
+      totalApplied: Number(appliedAmount.toFixed(2)),
+      errors,
+    };
+  }
+
+  /**
+   * Cotizar la cancelación anticipada (total) de un préstamo a la fecha indicada
+   */
+  async getLoanPayoffQuote(
+    loanId: string,
+    userId: string,
+    userRole: UserRole,
+    paymentDate?: string,
+  ): Promise<any> {
+    const loan = await this.getLoanForPayoff(loanId, userId, userRole);
+    const unearnedInterestPercent = await this.getUnearnedInterestPercent();
+
+    const quote = this.buildPayoffQuote(
+      loan.subLoans,
+      paymentDate ? DateUtil.fromISO(paymentDate) : DateUtil.now(),
+      unearnedInterestPercent,
+    );
+
+    return {
+      loanId: loan.id,
+      loanTrack: loan.loanTrack,
+      currency: loan.currency,
+      quoteDate: paymentDate
+        ? DateUtil.parseToDate(paymentDate)
+        : DateUtil.now().toJSDate(),
+      ...quote,
+    };
+  }
+
+  /**
+   * Cancelar anticipadamente un préstamo: registra un único pago por el total
+   * cotizado, cierra todas las cuotas pendientes (bonificando el interés no
+   * devengado) y acredita el cobro en la wallet y la collector wallet del manager.
+   */
+  async settleLoanPayoff(
+    userId: string,
+    userRole: UserRole,
+    loanId: string,
+    loanPayoffDto: LoanPayoffDto,
+  ): Promise<any> {
+    const {
+      amount,
+      currency,
+      paymentDate,
+      description,
+      paymentMethod,
+      externalReference,
+      payerName,
+    } = loanPayoffDto;
+
+    const loan = await this.getLoanForPayoff(loanId, userId, userRole);
+
+    if (loan.currency !== currency) {
+      throw new BadRequestException(
+        `El préstamo usa ${loan.currency}, no se puede pagar en ${currency}`,
+      );
+    }
+
+    if (paymentMethod === PaymentMethod.CLIENT_CREDIT) {
+      throw new BadRequestException(
+        'El saldo a favor se imputa a cuotas; no se puede usar para la cancelación anticipada',
+      );
+    }
+
+    const managerId = loan.managerId;
+    if (!managerId) {
+      throw new BadRequestException('El préstamo no tiene manager asignado');
+    }
+
+    const unearnedInterestPercent = await this.getUnearnedInterestPercent();
+    const asOf = paymentDate ? DateUtil.fromISO(paymentDate) : DateUtil.now();
+    const paidDate = paymentDate
+      ? DateUtil.parseToDate(paymentDate)
+      : DateUtil.now().toJSDate();
+
+    const result = await this.prisma.$transaction(
+      async (tx) => {
+        // Recalcular dentro de la transacción por si hubo pagos mientras tanto
+        const subLoans = await tx.subLoan.findMany({
+          where: {
+            loanId: loan.id,
+            deletedAt: null,
+            status: {
+              in: [
+                SubLoanStatus.PENDING,
+                SubLoanStatus.PARTIAL,
+                SubLoanStatus.OVERDUE,
+              ],
+            },
+          },
+          orderBy: { paymentNumber: 'asc' },
+        });
+
+        if (subLoans.length === 0) {
+          throw new BadRequestException(
+            'El préstamo no tiene cuotas pendientes',
+          );
+        }
+
+        const quote = this.buildPayoffQuote(
+          subLoans,
+          asOf,
+          unearnedInterestPercent,
+        );
+
+        if (Math.abs(amount - quote.total) > 0.01) {
+          throw new BadRequestException(
+            `El monto de cancelación anticipada es ${quote.total} ${loan.currency}`,
+          );
+        }
+
+        // 1. Registrar un único pago asociado a la primera cuota pendiente
+        const payment = await tx.payment.create({
+          data: {
+            subLoanId: subLoans[0].id,
+            amount: new Prisma.Decimal(quote.total),
+            penaltyAmount: new Prisma.Decimal(quote.pendingPenalty),
+            interestRebate: new Prisma.Decimal(quote.interestRebate),
+            isEarlyPayoff: true,
+            currency,
+            paymentDate: paidDate,
+            description:
+              description ||
+              `Cancelación anticipada préstamo ${loan.loanTrack}`,
+            paymentMethod,
+            externalReference,
+            payerName,
+          },
+        });
+        const receipt = await this.paymentReceiptService.assignReceipt(
+          payment.id,
+          tx,
+        );
+        await this.paymentAllocationService.recordAllocations(
+          tx,
+          payment.id,
+          null,
+          quote.installments.map((installment) => ({
+            subLoanId: installment.subLoanId,
+            paymentNumber: installment.paymentNumber,
+            penalty: installment.pendingPenalty,
+            interest: installment.chargedInterest,
+            principal: installment.pendingCapital,
+          })),
+        );
+
+        // 2. Cerrar cada cuota: el interés bonificado se descuenta del total de la cuota
+        for (const [index, subLoan] of subLoans.entries()) {
+          const installment = quote.installments[index];
+          const newTotalAmount = Number(
+            (Number(subLoan.totalAmount) - installment.interestRebate).toFixed(
+              2,
+            ),
+          );
+
+          await tx.subLoan.update({
+            where: { id: subLoan.id },
+            data: {
+              interestAmount: new Prisma.Decimal(
+                (
+                  Number(subLoan.interestAmount) - installment.interestRebate
+                ).toFixed(2),
+              ),
+              totalAmount: new Prisma.Decimal(newTotalAmount),
+              paidAmount: new Prisma.Decimal(newTotalAmount),
+              penaltyPaid: subLoan.penaltyAmount,
+              status: SubLoanStatus.PAID,
+              paidDate,
+              paymentHistory: this.addToPaymentHistory(
+                subLoan.paymentHistory,
+                Number(
+                  (installment.amount - installment.pendingPenalty).toFixed(2),
+                ),
+                0,
+                paymentDate,
+                payment.id,
+              ),
+            },
+          });
+        }
+
+        // 3. El total a devolver del préstamo se reduce en el interés bonificado
+        if (quote.interestRebate > 0) {
+          await tx.loan.update({
+            where: { id: loan.id },
+            data: {
+              amount: {
+                decrement: new Prisma.Decimal(quote.interestRebate),
+              },
+            },
+          });
+        }
+
+        await this.recalcRouteTotalCollectedPaymentsForDay({
+          tx,
+          managerId,
+          day: payment.createdAt,
+        });
+
+        // 4. Acreditar a la cartera del manager
+        await this.walletService.credit({
+          userId: managerId,
+          amount: quote.total,
+          type: WalletTransactionType.LOAN_PAYMENT,
+          description: `Cancelación anticipada préstamo ${loan.loanTrack}`,
+          transaction: tx,
+        });
+
+        // 5. Registrar el cobro en la collector wallet del manager del préstamo
+        await this.collectorWalletService.recordCollection({
+          userId: managerId,
+          amount: quote.total,
+          description: `Cobro cancelación anticipada ${loan.client.fullName} - Préstamo ${loan.loanTrack}`,
+          subLoanId: subLoans[0].id,
+          paymentMethod,
+          externalReference,
+          transaction: tx,
+        });
+
+        // 6. Completar el préstamo
+        const loanStatusTransition =
+          await this.loansService.syncLoanCompletionStatus(loan.id, tx);
+
+        return {
+          payment: { ...payment, ...receipt },
+          quote,
+          loanStatusTransition,
+        };
+      },
+      {
+        maxWait: 30000,
+        timeout: 30000,
+      },
+    );
+
+    await this.loansService.logLoanStatusTransitions(
+      [result.loanStatusTransition],
+      { id: userId, role: userRole },
+    );
+
+    return {
+      message: `Préstamo ${loan.loanTrack} cancelado anticipadamente`,
+      payment: {
+        id: result.payment.id,
+        amount: Number(result.payment.amount),
+        penaltyAmount: Number(result.payment.penaltyAmount),
+        interestRebate: Number(result.payment.interestRebate),
+        currency: result.payment.currency,
+        paymentDate: result.payment.paymentDate,
+        description: result.payment.description,
+        receiptNumber: result.payment.receiptNumber,
+        verificationCode: result.payment.verificationCode,
+      },
+      quote: result.quote,
+      loanStatus: result.loanStatusTransition?.to ?? loan.status,
+    };
+  }
+
+  /**
+   * Helper: Obtener el préstamo a cancelar con sus cuotas pendientes, validando acceso y estado
+   */
+  private async getLoanForPayoff(
+    loanId: string,
+    userId: string,
+    userRole: UserRole,
+  ) {
+    const loan = await this.prisma.loan.findFirst({
+      where: { id: loanId, deletedAt: null },
+      include: {
+        client: {
+          select: { id: true, fullName: true },
+        },
+        subLoans: {
+          where: {
+            deletedAt: null,
+            status: {
+              in: [
+                SubLoanStatus.PENDING,
+                SubLoanStatus.PARTIAL,
+                SubLoanStatus.OVERDUE,
+              ],
+            },
+          },
+          orderBy: { paymentNumber: 'asc' },
+        },
+      },
+    });
+
+    if (!loan) {
+      throw new NotFoundException('Préstamo no encontrado');
+    }
+
+    if (userRole === UserRole.MANAGER && loan.managerId !== userId) {
+      throw new ForbiddenException('No tienes acceso a este préstamo');
+    }
+
+    if (
+      !(
+        [
+          LoanStatus.ACTIVE,
+          LoanStatus.APPROVED,
+          LoanStatus.DEFAULTED,
+        ] as LoanStatus[]
+      ).includes(loan.status)
+    ) {
+      throw new BadRequestException(
+        `Solo se pueden cancelar préstamos activos o incobrables. Estado actual: ${loan.status}`,
+      );
+    }
+
+    if (loan.subLoans.length === 0) {
+      throw new BadRequestException('El préstamo no tiene cuotas pendientes');
+    }
+
+    return loan;
+  }
+
+  /**
+   * Helper: Porcentaje (0-100) del interés no devengado que se cobra al cancelar anticipadamente
+   */
+  private async getUnearnedInterestPercent(): Promise<number> {
+    const percent = await this.systemConfigService.getConfig(
+      ConfigKey.EARLY_PAYOFF_UNEARNED_INTEREST_PERCENT,
+    );
+    return Math.min(100, Math.max(0, percent));
+  }
+
+  /**
+   * Helper: Calcular la cotización de cancelación anticipada.
+   * - Cuotas vencidas a la fecha: se cobra el saldo completo (interés devengado)
+   * - Cuotas no vencidas: capital pendiente + el porcentaje configurado del interés
+   * - Punitorios pendientes de todas las cuotas
+   * Los pagos parciales de una cuota se consideran imputados primero al interés.
+   */
+  private buildPayoffQuote(
+    subLoans: Array<{
+      id: string;
+      paymentNumber: number;
+      dueDate: Date;
+      totalAmount: Prisma.Decimal;
+      interestAmount: Prisma.Decimal;
+      paidAmount: Prisma.Decimal;
+      penaltyAmount: Prisma.Decimal;
+      penaltyPaid: Prisma.Decimal;
+    }>,
+    asOf: DateTime,
+    unearnedInterestPercent: number,
+  ): LoanPayoffQuote {
+    const round = (value: number) => Number(value.toFixed(2));
+    const asOfDay = DateUtil.startOfDay(asOf);
+
+    const installments: PayoffInstallmentQuote[] = subLoans.map((subLoan) => {
+      const pending = Math.max(
+        0,
+        Number(subLoan.totalAmount) - Number(subLoan.paidAmount),
+      );
+      const pendingInterest = round(
+        Math.min(
+          pending,
+          Math.max(
+            0,
+            Number(subLoan.interestAmount) - Number(subLoan.paidAmount),
+          ),
+        ),
+      );
+      const pendingCapital = round(pending - pendingInterest);
+      const pendingPenalty = round(
+        Math.max(
+          0,
+          Number(subLoan.penaltyAmount) - Number(subLoan.penaltyPaid),
+        ),
+      );
+      const isDue =
+        DateUtil.startOfDay(DateUtil.fromPrismaDate(subLoan.dueDate)) <=
+        asOfDay;
+      const chargedInterest = isDue
+        ? pendingInterest
+        : round((pendingInterest * unearnedInterestPercent) / 100);
+
+      return {
+        subLoanId: subLoan.id,
+        paymentNumber: subLoan.paymentNumber,
+        dueDate: subLoan.dueDate,
+        isDue,
+        pendingCapital,
+        pendingInterest,
+        chargedInterest,
+        interestRebate: round(pendingInterest - chargedInterest),
+        pendingPenalty,
+        amount: round(pendingCapital + chargedInterest + pendingPenalty),
+      };
+    });
 
-    for (const paymentDto of bulkPaymentDto.payments) {
-      try {
-        const result = await this.registerPayment(userId, userRole, paymentDto);
-        results.push({
-          success: true,
-          subLoanId: paymentDto.subLoanId,
-          result,
-        });
-      } catch (error: any) {
-        results.push({
-          success: false,
-          subLoanId: paymentDto.subLoanId,
-          error: error.message,
-        });
-      }
-    }
+    const sum = (
+      items: PayoffInstallmentQuote[],
+      field: keyof PayoffInstallmentQuote,
+    ) => round(items.reduce((total, item) => total + Number(item[field]), 0));
+    const notDue = installments.filter((installment) => !installment.isDue);
 
     return {
-      total: bulkPaymentDto.payments.length,
-      successful: results.filter((r) => r.success).length,
-      failed: results.filter((r) => !r.success).length,
-      results,
+      unearnedInterestPercent,
+      remainingPrincipal: sum(installments, 'pendingCapital'),
+      earnedInterest: sum(
+        installments.filter((installment) => installment.isDue),
+        'pendingInterest',
+      ),
+      unearnedInterest: sum(notDue, 'pendingInterest'),
+      chargedUnearnedInterest: sum(notDue, 'chargedInterest'),
+      interestRebate: sum(installments, 'interestRebate'),
+      pendingPenalty: sum(installments, 'pendingPenalty'),
+      total: sum(installments, 'amount'),
+      installments,
     };
   }
 
@@ -831,6 +1822,18 @@ export class PaymentsService {
       include: {
         payments: {
           orderBy: { paymentDate: 'asc' },
+          include: {
+            allocations: {
+              include: { subLoan: { select: { paymentNumber: true } } },
+            },
+            routeDelegation: {
+              select: {
+                id: true,
+                walletTarget: true,
+                substitute: { select: { id: true, fullName: true } },
+              },
+            },
+          },
         },
         loan: {
           include: {
@@ -864,22 +1867,84 @@ export class PaymentsService {
         amount: Number(subLoan.amount),
         totalAmount: Number(subLoan.totalAmount),
         paidAmount: Number(subLoan.paidAmount),
+        penaltyAmount: Number(subLoan.penaltyAmount),
+        penaltyPaid: Number(subLoan.penaltyPaid),
         status: subLoan.status,
         dueDate: subLoan.dueDate,
         paidDate: subLoan.paidDate,
+        daysOverdue: subLoan.daysOverdue,
       },
       payments: subLoan.payments.map((p) => ({
         id: p.id,
         amount: Number(p.amount),
+        penaltyAmount: Number(p.penaltyAmount),
         currency: p.currency,
+        paymentMethod: p.paymentMethod,
+        externalReference: p.externalReference,
+        payerName: p.payerName,
         paymentDate: p.paymentDate,
         description: p.description,
+        status: p.status,
+        voidedAt: p.voidedAt,
+        voidReason: p.voidReason,
         createdAt: p.createdAt,
+        // Cobrado por un suplente con la ruta delegada
+        collectedBy: p.routeDelegation
+          ? {
+              delegationId: p.routeDelegation.id,
+              substituteId: p.routeDelegation.substitute.id,
+              substituteName: p.routeDelegation.substitute.fullName,
+              walletTarget: p.routeDelegation.walletTarget,
+            }
+          : null,
+        allocations: p.allocations.map((a) => ({
+          subLoanId: a.subLoanId,
+          paymentNumber: a.subLoan.paymentNumber,
+          strategy: a.strategy,
+          penaltyAmount: Number(a.penaltyAmount),
+          interestAmount: Number(a.interestAmount),
+          principalAmount: Number(a.principalAmount),
+        })),
       })),
       paymentHistory: subLoan.paymentHistory || [],
     };
   }
 
+  /**
+   * Helper: Imputar un monto a los punitorios pendientes del SubLoan
+   * Retorna el monto efectivamente aplicado a punitorios
+   */
+  private async settlePenalty(
+    tx: Prisma.TransactionClient,
+    subLoanId: string,
+    amount: number,
+  ): Promise<number> {
+    if (amount <= 0) return 0;
+
+    const current = await tx.subLoan.findUnique({
+      where: { id: subLoanId },
+      select: { penaltyAmount: true, penaltyPaid: true },
+    });
+    if (!current) return 0;
+
+    const penaltyPending = Math.max(
+      0,
+      Number(current.penaltyAmount) - Number(current.penaltyPaid),
+    );
+    const applied = Number(Math.min(amount, penaltyPending).toFixed(2));
+
+    if (applied > 0) {
+      await tx.subLoan.update({
+        where: { id: subLoanId },
+        data: {
+          penaltyPaid: { increment: new Prisma.Decimal(applied) },
+        },
+      });
+    }
+
+    return applied;
+  }
+
   /**
    * Helper: Agregar entrada al historial de pagos
    */
@@ -974,6 +2039,7 @@ export class PaymentsService {
           },
         },
         payments: {
+          where: { status: PaymentStatus.COMPLETED },
           orderBy: { paymentDate: 'desc' },
         },
       },
@@ -987,6 +2053,12 @@ export class PaymentsService {
       throw new BadRequestException('SubLoan eliminado');
     }
 
+    if (subLoan.loan.status === LoanStatus.REFINANCED) {
+      throw new BadRequestException(
+        'El préstamo fue refinanciado: los pagos se registran en el préstamo nuevo',
+      );
+    }
+
     // Validar acceso
     if (userRole === UserRole.MANAGER) {
       if (subLoan.loan.managerId !== userId) {
@@ -1027,6 +2099,13 @@ export class PaymentsService {
     // Validar que el último pago no sea mayor a 20 horas
     // Usar createdAt (cuando se registró) en lugar de paymentDate (fecha del pago)
     const lastPayment = subLoan.payments[0];
+
+    if (lastPayment.isEarlyPayoff) {
+      throw new BadRequestException(
+        'No se puede resetear una cancelación anticipada',
+      );
+    }
+
     const lastPaymentCreatedAt = DateUtil.fromPrismaDate(lastPayment.createdAt);
     const now = DateUtil.now();
     const hoursDiff = now.diff(lastPaymentCreatedAt, 'hours').hours;
@@ -1047,6 +2126,11 @@ export class PaymentsService {
       (sum, p) => sum + Number(p.amount),
       0,
     );
+    // Porción de esos pagos que se imputó a punitorios
+    const totalPenaltyPaid = subLoan.payments.reduce(
+      (sum, p) => sum + Number(p.penaltyAmount),
+      0,
+    );
 
     // Días afectados (createdAt) para recalcular totalCollectedPayments de la ruta
     const affectedDays = Array.from(
@@ -1059,6 +2143,20 @@ export class PaymentsService {
 
     // Realizar el reset en transacción
     const result = await this.prisma.$transaction(async (tx) => {
+      // 0. Devolver los punitorios cobrados por estos pagos a las cuotas donde se imputaron
+      const penaltiesBySubLoan =
+        await this.paymentAllocationService.getPenaltiesBySubLoan(
+          tx,
+          subLoan.payments,
+        );
+      for (const [penaltySubLoanId, penalty] of penaltiesBySubLoan) {
+        if (penaltySubLoanId === subLoanId) continue;
+        await tx.subLoan.update({
+          where: { id: penaltySubLoanId },
+          data: { penaltyPaid: { decrement: new Prisma.Decimal(penalty) } },
+        });
+      }
+
       // 1. Revertir efectos en wallets
       // Revertir crédito en wallet del manager
       await this.walletService.debit({
@@ -1069,41 +2167,32 @@ export class PaymentsService {
         transaction: tx,
       });
 
-      // Revertir registro en collector wallet
-      const collectorWallet = await this.collectorWalletService.getOrCreateWallet(
+      // Revertir registro en collector wallet (efectivo) y saldo bancario (resto de medios)
+      for (const collected of this.sumPaymentsByCollector(
+        subLoan.payments,
         managerId,
-        tx,
-      );
-      const collectorBalanceBefore = Number(collectorWallet.balance);
-      const collectorBalanceAfter = collectorBalanceBefore - totalPaidAmount;
-
-      await tx.collectorWallet.update({
-        where: { id: collectorWallet.id },
-        data: {
-          balance: {
-            decrement: new Prisma.Decimal(totalPaidAmount),
-          },
-        },
-      });
-
-      // Crear transacción de reversión en collector wallet
-      await tx.collectorWalletTransaction.create({
-        data: {
-          walletId: collectorWallet.id,
-          userId: managerId,
-          type: CollectorWalletTransactionType.PAYMENT_RESET,
-          amount: new Prisma.Decimal(-totalPaidAmount),
-          currency: collectorWallet.currency,
+      )) {
+        await this.reverseCollectedAmount(tx, {
+          managerId: collected.userId,
+          loan: subLoan.loan,
+          amount: collected.amount,
+          paymentMethod: collected.paymentMethod,
           description: `Reseteo cobros ${subLoan.loan.client.fullName} - Cuota #${subLoan.paymentNumber}`,
-          balanceBefore: new Prisma.Decimal(collectorBalanceBefore),
-          balanceAfter: new Prisma.Decimal(collectorBalanceAfter),
           subLoanId,
-        },
-      });
+        });
+      }
+
+      // Revertir el saldo a favor generado por excedentes de estos pagos
+      await this.clientCreditService.reverseOverpayments(
+        tx,
+        subLoan.payments.map((p) => p.id),
+        `Reseteo excedentes ${subLoan.loan.client.fullName} - Cuota #${subLoan.paymentNumber}`,
+      );
 
       // 2. Buscar y revertir excedentes en subloans parciales anteriores
       const currentSubLoanTotalAmount = Number(subLoan.totalAmount);
-      const excessAmount = totalPaidAmount - currentSubLoanTotalAmount;
+      const excessAmount =
+        totalPaidAmount - totalPenaltyPaid - currentSubLoanTotalAmount;
 
       if (excessAmount > 0) {
         // Buscar subpréstamos parciales anteriores que recibieron el excedente
@@ -1124,6 +2213,7 @@ export class PaymentsService {
             ? await tx.payment.findMany({
                 where: {
                   subLoanId: { in: partialSubLoanIds },
+                  status: PaymentStatus.COMPLETED,
                 },
                 orderBy: [
                   { subLoanId: 'asc' },
@@ -1197,7 +2287,7 @@ export class PaymentsService {
 
       // 3. Eliminar todos los pagos del SubLoan
       const paymentsDeleted = await tx.payment.deleteMany({
-        where: { subLoanId },
+        where: { subLoanId, status: PaymentStatus.COMPLETED },
       });
 
       // 3b. Revertir cuotas adicionales pagadas por cualquier payment de este SubLoan (adelantos)
@@ -1349,6 +2439,11 @@ export class PaymentsService {
           paidAmount: new Prisma.Decimal(0),
           status: SubLoanStatus.PENDING,
           paidDate: null,
+          penaltyPaid: {
+            decrement: new Prisma.Decimal(
+              penaltiesBySubLoan.get(subLoanId) ?? 0,
+            ),
+          },
           paymentHistory: this.addResetToPaymentHistory(
             subLoan.paymentHistory,
             totalPaidAmount,
@@ -1356,17 +2451,27 @@ export class PaymentsService {
         },
       });
 
+      // 6. Reabrir el préstamo si estaba COMPLETED
+      const loanStatusTransition =
+        await this.loansService.syncLoanCompletionStatus(subLoan.loanId, tx);
+
       return {
         subLoan: updatedSubLoan,
         paymentsDeleted: paymentsDeleted.count,
         totalAmountReset: totalPaidAmount,
         routesUpdated: routeItems.length,
+        loanStatusTransition,
       };
     }, {
       maxWait: 30000,
       timeout: 30000,
     });
 
+    await this.loansService.logLoanStatusTransitions(
+      [result.loanStatusTransition],
+      { id: userId, role: userRole },
+    );
+
     return {
       message: 'Pagos reseteados exitosamente',
       subLoan: {
@@ -1380,10 +2485,241 @@ export class PaymentsService {
       paymentsDeleted: result.paymentsDeleted,
       totalAmountReset: result.totalAmountReset,
       routesUpdated: result.routesUpdated,
+      loanStatus: result.loanStatusTransition?.to ?? subLoan.loan.status,
       paymentHistory: result.subLoan.paymentHistory,
     };
   }
 
+  /**
+   * Anular un pago puntual (aunque sea de un día anterior).
+   * Revierte su imputación en todas las cuotas alcanzadas, incluido el excedente
+   * adelantado a cuotas posteriores, y registra los contramovimientos en las wallets.
+   * El pago se conserva con estado VOIDED, el motivo y el usuario que lo anuló.
+   */
+  async voidPayment(
+    paymentId: string,
+    userId: string,
+    userRole: UserRole,
+    voidPaymentDto: VoidPaymentDto,
+  ): Promise<any> {
+    const payment = await this.prisma.payment.findUnique({
+      where: { id: paymentId },
+      include: {
+        subLoan: {
+          include: {
+            loan: {
+              include: {
+                client: { select: { fullName: true } },
+              },
+            },
+          },
+        },
+      },
+    });
+
+    if (!payment) {
+      throw new NotFoundException('Pago no encontrado');
+    }
+
+    const { subLoan } = payment;
+    const loan = subLoan.loan;
+
+    if (userRole === UserRole.MANAGER && loan.managerId !== userId) {
+      throw new ForbiddenException('No tienes acceso a este préstamo');
+    }
+
+    if (userRole === UserRole.SUBADMIN) {
+      const manager = loan.managerId
+        ? await this.prisma.user.findUnique({
+            where: { id: loan.managerId },
+            select: { createdById: true },
+          })
+        : null;
+
+      if (manager?.createdById !== userId) {
+        throw new ForbiddenException('No tienes acceso a este préstamo');
+      }
+    }
+
+    if (payment.status === PaymentStatus.VOIDED) {
+      throw new BadRequestException('El pago ya fue anulado');
+    }
+
+    if (payment.isEarlyPayoff) {
+      throw new BadRequestException(
+        'No se puede anular una cancelación anticipada',
+      );
+    }
+
+    if (loan.status === LoanStatus.REFINANCED) {
+      throw new BadRequestException(
+        'El préstamo fue refinanciado: no se pueden anular sus pagos',
+      );
+    }
+
+    const managerId = loan.managerId;
+    if (!managerId) {
+      throw new BadRequestException('El préstamo no tiene manager asignado');
+    }
+
+    const amount = Number(payment.amount);
+    const penaltyAmount = Number(payment.penaltyAmount);
+
+    const result = await this.prisma.$transaction(
+      async (tx) => {
+        // 1. Revertir la imputación en cada cuota marcada con este pago en su paymentHistory
+        const loanSubLoans = await tx.subLoan.findMany({
+          where: { loanId: loan.id, deletedAt: null },
+          orderBy: { paymentNumber: 'asc' },
+        });
+
+        const reversedSubLoans: any[] = [];
+        let totalReversed = 0;
+
+        for (const sl of loanSubLoans) {
+          const hist = Array.isArray(sl.paymentHistory)
+            ? (sl.paymentHistory as any[])
+            : [];
+          const amountToRevert = hist
+            .filter(
+              (h: any) =>
+                h && typeof h === 'object' && h.sourcePaymentId === paymentId,
+            )
+            .reduce((sum: number, h: any) => sum + Number(h.amount || 0), 0);
+
+          if (amountToRevert <= 0) continue;
+
+          const newPaid = Math.max(0, Number(sl.paidAmount) - amountToRevert);
+          const total = Number(sl.totalAmount);
+          const newStatus =
+            newPaid <= 0
+              ? SubLoanStatus.PENDING
+              : newPaid >= total
+                ? SubLoanStatus.PAID
+                : SubLoanStatus.PARTIAL;
+
+          await tx.subLoan.update({
+            where: { id: sl.id },
+            data: {
+              paidAmount: new Prisma.Decimal(newPaid),
+              status: newStatus,
+              paidDate: newStatus === SubLoanStatus.PAID ? sl.paidDate : null,
+              paymentHistory: this.removePaymentFromHistory(
+                sl.paymentHistory,
+                paymentId,
+              ),
+            },
+          });
+
+          reversedSubLoans.push({
+            subLoanId: sl.id,
+            paymentNumber: sl.paymentNumber,
+            revertedAmount: amountToRevert,
+            newStatus,
+            newPaidAmount: newPaid,
+          });
+          totalReversed += amountToRevert;
+        }
+
+        // Un pago sin marcas en el historial (anterior al seguimiento por pago) no se
+        // puede desarmar con seguridad: abortar antes de tocar las wallets
+        if (totalReversed === 0 && amount - penaltyAmount > 0) {
+          throw new BadRequestException(
+            'No se pudo determinar en qué cuotas se imputó el pago; use el reseteo de la cuota',
+          );
+        }
+
+        // 2. Devolver los punitorios que había cancelado el pago en cada cuota
+        const penaltiesBySubLoan =
+          await this.paymentAllocationService.getPenaltiesBySubLoan(tx, [
+            payment,
+          ]);
+        for (const [penaltySubLoanId, penalty] of penaltiesBySubLoan) {
+          await tx.subLoan.update({
+            where: { id: penaltySubLoanId },
+            data: { penaltyPaid: { decrement: new Prisma.Decimal(penalty) } },
+          });
+        }
+
+        // 3. Contramovimientos en la wallet del manager y en la collector wallet / saldo bancario
+        await this.walletService.debit({
+          userId: managerId,
+          amount,
+          type: WalletTransactionType.LOAN_PAYMENT,
+          description: `Anulación pago préstamo ${loan.loanTrack} - Cuota #${subLoan.paymentNumber}`,
+          transaction: tx,
+        });
+
+        await this.reverseCollectedAmount(tx, {
+          managerId: payment.collectorWalletUserId ?? managerId,
+          loan,
+          amount,
+          paymentMethod: payment.paymentMethod,
+          description: `Anulación cobro ${loan.client.fullName} - Cuota #${subLoan.paymentNumber}`,
+          subLoanId: subLoan.id,
+        });
+
+        // El saldo a favor que generó el excedente del pago también se anula
+        await this.clientCreditService.reverseOverpayments(
+          tx,
+          [paymentId],
+          `Anulación excedente pago ${loan.client.fullName} - Cuota #${subLoan.paymentNumber}`,
+        );
+
+        // 4. Conservar el pago marcado como anulado
+        const voidedPayment = await tx.payment.update({
+          where: { id: paymentId },
+          data: {
+            status: PaymentStatus.VOIDED,
+            voidedAt: DateUtil.now().toJSDate(),
+            voidedById: userId,
+            voidReason: voidPaymentDto.reason,
+          },
+        });
+
+        // 5. Recalcular lo cobrado en la ruta del día en que se registró el pago
+        await this.recalcRouteTotalCollectedPaymentsForDay({
+          tx,
+          managerId,
+          day: payment.createdAt,
+        });
+
+        // 6. Reabrir el préstamo si estaba COMPLETED
+        const loanStatusTransition =
+          await this.loansService.syncLoanCompletionStatus(loan.id, tx);
+
+        return { voidedPayment, reversedSubLoans, loanStatusTransition };
+      },
+      {
+        maxWait: 30000,
+        timeout: 30000,
+      },
+    );
+
+    await this.loansService.logLoanStatusTransitions(
+      [result.loanStatusTransition],
+      { id: userId, role: userRole },
+    );
+
+    return {
+      message: 'Pago anulado exitosamente',
+      payment: {
+        id: result.voidedPayment.id,
+        amount,
+        penaltyAmount,
+        currency: result.voidedPayment.currency,
+        paymentMethod: result.voidedPayment.paymentMethod,
+        paymentDate: result.voidedPayment.paymentDate,
+        status: result.voidedPayment.status,
+        voidedAt: result.voidedPayment.voidedAt,
+        voidedById: result.voidedPayment.voidedById,
+        voidReason: result.voidedPayment.voidReason,
+      },
+      reversedSubLoans: result.reversedSubLoans,
+      loanStatus: result.loanStatusTransition?.to ?? loan.status,
+    };
+  }
+
   /**
    * Editar el pago de un SubLoan (solo si está completamente pagado)
    * Revierte todos los pagos y aplica el nuevo pago como si fuera el primero
@@ -1394,7 +2730,15 @@ export class PaymentsService {
     subLoanId: string,
     registerPaymentDto: Omit<RegisterPaymentDto, 'subLoanId'>,
   ): Promise<any> {
-    const { amount, currency, paymentDate, description } = registerPaymentDto;
+    const {
+      amount,
+      currency,
+      paymentDate,
+      description,
+      paymentMethod,
+      externalReference,
+      payerName,
+    } = registerPaymentDto;
 
     // Obtener el SubLoan con su Loan y Client
     const subLoan = await this.prisma.subLoan.findUnique({
@@ -1412,6 +2756,7 @@ export class PaymentsService {
           },
         },
         payments: {
+          where: { status: PaymentStatus.COMPLETED },
           orderBy: { paymentDate: 'asc' },
         },
       },
@@ -1425,6 +2770,12 @@ export class PaymentsService {
       throw new BadRequestException('SubLoan eliminado');
     }
 
+    if (subLoan.loan.status === LoanStatus.REFINANCED) {
+      throw new BadRequestException(
+        'El préstamo fue refinanciado: los pagos se registran en el préstamo nuevo',
+      );
+    }
+
     // Validar que el SubLoan esté completamente pagado
     if (subLoan.status !== SubLoanStatus.PAID) {
       throw new BadRequestException(
@@ -1440,6 +2791,13 @@ export class PaymentsService {
     }
 
     const lastPayment = subLoan.payments[subLoan.payments.length - 1];
+
+    if (lastPayment.isEarlyPayoff) {
+      throw new BadRequestException(
+        'No se puede editar una cancelación anticipada',
+      );
+    }
+
     const lastPaymentDate = DateUtil.fromPrismaDate(lastPayment.paymentDate);
     const yesterday = DateUtil.now().minus({ days: 1 });
     const lastPaymentDateOnly = lastPaymentDate.toFormat('yyyy-MM-dd');
@@ -1467,6 +2825,12 @@ export class PaymentsService {
       );
     }
 
+    if (paymentMethod === PaymentMethod.CLIENT_CREDIT) {
+      throw new BadRequestException(
+        'Un pago editado no puede imputarse con saldo a favor',
+      );
+    }
+
     const managerId = subLoan.loan.managerId;
     if (!managerId) {
       throw new BadRequestException('El préstamo no tiene manager asignado');
@@ -1477,6 +2841,11 @@ export class PaymentsService {
       (sum, p) => sum + Number(p.amount),
       0,
     );
+    // Porción de esos pagos que se imputó a punitorios
+    const totalPenaltyPaid = subLoan.payments.reduce(
+      (sum, p) => sum + Number(p.penaltyAmount),
+      0,
+    );
 
     // Días afectados antes del cambio (createdAt) para recalcular totalCollectedPayments de la ruta
     const affectedDaysBefore = Array.from(
@@ -1489,6 +2858,20 @@ export class PaymentsService {
 
     // Realizar la reversión completa y nuevo pago en transacción
     const result = await this.prisma.$transaction(async (tx) => {
+      // 0. Devolver los punitorios cobrados por estos pagos a las cuotas donde se imputaron
+      const penaltiesBySubLoan =
+        await this.paymentAllocationService.getPenaltiesBySubLoan(
+          tx,
+          subLoan.payments,
+        );
+      for (const [penaltySubLoanId, penalty] of penaltiesBySubLoan) {
+        if (penaltySubLoanId === subLoanId) continue;
+        await tx.subLoan.update({
+          where: { id: penaltySubLoanId },
+          data: { penaltyPaid: { decrement: new Prisma.Decimal(penalty) } },
+        });
+      }
+
       // 1. Revertir todos los efectos en wallets
       // Revertir crédito en wallet del manager
       await this.walletService.debit({
@@ -1499,42 +2882,33 @@ export class PaymentsService {
         transaction: tx,
       });
 
-      // Revertir registro en collector wallet
-      const collectorWallet = await this.collectorWalletService.getOrCreateWallet(
+      // Revertir registro en collector wallet (efectivo) y saldo bancario (resto de medios)
+      for (const collected of this.sumPaymentsByCollector(
+        subLoan.payments,
         managerId,
-        tx,
-      );
-      const collectorBalanceBefore = Number(collectorWallet.balance);
-      const collectorBalanceAfter = collectorBalanceBefore - totalPaidAmount;
-
-      await tx.collectorWallet.update({
-        where: { id: collectorWallet.id },
-        data: {
-          balance: {
-            decrement: new Prisma.Decimal(totalPaidAmount),
-          },
-        },
-      });
-
-      // Crear transacción de reversión en collector wallet
-      await tx.collectorWalletTransaction.create({
-        data: {
-          walletId: collectorWallet.id,
-          userId: managerId,
-          type: CollectorWalletTransactionType.PAYMENT_RESET,
-          amount: new Prisma.Decimal(-totalPaidAmount),
-          currency: collectorWallet.currency,
+      )) {
+        await this.reverseCollectedAmount(tx, {
+          managerId: collected.userId,
+          loan: subLoan.loan,
+          amount: collected.amount,
+          paymentMethod: collected.paymentMethod,
           description: `Reversión completa cobros SubLoan ${subLoan.loan.client.fullName} - Cuota #${subLoan.paymentNumber}`,
-          balanceBefore: new Prisma.Decimal(collectorBalanceBefore),
-          balanceAfter: new Prisma.Decimal(collectorBalanceAfter),
           subLoanId,
-        },
-      });
+        });
+      }
+
+      // Revertir el saldo a favor generado por excedentes de los pagos anteriores
+      await this.clientCreditService.reverseOverpayments(
+        tx,
+        subLoan.payments.map((p) => p.id),
+        `Reversión excedentes SubLoan ${subLoan.loan.client.fullName} - Cuota #${subLoan.paymentNumber}`,
+      );
 
       // 2. Buscar y revertir excedentes en subloans parciales anteriores
       // Obtener todos los pagos para calcular excedentes distribuidos
       const currentSubLoanTotalAmount = Number(subLoan.totalAmount);
-      const excessAmount = totalPaidAmount - currentSubLoanTotalAmount;
+      const excessAmount =
+        totalPaidAmount - totalPenaltyPaid - currentSubLoanTotalAmount;
 
       if (excessAmount > 0) {
         // Buscar subpréstamos parciales anteriores que recibieron el excedente
@@ -1555,6 +2929,7 @@ export class PaymentsService {
             ? await tx.payment.findMany({
                 where: {
                   subLoanId: { in: partialSubLoanIds },
+                  status: PaymentStatus.COMPLETED,
                 },
                 orderBy: [
                   { subLoanId: 'asc' },
@@ -1628,7 +3003,7 @@ export class PaymentsService {
 
       // 3. Eliminar todos los pagos del SubLoan actual
       await tx.payment.deleteMany({
-        where: { subLoanId },
+        where: { subLoanId, status: PaymentStatus.COMPLETED },
       });
 
       // 4. Resetear el SubLoan a estado inicial
@@ -1639,6 +3014,11 @@ export class PaymentsService {
           status: SubLoanStatus.PENDING,
           paidDate: null,
           paymentHistory: Prisma.JsonNull,
+          penaltyPaid: {
+            decrement: new Prisma.Decimal(
+              penaltiesBySubLoan.get(subLoanId) ?? 0,
+            ),
+          },
         },
       });
 
@@ -1648,6 +3028,14 @@ export class PaymentsService {
       let remainingAmount = amount;
       const distributedPayments: any[] = [];
 
+      // Cancelar primero los punitorios devengados de la cuota
+      const penaltyApplied = await this.settlePenalty(
+        tx,
+        subLoanId,
+        remainingAmount,
+      );
+      remainingAmount -= penaltyApplied;
+
       // Procesar el pago del SubLoan actual
       // Siempre aplicar como pago parcial, incluso si el monto es suficiente
       const newPaidAmount = Math.min(remainingAmount, Number(subLoan.totalAmount));
@@ -1660,7 +3048,8 @@ export class PaymentsService {
         where: { id: subLoanId },
         data: {
           paidAmount: new Prisma.Decimal(newPaidAmount),
-          status: SubLoanStatus.PARTIAL,
+          status:
+            newPaidAmount > 0 ? SubLoanStatus.PARTIAL : SubLoanStatus.PENDING,
           paidDate: paymentDate
             ? DateUtil.parseToDate(paymentDate)
             : DateUtil.now().toJSDate(),
@@ -1677,7 +3066,7 @@ export class PaymentsService {
         subLoanId: subLoan.id,
         paymentNumber: subLoan.paymentNumber,
         distributedAmount: newPaidAmount,
-        newStatus: SubLoanStatus.PARTIAL,
+        newStatus: updatedSubLoan.status,
         newPaidAmount,
       });
 
@@ -1850,14 +3239,39 @@ export class PaymentsService {
         data: {
           subLoanId,
           amount: new Prisma.Decimal(amount),
+          penaltyAmount: new Prisma.Decimal(penaltyApplied),
           currency,
           paymentDate: paymentDate
             ? DateUtil.parseToDate(paymentDate)
             : DateUtil.now().toJSDate(),
           description: description || `Pago editado SubLoan #${subLoan.paymentNumber}`,
+          paymentMethod,
+          externalReference,
+          payerName,
         },
       });
 
+      const receipt = await this.paymentReceiptService.assignReceipt(
+        payment.id,
+        tx,
+      );
+
+      // La edición imputa con su propia regla: se guarda el detalle sin estrategia
+      await this.paymentAllocationService.recordAllocations(
+        tx,
+        payment.id,
+        null,
+        await this.paymentAllocationService.buildFromDistribution(
+          tx,
+          {
+            subLoanId,
+            paymentNumber: subLoan.paymentNumber,
+            penalty: penaltyApplied,
+          },
+          distributedPayments,
+        ),
+      );
+
       // Marcar sourcePaymentId en la última entrada de paymentHistory del subloan editado (y parciales si aplica)
       const subLoanAfter = await tx.subLoan.findUnique({
         where: { id: subLoanId },
@@ -1911,23 +3325,36 @@ export class PaymentsService {
         amount,
         description: `Cobro editado préstamo ${subLoan.loan.client.fullName} - Cuota #${subLoan.paymentNumber}`,
         subLoanId,
+        paymentMethod,
+        externalReference,
         transaction: tx,
       });
 
+      // 9. Sincronizar el estado del préstamo (la edición deja la cuota PARTIAL)
+      const loanStatusTransition =
+        await this.loansService.syncLoanCompletionStatus(subLoan.loanId, tx);
+
       return {
-        payment,
+        payment: { ...payment, ...receipt },
         subLoan: updatedSubLoan,
         distributedPayments,
+        loanStatusTransition,
       };
     }, {
       maxWait: 30000,
       timeout: 30000,
     });
 
+    await this.loansService.logLoanStatusTransitions(
+      [result.loanStatusTransition],
+      { id: userId, role: userRole },
+    );
+
     return {
       payment: {
         ...result.payment,
         amount: Number(result.payment.amount),
+        penaltyAmount: Number(result.payment.penaltyAmount),
       },
       subLoan: {
         id: result.subLoan.id,
@@ -1938,8 +3365,14 @@ export class PaymentsService {
         remainingAmount:
           Number(result.subLoan.totalAmount) -
           Number(result.subLoan.paidAmount),
+        penaltyAmount: Number(result.subLoan.penaltyAmount),
+        penaltyPaid: Number(result.subLoan.penaltyPaid),
+        penaltyPending:
+          Number(result.subLoan.penaltyAmount) -
+          Number(result.subLoan.penaltyPaid),
       },
       distributedPayments: result.distributedPayments,
+      loanStatus: result.loanStatusTransition?.to ?? subLoan.loan.status,
     };
   }
 }
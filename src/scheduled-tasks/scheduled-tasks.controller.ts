@@ -50,9 +50,19 @@ export class ScheduledTasksController {
     schema: {
       type: 'object',
       properties: {
-        closedRoutes: { type: 'number', description: 'Cantidad de rutas cerradas' },
-        message: { type: 'string', description: 'Mensaje descriptivo del resultado' },
-        routes: { type: 'array', items: { type: 'string' }, description: 'IDs de las rutas cerradas' },
+        closedRoutes: {
+          type: 'number',
+          description: 'Cantidad de rutas cerradas',
+        },
+        message: {
+          type: 'string',
+          description: 'Mensaje descriptivo del resultado',
+        },
+        routes: {
+          type: 'array',
+          items: { type: 'string' },
+          description: 'IDs de las rutas cerradas',
+        },
       },
     },
   })
@@ -102,6 +112,82 @@ export class ScheduledTasksController {
     return result;
   }
 
+  @Post('accrue-overdue-penalties')
+  @Roles(UserRole.ADMIN, UserRole.SUPERADMIN)
+  @ApiOperation({
+    summary: 'Ejecutar manualmente el devengo de punitorios',
+    description:
+      'Devenga los punitorios del día sobre el saldo impago de los subloans vencidos y recalcula los días de atraso. Ejecuta manualmente la tarea que normalmente se ejecuta a las 00:30 AM (solo para admins)',
+  })
+  @ApiResponse({
+    status: 200,
+    description: 'Punitorios devengados exitosamente',
+  })
+  @ApiResponse({ status: 401, description: 'No autorizado' })
+  @ApiResponse({ status: 403, description: 'Prohibido - Solo administradores' })
+  async runAccrueOverduePenaltiesManually() {
+    const result =
+      await this.scheduledTasksService.runAccrueOverduePenaltiesManually();
+    return result;
+  }
+
+  @Post('apply-client-credit')
+  @Roles(UserRole.ADMIN, UserRole.SUPERADMIN)
+  @ApiOperation({
+    summary: 'Ejecutar manualmente la imputación de saldo a favor',
+    description:
+      'Imputa el saldo a favor de los clientes a sus cuotas vencidas o que vencen hoy, de la más antigua a la más reciente. Ejecuta manualmente la tarea que normalmente se ejecuta a las 00:40 AM (solo para admins)',
+  })
+  @ApiResponse({
+    status: 200,
+    description: 'Saldo a favor imputado exitosamente',
+  })
+  @ApiResponse({ status: 401, description: 'No autorizado' })
+  @ApiResponse({ status: 403, description: 'Prohibido - Solo administradores' })
+  async runApplyClientCreditManually() {
+    const result =
+      await this.scheduledTasksService.runApplyClientCreditManually();
+    return result;
+  }
+
+  @Post('mark-defaulted-loans')
+  @Roles(UserRole.ADMIN, UserRole.SUPERADMIN)
+  @ApiOperation({
+    summary: 'Ejecutar manualmente el marcado de préstamos incobrables',
+    description:
+      'Marca como DEFAULTED los préstamos con alguna cuota OVERDUE que supere los días configurados en LOAN_DEFAULT_OVERDUE_DAYS. Ejecuta manualmente la tarea que normalmente se ejecuta a las 00:45 AM (solo para admins)',
+  })
+  @ApiResponse({
+    status: 200,
+    description: 'Préstamos marcados exitosamente',
+  })
+  @ApiResponse({ status: 401, description: 'No autorizado' })
+  @ApiResponse({ status: 403, description: 'Prohibido - Solo administradores' })
+  async runMarkDefaultedLoansManually() {
+    const result =
+      await this.scheduledTasksService.runMarkDefaultedLoansManually();
+    return result;
+  }
+
+  @Post('resolve-payment-promises')
+  @Roles(UserRole.ADMIN, UserRole.SUPERADMIN)
+  @ApiOperation({
+    summary: 'Ejecutar manualmente la resolución de promesas de pago',
+    description:
+      'Marca como cumplidas las promesas cuyo monto ya se pagó y como incumplidas las que vencieron sin pagarse. Ejecuta manualmente la tarea que normalmente se ejecuta a las 00:50 AM (solo para admins)',
+  })
+  @ApiResponse({
+    status: 200,
+    description: 'Promesas de pago resueltas exitosamente',
+  })
+  @ApiResponse({ status: 401, description: 'No autorizado' })
+  @ApiResponse({ status: 403, description: 'Prohibido - Solo administradores' })
+  async runResolvePaymentPromisesManually() {
+    const result =
+      await this.scheduledTasksService.runResolvePaymentPromisesManually();
+    return result;
+  }
+
   @Post('generate-daily-report')
   @Roles(UserRole.ADMIN, UserRole.SUPERADMIN)
   @ApiOperation({
@@ -5,6 +5,9 @@ import { ScheduledTasksController } from './scheduled-tasks.controller';
 import { SubLoansModule } from '../sub-loans/sub-loans.module';
 import { CollectionRoutesModule } from '../collection-routes/collection-routes.module';
 import { DailyReportsModule } from '../daily-reports/daily-reports.module';
+import { LoansModule } from '../loans/loans.module';
+import { IdempotencyModule } from '../idempotency/idempotency.module';
+import { PaymentsModule } from '../payments/payments.module';
 
 @Module({
   imports: [
@@ -12,6 +15,9 @@ import { DailyReportsModule } from '../daily-reports/daily-reports.module';
     SubLoansModule,
     CollectionRoutesModule,
     DailyReportsModule,
+    LoansModule,
+    IdempotencyModule,
+    PaymentsModule,
   ],
   controllers: [ScheduledTasksController],
   providers: [ScheduledTasksService],
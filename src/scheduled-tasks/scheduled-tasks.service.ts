@@ -3,6 +3,10 @@ import { Cron, CronExpression } from '@nestjs/schedule';
 import { SubLoansService } from '../sub-loans/sub-loans.service';
 import { CollectionRoutesService } from '../collection-routes/collection-routes.service';
 import { DailyReportsService } from '../daily-reports/daily-reports.service';
+import { LoansService } from '../loans/loans.service';
+import { IdempotencyService } from '../idempotency/idempotency.service';
+import { PaymentsService } from '../payments/payments.service';
+import { PaymentPromiseService } from '../sub-loans/payment-promise.service';
 
 @Injectable()
 export class ScheduledTasksService {
@@ -12,6 +16,10 @@ export class ScheduledTasksService {
     private readonly subLoansService: SubLoansService,
     private readonly collectionRoutesService: CollectionRoutesService,
     private readonly dailyReportsService: DailyReportsService,
+    private readonly loansService: LoansService,
+    private readonly idempotencyService: IdempotencyService,
+    private readonly paymentsService: PaymentsService,
+    private readonly paymentPromiseService: PaymentPromiseService,
   ) {}
 
   /**
@@ -172,6 +180,200 @@ export class ScheduledTasksService {
     return this.markOverdueSubLoans();
   }
 
+  /**
+   * Tarea programada que se ejecuta a las 00:30 AM todos los días
+   * Devenga los punitorios diarios de los subloans vencidos y recalcula daysOverdue
+   */
+  @Cron('30 0 * * *', {
+    name: 'accrue-overdue-penalties',
+    timeZone: 'America/Argentina/Buenos_Aires',
+  })
+  async accrueOverduePenalties() {
+    try {
+      this.logger.log(
+        'Iniciando tarea programada: devengar punitorios de subloans vencidos',
+      );
+
+      const result = await this.subLoansService.accrueOverduePenalties();
+
+      this.logger.log(
+        `Tarea completada: ${result.message} - Total devengado: ${result.totalAccrued}`,
+      );
+
+      return result;
+    } catch (error) {
+      this.logger.error(
+        'Error en tarea programada de devengo de punitorios:',
+        error,
+      );
+      throw error;
+    }
+  }
+
+  /**
+   * Método para ejecutar manualmente el devengo de punitorios (para testing)
+   */
+  async runAccrueOverduePenaltiesManually() {
+    this.logger.log('Ejecutando manualmente la tarea de devengo de punitorios');
+    return this.accrueOverduePenalties();
+  }
+
+  /**
+   * Tarea programada que se ejecuta a las 00:40 AM todos los días
+   * (después del devengo de punitorios y antes del marcado de incobrables)
+   * Imputa el saldo a favor de los clientes a sus cuotas vencidas o que vencen hoy
+   */
+  @Cron('40 0 * * *', {
+    name: 'apply-client-credit',
+    timeZone: 'America/Argentina/Buenos_Aires',
+  })
+  async applyClientCredit() {
+    try {
+      this.logger.log(
+        'Iniciando tarea programada: imputar saldo a favor a cuotas vencidas',
+      );
+
+      const result =
+        await this.paymentsService.applyClientCreditToDueSubLoans();
+
+      this.logger.log(
+        `Tarea completada: ${result.message} - Total imputado: ${result.totalApplied}`,
+      );
+      if (result.errors.length > 0) {
+        this.logger.warn(
+          `No se pudo imputar saldo a favor a ${result.errors.length} cuotas`,
+        );
+      }
+
+      return result;
+    } catch (error) {
+      this.logger.error(
+        'Error en tarea programada de imputación de saldo a favor:',
+        error,
+      );
+      throw error;
+    }
+  }
+
+  /**
+   * Método para ejecutar manualmente la imputación de saldo a favor (para testing)
+   */
+  async runApplyClientCreditManually() {
+    this.logger.log(
+      'Ejecutando manualmente la tarea de imputación de saldo a favor',
+    );
+    return this.applyClientCredit();
+  }
+
+  /**
+   * Tarea programada que se ejecuta a las 00:45 AM todos los días
+   * (después del devengo de punitorios, que recalcula daysOverdue)
+   * Marca como DEFAULTED los préstamos con cuotas que superan el umbral de días en OVERDUE
+   */
+  @Cron('45 0 * * *', {
+    name: 'mark-defaulted-loans',
+    timeZone: 'America/Argentina/Buenos_Aires',
+  })
+  async markDefaultedLoans() {
+    try {
+      this.logger.log(
+        'Iniciando tarea programada: marcar préstamos incobrables como DEFAULTED',
+      );
+
+      const result = await this.loansService.markDefaultedLoans();
+
+      this.logger.log(`Tarea completada: ${result.message}`);
+
+      return result;
+    } catch (error) {
+      this.logger.error(
+        'Error en tarea programada de marcado de préstamos incobrables:',
+        error,
+      );
+      throw error;
+    }
+  }
+
+  /**
+   * Método para ejecutar manualmente el marcado de préstamos incobrables (para testing)
+   */
+  async runMarkDefaultedLoansManually() {
+    this.logger.log(
+      'Ejecutando manualmente la tarea de marcado de préstamos incobrables',
+    );
+    return this.markDefaultedLoans();
+  }
+
+  /**
+   * Tarea programada que se ejecuta a las 00:50 AM todos los días
+   * (después de la imputación de saldo a favor)
+   * Resuelve las promesas de pago pendientes contra los pagos registrados
+   */
+  @Cron('50 0 * * *', {
+    name: 'resolve-payment-promises',
+    timeZone: 'America/Argentina/Buenos_Aires',
+  })
+  async resolvePaymentPromises() {
+    try {
+      this.logger.log('Iniciando tarea programada: resolver promesas de pago');
+
+      const result = await this.paymentPromiseService.resolvePendingPromises();
+
+      this.logger.log(`Tarea completada: ${result.message}`);
+      if (result.errors.length > 0) {
+        this.logger.warn(
+          `No se pudieron resolver ${result.errors.length} promesas de pago`,
+        );
+      }
+
+      return result;
+    } catch (error) {
+      this.logger.error(
+        'Error en tarea programada de resolución de promesas de pago:',
+        error,
+      );
+      throw error;
+    }
+  }
+
+  /**
+   * Método para ejecutar manualmente la resolución de promesas de pago (para testing)
+   */
+  async runResolvePaymentPromisesManually() {
+    this.logger.log(
+      'Ejecutando manualmente la tarea de resolución de promesas de pago',
+    );
+    return this.resolvePaymentPromises();
+  }
+
+  /**
+   * Tarea programada que se ejecuta a las 05:00 AM todos los días
+   * Elimina las Idempotency-Keys de pagos con más de 7 días
+   */
+  @Cron('0 5 * * *', {
+    name: 'purge-idempotency-keys',
+    timeZone: 'America/Argentina/Buenos_Aires',
+  })
+  async purgeIdempotencyKeys() {
+    try {
+      this.logger.log(
+        'Iniciando tarea programada: eliminar Idempotency-Keys vencidas',
+      );
+
+      const result = await this.idempotencyService.purgeExpired();
+
+      this.logger.log(`Tarea completada: ${result.message}`);
+
+      return result;
+    } catch (error) {
+      this.logger.error(
+        'Error en tarea programada de limpieza de Idempotency-Keys:',
+        error,
+      );
+      throw error;
+    }
+  }
+
   /**
    * Tarea programada que se ejecuta a las 03:00 AM todos los días (horario argentino)
    * NOTA: La generación automática de reportes y envío por email ha sido deshabilitada.
@@ -0,0 +1,81 @@
+import {
+  IsDateString,
+  IsEnum,
+  IsNumber,
+  IsOptional,
+  IsPositive,
+  IsString,
+  MaxLength,
+} from 'class-validator';
+import { ApiProperty, ApiPropertyOptional } from '@nestjs/swagger';
+import { Type } from 'class-transformer';
+import { PaymentPromiseStatus } from '../../common/enums';
+
+export class CreatePaymentPromiseDto {
+  @ApiProperty({
+    description: 'Fecha en que el cliente promete pagar (YYYY-MM-DD)',
+    example: '2025-12-26',
+  })
+  @IsDateString()
+  promisedDate: string;
+
+  @ApiProperty({
+    description: 'Monto que el cliente promete pagar',
+    example: 15000,
+  })
+  @Type(() => Number)
+  @IsNumber()
+  @IsPositive()
+  amount: number;
+
+  @ApiPropertyOptional({
+    description: 'Notas de la visita',
+    example: 'Cobra el viernes, pasar a la tarde',
+  })
+  @IsOptional()
+  @IsString()
+  @MaxLength(500)
+  notes?: string;
+}
+
+export class GetPaymentPromisesQueryDto {
+  @ApiPropertyOptional({
+    enum: PaymentPromiseStatus,
+    description: 'Filtrar por estado de la promesa',
+  })
+  @IsOptional()
+  @IsEnum(PaymentPromiseStatus)
+  status?: PaymentPromiseStatus;
+
+  @ApiPropertyOptional({
+    description: 'Fecha prometida desde (YYYY-MM-DD, inclusive)',
+    example: '2025-12-01',
+  })
+  @IsOptional()
+  @IsDateString()
+  dateFrom?: string;
+
+  @ApiPropertyOptional({
+    description: 'Fecha prometida hasta (YYYY-MM-DD, inclusive)',
+    example: '2025-12-31',
+  })
+  @IsOptional()
+  @IsDateString()
+  dateTo?: string;
+
+  @ApiPropertyOptional({
+    description: 'ID del manager (solo para SUBADMIN/ADMIN)',
+    example: 'manager_id_here',
+  })
+  @IsOptional()
+  @IsString()
+  managerId?: string;
+
+  @ApiPropertyOptional({
+    description: 'ID del cliente',
+    example: 'client_id_here',
+  })
+  @IsOptional()
+  @IsString()
+  clientId?: string;
+}
@@ -0,0 +1,20 @@
+import { IsDateString, IsNotEmpty, IsString, MaxLength } from 'class-validator';
+import { ApiProperty } from '@nestjs/swagger';
+
+export class RescheduleSubLoanDto {
+  @ApiProperty({
+    description: 'Nueva fecha de vencimiento de la cuota (YYYY-MM-DD)',
+    example: '2025-12-22',
+  })
+  @IsDateString()
+  newDueDate: string;
+
+  @ApiProperty({
+    description: 'Motivo de la reprogramación',
+    example: 'El cliente está enfermo, acordamos pasar la cuota al lunes',
+  })
+  @IsString()
+  @IsNotEmpty()
+  @MaxLength(500)
+  reason: string;
+}
@@ -0,0 +1,45 @@
+import {
+  IsInt,
+  IsNotEmpty,
+  IsOptional,
+  IsString,
+  Max,
+  MaxLength,
+  Min,
+} from 'class-validator';
+import { ApiProperty, ApiPropertyOptional } from '@nestjs/swagger';
+import { Type } from 'class-transformer';
+
+export class ShiftSubLoansDto {
+  @ApiProperty({
+    description: 'Cantidad de días a correr las cuotas pendientes',
+    example: 7,
+    minimum: 1,
+    maximum: 365,
+  })
+  @Type(() => Number)
+  @IsInt()
+  @Min(1)
+  @Max(365)
+  days: number;
+
+  @ApiPropertyOptional({
+    description:
+      'Número de cuota desde la cual correr el cronograma (por defecto, la primera pendiente)',
+    example: 3,
+  })
+  @IsOptional()
+  @Type(() => Number)
+  @IsInt()
+  @Min(1)
+  fromPaymentNumber?: number;
+
+  @ApiProperty({
+    description: 'Motivo del corrimiento',
+    example: 'Cliente internado, se posterga todo el cronograma una semana',
+  })
+  @IsString()
+  @IsNotEmpty()
+  @MaxLength(500)
+  reason: string;
+}
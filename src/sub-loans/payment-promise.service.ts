@@ -0,0 +1,566 @@
+import {
+  Injectable,
+  Logger,
+  NotFoundException,
+  ForbiddenException,
+  BadRequestException,
+} from '@nestjs/common';
+import { Prisma } from '@prisma/client';
+import { PrismaService } from '../prisma/prisma.service';
+import { HolidaysService } from '../holidays/holidays.service';
+import {
+  LoanStatus,
+  PaymentPromiseStatus,
+  PaymentStatus,
+  SubLoanStatus,
+  UserRole,
+} from '../common/enums';
+import { DateUtil } from '../common/utils';
+import {
+  CreatePaymentPromiseDto,
+  GetPaymentPromisesQueryDto,
+} from './dto/payment-promise.dto';
+
+const round = (value: number) => Number(value.toFixed(2));
+
+type PromiseWithRelations = Prisma.PaymentPromiseGetPayload<{
+  include: {
+    subLoan: { select: { paymentNumber: true; loanId: true } };
+    client: { select: { fullName: true } };
+  };
+}>;
+
+/**
+ * Promesas de pago sobre cuotas vencidas: el cobrador acuerda con el cliente una
+ * fecha y un monto. Las promesas del día se agregan a la ruta de cobro del manager
+ * y una tarea nocturna las resuelve contra los pagos registrados.
+ */
+@Injectable()
+export class PaymentPromiseService {
+  private readonly logger = new Logger(PaymentPromiseService.name);
+
+  constructor(
+    private prisma: PrismaService,
+    private holidaysService: HolidaysService,
+  ) {}
+
+  /**
+   * Registra una promesa de pago sobre una cuota vencida (o que vence hoy).
+   * Si la fecha prometida es hoy, la cuota se agrega a la ruta activa del manager.
+   */
+  async create(
+    subLoanId: string,
+    userId: string,
+    userRole: UserRole,
+    createDto: CreatePaymentPromiseDto,
+  ) {
+    const subLoan = await this.prisma.subLoan.findUnique({
+      where: { id: subLoanId },
+      include: {
+        loan: {
+          select: {
+            managerId: true,
+            status: true,
+            clientId: true,
+            client: {
+              select: { fullName: true, phone: true, address: true },
+            },
+          },
+        },
+      },
+    });
+
+    if (!subLoan || subLoan.deletedAt) {
+      throw new NotFoundException('SubLoan no encontrado');
+    }
+
+    if (userRole === UserRole.MANAGER && subLoan.loan.managerId !== userId) {
+      throw new ForbiddenException('No tienes acceso a este préstamo');
+    }
+
+    // Solo préstamos que entran en las rutas de cobro
+    if (
+      ![LoanStatus.ACTIVE, LoanStatus.APPROVED, LoanStatus.DEFAULTED].includes(
+        subLoan.loan.status as LoanStatus,
+      )
+    ) {
+      throw new BadRequestException(
+        `No se pueden registrar promesas de pago de un préstamo en estado ${subLoan.loan.status}`,
+      );
+    }
+
+    if (
+      subLoan.status === SubLoanStatus.PAID ||
+      subLoan.status === SubLoanStatus.REFINANCED
+    ) {
+      throw new BadRequestException(
+        `No se puede registrar una promesa de pago sobre una cuota en estado ${subLoan.status}`,
+      );
+    }
+
+    const today = DateUtil.startOfDay();
+    if (DateUtil.fromPrismaDate(subLoan.dueDate) > DateUtil.endOfDay()) {
+      throw new BadRequestException(
+        'Solo se registran promesas de pago sobre cuotas vencidas o que vencen hoy',
+      );
+    }
+
+    const promisedDay = DateUtil.startOfDay(
+      DateUtil.fromJSDate(DateUtil.parseToDate(createDto.promisedDate)),
+    );
+    if (promisedDay < today) {
+      throw new BadRequestException(
+        'La fecha prometida no puede ser anterior a hoy',
+      );
+    }
+
+    const holidays = await this.holidaysService.getHolidayDateSet(
+      promisedDay.toJSDate(),
+    );
+    if (promisedDay.weekday === 7 || holidays.has(promisedDay.toISODate()!)) {
+      throw new BadRequestException(
+        `La fecha ${promisedDay.toISODate()} cae en domingo o feriado`,
+      );
+    }
+
+    const pending = round(
+      Number(subLoan.totalAmount) -
+        Number(subLoan.paidAmount) +
+        Math.max(
+          0,
+          Number(subLoan.penaltyAmount) - Number(subLoan.penaltyPaid),
+        ),
+    );
+    if (createDto.amount > pending) {
+      throw new BadRequestException(
+        `El monto prometido supera el saldo de la cuota (${pending.toFixed(2)})`,
+      );
+    }
+
+    const existing = await this.prisma.paymentPromise.findFirst({
+      where: { subLoanId, status: PaymentPromiseStatus.PENDING },
+    });
+    if (existing) {
+      throw new BadRequestException(
+        'La cuota ya tiene una promesa de pago pendiente',
+      );
+    }
+
+    const promise = await this.prisma.$transaction(
+      async (tx) => {
+        const created = await tx.paymentPromise.create({
+          data: {
+            subLoanId,
+            clientId: subLoan.loan.clientId,
+            managerId: subLoan.loan.managerId,
+            // Se guarda al mediodía Argentina, igual que los vencimientos
+            promisedDate: promisedDay
+              .set({ hour: 12, minute: 0, second: 0, millisecond: 0 })
+              .toJSDate(),
+            amount: new Prisma.Decimal(createDto.amount),
+            notes: createDto.notes,
+            createdById: userId,
+          },
+          include: this.promiseInclude(),
+        });
+
+        // La ruta del día ya fue generada: agregar la cuota si la promesa es para hoy
+        if (promisedDay.hasSame(today, 'day') && subLoan.loan.managerId) {
+          const route = await tx.dailyCollectionRoute.findFirst({
+            where: {
+              managerId: subLoan.loan.managerId,
+              routeDate: today.toJSDate(),
+              status: 'ACTIVE',
+            },
+            include: {
+              items: { select: { subLoanId: true, orderIndex: true } },
+            },
+          });
+
+          if (
+            route &&
+            !route.items.some((item) => item.subLoanId === subLoanId)
+          ) {
+            await tx.collectionRouteItem.create({
+              data: {
+                routeId: route.id,
+                subLoanId,
+                clientName: subLoan.loan.client.fullName,
+                clientPhone: subLoan.loan.client.phone,
+                clientAddress: subLoan.loan.client.address,
+                orderIndex:
+                  route.items.reduce(
+                    (max, item) => Math.max(max, item.orderIndex),
+                    -1,
+                  ) + 1,
+              },
+            });
+          }
+        }
+
+        return created;
+      },
+      { maxWait: 30000, timeout: 30000 },
+    );
+
+    return this.toResponse(promise);
+  }
+
+  /**
+   * Promesas de pago de una cuota
+   */
+  async findBySubLoan(subLoanId: string, userId: string, userRole: UserRole) {
+    const subLoan = await this.prisma.subLoan.findUnique({
+      where: { id: subLoanId },
+      include: { loan: { select: { managerId: true } } },
+    });
+
+    if (!subLoan || subLoan.deletedAt) {
+      throw new NotFoundException('SubLoan no encontrado');
+    }
+
+    if (userRole === UserRole.MANAGER && subLoan.loan.managerId !== userId) {
+      throw new ForbiddenException('No tienes acceso a este préstamo');
+    }
+
+    const promises = await this.prisma.paymentPromise.findMany({
+      where: { subLoanId },
+      include: this.promiseInclude(),
+      orderBy: { createdAt: 'desc' },
+    });
+
+    return promises.map((promise) => this.toResponse(promise));
+  }
+
+  /**
+   * Listado de promesas de pago con filtros
+   */
+  async findAll(
+    userId: string,
+    userRole: UserRole,
+    query: GetPaymentPromisesQueryDto,
+  ) {
+    const where = await this.buildWhere(userId, userRole, query);
+    if (query.status) {
+      where.status = query.status;
+    }
+
+    const promises = await this.prisma.paymentPromise.findMany({
+      where,
+      include: this.promiseInclude(),
+      orderBy: [{ promisedDate: 'asc' }, { createdAt: 'asc' }],
+    });
+
+    return promises.map((promise) => this.toResponse(promise));
+  }
+
+  /**
+   * Cumplimiento de promesas por manager y por cliente. El ratio es
+   * cumplidas / (cumplidas + incumplidas); las pendientes no cuentan.
+   */
+  async getStats(
+    userId: string,
+    userRole: UserRole,
+    query: GetPaymentPromisesQueryDto,
+  ) {
+    const where = await this.buildWhere(userId, userRole, query);
+
+    const [byManagerRows, byClientRows] = await Promise.all([
+      this.prisma.paymentPromise.groupBy({
+        by: ['managerId', 'status'],
+        where,
+        _count: { _all: true },
+      }),
+      this.prisma.paymentPromise.groupBy({
+        by: ['clientId', 'status'],
+        where,
+        _count: { _all: true },
+      }),
+    ]);
+
+    const tally = <K extends string | null>(
+      rows: { key: K; status: PaymentPromiseStatus; count: number }[],
+    ) => {
+      const totals = new Map<
+        K,
+        { pending: number; kept: number; broken: number }
+      >();
+      for (const row of rows) {
+        const current = totals.get(row.key) ?? {
+          pending: 0,
+          kept: 0,
+          broken: 0,
+        };
+        if (row.status === PaymentPromiseStatus.KEPT) current.kept += row.count;
+        else if (row.status === PaymentPromiseStatus.BROKEN)
+          current.broken += row.count;
+        else current.pending += row.count;
+        totals.set(row.key, current);
+      }
+      return totals;
+    };
+
+    const withRatio = (totals: {
+      pending: number;
+      kept: number;
+      broken: number;
+    }) => ({
+      total: totals.pending + totals.kept + totals.broken,
+      ...totals,
+      keptRatio:
+        totals.kept + totals.broken > 0
+          ? round(totals.kept / (totals.kept + totals.broken))
+          : null,
+    });
+
+    const managerTotals = tally(
+      byManagerRows.map((row) => ({
+        key: row.managerId,
+        status: row.status as PaymentPromiseStatus,
+        count: row._count._all,
+      })),
+    );
+    const clientTotals = tally(
+      byClientRows.map((row) => ({
+        key: row.clientId,
+        status: row.status as PaymentPromiseStatus,
+        count: row._count._all,
+      })),
+    );
+
+    const managerIds = Array.from(managerTotals.keys()).filter(
+      (id): id is string => !!id,
+    );
+    const [managers, clients] = await Promise.all([
+      this.prisma.user.findMany({
+        where: { id: { in: managerIds } },
+        select: { id: true, fullName: true },
+      }),
+      this.prisma.client.findMany({
+        where: { id: { in: Array.from(clientTotals.keys()) } },
+        select: { id: true, fullName: true },
+      }),
+    ]);
+    const managerNames = new Map(managers.map((m) => [m.id, m.fullName]));
+    const clientNames = new Map(clients.map((c) => [c.id, c.fullName]));
+
+    const overall = { pending: 0, kept: 0, broken: 0 };
+    for (const totals of managerTotals.values()) {
+      overall.pending += totals.pending;
+      overall.kept += totals.kept;
+      overall.broken += totals.broken;
+    }
+
+    return {
+      overall: withRatio(overall),
+      byManager: Array.from(managerTotals.entries()).map(([id, totals]) => ({
+        managerId: id,
+        managerName: id ? (managerNames.get(id) ?? null) : null,
+        ...withRatio(totals),
+      })),
+      byClient: Array.from(clientTotals.entries()).map(([id, totals]) => ({
+        clientId: id,
+        clientName: clientNames.get(id) ?? null,
+        ...withRatio(totals),
+      })),
+    };
+  }
+
+  /**
+   * Resuelve las promesas pendientes contra los pagos registrados a la cuota desde
+   * que se hizo la promesa hasta el fin del día prometido:
+   * - KEPT: se pagó el monto prometido (o la cuota quedó pagada)
+   * - BROKEN: pasó el día prometido sin completar el monto
+   * Las que todavía están en plazo siguen pendientes con lo pagado actualizado.
+   */
+  async resolvePendingPromises() {
+    const today = DateUtil.startOfDay();
+
+    const promises = await this.prisma.paymentPromise.findMany({
+      where: { status: PaymentPromiseStatus.PENDING },
+      include: { subLoan: { select: { status: true } } },
+      orderBy: { promisedDate: 'asc' },
+    });
+
+    let kept = 0;
+    let broken = 0;
+    const errors: { promiseId: string; error: string }[] = [];
+
+    for (const promise of promises) {
+      try {
+        const promisedDayEnd = DateUtil.endOfDay(
+          DateUtil.fromPrismaDate(promise.promisedDate),
+        );
+        const paidAmount = await this.getPaidSincePromise(
+          promise.subLoanId,
+          promise.createdAt,
+          promisedDayEnd.toJSDate(),
+        );
+
+        let status: PaymentPromiseStatus = PaymentPromiseStatus.PENDING;
+        if (
+          paidAmount + 0.001 >= Number(promise.amount) ||
+          promise.subLoan.status === SubLoanStatus.PAID
+        ) {
+          status = PaymentPromiseStatus.KEPT;
+          kept++;
+        } else if (promisedDayEnd < today) {
+          status = PaymentPromiseStatus.BROKEN;
+          broken++;
+        }
+
+        await this.prisma.paymentPromise.update({
+          where: { id: promise.id },
+          data: {
+            paidAmount: new Prisma.Decimal(paidAmount),
+            status,
+            resolvedAt:
+              status === PaymentPromiseStatus.PENDING ? null : new Date(),
+          },
+        });
+      } catch (error: any) {
+        this.logger.error(
+          `Error resolviendo la promesa de pago ${promise.id}:`,
+          error,
+        );
+        errors.push({ promiseId: promise.id, error: error.message });
+      }
+    }
+
+    return {
+      message: `Se resolvieron ${kept + broken} promesas de pago (${kept} cumplidas, ${broken} incumplidas)`,
+      reviewed: promises.length,
+      kept,
+      broken,
+      errors,
+    };
+  }
+
+  /**
+   * Monto imputado a la cuota por pagos registrados desde la promesa. Los pagos sin
+   * detalle de imputación cuentan completos para su propia cuota.
+   */
+  private async getPaidSincePromise(
+    subLoanId: string,
+    from: Date,
+    to: Date,
+  ): Promise<number> {
+    const paymentWhere = {
+      status: PaymentStatus.COMPLETED,
+      createdAt: { gte: from },
+      paymentDate: { lte: to },
+    };
+
+    const [allocations, paymentsWithoutDetail] = await Promise.all([
+      this.prisma.paymentAllocation.findMany({
+        where: { subLoanId, payment: paymentWhere },
+        select: {
+          penaltyAmount: true,
+          interestAmount: true,
+          principalAmount: true,
+        },
+      }),
+      this.prisma.payment.findMany({
+        where: { subLoanId, ...paymentWhere, allocations: { none: {} } },
+        select: { amount: true },
+      }),
+    ]);
+
+    const allocated = allocations.reduce(
+      (sum, a) =>
+        sum +
+        Number(a.penaltyAmount) +
+        Number(a.interestAmount) +
+        Number(a.principalAmount),
+      0,
+    );
+    const unallocated = paymentsWithoutDetail.reduce(
+      (sum, p) => sum + Number(p.amount),
+      0,
+    );
+
+    return round(allocated + unallocated);
+  }
+
+  /**
+   * Filtros de acceso por rol, cliente y rango de fechas prometidas
+   */
+  private async buildWhere(
+    userId: string,
+    userRole: UserRole,
+    query: GetPaymentPromisesQueryDto,
+  ): Promise<Prisma.PaymentPromiseWhereInput> {
+    const where: Prisma.PaymentPromiseWhereInput = {};
+
+    if (userRole === UserRole.MANAGER) {
+      where.managerId = userId;
+    } else if (userRole === UserRole.SUBADMIN) {
+      const managers = await this.prisma.user.findMany({
+        where: {
+          role: UserRole.MANAGER,
+          createdById: userId,
+          deletedAt: null,
+        },
+        select: { id: true },
+      });
+      const managerIds = managers.map((m) => m.id);
+
+      if (query.managerId && !managerIds.includes(query.managerId)) {
+        throw new ForbiddenException(
+          'No tienes acceso a las promesas de este manager',
+        );
+      }
+      where.managerId = query.managerId ?? { in: managerIds };
+    } else if (query.managerId) {
+      where.managerId = query.managerId;
+    }
+
+    if (query.clientId) {
+      where.clientId = query.clientId;
+    }
+
+    if (query.dateFrom || query.dateTo) {
+      where.promisedDate = {
+        ...(query.dateFrom && {
+          gte: DateUtil.startOfDay(
+            DateUtil.fromJSDate(DateUtil.parseToDate(query.dateFrom)),
+          ).toJSDate(),
+        }),
+        ...(query.dateTo && {
+          lte: DateUtil.endOfDay(
+            DateUtil.fromJSDate(DateUtil.parseToDate(query.dateTo)),
+          ).toJSDate(),
+        }),
+      };
+    }
+
+    return where;
+  }
+
+  private promiseInclude() {
+    return {
+      subLoan: { select: { paymentNumber: true, loanId: true } },
+      client: { select: { fullName: true } },
+    } as const;
+  }
+
+  private toResponse(promise: PromiseWithRelations) {
+    return {
+      id: promise.id,
+      subLoanId: promise.subLoanId,
+      loanId: promise.subLoan.loanId,
+      paymentNumber: promise.subLoan.paymentNumber,
+      clientId: promise.clientId,
+      clientName: promise.client.fullName,
+      managerId: promise.managerId,
+      promisedDate: promise.promisedDate,
+      amount: Number(promise.amount),
+      paidAmount: Number(promise.paidAmount),
+      status: promise.status,
+      notes: promise.notes,
+      createdById: promise.createdById,
+      resolvedAt: promise.resolvedAt,
+      createdAt: promise.createdAt,
+    };
+  }
+}
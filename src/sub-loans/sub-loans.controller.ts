@@ -5,6 +5,9 @@ import {
   Request,
   Post,
   Query,
+  Param,
+  Patch,
+  Body,
 } from '@nestjs/common';
 import {
   ApiTags,
@@ -12,19 +15,30 @@ import {
   ApiResponse,
   ApiBearerAuth,
   ApiQuery,
+  ApiParam,
 } from '@nestjs/swagger';
 import { JwtAuthGuard } from '../common/guards/jwt-auth.guard';
 import { RolesGuard } from '../common/guards/roles.guard';
 import { Roles } from '../common/decorators/roles.decorator';
 import { UserRole } from '../common/enums';
 import { SubLoansService } from './sub-loans.service';
+import { PaymentPromiseService } from './payment-promise.service';
+import { RescheduleSubLoanDto } from './dto/reschedule-sub-loan.dto';
+import { ShiftSubLoansDto } from './dto/shift-sub-loans.dto';
+import {
+  CreatePaymentPromiseDto,
+  GetPaymentPromisesQueryDto,
+} from './dto/payment-promise.dto';
 
 @ApiTags('SubLoans')
 @Controller('sub-loans')
 @UseGuards(JwtAuthGuard, RolesGuard)
 @ApiBearerAuth()
 export class SubLoansController {
-  constructor(private readonly subLoansService: SubLoansService) {}
+  constructor(
+    private readonly subLoansService: SubLoansService,
+    private readonly paymentPromiseService: PaymentPromiseService,
+  ) {}
 
   @Get('today-due')
   @Roles(
@@ -165,6 +179,263 @@ export class SubLoansController {
     return result;
   }
 
+  @Get('promises')
+  @Roles(
+    UserRole.MANAGER,
+    UserRole.SUBADMIN,
+    UserRole.ADMIN,
+    UserRole.SUPERADMIN,
+  )
+  @ApiOperation({
+    summary: 'Listar promesas de pago',
+    description:
+      'Retorna las promesas de pago filtradas por estado, fecha prometida, manager o cliente. Los MANAGERS ven solo las propias y los SUBADMIN las de sus managers',
+  })
+  @ApiResponse({ status: 200, description: 'Promesas obtenidas exitosamente' })
+  @ApiResponse({
+    status: 403,
+    description: 'No tienes acceso a las promesas de este manager',
+  })
+  async getPaymentPromises(
+    @Request() req,
+    @Query() query: GetPaymentPromisesQueryDto,
+  ) {
+    return this.paymentPromiseService.findAll(
+      req.user.id,
+      req.user.role,
+      query,
+    );
+  }
+
+  @Get('promises/stats')
+  @Roles(
+    UserRole.MANAGER,
+    UserRole.SUBADMIN,
+    UserRole.ADMIN,
+    UserRole.SUPERADMIN,
+  )
+  @ApiOperation({
+    summary: 'Cumplimiento de promesas de pago por manager y por cliente',
+    description:
+      'Cuenta las promesas pendientes, cumplidas e incumplidas y calcula el ratio cumplidas / (cumplidas + incumplidas), en total, por manager y por cliente',
+  })
+  @ApiResponse({
+    status: 200,
+    description: 'Estadísticas obtenidas exitosamente',
+  })
+  @ApiResponse({
+    status: 403,
+    description: 'No tienes acceso a las promesas de este manager',
+  })
+  async getPaymentPromiseStats(
+    @Request() req,
+    @Query() query: GetPaymentPromisesQueryDto,
+  ) {
+    return this.paymentPromiseService.getStats(
+      req.user.id,
+      req.user.role,
+      query,
+    );
+  }
+
+  @Post(':id/promises')
+  @Roles(
+    UserRole.MANAGER,
+    UserRole.SUBADMIN,
+    UserRole.ADMIN,
+    UserRole.SUPERADMIN,
+  )
+  @ApiOperation({
+    summary: 'Registrar una promesa de pago',
+    description:
+      'Registra la fecha y el monto que el cliente promete pagar por una cuota vencida. Si la fecha es hoy, la cuota se agrega a la ruta de cobro activa del manager',
+  })
+  @ApiParam({
+    name: 'id',
+    description: 'ID del SubLoan',
+    type: String,
+  })
+  @ApiResponse({ status: 201, description: 'Promesa registrada exitosamente' })
+  @ApiResponse({
+    status: 400,
+    description:
+      'La cuota no está vencida, ya tiene una promesa pendiente, la fecha no es válida o el monto supera el saldo',
+  })
+  @ApiResponse({ status: 403, description: 'No tienes acceso a este préstamo' })
+  @ApiResponse({ status: 404, description: 'SubLoan no encontrado' })
+  async createPaymentPromise(
+    @Request() req,
+    @Param('id') id: string,
+    @Body() createPaymentPromiseDto: CreatePaymentPromiseDto,
+  ) {
+    return this.paymentPromiseService.create(
+      id,
+      req.user.id,
+      req.user.role,
+      createPaymentPromiseDto,
+    );
+  }
+
+  @Get(':id/promises')
+  @Roles(
+    UserRole.MANAGER,
+    UserRole.SUBADMIN,
+    UserRole.ADMIN,
+    UserRole.SUPERADMIN,
+  )
+  @ApiOperation({
+    summary: 'Promesas de pago de un subloan',
+  })
+  @ApiParam({
+    name: 'id',
+    description: 'ID del SubLoan',
+    type: String,
+  })
+  @ApiResponse({ status: 200, description: 'Promesas obtenidas exitosamente' })
+  @ApiResponse({ status: 403, description: 'No tienes acceso a este préstamo' })
+  @ApiResponse({ status: 404, description: 'SubLoan no encontrado' })
+  async getSubLoanPaymentPromises(@Request() req, @Param('id') id: string) {
+    return this.paymentPromiseService.findBySubLoan(
+      id,
+      req.user.id,
+      req.user.role,
+    );
+  }
+
+  @Get(':id/penalties')
+  @Roles(
+    UserRole.MANAGER,
+    UserRole.SUBADMIN,
+    UserRole.ADMIN,
+    UserRole.SUPERADMIN,
+  )
+  @ApiOperation({
+    summary: 'Obtener punitorios devengados de un subloan',
+    description:
+      'Retorna el detalle diario de punitorios devengados, el total cobrado y el saldo pendiente de punitorios',
+  })
+  @ApiParam({
+    name: 'id',
+    description: 'ID del SubLoan',
+    type: String,
+  })
+  @ApiResponse({
+    status: 200,
+    description: 'Punitorios obtenidos exitosamente',
+  })
+  @ApiResponse({ status: 401, description: 'No autorizado' })
+  @ApiResponse({ status: 403, description: 'No tienes acceso a este préstamo' })
+  @ApiResponse({ status: 404, description: 'SubLoan no encontrado' })
+  async getPenaltyAccruals(@Request() req, @Param('id') id: string) {
+    return this.subLoansService.getPenaltyAccruals(
+      id,
+      req.user.id,
+      req.user.role,
+    );
+  }
+
+  @Patch(':id/reschedule')
+  @Roles(
+    UserRole.MANAGER,
+    UserRole.SUBADMIN,
+    UserRole.ADMIN,
+    UserRole.SUPERADMIN,
+  )
+  @ApiOperation({
+    summary: 'Reprogramar el vencimiento de un subloan',
+    description:
+      'Cambia la fecha de vencimiento de una cuota impaga, recalcula su estado OVERDUE, la mueve entre rutas de cobro activas y guarda la fecha anterior y el motivo en el historial',
+  })
+  @ApiParam({
+    name: 'id',
+    description: 'ID del SubLoan',
+    type: String,
+  })
+  @ApiResponse({ status: 200, description: 'Cuota reprogramada exitosamente' })
+  @ApiResponse({
+    status: 400,
+    description: 'La cuota está pagada o la fecha cae en domingo o feriado',
+  })
+  @ApiResponse({ status: 403, description: 'No tienes acceso a este préstamo' })
+  @ApiResponse({ status: 404, description: 'SubLoan no encontrado' })
+  async rescheduleSubLoan(
+    @Request() req,
+    @Param('id') id: string,
+    @Body() rescheduleSubLoanDto: RescheduleSubLoanDto,
+  ) {
+    return this.subLoansService.rescheduleSubLoan(
+      id,
+      rescheduleSubLoanDto,
+      req.user.id,
+      req.user.role,
+    );
+  }
+
+  @Post('loan/:loanId/shift')
+  @Roles(
+    UserRole.MANAGER,
+    UserRole.SUBADMIN,
+    UserRole.ADMIN,
+    UserRole.SUPERADMIN,
+  )
+  @ApiOperation({
+    summary: 'Correr N días las cuotas pendientes de un préstamo',
+    description:
+      'Posterga todas las cuotas impagas (o desde la cuota indicada). Las fechas que caen en domingo o feriado pasan al siguiente día hábil',
+  })
+  @ApiParam({
+    name: 'loanId',
+    description: 'ID del préstamo',
+    type: String,
+  })
+  @ApiResponse({ status: 201, description: 'Cuotas corridas exitosamente' })
+  @ApiResponse({
+    status: 400,
+    description: 'El préstamo no está activo o no tiene cuotas pendientes',
+  })
+  @ApiResponse({ status: 403, description: 'No tienes acceso a este préstamo' })
+  @ApiResponse({ status: 404, description: 'Préstamo no encontrado' })
+  async shiftRemainingSubLoans(
+    @Request() req,
+    @Param('loanId') loanId: string,
+    @Body() shiftSubLoansDto: ShiftSubLoansDto,
+  ) {
+    return this.subLoansService.shiftRemainingSubLoans(
+      loanId,
+      shiftSubLoansDto,
+      req.user.id,
+      req.user.role,
+    );
+  }
+
+  @Get(':id/reschedules')
+  @Roles(
+    UserRole.MANAGER,
+    UserRole.SUBADMIN,
+    UserRole.ADMIN,
+    UserRole.SUPERADMIN,
+  )
+  @ApiOperation({
+    summary: 'Historial de reprogramaciones de un subloan',
+    description:
+      'Retorna la fecha de vencimiento original y cada cambio con su motivo',
+  })
+  @ApiParam({
+    name: 'id',
+    description: 'ID del SubLoan',
+    type: String,
+  })
+  @ApiResponse({ status: 200, description: 'Historial obtenido exitosamente' })
+  @ApiResponse({ status: 403, description: 'No tienes acceso a este préstamo' })
+  @ApiResponse({ status: 404, description: 'SubLoan no encontrado' })
+  async getRescheduleHistory(@Request() req, @Param('id') id: string) {
+    return this.subLoansService.getRescheduleHistory(
+      id,
+      req.user.id,
+      req.user.role,
+    );
+  }
+
   @Get('with-client-info')
   @Roles(UserRole.MANAGER, UserRole.SUBADMIN, UserRole.ADMIN, UserRole.SUPERADMIN)
   @ApiOperation({
@@ -213,6 +484,8 @@ export class SubLoansController {
       amount: Number(subLoan.amount),
       totalAmount: Number(subLoan.totalAmount),
       paidAmount: Number(subLoan.paidAmount),
+      penaltyAmount: Number(subLoan.penaltyAmount),
+      penaltyPaid: Number(subLoan.penaltyPaid),
       loan: {
         ...subLoan.loan,
         amount: Number(subLoan.loan.amount),
@@ -1,12 +1,15 @@
 import { Module } from '@nestjs/common';
 import { SubLoansController } from './sub-loans.controller';
 import { SubLoansService } from './sub-loans.service';
+import { PaymentPromiseService } from './payment-promise.service';
 import { PrismaModule } from '../prisma/prisma.module';
+import { HolidaysModule } from '../holidays/holidays.module';
+import { AuditModule } from '../audit/audit.module';
 
 @Module({
-  imports: [PrismaModule],
+  imports: [PrismaModule, HolidaysModule, AuditModule],
   controllers: [SubLoansController],
-  providers: [SubLoansService],
-  exports: [SubLoansService],
+  providers: [SubLoansService, PaymentPromiseService],
+  exports: [SubLoansService, PaymentPromiseService],
 })
 export class SubLoansModule {}
@@ -0,0 +1,117 @@
+import { Test, TestingModule } from '@nestjs/testing';
+import { Prisma } from '@prisma/client';
+import { PrismaService } from '../prisma/prisma.service';
+import { HolidaysService } from '../holidays/holidays.service';
+import { AuditService } from '../common/services/audit.service';
+import { SubLoansService } from './sub-loans.service';
+
+describe('SubLoansService', () => {
+  let service: SubLoansService;
+  let tx: {
+    subLoanPenaltyAccrual: {
+      findUnique: jest.Mock;
+      create: jest.Mock<unknown, [{ data: object }]>;
+    };
+    subLoan: { update: jest.Mock };
+  };
+  let prisma: { subLoan: { findMany: jest.Mock }; $transaction: jest.Mock };
+  let holidaysService: { getHolidayDateSet: jest.Mock };
+
+  // Vence el lunes 2 de marzo; al jueves 5 lleva 3 días de atraso
+  const overdueSubLoan = {
+    id: 'sub-1',
+    dueDate: new Date('2026-03-02T15:00:00.000Z'),
+    totalAmount: new Prisma.Decimal(1000),
+    paidAmount: new Prisma.Decimal(400),
+    loan: { penaltyInterestRate: new Prisma.Decimal('0.01') },
+  };
+  const accrualDate = new Date('2026-03-05T15:00:00.000Z');
+
+  beforeEach(async () => {
+    tx = {
+      subLoanPenaltyAccrual: {
+        findUnique: jest.fn().mockResolvedValue(null),
+        create: jest.fn<unknown, [{ data: object }]>(),
+      },
+      subLoan: { update: jest.fn() },
+    };
+    prisma = {
+      subLoan: { findMany: jest.fn().mockResolvedValue([overdueSubLoan]) },
+      $transaction: jest.fn((callback: (client: typeof tx) => unknown) =>
+        callback(tx),
+      ),
+    };
+    holidaysService = {
+      getHolidayDateSet: jest.fn().mockResolvedValue(new Set<string>()),
+    };
+
+    const module: TestingModule = await Test.createTestingModule({
+      providers: [
+        SubLoansService,
+        { provide: PrismaService, useValue: prisma },
+        { provide: HolidaysService, useValue: holidaysService },
+        { provide: AuditService, useValue: {} },
+      ],
+    }).compile();
+
+    service = module.get<SubLoansService>(SubLoansService);
+  });
+
+  describe('accrueOverduePenalties', () => {
+    it('should accrue the penalty rate over the unpaid balance', async () => {
+      const result = await service.accrueOverduePenalties(accrualDate);
+
+      expect(
+        tx.subLoanPenaltyAccrual.create.mock.calls[0][0].data,
+      ).toMatchObject({
+        subLoanId: 'sub-1',
+        daysOverdue: 3,
+        amount: new Prisma.Decimal(6),
+      });
+      expect(tx.subLoan.update).toHaveBeenCalledWith({
+        where: { id: 'sub-1' },
+        data: {
+          daysOverdue: 3,
+          penaltyAmount: { increment: new Prisma.Decimal(6) },
+        },
+      });
+      expect(result).toMatchObject({ count: 1, totalAccrued: 6 });
+    });
+
+    it('should not accrue the same day twice', async () => {
+      tx.subLoanPenaltyAccrual.findUnique.mockResolvedValue({ id: 'accrual' });
+
+      const result = await service.accrueOverduePenalties(accrualDate);
+
+      expect(tx.subLoanPenaltyAccrual.create).not.toHaveBeenCalled();
+      expect(tx.subLoan.update).toHaveBeenCalledWith({
+        where: { id: 'sub-1' },
+        data: { daysOverdue: 3 },
+      });
+      expect(result).toMatchObject({ count: 0, alreadyAccrued: 1 });
+    });
+
+    it('should not count holidays as overdue days', async () => {
+      holidaysService.getHolidayDateSet.mockResolvedValue(
+        new Set(['2026-03-04']),
+      );
+
+      await service.accrueOverduePenalties(accrualDate);
+
+      expect(
+        tx.subLoanPenaltyAccrual.create.mock.calls[0][0].data,
+      ).toMatchObject({ daysOverdue: 2 });
+    });
+
+    it('should not accrue penalties on a holiday', async () => {
+      holidaysService.getHolidayDateSet.mockResolvedValue(
+        new Set(['2026-03-05']),
+      );
+
+      const result = await service.accrueOverduePenalties(accrualDate);
+
+      expect(prisma.subLoan.findMany).not.toHaveBeenCalled();
+      expect(result).toMatchObject({ count: 0, totalAccrued: 0 });
+    });
+  });
+});
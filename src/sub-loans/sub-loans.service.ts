@@ -1,10 +1,46 @@
-import { Injectable } from '@nestjs/common';
+import {
+  Injectable,
+  NotFoundException,
+  ForbiddenException,
+  BadRequestException,
+} from '@nestjs/common';
+import { Prisma } from '@prisma/client';
+import { randomUUID } from 'crypto';
 import { PrismaService } from '../prisma/prisma.service';
-import { UserRole } from '../common/enums';
+import { LoanStatus, SubLoanStatus, UserRole } from '../common/enums';
+import { DateUtil } from '../common/utils';
+import { HolidaysService } from '../holidays/holidays.service';
+import { AuditService, AuditAction } from '../common/services/audit.service';
+import { DateTime } from 'luxon';
+import { RescheduleSubLoanDto } from './dto/reschedule-sub-loan.dto';
+import { ShiftSubLoansDto } from './dto/shift-sub-loans.dto';
+
+/**
+ * SubLoan con los datos necesarios para reprogramar su vencimiento
+ */
+type ReschedulableSubLoan = Prisma.SubLoanGetPayload<{
+  include: {
+    loan: {
+      select: {
+        id: true;
+        loanTrack: true;
+        managerId: true;
+        status: true;
+        client: {
+          select: { fullName: true; phone: true; address: true };
+        };
+      };
+    };
+  };
+}>;
 
 @Injectable()
 export class SubLoansService {
-  constructor(private prisma: PrismaService) {}
+  constructor(
+    private prisma: PrismaService,
+    private holidaysService: HolidaysService,
+    private auditService: AuditService,
+  ) {}
 
   /**
    * Obtiene todos los subloans que vencen hoy (cualquier estado) con paginación
@@ -58,6 +94,7 @@ export class SubLoansService {
               description: true,
               amount: true,
               paymentDate: true,
+              status: true,
               createdAt: true,
             },
             orderBy: {
@@ -146,13 +183,21 @@ export class SubLoansService {
 
   /**
    * Marca como OVERDUE todos los subloans cuya fecha de vencimiento ya pasó
-   * (solo PENDING o PARTIAL)
+   * (solo PENDING o PARTIAL). Los que vencieron en los feriados
+   * inmediatamente anteriores a hoy todavía tienen el día de hoy para pagar.
    */
   async markOverdueSubLoans() {
     // Obtener inicio del día actual en GMT-3 usando DateUtil
-    const todayStart = new Date();
-    //add one day to the todayStart
-    todayStart.setHours(0, 0, 0, 0);
+    const today = DateUtil.startOfDay();
+    const holidays = await this.holidaysService.getHolidayDateSet(
+      today.minus({ days: 31 }).toJSDate(),
+    );
+
+    let cutoff = today;
+    while (holidays.has(cutoff.minus({ days: 1 }).toISODate()!)) {
+      cutoff = cutoff.minus({ days: 1 });
+    }
+    const todayStart = cutoff.toJSDate();
 
     // Buscar subloans cuya fecha de vencimiento es ANTERIOR al día de hoy
     // y que aún están PENDING o PARTIAL
@@ -178,6 +223,600 @@ export class SubLoansService {
     };
   }
 
+  /**
+   * Devenga los punitorios diarios de los subloans vencidos e impagos.
+   * Recalcula daysOverdue y registra un devengo por subloan y día
+   * (penaltyInterestRate del préstamo sobre el saldo impago de la cuota).
+   * Es idempotente: si el devengo del día ya existe no se vuelve a cobrar.
+   * Los feriados no cuentan como días de atraso ni devengan punitorios.
+   * Los préstamos DEFAULTED siguen devengando, y por eso siguen en las rutas de cobro.
+   */
+  async accrueOverduePenalties(accrualDate?: Date) {
+    const day = DateUtil.startOfDay(
+      accrualDate ? DateUtil.fromJSDate(accrualDate) : DateUtil.now(),
+    );
+    const dayStart = day.toJSDate();
+
+    const holidays = await this.holidaysService.getHolidayDateSet();
+    if (holidays.has(day.toISODate()!)) {
+      return {
+        message: 'El día es feriado: no se devengan punitorios',
+        accrualDate: dayStart,
+        evaluated: 0,
+        count: 0,
+        alreadyAccrued: 0,
+        totalAccrued: 0,
+      };
+    }
+
+    const overdueSubLoans = await this.prisma.subLoan.findMany({
+      where: {
+        deletedAt: null,
+        status: {
+          in: [
+            SubLoanStatus.PENDING,
+            SubLoanStatus.PARTIAL,
+            SubLoanStatus.OVERDUE,
+          ],
+        },
+        dueDate: {
+          lt: dayStart,
+        },
+        loan: {
+          deletedAt: null,
+          status: { in: ['ACTIVE', 'APPROVED', 'DEFAULTED'] },
+        },
+      },
+      include: {
+        loan: {
+          select: {
+            penaltyInterestRate: true,
+          },
+        },
+      },
+    });
+
+    let accruedCount = 0;
+    let alreadyAccruedCount = 0;
+    let totalAccrued = 0;
+
+    for (const subLoan of overdueSubLoans) {
+      const unpaidAmount =
+        Number(subLoan.totalAmount) - Number(subLoan.paidAmount);
+      if (unpaidAmount <= 0) continue;
+
+      const daysOverdue = this.countOverdueDays(
+        DateUtil.startOfDay(DateUtil.fromPrismaDate(subLoan.dueDate)),
+        day,
+        holidays,
+      );
+      if (daysOverdue <= 0) continue;
+      const rate = Number(subLoan.loan.penaltyInterestRate);
+      const penalty = Number((unpaidAmount * rate).toFixed(2));
+
+      const accrued = await this.prisma.$transaction(async (tx) => {
+        const existing = await tx.subLoanPenaltyAccrual.findUnique({
+          where: {
+            subLoanId_accrualDate: {
+              subLoanId: subLoan.id,
+              accrualDate: dayStart,
+            },
+          },
+        });
+
+        if (existing || penalty <= 0) {
+          await tx.subLoan.update({
+            where: { id: subLoan.id },
+            data: { daysOverdue },
+          });
+          return existing ? null : 0;
+        }
+
+        await tx.subLoanPenaltyAccrual.create({
+          data: {
+            subLoanId: subLoan.id,
+            accrualDate: dayStart,
+            daysOverdue,
+            baseAmount: new Prisma.Decimal(unpaidAmount.toFixed(2)),
+            rate: subLoan.loan.penaltyInterestRate,
+            amount: new Prisma.Decimal(penalty),
+          },
+        });
+
+        await tx.subLoan.update({
+          where: { id: subLoan.id },
+          data: {
+            daysOverdue,
+            penaltyAmount: {
+              increment: new Prisma.Decimal(penalty),
+            },
+          },
+        });
+
+        return penalty;
+      });
+
+      if (accrued === null) {
+        alreadyAccruedCount++;
+      } else if (accrued > 0) {
+        accruedCount++;
+        totalAccrued += accrued;
+      }
+    }
+
+    return {
+      message: `Se devengaron punitorios para ${accruedCount} subloans vencidos`,
+      accrualDate: dayStart,
+      evaluated: overdueSubLoans.length,
+      count: accruedCount,
+      alreadyAccrued: alreadyAccruedCount,
+      totalAccrued: Number(totalAccrued.toFixed(2)),
+    };
+  }
+
+  /**
+   * Cuenta los días de atraso hasta el día indicado sin contar feriados.
+   * Si el vencimiento cayó en feriado, se toma el siguiente día hábil.
+   */
+  private countOverdueDays(
+    dueDay: DateTime,
+    day: DateTime,
+    holidays: Set<string>,
+  ): number {
+    let effectiveDueDay = dueDay;
+    while (holidays.has(effectiveDueDay.toISODate()!)) {
+      effectiveDueDay = effectiveDueDay.plus({ days: 1 });
+    }
+
+    let daysOverdue = 0;
+    for (
+      let current = effectiveDueDay.plus({ days: 1 });
+      current <= day;
+      current = current.plus({ days: 1 })
+    ) {
+      if (!holidays.has(current.toISODate()!)) {
+        daysOverdue++;
+      }
+    }
+
+    return daysOverdue;
+  }
+
+  /**
+   * Obtiene el detalle de punitorios devengados de un subloan
+   */
+  async getPenaltyAccruals(
+    subLoanId: string,
+    userId: string,
+    userRole: UserRole,
+  ) {
+    const subLoan = await this.prisma.subLoan.findUnique({
+      where: { id: subLoanId },
+      include: {
+        loan: {
+          select: {
+            managerId: true,
+            penaltyInterestRate: true,
+          },
+        },
+        penaltyAccruals: {
+          orderBy: { accrualDate: 'asc' },
+        },
+      },
+    });
+
+    if (!subLoan || subLoan.deletedAt) {
+      throw new NotFoundException('SubLoan no encontrado');
+    }
+
+    if (userRole === UserRole.MANAGER && subLoan.loan.managerId !== userId) {
+      throw new ForbiddenException('No tienes acceso a este préstamo');
+    }
+
+    const penaltyAmount = Number(subLoan.penaltyAmount);
+    const penaltyPaid = Number(subLoan.penaltyPaid);
+
+    return {
+      subLoanId: subLoan.id,
+      paymentNumber: subLoan.paymentNumber,
+      status: subLoan.status,
+      daysOverdue: subLoan.daysOverdue,
+      penaltyInterestRate: Number(subLoan.loan.penaltyInterestRate),
+      penaltyAmount,
+      penaltyPaid,
+      penaltyPending: Number(
+        Math.max(0, penaltyAmount - penaltyPaid).toFixed(2),
+      ),
+      accruals: subLoan.penaltyAccruals.map((accrual) => ({
+        id: accrual.id,
+        accrualDate: accrual.accrualDate,
+        daysOverdue: accrual.daysOverdue,
+        baseAmount: Number(accrual.baseAmount),
+        rate: Number(accrual.rate),
+        amount: Number(accrual.amount),
+      })),
+    };
+  }
+
+  /**
+   * Reprograma el vencimiento de una cuota puntual.
+   * La nueva fecha no puede caer en domingo ni feriado.
+   */
+  async rescheduleSubLoan(
+    subLoanId: string,
+    rescheduleSubLoanDto: RescheduleSubLoanDto,
+    userId: string,
+    userRole: UserRole,
+  ) {
+    const subLoan = await this.prisma.subLoan.findUnique({
+      where: { id: subLoanId },
+      include: this.reschedulableInclude(),
+    });
+
+    if (!subLoan || subLoan.deletedAt) {
+      throw new NotFoundException('SubLoan no encontrado');
+    }
+
+    this.assertCanReschedule(subLoan, userId, userRole);
+
+    const newDueDate = DateUtil.startOfDay(
+      DateUtil.fromJSDate(
+        DateUtil.parseToDate(rescheduleSubLoanDto.newDueDate),
+      ),
+    );
+    const holidays = await this.holidaysService.getHolidayDateSet(
+      newDueDate.toJSDate(),
+    );
+
+    if (this.isNonWorkingDay(newDueDate, holidays)) {
+      throw new BadRequestException(
+        `La fecha ${newDueDate.toISODate()} cae en domingo o feriado`,
+      );
+    }
+
+    if (newDueDate.hasSame(DateUtil.fromPrismaDate(subLoan.dueDate), 'day')) {
+      throw new BadRequestException(
+        'La nueva fecha es igual al vencimiento actual',
+      );
+    }
+
+    const updated = await this.prisma.$transaction(
+      (tx) =>
+        this.applyReschedule(tx, subLoan, newDueDate, {
+          reason: rescheduleSubLoanDto.reason,
+          userId,
+        }),
+      { maxWait: 30000, timeout: 30000 },
+    );
+
+    await this.auditService.log({
+      userId,
+      userRole,
+      action: AuditAction.UPDATE,
+      entity: 'SubLoan',
+      entityId: subLoan.id,
+      changes: {
+        before: { dueDate: subLoan.dueDate, status: subLoan.status },
+        after: { dueDate: updated.dueDate, status: updated.status },
+      },
+      description: `Cuota #${subLoan.paymentNumber} del préstamo ${subLoan.loan.loanTrack} reprogramada: ${rescheduleSubLoanDto.reason}`,
+    });
+
+    return {
+      message: 'Cuota reprogramada exitosamente',
+      subLoan: updated,
+    };
+  }
+
+  /**
+   * Corre N días todas las cuotas pendientes de un préstamo (desde una cuota
+   * opcional). Si la nueva fecha cae en domingo o feriado pasa al siguiente día hábil.
+   */
+  async shiftRemainingSubLoans(
+    loanId: string,
+    shiftSubLoansDto: ShiftSubLoansDto,
+    userId: string,
+    userRole: UserRole,
+  ) {
+    const subLoans = await this.prisma.subLoan.findMany({
+      where: {
+        loanId,
+        deletedAt: null,
+        status: {
+          in: [
+            SubLoanStatus.PENDING,
+            SubLoanStatus.PARTIAL,
+            SubLoanStatus.OVERDUE,
+          ],
+        },
+        ...(shiftSubLoansDto.fromPaymentNumber
+          ? { paymentNumber: { gte: shiftSubLoansDto.fromPaymentNumber } }
+          : {}),
+      },
+      include: this.reschedulableInclude(),
+      orderBy: { paymentNumber: 'asc' },
+    });
+
+    if (subLoans.length === 0) {
+      const loan = await this.prisma.loan.findFirst({
+        where: { id: loanId, deletedAt: null },
+        select: { id: true },
+      });
+      if (!loan) {
+        throw new NotFoundException('Préstamo no encontrado');
+      }
+      throw new BadRequestException(
+        'El préstamo no tiene cuotas pendientes para correr',
+      );
+    }
+
+    this.assertCanReschedule(subLoans[0], userId, userRole);
+
+    const holidays = await this.holidaysService.getHolidayDateSet(
+      DateUtil.fromPrismaDate(subLoans[0].dueDate).toJSDate(),
+    );
+    const batchId = randomUUID();
+
+    const updated = await this.prisma.$transaction(
+      async (tx) => {
+        const results: Awaited<ReturnType<typeof this.applyReschedule>>[] = [];
+        let previousDueDate: DateTime | null = null;
+
+        for (const subLoan of subLoans) {
+          let newDueDate = this.toWorkingDay(
+            DateUtil.startOfDay(DateUtil.fromPrismaDate(subLoan.dueDate)).plus({
+              days: shiftSubLoansDto.days,
+            }),
+            holidays,
+          );
+
+          // Mantener el orden de las cuotas si dos quedaron el mismo día
+          while (previousDueDate && newDueDate <= previousDueDate) {
+            newDueDate = this.toWorkingDay(
+              newDueDate.plus({ days: 1 }),
+              holidays,
+            );
+          }
+          previousDueDate = newDueDate;
+
+          results.push(
+            await this.applyReschedule(tx, subLoan, newDueDate, {
+              reason: shiftSubLoansDto.reason,
+              userId,
+              batchId,
+            }),
+          );
+        }
+
+        return results;
+      },
+      { maxWait: 30000, timeout: 30000 },
+    );
+
+    await this.auditService.log({
+      userId,
+      userRole,
+      action: AuditAction.UPDATE,
+      entity: 'Loan',
+      entityId: loanId,
+      changes: {
+        before: subLoans.map((subLoan) => ({
+          paymentNumber: subLoan.paymentNumber,
+          dueDate: subLoan.dueDate,
+        })),
+        after: updated.map((subLoan) => ({
+          paymentNumber: subLoan.paymentNumber,
+          dueDate: subLoan.dueDate,
+        })),
+      },
+      description: `Cronograma del préstamo ${subLoans[0].loan.loanTrack} corrido ${shiftSubLoansDto.days} días (${subLoans.length} cuotas): ${shiftSubLoansDto.reason}`,
+    });
+
+    return {
+      message: `Se corrieron ${updated.length} cuotas ${shiftSubLoansDto.days} días`,
+      batchId,
+      subLoans: updated,
+    };
+  }
+
+  /**
+   * Historial de reprogramaciones de una cuota (fechas anteriores y motivos)
+   */
+  async getRescheduleHistory(
+    subLoanId: string,
+    userId: string,
+    userRole: UserRole,
+  ) {
+    const subLoan = await this.prisma.subLoan.findUnique({
+      where: { id: subLoanId },
+      include: {
+        loan: { select: { managerId: true } },
+        reschedules: { orderBy: { createdAt: 'asc' } },
+      },
+    });
+
+    if (!subLoan || subLoan.deletedAt) {
+      throw new NotFoundException('SubLoan no encontrado');
+    }
+
+    if (userRole === UserRole.MANAGER && subLoan.loan.managerId !== userId) {
+      throw new ForbiddenException('No tienes acceso a este préstamo');
+    }
+
+    return {
+      subLoanId: subLoan.id,
+      paymentNumber: subLoan.paymentNumber,
+      currentDueDate: subLoan.dueDate,
+      originalDueDate:
+        subLoan.reschedules[0]?.previousDueDate ?? subLoan.dueDate,
+      reschedules: subLoan.reschedules.map((reschedule) => ({
+        id: reschedule.id,
+        previousDueDate: reschedule.previousDueDate,
+        newDueDate: reschedule.newDueDate,
+        reason: reschedule.reason,
+        batchId: reschedule.batchId,
+        rescheduledById: reschedule.rescheduledById,
+        createdAt: reschedule.createdAt,
+      })),
+    };
+  }
+
+  private reschedulableInclude() {
+    return {
+      loan: {
+        select: {
+          id: true,
+          loanTrack: true,
+          managerId: true,
+          status: true,
+          client: {
+            select: { fullName: true, phone: true, address: true },
+          },
+        },
+      },
+    } as const;
+  }
+
+  private assertCanReschedule(
+    subLoan: ReschedulableSubLoan,
+    userId: string,
+    userRole: UserRole,
+  ) {
+    if (userRole === UserRole.MANAGER && subLoan.loan.managerId !== userId) {
+      throw new ForbiddenException('No tienes acceso a este préstamo');
+    }
+
+    if (
+      ![LoanStatus.ACTIVE, LoanStatus.APPROVED, LoanStatus.DEFAULTED].includes(
+        subLoan.loan.status as LoanStatus,
+      )
+    ) {
+      throw new BadRequestException(
+        `No se pueden reprogramar cuotas de un préstamo en estado ${subLoan.loan.status}`,
+      );
+    }
+
+    if (
+      subLoan.status === SubLoanStatus.PAID ||
+      subLoan.status === SubLoanStatus.REFINANCED
+    ) {
+      throw new BadRequestException(
+        `No se puede reprogramar una cuota en estado ${subLoan.status}`,
+      );
+    }
+  }
+
+  /**
+   * Cambia el vencimiento de la cuota, registra el historial, recalcula el
+   * estado OVERDUE y mueve la cuota entre las rutas de cobro ACTIVE afectadas.
+   */
+  private async applyReschedule(
+    tx: Prisma.TransactionClient,
+    subLoan: ReschedulableSubLoan,
+    newDueDay: DateTime,
+    options: { reason: string; userId: string; batchId?: string },
+  ) {
+    const todayStart = DateUtil.startOfDay();
+    // Los vencimientos se guardan al mediodía Argentina para evitar desfases UTC
+    const newDueDate = newDueDay
+      .set({ hour: 12, minute: 0, second: 0, millisecond: 0 })
+      .toJSDate();
+    const isOverdue = newDueDay < todayStart;
+
+    let status = subLoan.status as SubLoanStatus;
+    if (!isOverdue && status === SubLoanStatus.OVERDUE) {
+      status = SubLoanStatus.PENDING;
+    } else if (isOverdue && status === SubLoanStatus.PENDING) {
+      status = SubLoanStatus.OVERDUE;
+    }
+
+    const updated = await tx.subLoan.update({
+      where: { id: subLoan.id },
+      data: {
+        dueDate: newDueDate,
+        status,
+        ...(isOverdue ? {} : { daysOverdue: 0 }),
+      },
+    });
+
+    await tx.subLoanReschedule.create({
+      data: {
+        subLoanId: subLoan.id,
+        previousDueDate: subLoan.dueDate,
+        newDueDate,
+        reason: options.reason,
+        batchId: options.batchId,
+        rescheduledById: options.userId,
+      },
+    });
+
+    // Quitar la cuota de las rutas activas de otros días (si todavía no se cobró nada)
+    await tx.collectionRouteItem.deleteMany({
+      where: {
+        subLoanId: subLoan.id,
+        amountCollected: 0,
+        route: {
+          status: 'ACTIVE',
+          routeDate: { not: newDueDay.toJSDate() },
+        },
+      },
+    });
+
+    // Agregarla a la ruta activa del manager para el nuevo día, si existe
+    if (subLoan.loan.managerId) {
+      const route = await tx.dailyCollectionRoute.findFirst({
+        where: {
+          managerId: subLoan.loan.managerId,
+          routeDate: newDueDay.toJSDate(),
+          status: 'ACTIVE',
+        },
+        include: {
+          items: {
+            select: { subLoanId: true, orderIndex: true },
+          },
+        },
+      });
+
+      if (route && !route.items.some((item) => item.subLoanId === subLoan.id)) {
+        await tx.collectionRouteItem.create({
+          data: {
+            routeId: route.id,
+            subLoanId: subLoan.id,
+            clientName: subLoan.loan.client.fullName,
+            clientPhone: subLoan.loan.client.phone,
+            clientAddress: subLoan.loan.client.address,
+            orderIndex:
+              route.items.reduce(
+                (max, item) => Math.max(max, item.orderIndex),
+                -1,
+              ) + 1,
+          },
+        });
+      }
+    }
+
+    return {
+      id: updated.id,
+      paymentNumber: updated.paymentNumber,
+      previousDueDate: subLoan.dueDate,
+      dueDate: updated.dueDate,
+      status: updated.status,
+      daysOverdue: updated.daysOverdue,
+    };
+  }
+
+  private isNonWorkingDay(day: DateTime, holidays: Set<string>): boolean {
+    return day.weekday === 7 || holidays.has(day.toISODate()!);
+  }
+
+  private toWorkingDay(day: DateTime, holidays: Set<string>): DateTime {
+    let adjusted = day;
+    while (this.isNonWorkingDay(adjusted, holidays)) {
+      adjusted = adjusted.plus({ days: 1 });
+    }
+    return adjusted;
+  }
+
   /**
    * Obtiene estadísticas de subloans que vencen hoy
    */
@@ -305,6 +944,9 @@ export class SubLoansService {
       paidAmount: subLoan.paidAmount,
       status: subLoan.status,
       dueDate: subLoan.dueDate,
+      daysOverdue: subLoan.daysOverdue,
+      penaltyAmount: subLoan.penaltyAmount,
+      penaltyPaid: subLoan.penaltyPaid,
       paymentNumber: subLoan.paymentNumber,
       createdAt: subLoan.createdAt,
       loan: {
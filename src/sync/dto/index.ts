@@ -0,0 +1 @@
+export * from './sync-batch.dto';
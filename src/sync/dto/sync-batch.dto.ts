@@ -0,0 +1,149 @@
+import {
+  IsNotEmpty,
+  IsArray,
+  ArrayMaxSize,
+  ValidateNested,
+  ValidateIf,
+  IsEnum,
+  IsString,
+  IsDateString,
+  MaxLength,
+} from 'class-validator';
+import { ApiProperty, ApiPropertyOptional } from '@nestjs/swagger';
+import { Type } from 'class-transformer';
+import { SyncOperationType } from '../../common/enums';
+import { RegisterPaymentDto } from '../../payments/dto';
+import {
+  CreateRouteExpenseDto,
+  RecordVisitOutcomeDto,
+} from '../../collection-routes/dto';
+
+export class SyncRouteExpenseDto extends CreateRouteExpenseDto {
+  @ApiProperty({
+    description: 'ID de la ruta del día',
+    example: 'cm1234567890',
+  })
+  @IsNotEmpty()
+  @IsString()
+  routeId: string;
+}
+
+export class SyncRouteItemNoteDto {
+  @ApiProperty({
+    description: 'ID del item de la ruta',
+    example: 'cm1234567890',
+  })
+  @IsNotEmpty()
+  @IsString()
+  itemId: string;
+
+  @ApiProperty({
+    description: 'Nota sobre la visita',
+    example: 'No estaba en el domicilio, volver a la tarde',
+    maxLength: 500,
+  })
+  @IsString()
+  @MaxLength(500)
+  notes: string;
+}
+
+export class SyncRouteItemVisitDto extends RecordVisitOutcomeDto {
+  @ApiProperty({
+    description: 'ID del item de la ruta',
+    example: 'cm1234567890',
+  })
+  @IsNotEmpty()
+  @IsString()
+  itemId: string;
+}
+
+export class SyncOperationDto {
+  @ApiProperty({
+    description:
+      'ID generado por el dispositivo. Una operación ya recibida no se vuelve a aplicar',
+    example: '6f1c2b7e-3d4a-4b8e-9f10-2a3b4c5d6e7f',
+    maxLength: 100,
+  })
+  @IsNotEmpty()
+  @IsString()
+  @MaxLength(100)
+  clientOperationId: string;
+
+  @ApiProperty({
+    description: 'Tipo de operación',
+    enum: SyncOperationType,
+    example: SyncOperationType.PAYMENT,
+  })
+  @IsEnum(SyncOperationType)
+  type: SyncOperationType;
+
+  @ApiProperty({
+    description: 'Momento en que se capturó la operación en el dispositivo',
+    example: '2025-12-24T14:35:00.000Z',
+  })
+  @IsNotEmpty()
+  @IsDateString()
+  deviceTimestamp: string;
+
+  @ApiPropertyOptional({
+    description:
+      'Pago (type PAYMENT). Si no indica paymentDate se usa deviceTimestamp',
+    type: RegisterPaymentDto,
+  })
+  @ValidateIf((o: SyncOperationDto) => o.type === SyncOperationType.PAYMENT)
+  @IsNotEmpty()
+  @ValidateNested()
+  @Type(() => RegisterPaymentDto)
+  payment?: RegisterPaymentDto;
+
+  @ApiPropertyOptional({
+    description: 'Gasto de la ruta (type ROUTE_EXPENSE)',
+    type: SyncRouteExpenseDto,
+  })
+  @ValidateIf(
+    (o: SyncOperationDto) => o.type === SyncOperationType.ROUTE_EXPENSE,
+  )
+  @IsNotEmpty()
+  @ValidateNested()
+  @Type(() => SyncRouteExpenseDto)
+  routeExpense?: SyncRouteExpenseDto;
+
+  @ApiPropertyOptional({
+    description: 'Nota de un item de la ruta (type ROUTE_ITEM_NOTE)',
+    type: SyncRouteItemNoteDto,
+  })
+  @ValidateIf(
+    (o: SyncOperationDto) => o.type === SyncOperationType.ROUTE_ITEM_NOTE,
+  )
+  @IsNotEmpty()
+  @ValidateNested()
+  @Type(() => SyncRouteItemNoteDto)
+  routeItemNote?: SyncRouteItemNoteDto;
+
+  @ApiPropertyOptional({
+    description:
+      'Resultado de la visita a un item de la ruta (type ROUTE_ITEM_VISIT). Si no indica visitedAt se usa deviceTimestamp',
+    type: SyncRouteItemVisitDto,
+  })
+  @ValidateIf(
+    (o: SyncOperationDto) => o.type === SyncOperationType.ROUTE_ITEM_VISIT,
+  )
+  @IsNotEmpty()
+  @ValidateNested()
+  @Type(() => SyncRouteItemVisitDto)
+  routeItemVisit?: SyncRouteItemVisitDto;
+}
+
+export class SyncBatchDto {
+  @ApiProperty({
+    description:
+      'Operaciones capturadas sin conexión, en el orden en que se realizaron',
+    type: [SyncOperationDto],
+  })
+  @IsNotEmpty()
+  @IsArray()
+  @ArrayMaxSize(200)
+  @ValidateNested({ each: true })
+  @Type(() => SyncOperationDto)
+  operations: SyncOperationDto[];
+}
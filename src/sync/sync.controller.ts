@@ -0,0 +1,49 @@
+import { Controller, Post, Body, UseGuards, Request } from '@nestjs/common';
+import {
+  ApiTags,
+  ApiOperation,
+  ApiResponse,
+  ApiBearerAuth,
+} from '@nestjs/swagger';
+import { SyncService } from './sync.service';
+import { SyncBatchDto } from './dto';
+import { JwtAuthGuard } from '../common/guards/jwt-auth.guard';
+import { RolesGuard } from '../common/guards/roles.guard';
+import { Roles } from '../common/decorators/roles.decorator';
+import { UserRole } from '../common/enums';
+
+@ApiTags('Sync')
+@Controller('sync')
+@UseGuards(JwtAuthGuard, RolesGuard)
+@ApiBearerAuth()
+export class SyncController {
+  constructor(private readonly syncService: SyncService) {}
+
+  @Post()
+  @Roles(
+    UserRole.MANAGER,
+    UserRole.SUBADMIN,
+    UserRole.ADMIN,
+    UserRole.SUPERADMIN,
+  )
+  @ApiOperation({
+    summary: 'Sincronizar operaciones capturadas sin conexión',
+    description:
+      'Recibe pagos, gastos de ruta y notas de items de ruta capturados en el dispositivo y los aplica ' +
+      'en el orden recibido. Cada operación lleva un clientOperationId generado por el dispositivo y se ' +
+      'aplica a lo sumo una vez: si se reenvía se devuelve el resultado original (duplicate: true). ' +
+      'Se informa el resultado de cada operación: APPLIED, CONFLICT (la cuota ya está pagada o la ruta ' +
+      'ya fue cerrada; no se reintenta) o FAILED (error de validación; puede reenviarse).',
+  })
+  @ApiResponse({
+    status: 201,
+    description: 'Resultado por operación',
+  })
+  @ApiResponse({
+    status: 400,
+    description: 'El lote tiene operaciones repetidas o datos inválidos',
+  })
+  async sync(@Request() req, @Body() syncDto: SyncBatchDto) {
+    return this.syncService.syncBatch(req.user.id, req.user.role, syncDto);
+  }
+}
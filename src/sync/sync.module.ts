@@ -0,0 +1,13 @@
+import { Module } from '@nestjs/common';
+import { SyncController } from './sync.controller';
+import { SyncService } from './sync.service';
+import { PrismaModule } from '../prisma/prisma.module';
+import { PaymentsModule } from '../payments/payments.module';
+import { CollectionRoutesModule } from '../collection-routes/collection-routes.module';
+
+@Module({
+  imports: [PrismaModule, PaymentsModule, CollectionRoutesModule],
+  controllers: [SyncController],
+  providers: [SyncService],
+})
+export class SyncModule {}
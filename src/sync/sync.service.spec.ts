@@ -0,0 +1,219 @@
+import { Test, TestingModule } from '@nestjs/testing';
+import { Prisma } from '@prisma/client';
+import { PrismaService } from '../prisma/prisma.service';
+import { PaymentsService } from '../payments/payments.service';
+import { CollectionRoutesService } from '../collection-routes/collection-routes.service';
+import { SyncOperationDto } from './dto';
+import {
+  Currency,
+  SyncOperationStatus,
+  SyncOperationType,
+  UserRole,
+} from '../common/enums';
+import { SyncService } from './sync.service';
+
+interface FakeOperation {
+  id: string;
+  userId: string;
+  clientOperationId: string;
+  type: SyncOperationType;
+  status: SyncOperationStatus;
+  deviceTimestamp: Date;
+  result: unknown;
+  error: string | null;
+  updatedAt: Date;
+}
+
+type OperationWhere = {
+  id?: string;
+  status?: SyncOperationStatus;
+  updatedAt?: Date | { lt: Date };
+  OR?: OperationWhere[];
+};
+
+/**
+ * Prisma en memoria con lo que usa la sincronización de pagos
+ */
+const createFakePrisma = (operations: FakeOperation[]) => {
+  const matches = (operation: FakeOperation, where: OperationWhere): boolean =>
+    (!where.id || operation.id === where.id) &&
+    (!where.status || operation.status === where.status) &&
+    (!where.updatedAt ||
+      (where.updatedAt instanceof Date
+        ? operation.updatedAt.getTime() === where.updatedAt.getTime()
+        : operation.updatedAt < where.updatedAt.lt)) &&
+    (!where.OR || where.OR.some((or) => matches(operation, or)));
+
+  return {
+    syncOperation: {
+      create: ({ data }: { data: Partial<FakeOperation> }) => {
+        if (
+          operations.some(
+            (operation) =>
+              operation.userId === data.userId &&
+              operation.clientOperationId === data.clientOperationId,
+          )
+        ) {
+          return Promise.reject(
+            new Prisma.PrismaClientKnownRequestError('Unique constraint', {
+              code: 'P2002',
+              clientVersion: 'test',
+            }),
+          );
+        }
+
+        const operation = {
+          id: `sync-${operations.length + 1}`,
+          status: SyncOperationStatus.PENDING,
+          result: null,
+          error: null,
+          ...data,
+        } as FakeOperation;
+        operations.push(operation);
+        return Promise.resolve(operation);
+      },
+      findUniqueOrThrow: ({
+        where,
+      }: {
+        where: {
+          id?: string;
+          userId_clientOperationId?: { clientOperationId: string };
+        };
+      }) =>
+        Promise.resolve(
+          operations.find(
+            (operation) =>
+              operation.id === where.id ||
+              operation.clientOperationId ===
+                where.userId_clientOperationId?.clientOperationId,
+          )!,
+        ),
+      updateMany: ({
+        where,
+        data,
+      }: {
+        where: OperationWhere;
+        data: Partial<FakeOperation>;
+      }) => {
+        const updated = operations.filter((operation) =>
+          matches(operation, where),
+        );
+        updated.forEach((operation) =>
+          Object.assign(operation, { updatedAt: new Date() }, data),
+        );
+        return Promise.resolve({ count: updated.length });
+      },
+    },
+    subLoan: {
+      findUnique: () => Promise.resolve({ status: 'PENDING' }),
+    },
+  };
+};
+
+describe('SyncService', () => {
+  let service: SyncService;
+  let operations: FakeOperation[];
+  let paymentsService: { registerPayment: jest.Mock };
+
+  const payment: SyncOperationDto = {
+    clientOperationId: 'op-1',
+    type: SyncOperationType.PAYMENT,
+    deviceTimestamp: '2026-03-10T10:00:00-03:00',
+    payment: { subLoanId: 'sub-1', amount: 1000, currency: Currency.ARS },
+  };
+
+  const sync = () =>
+    service.syncBatch('manager-1', UserRole.MANAGER, {
+      operations: [payment],
+    });
+
+  const pendingOperation = (minutesAgo: number): FakeOperation => ({
+    id: 'sync-1',
+    userId: 'manager-1',
+    clientOperationId: 'op-1',
+    type: SyncOperationType.PAYMENT,
+    status: SyncOperationStatus.PENDING,
+    deviceTimestamp: new Date('2026-03-10T13:00:00.000Z'),
+    result: null,
+    error: null,
+    updatedAt: new Date(Date.now() - minutesAgo * 60 * 1000),
+  });
+
+  // El pago guarda la operación dentro de su transacción (aquí, el mismo fake)
+  const commitPayment = async (
+    _userId: string,
+    _userRole: UserRole,
+    _dto: object,
+    saveResponse: (tx: object, response: object) => Promise<void>,
+  ) => {
+    const response = { payment: { id: 'payment-1' } };
+    await saveResponse(service['prisma'], response);
+    return response;
+  };
+
+  beforeEach(async () => {
+    operations = [];
+    paymentsService = { registerPayment: jest.fn(commitPayment) };
+
+    const module: TestingModule = await Test.createTestingModule({
+      providers: [
+        SyncService,
+        { provide: PrismaService, useValue: createFakePrisma(operations) },
+        { provide: PaymentsService, useValue: paymentsService },
+        { provide: CollectionRoutesService, useValue: {} },
+      ],
+    }).compile();
+
+    service = module.get<SyncService>(SyncService);
+  });
+
+  it('should apply a payment once and return the stored result when resent', async () => {
+    expect((await sync()).applied).toBe(1);
+
+    const resent = await sync();
+
+    expect(resent.results[0]).toMatchObject({
+      status: SyncOperationStatus.APPLIED,
+      duplicate: true,
+    });
+    expect(paymentsService.registerPayment).toHaveBeenCalledTimes(1);
+  });
+
+  it('should not retry an operation that is still being processed', async () => {
+    operations.push(pendingOperation(1));
+
+    const result = await sync();
+
+    expect(result.results[0]).toMatchObject({
+      status: SyncOperationStatus.PENDING,
+      error: 'La operación todavía se está procesando',
+    });
+    expect(paymentsService.registerPayment).not.toHaveBeenCalled();
+  });
+
+  it('should take over an operation abandoned in PENDING', async () => {
+    operations.push(pendingOperation(15));
+
+    const result = await sync();
+
+    expect(result.applied).toBe(1);
+    expect(operations[0].status).toBe(SyncOperationStatus.APPLIED);
+  });
+
+  it('should not commit the payment of an attempt another resend took over', async () => {
+    paymentsService.registerPayment.mockImplementation(
+      async (...args: Parameters<typeof commitPayment>) => {
+        // Otro reenvío toma la operación mientras el pago está en curso
+        operations[0].updatedAt = new Date(
+          operations[0].updatedAt.getTime() + 1000,
+        );
+        return commitPayment(...args);
+      },
+    );
+
+    const result = await sync();
+
+    expect(result.results[0].status).toBe(SyncOperationStatus.PENDING);
+    expect(operations[0].status).toBe(SyncOperationStatus.PENDING);
+  });
+});
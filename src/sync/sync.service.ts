@@ -0,0 +1,405 @@
+import { Injectable, BadRequestException } from '@nestjs/common';
+import { Prisma, SubLoanStatus } from '@prisma/client';
+import { PrismaService } from '../prisma/prisma.service';
+import { PaymentsService } from '../payments/payments.service';
+import { CollectionRoutesService } from '../collection-routes/collection-routes.service';
+import { SyncBatchDto, SyncOperationDto } from './dto';
+import {
+  SyncOperationStatus,
+  SyncOperationType,
+  UserRole,
+} from '../common/enums';
+import { DateUtil } from '../common/utils';
+
+/**
+ * Resultado de una operación sincronizada
+ */
+export interface SyncOperationResult {
+  clientOperationId: string;
+  type: SyncOperationType;
+  status: SyncOperationStatus;
+  duplicate: boolean;
+  result?: unknown;
+  error?: string | null;
+}
+
+/**
+ * Reserva de una operación para aplicarla: claimedAt la distingue de otros reenvíos
+ */
+interface SyncClaim {
+  id: string;
+  claimedAt: Date;
+}
+
+/**
+ * Sincronización de las operaciones que los cobradores capturan sin conexión.
+ * Cada operación se identifica por el ID que genera el dispositivo y se aplica a lo sumo
+ * una vez: si se reenvía se devuelve el resultado guardado. Solo las operaciones que
+ * fallaron por un error (FAILED) pueden volver a intentarse; un pago guarda APPLIED en
+ * su propia transacción, así que un pago registrado nunca queda FAILED. Una operación
+ * que quedó PENDING por más de PENDING_TIMEOUT_MINUTES (el proceso se cayó a mitad de
+ * camino) se toma de nuevo en el siguiente reenvío.
+ */
+@Injectable()
+export class SyncService {
+  // Una operación PENDING sin cambios después de este tiempo se considera abandonada
+  private static readonly PENDING_TIMEOUT_MINUTES = 10;
+
+  constructor(
+    private prisma: PrismaService,
+    private paymentsService: PaymentsService,
+    private collectionRoutesService: CollectionRoutesService,
+  ) {}
+
+  /**
+   * Aplica las operaciones del lote en el orden recibido. Un conflicto o error en una
+   * operación no detiene las siguientes.
+   */
+  async syncBatch(userId: string, userRole: UserRole, syncDto: SyncBatchDto) {
+    const ids = syncDto.operations.map((op) => op.clientOperationId);
+    if (new Set(ids).size !== ids.length) {
+      throw new BadRequestException(
+        'El lote tiene operaciones con el mismo clientOperationId',
+      );
+    }
+
+    const results: SyncOperationResult[] = [];
+    for (const operation of syncDto.operations) {
+      results.push(await this.syncOperation(userId, userRole, operation));
+    }
+
+    const count = (status: SyncOperationStatus) =>
+      results.filter((r) => r.status === status).length;
+
+    return {
+      total: results.length,
+      applied: count(SyncOperationStatus.APPLIED),
+      conflicts: count(SyncOperationStatus.CONFLICT),
+      failed: count(SyncOperationStatus.FAILED),
+      results,
+    };
+  }
+
+  private async syncOperation(
+    userId: string,
+    userRole: UserRole,
+    operation: SyncOperationDto,
+  ): Promise<SyncOperationResult> {
+    const deviceTimestamp = DateUtil.fromISO(
+      operation.deviceTimestamp,
+    ).toJSDate();
+
+    const { claimed, previous } = await this.claim(
+      userId,
+      operation,
+      deviceTimestamp,
+    );
+    if (!claimed) {
+      return previous!;
+    }
+
+    const conflict = await this.detectConflict(operation);
+    if (conflict) {
+      return this.finish(claimed, operation, SyncOperationStatus.CONFLICT, {
+        error: conflict,
+      });
+    }
+
+    let result: unknown;
+    try {
+      result = await this.apply(userId, userRole, operation, claimed);
+    } catch (error) {
+      return this.finish(claimed, operation, SyncOperationStatus.FAILED, {
+        error: error instanceof Error ? error.message : String(error),
+      });
+    }
+
+    return this.finish(claimed, operation, SyncOperationStatus.APPLIED, {
+      result,
+    });
+  }
+
+  /**
+   * Reserva la operación. Si ya fue recibida devuelve su resultado guardado, salvo que
+   * haya fallado o haya quedado abandonada en PENDING: en ese caso se vuelve a reservar
+   * para reintentarla. claimedAt identifica la reserva: solo esa puede confirmar un pago.
+   */
+  private async claim(
+    userId: string,
+    operation: SyncOperationDto,
+    deviceTimestamp: Date,
+  ): Promise<{ claimed?: SyncClaim; previous?: SyncOperationResult }> {
+    const claimedAt = DateUtil.now().toJSDate();
+
+    try {
+      const record = await this.prisma.syncOperation.create({
+        data: {
+          userId,
+          clientOperationId: operation.clientOperationId,
+          type: operation.type,
+          deviceTimestamp,
+          updatedAt: claimedAt,
+        },
+        select: { id: true },
+      });
+
+      return { claimed: { id: record.id, claimedAt } };
+    } catch (error) {
+      if (
+        !(error instanceof Prisma.PrismaClientKnownRequestError) ||
+        error.code !== 'P2002'
+      ) {
+        throw error;
+      }
+    }
+
+    const existing = await this.prisma.syncOperation.findUniqueOrThrow({
+      where: {
+        userId_clientOperationId: {
+          userId,
+          clientOperationId: operation.clientOperationId,
+        },
+      },
+    });
+
+    if (existing.status === SyncOperationStatus.FAILED) {
+      const retry = await this.prisma.syncOperation.updateMany({
+        where: { id: existing.id, status: SyncOperationStatus.FAILED },
+        data: {
+          status: SyncOperationStatus.PENDING,
+          deviceTimestamp,
+          error: null,
+          updatedAt: claimedAt,
+        },
+      });
+
+      if (retry.count === 1) {
+        return { claimed: { id: existing.id, claimedAt } };
+      }
+    }
+
+    // Tomar una operación abandonada. Un pago confirmado deja la operación APPLIED en
+    // su misma transacción, así que una operación PENDING no tiene pago registrado; si
+    // el intento original sigue en curso, ya no puede confirmarlo (ver apply)
+    const pendingCutoff = DateUtil.now()
+      .minus({ minutes: SyncService.PENDING_TIMEOUT_MINUTES })
+      .toJSDate();
+    if (
+      existing.status === SyncOperationStatus.PENDING &&
+      existing.updatedAt < pendingCutoff
+    ) {
+      const takeover = await this.prisma.syncOperation.updateMany({
+        where: {
+          id: existing.id,
+          status: SyncOperationStatus.PENDING,
+          updatedAt: { lt: pendingCutoff },
+        },
+        data: { deviceTimestamp, updatedAt: claimedAt },
+      });
+
+      if (takeover.count === 1) {
+        return { claimed: { id: existing.id, claimedAt } };
+      }
+    }
+
+    return {
+      previous: {
+        clientOperationId: existing.clientOperationId,
+        type: existing.type as SyncOperationType,
+        status: existing.status as SyncOperationStatus,
+        duplicate: true,
+        result: existing.result ?? undefined,
+        error:
+          existing.status === SyncOperationStatus.PENDING
+            ? 'La operación todavía se está procesando'
+            : existing.error,
+      },
+    };
+  }
+
+  /**
+   * Conflictos con el estado actual del servidor: la operación ya no tiene sentido
+   * y no se aplica
+   */
+  private async detectConflict(
+    operation: SyncOperationDto,
+  ): Promise<string | null> {
+    switch (operation.type) {
+      case SyncOperationType.PAYMENT: {
+        const subLoan = await this.prisma.subLoan.findUnique({
+          where: { id: operation.payment!.subLoanId },
+          select: { status: true },
+        });
+
+        // No se usa la reversión del pago del mismo día: el pago offline no reemplaza
+        // uno ya registrado
+        if (subLoan?.status === SubLoanStatus.PAID) {
+          return 'La cuota ya está pagada';
+        }
+        return null;
+      }
+
+      case SyncOperationType.ROUTE_EXPENSE: {
+        const route = await this.prisma.dailyCollectionRoute.findUnique({
+          where: { id: operation.routeExpense!.routeId },
+          select: { status: true },
+        });
+
+        if (route && route.status !== 'ACTIVE') {
+          return 'La ruta ya fue cerrada';
+        }
+        return null;
+      }
+
+      case SyncOperationType.ROUTE_ITEM_NOTE:
+      case SyncOperationType.ROUTE_ITEM_VISIT: {
+        const itemId =
+          operation.type === SyncOperationType.ROUTE_ITEM_NOTE
+            ? operation.routeItemNote!.itemId
+            : operation.routeItemVisit!.itemId;
+        const item = await this.prisma.collectionRouteItem.findUnique({
+          where: { id: itemId },
+          select: { route: { select: { status: true } } },
+        });
+
+        if (item && item.route.status !== 'ACTIVE') {
+          return 'La ruta ya fue cerrada';
+        }
+        return null;
+      }
+
+      default:
+        return null;
+    }
+  }
+
+  /**
+   * Aplica la operación. El pago marca la operación como APPLIED dentro de su
+   * transacción, solo si sigue siendo la reserva claimedAt (si otro reenvío la tomó,
+   * el pago se revierte), y nunca reemplaza el pago del día de una cuota ya pagada.
+   */
+  private async apply(
+    userId: string,
+    userRole: UserRole,
+    operation: SyncOperationDto,
+    claimed: SyncClaim,
+  ): Promise<unknown> {
+    switch (operation.type) {
+      case SyncOperationType.PAYMENT:
+        return this.paymentsService.registerPayment(
+          userId,
+          userRole,
+          {
+            ...operation.payment!,
+            paymentDate:
+              operation.payment!.paymentDate ?? operation.deviceTimestamp,
+          },
+          async (tx, response) => {
+            const applied = await tx.syncOperation.updateMany({
+              where: {
+                id: claimed.id,
+                status: SyncOperationStatus.PENDING,
+                updatedAt: claimed.claimedAt,
+              },
+              data: {
+                status: SyncOperationStatus.APPLIED,
+                result: this.toJson(response),
+                error: null,
+              },
+            });
+            if (applied.count !== 1) {
+              throw new BadRequestException(
+                'La operación fue tomada por otro reenvío',
+              );
+            }
+          },
+          { replaceSameDayPayment: false },
+        );
+
+      case SyncOperationType.ROUTE_EXPENSE: {
+        const { routeId, ...expense } = operation.routeExpense!;
+        return this.collectionRoutesService.createRouteExpense(
+          routeId,
+          userId,
+          userRole,
+          expense,
+        );
+      }
+
+      case SyncOperationType.ROUTE_ITEM_NOTE:
+        return this.collectionRoutesService.updateRouteItemNotes(
+          operation.routeItemNote!.itemId,
+          userId,
+          userRole,
+          operation.routeItemNote!.notes,
+        );
+
+      case SyncOperationType.ROUTE_ITEM_VISIT: {
+        const { itemId, ...visit } = operation.routeItemVisit!;
+        return this.collectionRoutesService.recordVisitOutcome(
+          itemId,
+          userId,
+          userRole,
+          { ...visit, visitedAt: visit.visitedAt ?? operation.deviceTimestamp },
+        );
+      }
+
+      default:
+        throw new BadRequestException('Tipo de operación no soportado');
+    }
+  }
+
+  /**
+   * Guarda el estado final. Si la operación ya quedó APPLIED (un pago cuyo commit se
+   * hizo antes de que algo fallara) o la tomó otro reenvío, no se pisa y se devuelve
+   * lo guardado.
+   */
+  private async finish(
+    { id, claimedAt }: SyncClaim,
+    operation: SyncOperationDto,
+    status: SyncOperationStatus,
+    outcome: { result?: unknown; error?: string },
+  ): Promise<SyncOperationResult> {
+    const result =
+      outcome.result === undefined ? undefined : this.toJson(outcome.result);
+
+    const updated = await this.prisma.syncOperation.updateMany({
+      where: {
+        id,
+        OR: [
+          { status: SyncOperationStatus.PENDING, updatedAt: claimedAt },
+          { status },
+        ],
+      },
+      data: { status, result, error: outcome.error ?? null },
+    });
+
+    if (updated.count === 0) {
+      const stored = await this.prisma.syncOperation.findUniqueOrThrow({
+        where: { id },
+      });
+
+      return {
+        clientOperationId: operation.clientOperationId,
+        type: operation.type,
+        status: stored.status as SyncOperationStatus,
+        duplicate: false,
+        result: stored.result ?? undefined,
+        error: stored.error,
+      };
+    }
+
+    return {
+      clientOperationId: operation.clientOperationId,
+      type: operation.type,
+      status,
+      duplicate: false,
+      result,
+      error: outcome.error ?? null,
+    };
+  }
+
+  private toJson(value: unknown): Prisma.InputJsonValue {
+    return JSON.parse(JSON.stringify(value)) as Prisma.InputJsonValue;
+  }
+}
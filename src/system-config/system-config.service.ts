@@ -34,6 +34,12 @@ export class SystemConfigService {
   private getDefaultValue(key: ConfigKey): number {
     const defaults = {
       [ConfigKey.ADMIN_MAX_CLIENTS]: 450,
+      [ConfigKey.LOAN_DEFAULT_OVERDUE_DAYS]: 0,
+      [ConfigKey.EARLY_PAYOFF_UNEARNED_INTEREST_PERCENT]: 0,
+      [ConfigKey.ROUTE_OVERDUE_LOOKBACK_DAYS]: 30,
+      [ConfigKey.ROUTE_ITEM_PRIORITY]: 0,
+      [ConfigKey.NOT_HOME_FLAG_THRESHOLD]: 3,
+      [ConfigKey.NOT_HOME_WINDOW_DAYS]: 30,
     };
 
     return defaults[key] || 0;
@@ -46,6 +52,42 @@ export class SystemConfigService {
         value: 450,
         description: 'Maximum number of clients quota for each ADMIN',
       },
+      {
+        key: ConfigKey.LOAN_DEFAULT_OVERDUE_DAYS,
+        value: 0,
+        description:
+          'Days a SubLoan can stay OVERDUE before its loan is marked DEFAULTED (0 disables the rule)',
+      },
+      {
+        key: ConfigKey.EARLY_PAYOFF_UNEARNED_INTEREST_PERCENT,
+        value: 0,
+        description:
+          'Percentage (0-100) of the unearned interest of not-yet-due SubLoans charged on early payoff (0 rebates it all)',
+      },
+      {
+        key: ConfigKey.ROUTE_OVERDUE_LOOKBACK_DAYS,
+        value: 30,
+        description:
+          'Days back the daily route looks for OVERDUE and PARTIAL SubLoans (0 only includes SubLoans due today)',
+      },
+      {
+        key: ConfigKey.ROUTE_ITEM_PRIORITY,
+        value: 0,
+        description:
+          'Daily route client order: 0 due today first, 1 oldest debt first, 2 highest amount owed first',
+      },
+      {
+        key: ConfigKey.NOT_HOME_FLAG_THRESHOLD,
+        value: 3,
+        description:
+          'Routes within NOT_HOME_WINDOW_DAYS with a NOT_HOME visit outcome before a client is flagged (0 disables the flag)',
+      },
+      {
+        key: ConfigKey.NOT_HOME_WINDOW_DAYS,
+        value: 30,
+        description:
+          'Days back (up to the route date) in which NOT_HOME visits of a client are counted',
+      },
     ];
 
     for (const config of configs) {
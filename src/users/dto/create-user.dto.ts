@@ -8,9 +8,12 @@ import {
   Min,
   IsNumber,
   Max,
+  IsBoolean,
+  IsLatitude,
+  IsLongitude,
 } from 'class-validator';
 import { ApiProperty, ApiPropertyOptional } from '@nestjs/swagger';
-import { UserRole } from 'src/common/enums';
+import { PaymentAllocationStrategy, UserRole } from 'src/common/enums';
 
 export class CreateUserDto {
   @ApiProperty({ example: 'user@example.com' })
@@ -58,4 +61,50 @@ export class CreateUserDto {
   @Min(0)
   @Max(100)
   commission?: number;
+
+  @ApiPropertyOptional({
+    example: false,
+    description:
+      'Si es true, los préstamos creados por los managers de este usuario quedan PENDING hasta ser aprobados. Solo aplica para SUBADMIN.',
+  })
+  @IsOptional()
+  @IsBoolean()
+  requiresLoanApproval?: boolean;
+
+  @ApiPropertyOptional({
+    enum: PaymentAllocationStrategy,
+    example: PaymentAllocationStrategy.TARGET_FIRST,
+    description:
+      'Cómo se imputan los pagos de los préstamos de los managers de este usuario. Solo aplica para SUBADMIN.',
+  })
+  @IsOptional()
+  @IsEnum(PaymentAllocationStrategy)
+  allocationStrategy?: PaymentAllocationStrategy;
+
+  @ApiPropertyOptional({
+    example: false,
+    description:
+      'Si es true, lo que se pague de más sobre las cuotas vencidas queda como saldo a favor del cliente en vez de adelantar cuotas. Solo aplica para SUBADMIN.',
+  })
+  @IsOptional()
+  @IsBoolean()
+  keepExcessAsCredit?: boolean;
+
+  @ApiPropertyOptional({
+    example: -34.603722,
+    description:
+      'Latitud del punto de partida de la ruta de cobro. Solo aplica para MANAGER.',
+  })
+  @IsOptional()
+  @IsLatitude()
+  homeLatitude?: number;
+
+  @ApiPropertyOptional({
+    example: -58.381592,
+    description:
+      'Longitud del punto de partida de la ruta de cobro. Solo aplica para MANAGER.',
+  })
+  @IsOptional()
+  @IsLongitude()
+  homeLongitude?: number;
 }
@@ -1,5 +1,9 @@
 import { ApiProperty, ApiPropertyOptional } from '@nestjs/swagger';
-import { UserRole, Currency } from 'src/common/enums';
+import {
+  UserRole,
+  Currency,
+  PaymentAllocationStrategy,
+} from 'src/common/enums';
 
 export class WalletInfoDto {
   @ApiProperty({ description: 'ID de la cartera' })
@@ -50,6 +54,39 @@ export class UserResponseDto {
   })
   commission?: number | null;
 
+  @ApiPropertyOptional({
+    description:
+      'Si los préstamos de sus managers requieren aprobación (solo SUBADMIN)',
+    example: false,
+  })
+  requiresLoanApproval?: boolean;
+
+  @ApiPropertyOptional({
+    enum: PaymentAllocationStrategy,
+    description: 'Estrategia de imputación de pagos (solo SUBADMIN)',
+    example: PaymentAllocationStrategy.TARGET_FIRST,
+  })
+  allocationStrategy?: PaymentAllocationStrategy;
+
+  @ApiPropertyOptional({
+    description:
+      'El excedente sobre las cuotas vencidas queda como saldo a favor (solo SUBADMIN)',
+    example: false,
+  })
+  keepExcessAsCredit?: boolean;
+
+  @ApiPropertyOptional({
+    description: 'Latitud del punto de partida de la ruta (solo MANAGER)',
+    example: -34.603722,
+  })
+  homeLatitude?: number | null;
+
+  @ApiPropertyOptional({
+    description: 'Longitud del punto de partida de la ruta (solo MANAGER)',
+    example: -58.381592,
+  })
+  homeLongitude?: number | null;
+
   @ApiPropertyOptional({
     type: WalletInfoDto,
     nullable: true,
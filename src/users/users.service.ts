@@ -18,7 +18,12 @@ import { DateUtil } from '../common/utils';
 import { SystemConfigService } from '../system-config/system-config.service';
 import { WalletService } from '../wallet/wallet.service';
 import * as bcrypt from 'bcryptjs';
-import { UserRole, ConfigKey } from '../common/enums';
+import {
+  UserRole,
+  ConfigKey,
+  PaymentStatus,
+  PaymentAllocationStrategy,
+} from '../common/enums';
 import {
   convertPrismaUserToResponse,
   convertPrismaUserRole,
@@ -88,6 +93,27 @@ export class UsersService {
       createdById: currentUser.id,
       clientQuota: clientQuota,
       usedClientQuota: 0,
+      requiresLoanApproval:
+        createUserDto.role === UserRole.SUBADMIN
+          ? (createUserDto.requiresLoanApproval ?? false)
+          : false,
+      allocationStrategy:
+        createUserDto.role === UserRole.SUBADMIN
+          ? (createUserDto.allocationStrategy ??
+            PaymentAllocationStrategy.TARGET_FIRST)
+          : PaymentAllocationStrategy.TARGET_FIRST,
+      keepExcessAsCredit:
+        createUserDto.role === UserRole.SUBADMIN
+          ? (createUserDto.keepExcessAsCredit ?? false)
+          : false,
+      homeLatitude:
+        createUserDto.role === UserRole.MANAGER
+          ? createUserDto.homeLatitude
+          : undefined,
+      homeLongitude:
+        createUserDto.role === UserRole.MANAGER
+          ? createUserDto.homeLongitude
+          : undefined,
     };
 
     // Create user and update parent's used quota in a transaction
@@ -149,6 +175,11 @@ export class UsersService {
           role: true,
           clientQuota: true,
           usedClientQuota: true,
+          requiresLoanApproval: true,
+          allocationStrategy: true,
+          keepExcessAsCredit: true,
+          homeLatitude: true,
+          homeLongitude: true,
           createdAt: true,
           updatedAt: true,
         },
@@ -191,6 +222,11 @@ export class UsersService {
         role: true,
         clientQuota: true,
         usedClientQuota: true,
+        requiresLoanApproval: true,
+        allocationStrategy: true,
+        keepExcessAsCredit: true,
+        homeLatitude: true,
+        homeLongitude: true,
         createdAt: true,
         updatedAt: true,
         wallet: {
@@ -261,6 +297,35 @@ export class UsersService {
       await this.validateUniqueFieldsUpdate(id, updateUserDto);
     }
 
+    if (
+      updateUserDto.requiresLoanApproval !== undefined &&
+      (updateUserDto.role ?? existingUser.role) !== UserRole.SUBADMIN
+    ) {
+      throw new BadRequestException(
+        'La aprobación de préstamos solo se puede configurar para SUBADMIN',
+      );
+    }
+
+    if (
+      (updateUserDto.allocationStrategy !== undefined ||
+        updateUserDto.keepExcessAsCredit !== undefined) &&
+      (updateUserDto.role ?? existingUser.role) !== UserRole.SUBADMIN
+    ) {
+      throw new BadRequestException(
+        'La estrategia de imputación de pagos solo se puede configurar para SUBADMIN',
+      );
+    }
+
+    if (
+      (updateUserDto.homeLatitude !== undefined ||
+        updateUserDto.homeLongitude !== undefined) &&
+      (updateUserDto.role ?? existingUser.role) !== UserRole.MANAGER
+    ) {
+      throw new BadRequestException(
+        'El punto de partida de la ruta solo se puede configurar para MANAGER',
+      );
+    }
+
     const updateData: any = { ...updateUserDto };
     if (updateUserDto.password) {
       updateData.password = await bcrypt.hash(updateUserDto.password, 12);
@@ -286,6 +351,11 @@ export class UsersService {
           role: true,
           clientQuota: true,
           usedClientQuota: true,
+          requiresLoanApproval: true,
+          allocationStrategy: true,
+          keepExcessAsCredit: true,
+          homeLatitude: true,
+          homeLongitude: true,
           createdAt: true,
           updatedAt: true,
           wallet: {
@@ -430,6 +500,11 @@ export class UsersService {
         role: true,
         clientQuota: true,
         usedClientQuota: true,
+        requiresLoanApproval: true,
+        allocationStrategy: true,
+        keepExcessAsCredit: true,
+        homeLatitude: true,
+        homeLongitude: true,
         createdAt: true,
         updatedAt: true,
         wallet: {
@@ -847,15 +922,16 @@ export class UsersService {
 
     return clients.map((client) => {
       const totalLoans = client.loans.length;
-      const activeLoans = client.loans.filter(
-        (loan) => loan.status === 'ACTIVE',
-      ).length;
+      // Los préstamos aprobados también están en curso
+      const isActive = (loan: { status: string }) =>
+        loan.status === 'ACTIVE' || loan.status === 'APPROVED';
+      const activeLoans = client.loans.filter(isActive).length;
       const totalAmount = client.loans.reduce(
         (sum, loan) => sum + Number(loan.amount),
         0,
       );
       const activeAmount = client.loans
-        .filter((loan) => loan.status === 'ACTIVE')
+        .filter(isActive)
         .reduce((sum, loan) => sum + Number(loan.amount), 0);
       const lastLoanDate =
         client.loans.length > 0
@@ -979,6 +1055,7 @@ export class UsersService {
                   currency: true,
                   paymentDate: true,
                   description: true,
+                  status: true,
                   createdAt: true,
                 },
                 orderBy: {
@@ -1290,6 +1367,7 @@ export class UsersService {
     if (loanIds.length > 0) {
       const pagosEsteMes = await this.prisma.payment.findMany({
         where: {
+          status: PaymentStatus.COMPLETED,
           subLoan: {
             loanId: { in: loanIds },
           },
@@ -1314,7 +1392,7 @@ export class UsersService {
       const prestamosActivos = await this.prisma.loan.findMany({
         where: {
           id: { in: loanIds },
-          status: 'ACTIVE',
+          status: { in: ['ACTIVE', 'APPROVED'] },
           deletedAt: null,
         },
         include: {